@@ -5,6 +5,8 @@ import { UI_TOKENS, LAYOUT_BREAKPOINTS, HEADER_DOCK_TOKENS } from "../utils/Them
 import { BoundFieldState } from "../data/Interfaces";
 import { getProgressLineDateModeLabel, getProgressLineReferenceLabel } from "../utils/ProgressLine";
 import type { ProgressLineDateMode, ProgressLineReference } from "../utils/ProgressLine";
+import { formatWhatIfShift } from "../utils/WhatIfSimulation";
+import { PLAYBACK_SPEEDS } from "../utils/ScheduleSnapshots";
 import {
     DEFAULT_SYSTEM_FONT_STACK,
     snapSvgCoordinateAttribute,
@@ -55,6 +57,20 @@ export interface HeaderCallbacks {
     onToggleWbsEnable: () => void;
     onFloatThresholdChanged: (value: number) => void;
     onHelp: () => void;
+    onScheduleCheck: () => void;
+    onScheduleRisk: () => void;
+    onScheduleAssessment: () => void;
+    onOpenEnds: () => void;
+    onRedundantLogic: () => void;
+    onFloatErosion: () => void;
+    onToggleMilestoneTrend: () => void;
+    onWhatIfChanged: (delayDays: number, durationChangeDays: number) => void;
+    onPathTargetChanged: (taskId: string | null) => void;
+    onComparisonSnapshotChanged: (key: string) => void;
+    onPlaybackFrameChanged: (index: number) => void;
+    onTogglePlayback: () => void;
+    onPlaybackSpeedChanged: (speed: number) => void;
+    onExportPlaybackFrames: () => void;
     onExport: () => void;
     onExportHtml: () => void;
     onCopy: () => void;
@@ -99,6 +115,45 @@ export interface HeaderState {
     lookAheadAvailable: boolean;
     lookAheadWindowDays: number;
     lookAheadDisplayMode: "filter" | "highlight";
+    /** Tasks flagged by the CPM verification pass; null when verification is off. */
+    scheduleCheckIssueCount: number | null;
+    /** Monte Carlo header status such as "P80 12-Mar-27"; null when the simulation is off. */
+    scheduleRiskStatus: string | null;
+    /** DCMA header status such as "9/13 pass"; null when the assessment is off. */
+    scheduleAssessmentStatus: string | null;
+    /** Activities with open ends or dangling logic. */
+    openEndCount: number;
+    /** True while the chart shows only open-end activities. */
+    openEndsFilterActive: boolean;
+    /** Relationships implied by other logic; null until checked or when too large to check. */
+    redundantRelationshipCount: number | null;
+    /** Float erosion header status such as "4 changed"; null without Previous Update Total Float. */
+    criticalPathChangeStatus: string | null;
+    /** True while the Milestone Trend chart replaces the Gantt. */
+    milestoneTrendActive: boolean;
+    /** Name of the selected task the what-if scenario applies to; null without a selection. */
+    whatIfTaskName: string | null;
+    whatIfDelayDays: number;
+    whatIfDurationChangeDays: number;
+    /** Latest finish movement of the active scenario in days; null when no scenario is active. */
+    whatIfFinishShiftDays: number | null;
+    /** Longest Path target picker entries; empty outside Longest Path mode. */
+    pathTargetOptions: Array<{ value: string; label: string }>;
+    /** Active Longest Path target; null routes into the latest finish. */
+    pathTargetTaskId: string | null;
+    /** Comparison update picker entries; empty without earlier snapshots. */
+    comparisonSnapshotOptions: Array<{ value: string; label: string }>;
+    /** Option compared against for Previous Update bars and the progress line. */
+    comparisonSnapshotKey: string;
+    /** Snapshots playback can step through; below 2 hides the control. */
+    playbackFrameCount: number;
+    /** Snapshot shown, 0-based; the last one is the latest update. */
+    playbackFrameIndex: number;
+    playbackFrameLabel: string;
+    playbackPlaying: boolean;
+    playbackSpeed: number;
+    /** False when reduced motion is preferred, leaving stepping only. */
+    playbackAutoplayAvailable: boolean;
 }
 
 type HeaderMenuSection = "Analysis" | "Timeline Layers" | "WBS" | "Actions";
@@ -110,7 +165,7 @@ interface HeaderMenuItem {
     status?: string;
     title?: string;
     disabled?: boolean;
-    kind?: "button" | "options" | "number" | "progressLine";
+    kind?: "button" | "options" | "number" | "progressLine" | "whatIf" | "pathTarget" | "comparisonSnapshot" | "playback";
     callback?: () => void;
 }
 
@@ -132,6 +187,8 @@ export class Header {
     private exportButtonLoading: boolean = false;
     private copySuccessTimeout: number | null = null;
     private controlsMenuOpen: boolean = false;
+    /** Playback button to refocus when the menu re-renders for a new frame. */
+    private pendingPlaybackFocus: string | null = null;
     private currentLayout: HeaderButtonLayout | null = null;
     private currentPalette: HeaderPalette = {};
     private readonly overflowMenuId: string;
@@ -1337,6 +1394,17 @@ export class Header {
             wbsEnable: state.wbsDataExists && (settings.wbsGrouping?.showWbsToggle?.value ?? true),
             wbsExpand: state.wbsDataExists && state.wbsEnabled,
             wbsCollapse: state.wbsDataExists && state.wbsEnabled,
+            scheduleCheck: true,
+            scheduleRisk: true,
+            scheduleAssessment: true,
+            openEnds: true,
+            redundantLogic: true,
+            floatErosion: true,
+            milestoneTrend: true,
+            whatIf: true,
+            pathTarget: state.currentMode === "longestPath",
+            comparisonSnapshot: state.comparisonSnapshotOptions.length > 0,
+            playback: state.playbackFrameCount > 1,
             copyButton: true,
             htmlExportButton: settings.generalSettings?.showExportButton?.value ?? true,
             exportButton: settings.generalSettings?.showExportButton?.value ?? true,
@@ -2971,6 +3039,7 @@ export class Header {
 
     private closeControlsMenu(returnFocus: boolean = true): void {
         this.controlsMenuOpen = false;
+        this.pendingPlaybackFocus = null;
         this.detachOverflowOutsideClickHandler();
 
         this.container.select<HTMLDivElement>("div.action-overflow-menu")
@@ -3289,6 +3358,112 @@ export class Header {
                 disabled: !state.wbsDataExists || !state.wbsEnabled,
                 callback: this.callbacks.onToggleWbsCollapse
             },
+            scheduleCheck: {
+                id: "scheduleCheck",
+                section: "Analysis",
+                label: "Schedule check",
+                status: state.scheduleCheckIssueCount === null
+                    ? "Off"
+                    : (state.scheduleCheckIssueCount > 0 ? `${state.scheduleCheckIssueCount} flagged` : "OK"),
+                title: "List tasks whose imported dates or float differ from an independent CPM pass.",
+                callback: this.callbacks.onScheduleCheck
+            },
+            scheduleRisk: {
+                id: "scheduleRisk",
+                section: "Analysis",
+                label: "Schedule risk",
+                status: state.scheduleRiskStatus ?? "Off",
+                title: "Monte Carlo P50/P80/P90 finishes, finish histogram and criticality index.",
+                callback: this.callbacks.onScheduleRisk
+            },
+            scheduleAssessment: {
+                id: "scheduleAssessment",
+                section: "Analysis",
+                label: "DCMA 14-point",
+                status: state.scheduleAssessmentStatus ?? "Off",
+                title: "DCMA 14-point schedule assessment with the activities behind each failing check.",
+                callback: this.callbacks.onScheduleAssessment
+            },
+            openEnds: {
+                id: "openEnds",
+                section: "Analysis",
+                label: "Open ends",
+                status: state.openEndsFilterActive
+                    ? "Filtered"
+                    : (state.openEndCount > 0 ? `${state.openEndCount} found` : "None"),
+                title: "List activities without a predecessor or successor, or with dangling start or finish logic.",
+                callback: this.callbacks.onOpenEnds
+            },
+            redundantLogic: {
+                id: "redundantLogic",
+                section: "Analysis",
+                label: "Redundant logic",
+                status: state.redundantRelationshipCount === null
+                    ? "Not checked"
+                    : (state.redundantRelationshipCount > 0 ? `${state.redundantRelationshipCount} found` : "None"),
+                title: "List relationships already implied by other logic, such as A to C when A to B to C exists.",
+                callback: this.callbacks.onRedundantLogic
+            },
+            floatErosion: {
+                id: "floatErosion",
+                section: "Analysis",
+                label: "Float erosion",
+                status: state.criticalPathChangeStatus ?? "No data",
+                title: "Activities that joined or left the critical and near-critical set since the previous update, ranked by lost float.",
+                callback: this.callbacks.onFloatErosion
+            },
+            milestoneTrend: {
+                id: "milestoneTrend",
+                section: "Analysis",
+                label: "Milestone trend",
+                status: state.milestoneTrendActive ? "On" : "Off",
+                title: "Switch between the Gantt and a Milestone Trend Analysis chart of milestone finishes across Baseline, Previous Update and current.",
+                callback: this.callbacks.onToggleMilestoneTrend
+            },
+            whatIf: {
+                id: "whatIf",
+                section: "Analysis",
+                label: "What-if delay",
+                status: state.whatIfFinishShiftDays === null
+                    ? "Off"
+                    : `Finish ${formatWhatIfShift(state.whatIfFinishShiftDays)}`,
+                title: state.whatIfTaskName
+                    ? `Delay or change the duration of ${state.whatIfTaskName} and preview the effect on its successors.`
+                    : "Select a task to preview the effect of a delay or duration change.",
+                disabled: !state.whatIfTaskName,
+                kind: "whatIf"
+            },
+            pathTarget: {
+                id: "pathTarget",
+                section: "Analysis",
+                label: "Path target",
+                status: state.pathTargetTaskId
+                    ? (state.pathTargetOptions.find(option => option.value === state.pathTargetTaskId)?.label ?? state.pathTargetTaskId)
+                    : "Latest finish",
+                title: state.pathTargetOptions.length > 0
+                    ? "Rank Longest Path routes into this task instead of the latest finish."
+                    : "No eligible path targets. Change Path Selection > Path Target Tasks to include activities.",
+                disabled: state.pathTargetOptions.length === 0 && !state.pathTargetTaskId,
+                kind: "pathTarget"
+            },
+            comparisonSnapshot: {
+                id: "comparisonSnapshot",
+                section: "Timeline Layers",
+                label: "Comparison update",
+                status: state.comparisonSnapshotOptions.find(option => option.value === state.comparisonSnapshotKey)?.label,
+                title: "Choose the earlier update that Previous Update bars, the progress line and float changes compare against.",
+                kind: "comparisonSnapshot"
+            },
+            playback: {
+                id: "playback",
+                section: "Timeline Layers",
+                label: "Playback",
+                status: state.playbackFrameIndex >= state.playbackFrameCount - 1 && !state.playbackPlaying
+                    ? "Latest"
+                    : `${state.playbackFrameIndex + 1} of ${state.playbackFrameCount}`,
+                title: "Step or play through the schedule updates from the Snapshot Date field.",
+                kind: "playback"
+            },
             html: { id: "html", section: "Actions", label: "Copy HTML", title: "Copy formatted HTML export to the clipboard.", callback: this.callbacks.onExportHtml },
             pdf: { id: "pdf", section: "Actions", label: "Export PDF", callback: this.callbacks.onExport },
             help: { id: "help", section: "Actions", label: "Help", callback: this.callbacks.onHelp }
@@ -3305,7 +3480,9 @@ export class Header {
             showProgressLine: this.currentState.progressLineVisible,
             showConnectorLines: this.currentState.showConnectorLines,
             showExtraColumns: this.currentState.showExtraColumns,
-            wbsEnabled: this.currentState.wbsEnabled
+            wbsEnabled: this.currentState.wbsEnabled,
+            whatIfActive: this.currentState.whatIfFinishShiftDays !== null,
+            pathTargetActive: this.currentState.pathTargetTaskId !== null
         });
     }
 
@@ -3429,6 +3606,33 @@ export class Header {
             return;
         }
 
+        if (item.kind === "whatIf") {
+            this.renderWhatIfMenuItem(sectionEl, item);
+            return;
+        }
+
+        if (item.kind === "pathTarget") {
+            this.renderPathTargetMenuItem(sectionEl, item);
+            return;
+        }
+
+        if (item.kind === "playback") {
+            this.renderPlaybackMenuItem(sectionEl, item);
+            return;
+        }
+
+        if (item.kind === "comparisonSnapshot") {
+            this.renderOptionListMenuItem(
+                sectionEl,
+                item,
+                this.currentState.comparisonSnapshotOptions,
+                this.currentState.comparisonSnapshotKey,
+                "Comparison update",
+                value => this.callbacks.onComparisonSnapshotChanged(value)
+            );
+            return;
+        }
+
         const textColor = this.getHeaderControlTextColor();
         const mutedTextColor = this.getHeaderChipMutedTextColor();
         const hoverBackground = this.getHeaderControlHoverBackground();
@@ -3983,4 +4187,414 @@ export class Header {
                 }
             });
     }
+
+    private renderWhatIfMenuItem(
+        sectionEl: Selection<HTMLDivElement, unknown, null, undefined>,
+        item: HeaderMenuItem
+    ): void {
+        const state = this.currentState;
+        const textColor = this.getHeaderControlTextColor();
+        const mutedTextColor = this.getHeaderChipMutedTextColor();
+        const activeColor = this.getHeaderPrimaryColor();
+        const inputBackground = this.getHeaderInputBackground();
+        const controlBackground = this.getHeaderControlBackground();
+        const hoverBackground = this.getHeaderControlHoverBackground();
+        const isActive = state.whatIfFinishShiftDays !== null;
+        const row = sectionEl.append("div")
+            .attr("class", "action-overflow-menu-item action-overflow-menu-field")
+            .attr("title", item.title ?? item.label)
+            .style("min-height", "58px")
+            .style("padding", "6px 8px")
+            .style("border-radius", `${UI_TOKENS.radius.small}px`)
+            .style("display", "flex")
+            .style("flex-direction", "column")
+            .style("align-items", "stretch")
+            .style("gap", "6px");
+
+        const headerLine = row.append("div")
+            .style("display", "flex")
+            .style("align-items", "center")
+            .style("justify-content", "space-between")
+            .style("gap", "8px");
+
+        headerLine.append("span")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "12px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", item.disabled ? mutedTextColor : textColor)
+            .text(item.label);
+
+        headerLine.append("span")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "11px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", item.disabled ? mutedTextColor : (isActive ? activeColor : textColor))
+            .style("white-space", "nowrap")
+            .text(item.status ?? "Off");
+
+        const fieldGrid = row.append("div")
+            .attr("role", "group")
+            .attr("aria-label", "What-if delay")
+            .style("display", "grid")
+            .style("grid-template-columns", "1fr 1fr auto")
+            .style("align-items", "end")
+            .style("gap", "6px");
+
+        const inputs: HTMLInputElement[] = [];
+        const submit = () => {
+            const [delayDays, durationChangeDays] = inputs.map(input => parseFloat(input.value));
+            if (Number.isFinite(delayDays) && Number.isFinite(durationChangeDays)) {
+                this.closeControlsMenu(true);
+                this.callbacks.onWhatIfChanged(delayDays, durationChangeDays);
+            }
+        };
+
+        const fields = [
+            { label: "Delay (d)", ariaLabel: "What-if delay in days", value: state.whatIfDelayDays },
+            { label: "Duration \u00B1 (d)", ariaLabel: "What-if duration change in days", value: state.whatIfDurationChangeDays }
+        ];
+        fields.forEach(field => {
+            const fieldEl = fieldGrid.append("label")
+                .style("display", "flex")
+                .style("flex-direction", "column")
+                .style("gap", "2px")
+                .style("min-width", "0");
+
+            fieldEl.append("span")
+                .style("font-family", HEADER_FONT_FAMILY)
+                .style("font-size", "11px")
+                .style("color", mutedTextColor)
+                .text(field.label);
+
+            const input = fieldEl.append("input")
+                .attr("type", "number")
+                .attr("step", "1")
+                .attr("aria-label", field.ariaLabel)
+                .attr("value", field.value)
+                .property("disabled", !!item.disabled)
+                .style("height", "24px")
+                .style("width", "100%")
+                .style("box-sizing", "border-box")
+                .style("padding", "0 4px")
+                .style("border", `1px solid ${this.getHeaderInputBorderColor()}`)
+                .style("border-radius", "4px")
+                .style("font-family", HEADER_FONT_FAMILY)
+                .style("font-size", "12px")
+                .style("font-weight", UI_TOKENS.fontWeight.semibold)
+                .style("text-align", "center")
+                .style("color", item.disabled ? mutedTextColor : textColor)
+                .style("background-color", item.disabled ? controlBackground : inputBackground)
+                .on("change", (event) => {
+                    event.stopPropagation();
+                    submit();
+                });
+            inputs.push(input.node()!);
+        });
+
+        fieldGrid.append("button")
+            .attr("type", "button")
+            .attr("title", "Clear the what-if scenario")
+            .property("disabled", !!item.disabled || !isActive)
+            .style("height", "24px")
+            .style("padding", "0 8px")
+            .style("border", `1px solid ${this.getHeaderInputBorderColor()}`)
+            .style("border-radius", "4px")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "11px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", item.disabled || !isActive ? mutedTextColor : textColor)
+            .style("background-color", controlBackground)
+            .style("cursor", item.disabled || !isActive ? "not-allowed" : "pointer")
+            .on("mouseover", function () {
+                if (!item.disabled && isActive) {
+                    select(this).style("background-color", hoverBackground);
+                }
+            })
+            .on("mouseout", function () {
+                select(this).style("background-color", controlBackground);
+            })
+            .on("click", (event) => {
+                event.stopPropagation();
+                if (item.disabled || !isActive) {
+                    return;
+                }
+
+                this.closeControlsMenu(true);
+                this.callbacks.onWhatIfChanged(0, 0);
+            })
+            .text("Clear");
+    }
+
+    /** Playback buttons keep the menu open so stepping can continue; focus follows the re-render. */
+    private renderPlaybackMenuItem(
+        sectionEl: Selection<HTMLDivElement, unknown, null, undefined>,
+        item: HeaderMenuItem
+    ): void {
+        const state = this.currentState;
+        const textColor = this.getHeaderControlTextColor();
+        const mutedTextColor = this.getHeaderChipMutedTextColor();
+        const activeColor = this.getHeaderPrimaryColor();
+        const controlBackground = this.getHeaderControlBackground();
+        const hoverBackground = this.getHeaderControlHoverBackground();
+        const lastIndex = state.playbackFrameCount - 1;
+        const row = sectionEl.append("div")
+            .attr("class", "action-overflow-menu-item action-overflow-menu-field")
+            .attr("title", item.title ?? item.label)
+            .style("padding", "6px 8px")
+            .style("border-radius", `${UI_TOKENS.radius.small}px`)
+            .style("display", "flex")
+            .style("flex-direction", "column")
+            .style("align-items", "stretch")
+            .style("gap", "6px");
+
+        const headerLine = row.append("div")
+            .style("display", "flex")
+            .style("align-items", "center")
+            .style("justify-content", "space-between")
+            .style("gap", "8px");
+
+        headerLine.append("span")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "12px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", textColor)
+            .text(item.label);
+
+        headerLine.append("span")
+            .attr("aria-live", "polite")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "11px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", state.playbackFrameIndex < lastIndex ? activeColor : textColor)
+            .style("white-space", "nowrap")
+            .style("overflow", "hidden")
+            .style("text-overflow", "ellipsis")
+            .text(`${state.playbackFrameLabel} (${item.status ?? ""})`);
+
+        const appendButtonRow = (ariaLabel: string) => row.append("div")
+            .attr("role", "group")
+            .attr("aria-label", ariaLabel)
+            .style("display", "flex")
+            .style("gap", "4px");
+
+        const appendButton = (
+            group: Selection<HTMLDivElement, unknown, null, undefined>,
+            action: string,
+            text: string,
+            title: string,
+            disabled: boolean,
+            pressed: boolean | null,
+            onClick: () => void
+        ): void => {
+            const button = group.append("button")
+                .attr("type", "button")
+                .attr("class", "playback-button")
+                .attr("data-playback-action", action)
+                .attr("title", title)
+                .attr("aria-label", title)
+                .property("disabled", disabled)
+                .style("flex", "1 1 auto")
+                .style("height", "24px")
+                .style("padding", "0 6px")
+                .style("border", `1px solid ${pressed ? activeColor : this.getHeaderInputBorderColor()}`)
+                .style("border-radius", "4px")
+                .style("font-family", HEADER_FONT_FAMILY)
+                .style("font-size", "11px")
+                .style("font-weight", UI_TOKENS.fontWeight.semibold)
+                .style("color", disabled ? mutedTextColor : (pressed ? activeColor : textColor))
+                .style("background-color", controlBackground)
+                .style("cursor", disabled ? "not-allowed" : "pointer")
+                .on("mouseover", function () {
+                    if (!disabled) {
+                        select(this).style("background-color", hoverBackground);
+                    }
+                })
+                .on("mouseout", function () {
+                    select(this).style("background-color", controlBackground);
+                })
+                .on("focus", () => {
+                    this.pendingPlaybackFocus = action;
+                })
+                .on("blur", (event: FocusEvent) => {
+                    // Removal by a re-render blurs without a new target; keep the button to refocus.
+                    if (event.relatedTarget) {
+                        this.pendingPlaybackFocus = null;
+                    }
+                })
+                .on("click", (event) => {
+                    event.stopPropagation();
+                    if (!disabled) {
+                        this.pendingPlaybackFocus = action;
+                        onClick();
+                    }
+                })
+                .text(text);
+            if (pressed !== null) {
+                button.attr("aria-pressed", String(pressed));
+            }
+        };
+
+        const steps = appendButtonRow("Playback steps");
+        appendButton(steps, "first", "\u23EE", "First update", state.playbackFrameIndex <= 0, null,
+            () => this.callbacks.onPlaybackFrameChanged(0));
+        appendButton(steps, "back", "\u25C0", "Previous update", state.playbackFrameIndex <= 0, null,
+            () => this.callbacks.onPlaybackFrameChanged(state.playbackFrameIndex - 1));
+        appendButton(steps, "play", state.playbackPlaying ? "Pause" : "Play",
+            state.playbackAutoplayAvailable
+                ? (state.playbackPlaying ? "Pause playback" : "Play through the updates")
+                : "Automatic playback is off because reduced motion is preferred; step through the updates instead.",
+            !state.playbackAutoplayAvailable, state.playbackPlaying,
+            () => this.callbacks.onTogglePlayback());
+        appendButton(steps, "next", "\u25B6", "Next update", state.playbackFrameIndex >= lastIndex, null,
+            () => this.callbacks.onPlaybackFrameChanged(state.playbackFrameIndex + 1));
+        appendButton(steps, "latest", "\u23ED", "Latest update", state.playbackFrameIndex >= lastIndex, null,
+            () => this.callbacks.onPlaybackFrameChanged(lastIndex));
+
+        const speeds = appendButtonRow("Playback speed");
+        for (const speed of PLAYBACK_SPEEDS) {
+            appendButton(speeds, `speed-${speed}`, `${speed}\u00D7`, `Playback speed ${speed}\u00D7`,
+                !state.playbackAutoplayAvailable, state.playbackSpeed === speed,
+                () => this.callbacks.onPlaybackSpeedChanged(speed));
+        }
+        appendButton(speeds, "export", "PNG frames", "Export one PNG per update for presentations", false, null, () => {
+            this.closeControlsMenu(true);
+            this.callbacks.onExportPlaybackFrames();
+        });
+
+        const focusAction = this.pendingPlaybackFocus;
+        if (focusAction) {
+            this.pendingPlaybackFocus = null;
+            const button = row.node()?.querySelector<HTMLButtonElement>(`button[data-playback-action="${focusAction}"]`);
+            if (button && !button.disabled) {
+                window.setTimeout(() => button.focus(), 0);
+            }
+        }
+    }
+
+    private renderPathTargetMenuItem(
+        sectionEl: Selection<HTMLDivElement, unknown, null, undefined>,
+        item: HeaderMenuItem
+    ): void {
+        const state = this.currentState;
+        this.renderOptionListMenuItem(
+            sectionEl,
+            item,
+            [{ value: "", label: "Latest finish" }, ...state.pathTargetOptions],
+            state.pathTargetTaskId ?? "",
+            "Longest Path target",
+            value => this.callbacks.onPathTargetChanged(value || null)
+        );
+    }
+
+    /** Labelled list of options inside the controls menu; choosing one closes the menu. */
+    private renderOptionListMenuItem(
+        sectionEl: Selection<HTMLDivElement, unknown, null, undefined>,
+        item: HeaderMenuItem,
+        options: Array<{ value: string; label: string }>,
+        activeValue: string,
+        ariaLabel: string,
+        onSelect: (value: string) => void
+    ): void {
+        const textColor = this.getHeaderControlTextColor();
+        const mutedTextColor = this.getHeaderChipMutedTextColor();
+        const inputBackground = this.getHeaderInputBackground();
+        const controlBackground = this.getHeaderControlBackground();
+        const row = sectionEl.append("div")
+            .attr("class", "action-overflow-menu-item action-overflow-menu-field")
+            .attr("title", item.title ?? item.label)
+            .style("min-height", "58px")
+            .style("padding", "6px 8px")
+            .style("border-radius", `${UI_TOKENS.radius.small}px`)
+            .style("display", "flex")
+            .style("flex-direction", "column")
+            .style("align-items", "stretch")
+            .style("gap", "6px");
+
+        row.append("span")
+            .style("font-family", HEADER_FONT_FAMILY)
+            .style("font-size", "12px")
+            .style("font-weight", UI_TOKENS.fontWeight.semibold)
+            .style("color", item.disabled ? mutedTextColor : textColor)
+            .text(item.label);
+
+        const activeColor = this.getHeaderPrimaryColor();
+        const hoverBackground = this.getHeaderControlHoverBackground();
+        const list = row.append("div")
+            .attr("class", "look-ahead-option-list path-target-option-list")
+            .attr("role", "listbox")
+            .attr("aria-label", ariaLabel)
+            .style("max-height", `${Math.min(LOOK_AHEAD_OPTION_ROW_HEIGHT * options.length, 168)}px`)
+            .style("overflow-y", "auto")
+            .style("box-sizing", "border-box")
+            .style("padding", "2px")
+            .style("display", "flex")
+            .style("flex-direction", "column")
+            .style("gap", "1px")
+            .style("border", `1px solid ${this.getHeaderInputBorderColor()}`)
+            .style("border-radius", "4px")
+            .style("background-color", item.disabled ? controlBackground : inputBackground);
+
+        const focusOption = (index: number): void => {
+            const buttons = Array.from(list.node()?.querySelectorAll<HTMLButtonElement>("button.path-target-option-button") ?? []);
+            if (buttons.length > 0) {
+                buttons[Math.max(0, Math.min(buttons.length - 1, index))]?.focus();
+            }
+        };
+
+        options.forEach((option, index) => {
+            const selected = option.value === activeValue;
+            list.append("button")
+                .attr("class", "path-target-option-button")
+                .attr("type", "button")
+                .attr("role", "option")
+                .attr("aria-selected", String(selected))
+                .attr("title", option.label)
+                .property("disabled", !!item.disabled)
+                .style("min-height", `${LOOK_AHEAD_OPTION_ROW_HEIGHT}px`)
+                .style("width", "100%")
+                .style("padding", "0 4px")
+                .style("border", `1px solid ${selected ? activeColor : "transparent"}`)
+                .style("border-radius", "3px")
+                .style("box-sizing", "border-box")
+                .style("font-family", HEADER_FONT_FAMILY)
+                .style("font-size", LOOK_AHEAD_SELECT_FONT_SIZE)
+                .style("font-weight", UI_TOKENS.fontWeight.semibold)
+                .style("text-align", "left")
+                .style("white-space", "nowrap")
+                .style("overflow", "hidden")
+                .style("text-overflow", "ellipsis")
+                .style("color", item.disabled ? mutedTextColor : (selected ? activeColor : textColor))
+                .style("background-color", "transparent")
+                .style("cursor", item.disabled ? "not-allowed" : "pointer")
+                .on("mouseover", function () {
+                    if (!item.disabled) {
+                        select(this).style("background-color", hoverBackground);
+                    }
+                })
+                .on("mouseout", function () {
+                    select(this).style("background-color", "transparent");
+                })
+                .on("click", (event) => {
+                    event.stopPropagation();
+                    if (item.disabled) {
+                        return;
+                    }
+
+                    this.closeControlsMenu(true);
+                    if (!selected) {
+                        onSelect(option.value);
+                    }
+                })
+                .on("keydown", (event: KeyboardEvent) => {
+                    if (event.key === "ArrowDown" || event.key === "ArrowUp" || event.key === "Home" || event.key === "End") {
+                        event.preventDefault();
+                        event.stopPropagation();
+                        focusOption(event.key === "ArrowDown" ? index + 1
+                            : event.key === "ArrowUp" ? index - 1
+                            : event.key === "Home" ? 0 : options.length - 1);
+                    }
+                })
+                .text(option.label);
+        });
+    }
 }
@@ -1,8 +1,26 @@
 
-import { Task, WBSGroup, Relationship, BoundFieldState, DataQualityInfo, ExtraColumnInfo } from "./Interfaces";
+import { Task, WBSGroup, Relationship, BoundFieldState, DataQualityInfo, ExtraColumnInfo, PredecessorTokenIssue, RelationshipFloatMethod, ScheduleSnapshot, TaskSnapshotState } from "./Interfaces";
 import { VisualSettings } from "../settings";
-import { normalizeRelationshipType, tryNormalizeRelationshipType } from "../utils/RelationshipLogic";
+import { getRelationshipIdentityKey, normalizeRelationshipType, tryNormalizeRelationshipType } from "../utils/RelationshipLogic";
+import { hasHardConstraint, isNoConstraintValue, tryNormalizeConstraintType } from "../utils/ConstraintLogic";
+import { getLatestFinishTaskIds, isRealFinishTask } from "../utils/LongestPathLogic";
 import { normalizeLegendCategory } from "../utils/VisualState";
+import { isInterProjectRelationship } from "../utils/ProjectGrouping";
+import { createCurtain } from "../utils/Curtains";
+import { applyReferenceSnapshot, applySnapshotState, getSnapshotKey, resolveReferenceSnapshot } from "../utils/ScheduleSnapshots";
+import type { Curtain } from "../utils/Curtains";
+import { parsePredecessorExpression } from "../utils/PredecessorExpression";
+import { DEFAULT_DURATION_UNIT_OPTIONS, parseDurationText, parseDurationValue, resolveDurationUnitOptions } from "../utils/DurationUnits";
+import type { DurationUnitOptions } from "../utils/DurationUnits";
+import type { PredecessorExpressionResult, PredecessorToken } from "../utils/PredecessorExpression";
+import {
+    WorkingCalendar,
+    addCalendarException,
+    createWorkingCalendar,
+    getCalendarKey,
+    inferWorkDaysFromName,
+    parseWorkDaysSpec
+} from "../utils/WorkingCalendar";
 import powerbi from "powerbi-visuals-api";
 import DataView = powerbi.DataView;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
@@ -42,37 +60,91 @@ export interface ProcessedData {
     hasTaskTotalFloat: boolean;
     hasRelationshipFreeFloat: boolean;
     dataQuality: DataQualityInfo;
+
+    // Calendars defined by bound rows, keyed by getCalendarKey(name)
+    calendars: Map<string, WorkingCalendar>;
+
+    // Shaded windows from Curtain rows and curtain-type tasks, ordered by start
+    curtains: Curtain[];
+
+    // Schedule updates from the Snapshot Date field, oldest first; the last holds the
+    // current rows. Empty when the field is not bound.
+    snapshots: ScheduleSnapshot[];
+    // Earlier snapshot standing in for the Previous Update fields, if any
+    referenceSnapshot: ScheduleSnapshot | null;
+    // Earlier snapshot whose dates replace the current ones during playback, if any
+    playbackSnapshot: ScheduleSnapshot | null;
 }
 
 type DataQualityContext = {
     missingPredecessorIds: string[];
+    missingSuccessorIds: string[];
+    invalidPredecessorTokens: PredecessorTokenIssue[];
     conflictingTaskRows: string[];
     conflictingScheduleTaskRows: string[];
+    relationshipOrientationConflicts: string[];
     relationshipCount: number;
     relationshipFreeFloatMissingCount: number;
     hasRelationshipFreeFloat: boolean;
+    relationshipFloatMethod: RelationshipFloatMethod;
     invalidRelationshipTypeCount: number;
     invalidRelationshipLagCount: number;
     selfRelationshipCount: number;
+    invalidConstraintTypeCount: number;
+    invalidCalendarValueCount: number;
+    invalidDurationValueCount: number;
+    circularPaths: string[];
+};
+
+type RelationshipRowData = {
+    predId: string;
+    relType: string;
+    lag: number | null;
+    /** MS Project "%" lag, resolved against the predecessor's duration once tasks exist. */
+    lagPercent: number | null;
+    freeFloat: number | null;
+    /** Which field well the row came from; Predecessor ID rows win orientation conflicts. */
+    source: "predecessor" | "successor";
+};
+
+type SuccessorShapedRelationship = RelationshipRowData & { succId: string };
+
+type RelationshipRowAttributes = {
+    relType: string;
+    hasTypeValue: boolean;
+    hasValidType: boolean;
+    lag: number | null;
+    lagPercent: number | null;
+    hasInvalidLag: boolean;
+    freeFloat: number | null;
+};
+
+/** Columns read from earlier-update rows, resolved once per transform. */
+type SnapshotColumnIndices = {
+    dataDate: number;
+    startDate: number;
+    finishDate: number;
+    totalFloat: number;
+    actualStartDate: number;
+    actualFinishDate: number;
+    percentComplete: ReturnType<DataProcessor["getRoleColumnInfo"]>;
 };
 
 type TaskRowBucket = {
     rows: any[];
     task: Task | null;
     rowIndex: number;
-    relationships: Array<{
-        predId: string;
-        relType: string;
-        lag: number | null;
-        freeFloat: number | null;
-    }>;
+    relationships: RelationshipRowData[];
 };
 
 export class DataProcessor {
+    public static readonly NO_PROJECT_GROUP_NAME = "(No Project)";
+
     private debug: boolean = false;
 
     private host: IVisualHost;
     private tooltipDebugLogged: boolean = false;
+    private durationUnitOptions: DurationUnitOptions = DEFAULT_DURATION_UNIT_OPTIONS;
 
     constructor(host: IVisualHost) {
         this.host = host;
@@ -99,7 +171,7 @@ export class DataProcessor {
     public getRoleColumnInfos(
         dataView: DataView,
         roleName: string
-    ): Array<{ column: { queryName?: string; displayName?: string; roles?: { [key: string]: boolean }; rolesIndex?: { [key: string]: number[] | number } }; index: number }> {
+    ): Array<{ column: { queryName?: string; displayName?: string; format?: string; roles?: { [key: string]: boolean }; rolesIndex?: { [key: string]: number[] | number } }; index: number }> {
         const tableColumns = dataView.table?.columns ?? [];
         const metadataColumns = dataView.metadata?.columns ?? [];
 
@@ -116,7 +188,7 @@ export class DataProcessor {
         });
 
         interface ColumnMatch {
-            column: { queryName?: string; displayName?: string; roles?: { [key: string]: boolean }; rolesIndex?: { [key: string]: number[] | number } };
+            column: { queryName?: string; displayName?: string; format?: string; roles?: { [key: string]: boolean }; rolesIndex?: { [key: string]: number[] | number } };
             index: number;
             bucketIndex: number | null;
             metaOrder: number;
@@ -196,7 +268,7 @@ export class DataProcessor {
     private getRoleColumnInfo(
         dataView: DataView,
         roleName: string
-    ): { column: { queryName?: string; displayName?: string; roles?: { [key: string]: boolean } }; index: number } | null {
+    ): { column: { queryName?: string; displayName?: string; format?: string; roles?: { [key: string]: boolean } }; index: number } | null {
         const matches = this.getRoleColumnInfos(dataView, roleName);
         return matches.length > 0 ? matches[0] : null;
     }
@@ -209,7 +281,9 @@ export class DataProcessor {
         lastExpandCollapseAllState: boolean | null,
         highContrastMode: boolean,
         highContrastForeground: string,
-        dataFetchLimitReached: boolean = false
+        dataFetchLimitReached: boolean = false,
+        referenceSnapshotKey: string = "",
+        playbackSnapshotKey: string = ""
     ): ProcessedData {
         this.debugLog("DataProcessor: Transforming data...");
         // const startTime = performance.now(); // performance not available in strict mode sometimes, safe to skip or use Date
@@ -239,7 +313,12 @@ export class DataProcessor {
             extraColumnInfos: [],
             hasTaskTotalFloat: false,
             hasRelationshipFreeFloat: false,
-            dataQuality: this.createEmptyDataQuality()
+            dataQuality: this.createEmptyDataQuality(),
+            calendars: new Map(),
+            curtains: [],
+            snapshots: [],
+            referenceSnapshot: null,
+            playbackSnapshot: null
         };
 
         if (!dataView.table?.rows || !dataView.metadata?.columns) {
@@ -273,6 +352,10 @@ export class DataProcessor {
         const wbsColumnInfos = this.getRoleColumnInfos(dataView, "wbsLevels");
         result.wbsLevelColumnIndices = wbsColumnInfos.map(info => info.index);
         result.wbsLevelColumnNames = wbsColumnInfos.map((info, index) => info.column.displayName || `Level ${index + 1}`);
+        const groupByProject = this.isProjectGroupingActive(dataView, settings);
+        if (groupByProject) {
+            result.wbsLevelColumnNames.unshift(this.getProjectColumnName(dataView));
+        }
 
         const extraColumnInfos = this.getRoleColumnInfos(dataView, "extraColumns");
         result.extraColumnInfos = extraColumnInfos.map((info, index) => {
@@ -290,29 +373,82 @@ export class DataProcessor {
 
 
         const predIdIdx = this.getColumnIndex(dataView, "predecessorId");
+        const succIdIdx = this.getColumnIndex(dataView, "successorId");
         const relTypeIdx = this.getColumnIndex(dataView, "relationshipType");
         const relLagIdx = this.getColumnIndex(dataView, "relationshipLag");
         const relFreeFloatIdx = this.getColumnIndex(dataView, "relationshipFreeFloat");
         const dataDateIdx = this.getColumnIndex(dataView, "dataDate");
+        const calendarIdx = this.getColumnIndex(dataView, "calendar");
+        const calendarWorkWeekIdx = this.getColumnIndex(dataView, "calendarWorkWeek");
+        const calendarExceptionIdx = this.getColumnIndex(dataView, "calendarExceptionDate");
+        const curtainLabelIdx = this.getColumnIndex(dataView, "curtainLabel");
+        const curtainStartIdx = this.getColumnIndex(dataView, "curtainStart");
+        const curtainFinishIdx = this.getColumnIndex(dataView, "curtainFinish");
+        const curtainCategoryIdx = this.getColumnIndex(dataView, "curtainCategory");
+        const curtainsByKey = new Map<string, Curtain>();
+        const snapshotDateIdx = this.getColumnIndex(dataView, "snapshotDate");
+        const latestSnapshotTime = snapshotDateIdx !== -1 ? this.findLatestSnapshotTime(rows, snapshotDateIdx) : null;
+        const earlierSnapshots = new Map<number, ScheduleSnapshot>();
+        const snapshotColumns: SnapshotColumnIndices = {
+            dataDate: dataDateIdx,
+            startDate: this.getColumnIndex(dataView, "startDate"),
+            finishDate: this.getColumnIndex(dataView, "finishDate"),
+            totalFloat: this.getColumnIndex(dataView, "taskTotalFloat"),
+            actualStartDate: this.getColumnIndex(dataView, "actualStartDate"),
+            actualFinishDate: this.getColumnIndex(dataView, "actualFinishDate"),
+            percentComplete: this.getRoleColumnInfo(dataView, "percentComplete")
+        };
 
         const taskDataMap = new Map<string, TaskRowBucket>();
 
         const allPredecessorIds = new Set<string>();
+        const successorShapedRelationships: SuccessorShapedRelationship[] = [];
+        const invalidPredecessorTokens: PredecessorTokenIssue[] = [];
+        const predecessorExpressionMode = settings?.relationshipData?.predecessorFormat?.value?.value === "expression";
+        this.durationUnitOptions = resolveDurationUnitOptions(
+            settings?.calendars?.hoursPerDay?.value,
+            settings?.calendars?.daysPerWeek?.value
+        );
         let relationshipRowCount = 0;
         let relationshipFreeFloatMissingCount = 0;
         let invalidRelationshipTypeCount = 0;
         let invalidRelationshipLagCount = 0;
         let selfRelationshipCount = 0;
+        let invalidCalendarValueCount = 0;
 
         // --- Pass 1: Group Rows by Task ID ---
         for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
             const row = rows[rowIndex];
+
+            // Curtain rows often come from a separate table, so they are read before the Task ID check
+            if (curtainStartIdx !== -1) {
+                const curtain = createCurtain(
+                    curtainLabelIdx !== -1 ? row[curtainLabelIdx] : null,
+                    this.parseDate(row[curtainStartIdx]),
+                    curtainFinishIdx !== -1 ? this.parseDate(row[curtainFinishIdx]) : null,
+                    curtainCategoryIdx !== -1 ? row[curtainCategoryIdx] : null,
+                    "row"
+                );
+                if (curtain && !curtainsByKey.has(curtain.key)) {
+                    curtainsByKey.set(curtain.key, curtain);
+                }
+            }
+
             const taskId = this.extractTaskId(row, dataView);
             if (!taskId) {
                 // console.warn(`Skipping row ${rowIndex}: Invalid or missing Task ID.`);
                 continue;
             }
 
+            // Rows from earlier updates only feed the snapshot history; undated rows count as current
+            if (latestSnapshotTime !== null && row[snapshotDateIdx] != null) {
+                const snapshotDate = this.parseDate(row[snapshotDateIdx]);
+                if (snapshotDate && snapshotDate.getTime() < latestSnapshotTime) {
+                    this.collectSnapshotRow(row, taskId, snapshotDate, snapshotColumns, earlierSnapshots);
+                    continue;
+                }
+            }
+
             if (dataDateIdx !== -1 && row[dataDateIdx] != null) {
                 const parsedDataDate = this.parseDate(row[dataDateIdx]);
                 if (parsedDataDate) {
@@ -323,6 +459,16 @@ export class DataProcessor {
                 }
             }
 
+            if (calendarIdx !== -1) {
+                invalidCalendarValueCount += this.collectCalendarDefinition(
+                    row,
+                    calendarIdx,
+                    calendarWorkWeekIdx,
+                    calendarExceptionIdx,
+                    result.calendars
+                );
+            }
+
             let taskData = taskDataMap.get(taskId);
             if (!taskData) {
                 taskData = {
@@ -336,86 +482,101 @@ export class DataProcessor {
 
             taskData.rows.push(row);
 
-            if (predIdIdx !== -1 && row[predIdIdx] != null) {
-                const predId = this.extractPredecessorId(row, dataView);
-                if (predId === taskId) {
-                    selfRelationshipCount++;
-                } else if (predId) {
-                    relationshipRowCount++;
-
-                    allPredecessorIds.add(predId);
-
-                    const rawRelationshipType = relTypeIdx !== -1 && row[relTypeIdx] != null
-                        ? String(row[relTypeIdx])
-                        : null;
-                    const strictRelationshipType = tryNormalizeRelationshipType(rawRelationshipType);
-                    if (!strictRelationshipType) {
-                        invalidRelationshipTypeCount++;
-                    }
-                    const relType = normalizeRelationshipType(rawRelationshipType);
-
-                    let relLag: number | null = null;
-                    if (relLagIdx !== -1 && row[relLagIdx] != null) {
-                        const parsedLag = Number(row[relLagIdx]);
-                        if (!isNaN(parsedLag) && isFinite(parsedLag)) {
-                            relLag = parsedLag;
-                        } else {
-                            invalidRelationshipLagCount++;
-                        }
-                    }
-
-                    let relFreeFloat: number | null = null;
-                    const rawRelationshipFreeFloat = relFreeFloatIdx !== -1
-                        ? row[relFreeFloatIdx]
-                        : null;
-                    const hasRelationshipFreeFloatValue = rawRelationshipFreeFloat != null &&
-                        !(typeof rawRelationshipFreeFloat === "string" && rawRelationshipFreeFloat.trim() === "");
-                    if (hasRelationshipFreeFloatValue) {
-                        const parsedFreeFloat = Number(rawRelationshipFreeFloat);
-                        if (!isNaN(parsedFreeFloat) && isFinite(parsedFreeFloat)) {
-                            relFreeFloat = parsedFreeFloat;
-                        }
-                    }
+            const predecessorTokens = predIdIdx !== -1
+                ? this.readPredecessorTokens(row, predIdIdx, dataView, predecessorExpressionMode)
+                : { tokens: [], invalidTokens: [] };
+            for (const token of predecessorTokens.invalidTokens) {
+                invalidPredecessorTokens.push({ row: rowIndex + 1, taskId, token });
+            }
+            const succId = succIdIdx !== -1 ? this.extractSuccessorId(row, dataView) : null;
+            selfRelationshipCount += predecessorTokens.tokens.filter(token => token.predecessorId === taskId).length;
+            if (succId === taskId) {
+                selfRelationshipCount++;
+            }
+            const linkedPredecessorTokens = predecessorTokens.tokens.filter(token => token.predecessorId !== taskId);
+            const linkedSuccId = succId && succId !== taskId ? succId : null;
+            if (linkedPredecessorTokens.length === 0 && !linkedSuccId) {
+                continue;
+            }
 
-                    if (relFreeFloat !== null && relFreeFloat !== undefined) {
-                        result.hasRelationshipFreeFloat = true;
-                    } else {
-                        relationshipFreeFloatMissingCount++;
-                    }
+            const attributes = this.readRelationshipRowAttributes(row, relTypeIdx, relLagIdx, relFreeFloatIdx);
+            const countRelationship = (relationshipAttributes: RelationshipRowAttributes): void => {
+                relationshipRowCount++;
+                if (!relationshipAttributes.hasValidType) {
+                    invalidRelationshipTypeCount++;
+                }
+                if (relationshipAttributes.hasInvalidLag) {
+                    invalidRelationshipLagCount++;
+                }
+                if (relationshipAttributes.freeFloat !== null) {
+                    result.hasRelationshipFreeFloat = true;
+                } else {
+                    relationshipFreeFloatMissingCount++;
+                }
+            };
 
-                    const existingRel = taskData.relationships.find(
-                        (r) => r.predId === predId &&
-                            r.relType === relType &&
-                            r.lag === relLag &&
-                            r.freeFloat === relFreeFloat
-                    );
-                    if (!existingRel) {
-                        taskData.relationships.push({
-                            predId: predId,
-                            relType: relType,
-                            lag: relLag,
-                            freeFloat: relFreeFloat,
-                        });
-                    }
+            for (const token of linkedPredecessorTokens) {
+                const tokenAttributes = this.applyPredecessorToken(attributes, token, predecessorExpressionMode);
+                countRelationship(tokenAttributes);
+                allPredecessorIds.add(token.predecessorId);
+                const existingRel = taskData.relationships.find(
+                    (r) => r.predId === token.predecessorId &&
+                        r.relType === tokenAttributes.relType &&
+                        r.lag === tokenAttributes.lag &&
+                        r.lagPercent === tokenAttributes.lagPercent &&
+                        r.freeFloat === tokenAttributes.freeFloat
+                );
+                if (!existingRel) {
+                    taskData.relationships.push({
+                        predId: token.predecessorId,
+                        relType: tokenAttributes.relType,
+                        lag: tokenAttributes.lag,
+                        lagPercent: tokenAttributes.lagPercent,
+                        freeFloat: tokenAttributes.freeFloat,
+                        source: "predecessor",
+                    });
                 }
             }
+
+            if (linkedSuccId) {
+                countRelationship(attributes);
+                successorShapedRelationships.push({
+                    predId: taskId,
+                    succId: linkedSuccId,
+                    relType: attributes.relType,
+                    lag: attributes.lag,
+                    lagPercent: attributes.lagPercent,
+                    freeFloat: attributes.freeFloat,
+                    source: "successor",
+                });
+            }
         }
 
+        const {
+            orphanedRelationships,
+            conflicts: relationshipOrientationConflicts
+        } = this.mergeSuccessorShapedRelationships(taskDataMap, successorShapedRelationships);
+        const missingSuccessorIds = Array.from(new Set(orphanedRelationships.map(rel => rel.succId)));
+
         const missingPredecessorIds: string[] = [];
-        let syntheticTaskCount = 0;
         for (const predId of allPredecessorIds) {
             if (!taskDataMap.has(predId)) {
-                syntheticTaskCount++;
                 missingPredecessorIds.push(predId);
             }
         }
+        const syntheticTaskIds = new Set([...missingPredecessorIds, ...missingSuccessorIds]);
 
-        result.allTasksData = new Array(taskDataMap.size + syntheticTaskCount);
+        result.allTasksData = new Array(taskDataMap.size + syntheticTaskIds.size);
         // result.relationships is already []
 
         const successorMap = new Map<string, Task[]>();
+        const percentLagRelationships: Array<{ relationship: Relationship; percent: number }> = [];
         let taskIndex = 0;
 
+        let invalidConstraintTypeCount = 0;
+        let invalidDurationValueCount = 0;
+        const durationIdx = this.getColumnIndex(dataView, "duration");
+
         // --- Pass 2: Create Task Objects ---
         for (const [taskId, taskData] of taskDataMap) {
 
@@ -425,6 +586,10 @@ export class DataProcessor {
             if (!taskData.task) continue;
 
             const task = taskData.task;
+            invalidConstraintTypeCount += this.countInvalidConstraintTypes(taskData.rows[0], dataView);
+            if (durationIdx !== -1 && parseDurationValue(taskData.rows[0][durationIdx], this.durationUnitOptions) === null) {
+                invalidDurationValueCount++;
+            }
 
             if (task.userProvidedTotalFloat !== undefined && !result.hasTaskTotalFloat) {
                 result.hasTaskTotalFloat = true;
@@ -435,44 +600,10 @@ export class DataProcessor {
             }
 
             for (const rel of taskData.relationships) {
-                const predecessorAlreadyLinked = task.predecessorIds.includes(rel.predId);
-                if (!predecessorAlreadyLinked) {
-                    task.predecessorIds.push(rel.predId);
-                    task.relationshipTypes[rel.predId] = rel.relType;
-                    task.relationshipLags[rel.predId] = rel.lag;
-
-                    if (!result.predecessorIndex.has(rel.predId)) {
-                        result.predecessorIndex.set(rel.predId, new Set());
-                    }
-                    result.predecessorIndex.get(rel.predId)!.add(taskId);
-
-                    if (!successorMap.has(rel.predId)) {
-                        successorMap.set(rel.predId, []);
-                    }
-                    successorMap.get(rel.predId)!.push(task);
-                }
-
-                const relationship: Relationship = {
-                    predecessorId: rel.predId,
-                    successorId: taskId,
-                    type: rel.relType,
-                    freeFloat: rel.freeFloat,
-                    lag: rel.lag,
-                    isCritical: false,
-                    isDriving: null,
-                    hasNegativeFloat: null,
-                };
-                result.relationships.push(relationship);
-
-                if (!result.relationshipIndex.has(taskId)) {
-                    result.relationshipIndex.set(taskId, []);
+                const relationship = this.addRelationship(result, task, rel, successorMap);
+                if (rel.lagPercent !== null) {
+                    percentLagRelationships.push({ relationship, percent: rel.lagPercent });
                 }
-                result.relationshipIndex.get(taskId)!.push(relationship);
-
-                if (!result.relationshipByPredecessor.has(rel.predId)) {
-                    result.relationshipByPredecessor.set(rel.predId, []);
-                }
-                result.relationshipByPredecessor.get(rel.predId)!.push(relationship);
             }
 
             result.allTasksData[taskIndex++] = task;
@@ -480,15 +611,15 @@ export class DataProcessor {
         }
 
         // --- Pass 3: Create Synthetic Tasks ---
-        for (const predId of allPredecessorIds) {
-            if (result.taskIdToTask.has(predId)) {
+        for (const syntheticId of syntheticTaskIds) {
+            if (result.taskIdToTask.has(syntheticId)) {
                 continue;
             }
 
             const syntheticTask: Task = {
-                id: predId,
-                internalId: predId,
-                name: String(predId),
+                id: syntheticId,
+                internalId: syntheticId,
+                name: String(syntheticId),
                 type: "Synthetic",
                 duration: 0,
                 userProvidedTotalFloat: undefined,
@@ -513,19 +644,45 @@ export class DataProcessor {
                 baselineFinishDate: null,
                 previousUpdateStartDate: null,
                 previousUpdateFinishDate: null,
+                previousUpdateTotalFloat: null,
+                actualStartDate: null,
+                actualFinishDate: null,
+                percentComplete: null,
                 tooltipData: undefined,
                 legendValue: undefined,
                 extraColumnValues: undefined,
             };
 
             result.allTasksData[taskIndex++] = syntheticTask;
-            result.taskIdToTask.set(predId, syntheticTask);
+            result.taskIdToTask.set(syntheticId, syntheticTask);
         }
 
         if (taskIndex < result.allTasksData.length) {
             result.allTasksData.length = taskIndex;
         }
 
+        this.collectTaskTypeCurtains(result.allTasksData, settings, curtainsByKey);
+        result.curtains = Array.from(curtainsByKey.values())
+            .sort((a, b) => a.start.getTime() - b.start.getTime() || a.label.localeCompare(b.label));
+
+        for (const rel of orphanedRelationships) {
+            const relationship = this.addRelationship(result, result.taskIdToTask.get(rel.succId)!, rel, successorMap);
+            if (rel.lagPercent !== null) {
+                percentLagRelationships.push({ relationship, percent: rel.lagPercent });
+            }
+        }
+
+        for (const { relationship, percent } of percentLagRelationships) {
+            const predecessor = result.taskIdToTask.get(relationship.predecessorId);
+            relationship.lag = predecessor ? predecessor.duration * percent / 100 : null;
+            const firstLink = result.relationshipIndex.get(relationship.successorId)
+                ?.find(candidate => candidate.predecessorId === relationship.predecessorId);
+            const successor = result.taskIdToTask.get(relationship.successorId);
+            if (successor && firstLink === relationship) {
+                successor.relationshipLags[relationship.predecessorId] = relationship.lag;
+            }
+        }
+
         // --- Link References ---
         for (const task of result.allTasksData) {
             task.successors = successorMap.get(task.internalId) || [];
@@ -534,12 +691,49 @@ export class DataProcessor {
                 .filter((t) => t !== undefined) as Task[];
         }
 
+        for (const relationship of result.relationships) {
+            relationship.isInterProject = isInterProjectRelationship(
+                result.taskIdToTask.get(relationship.predecessorId),
+                result.taskIdToTask.get(relationship.successorId)
+            );
+        }
+
+        if (latestSnapshotTime !== null) {
+            result.snapshots = [
+                ...Array.from(earlierSnapshots.values()).sort((a, b) => a.snapshotDate.getTime() - b.snapshotDate.getTime()),
+                this.createCurrentSnapshot(new Date(latestSnapshotTime), result)
+            ];
+            // Playback shows an earlier update as if it were current, compared with the updates before it
+            const playbackIndex = playbackSnapshotKey
+                ? result.snapshots.findIndex(snapshot => getSnapshotKey(snapshot) === playbackSnapshotKey)
+                : -1;
+            if (playbackIndex >= 0 && playbackIndex < result.snapshots.length - 1) {
+                result.playbackSnapshot = result.snapshots[playbackIndex];
+                applySnapshotState(result.allTasksData, result.playbackSnapshot);
+                result.dataDate = result.playbackSnapshot.dataDate ?? result.playbackSnapshot.snapshotDate;
+            }
+            result.referenceSnapshot = resolveReferenceSnapshot(
+                result.playbackSnapshot ? result.snapshots.slice(0, playbackIndex + 1) : result.snapshots,
+                referenceSnapshotKey,
+                !result.playbackSnapshot && this.hasDataRole(dataView, "previousUpdateFinishDate")
+            );
+            if (result.referenceSnapshot) {
+                applyReferenceSnapshot(result.allTasksData, result.referenceSnapshot);
+            }
+        }
+
         // --- Helper Pass Processing ---
         this.processLegendData(dataView, settings, highContrastMode, highContrastForeground, result);
-        this.processWBSData(result, settings, wbsExpandedState, lastExpandCollapseAllState);
+        this.processWBSData(result, settings, wbsExpandedState, lastExpandCollapseAllState, groupByProject);
+        const cycleClosingLinks = new Set<string>();
+        const circularPaths = this.detectCircularDependencies(result.allTasksData, result.taskIdToTask, cycleClosingLinks);
+        this.assignLogicLevels(result.allTasksData, result.taskIdToTask, cycleClosingLinks);
         result.dataQuality = this.validateDataQuality(rows.length, result.allTasksData, result.taskIdToTask, {
             missingPredecessorIds: missingPredecessorIds.sort((a, b) => a.localeCompare(b)),
+            missingSuccessorIds: missingSuccessorIds.sort((a, b) => a.localeCompare(b)),
+            invalidPredecessorTokens,
             conflictingTaskRows: this.detectConflictingTaskRows(taskDataMap, dataView),
+            relationshipOrientationConflicts,
             conflictingScheduleTaskRows: this.detectConflictingTaskRows(
                 taskDataMap,
                 dataView,
@@ -548,9 +742,14 @@ export class DataProcessor {
             relationshipCount: relationshipRowCount,
             relationshipFreeFloatMissingCount,
             hasRelationshipFreeFloat: result.hasRelationshipFreeFloat,
+            relationshipFloatMethod: settings?.criticalPath?.deriveRelationshipFloat?.value ? "derived" : "supplied",
             invalidRelationshipTypeCount,
             invalidRelationshipLagCount,
-            selfRelationshipCount
+            selfRelationshipCount,
+            invalidConstraintTypeCount,
+            invalidDurationValueCount,
+            invalidCalendarValueCount,
+            circularPaths
         }, dataFetchLimitReached);
 
         this.debugLog(`DataProcessor: Transformation complete. ${result.allTasksData.length} tasks.`);
@@ -560,6 +759,72 @@ export class DataProcessor {
 
     // --- Helper Methods ---
 
+    private findLatestSnapshotTime(rows: any[][], snapshotDateIdx: number): number | null {
+        let latest: number | null = null;
+        for (const row of rows) {
+            const snapshotDate = row[snapshotDateIdx] != null ? this.parseDate(row[snapshotDateIdx]) : null;
+            if (snapshotDate && (latest === null || snapshotDate.getTime() > latest)) {
+                latest = snapshotDate.getTime();
+            }
+        }
+        return latest;
+    }
+
+    /** Records a row from an earlier update; the first row per task wins, as for current rows. */
+    private collectSnapshotRow(
+        row: any[],
+        taskId: string,
+        snapshotDate: Date,
+        columns: SnapshotColumnIndices,
+        snapshots: Map<number, ScheduleSnapshot>
+    ): void {
+        let snapshot = snapshots.get(snapshotDate.getTime());
+        if (!snapshot) {
+            snapshot = { snapshotDate, dataDate: null, tasks: new Map() };
+            snapshots.set(snapshotDate.getTime(), snapshot);
+        }
+
+        const dataDate = columns.dataDate !== -1 && row[columns.dataDate] != null ? this.parseDate(row[columns.dataDate]) : null;
+        if (dataDate && (!snapshot.dataDate || dataDate > snapshot.dataDate)) {
+            snapshot.dataDate = dataDate;
+        }
+        if (snapshot.tasks.has(taskId)) {
+            return;
+        }
+
+        const totalFloat = columns.totalFloat !== -1 && row[columns.totalFloat] != null ? Number(row[columns.totalFloat]) : NaN;
+        const parseDateAt = (index: number): Date | null =>
+            index !== -1 && row[index] != null ? this.parseDate(row[index]) : null;
+        snapshot.tasks.set(taskId, {
+            startDate: parseDateAt(columns.startDate),
+            finishDate: parseDateAt(columns.finishDate),
+            totalFloat: isFinite(totalFloat) ? totalFloat : null,
+            actualStartDate: parseDateAt(columns.actualStartDate),
+            actualFinishDate: parseDateAt(columns.actualFinishDate),
+            percentComplete: columns.percentComplete
+                ? this.parsePercentComplete(row[columns.percentComplete.index], columns.percentComplete.column)
+                : null
+        });
+    }
+
+    private createCurrentSnapshot(snapshotDate: Date, result: ProcessedData): ScheduleSnapshot {
+        const tasks = new Map<string, TaskSnapshotState>();
+        for (const task of result.allTasksData) {
+            if (task.type === "Synthetic") {
+                continue;
+            }
+            tasks.set(task.internalId, {
+                startDate: task.startDate ?? null,
+                finishDate: task.finishDate ?? null,
+                totalFloat: task.userProvidedTotalFloat ?? null,
+                actualStartDate: task.actualStartDate ?? null,
+                actualFinishDate: task.actualFinishDate ?? null,
+                percentComplete: task.percentComplete ?? null
+            });
+        }
+        return { snapshotDate, dataDate: result.dataDate, tasks };
+    }
+
     private extractTaskId(row: any[], dataView: DataView): string | null {
         const idIdx = this.getColumnIndex(dataView, 'taskId');
         if (idIdx === -1) return null;
@@ -573,6 +838,222 @@ export class DataProcessor {
         return taskIdStr === '' ? null : taskIdStr;
     }
 
+    private addRelationship(
+        result: ProcessedData,
+        task: Task,
+        rel: RelationshipRowData,
+        successorMap: Map<string, Task[]>
+    ): Relationship {
+        const taskId = task.internalId;
+        const predecessorAlreadyLinked = task.predecessorIds.includes(rel.predId);
+        if (!predecessorAlreadyLinked) {
+            task.predecessorIds.push(rel.predId);
+            task.relationshipTypes[rel.predId] = rel.relType;
+            task.relationshipLags[rel.predId] = rel.lag;
+
+            if (!result.predecessorIndex.has(rel.predId)) {
+                result.predecessorIndex.set(rel.predId, new Set());
+            }
+            result.predecessorIndex.get(rel.predId)!.add(taskId);
+
+            if (!successorMap.has(rel.predId)) {
+                successorMap.set(rel.predId, []);
+            }
+            successorMap.get(rel.predId)!.push(task);
+        }
+
+        const relationship: Relationship = {
+            predecessorId: rel.predId,
+            successorId: taskId,
+            type: rel.relType,
+            freeFloat: rel.freeFloat,
+            lag: rel.lag,
+            isCritical: false,
+            isDriving: null,
+            hasNegativeFloat: null,
+        };
+        result.relationships.push(relationship);
+
+        if (!result.relationshipIndex.has(taskId)) {
+            result.relationshipIndex.set(taskId, []);
+        }
+        result.relationshipIndex.get(taskId)!.push(relationship);
+
+        if (!result.relationshipByPredecessor.has(rel.predId)) {
+            result.relationshipByPredecessor.set(rel.predId, []);
+        }
+        result.relationshipByPredecessor.get(rel.predId)!.push(relationship);
+        return relationship;
+    }
+
+    private readRelationshipRowAttributes(
+        row: any[],
+        relTypeIdx: number,
+        relLagIdx: number,
+        relFreeFloatIdx: number
+    ): RelationshipRowAttributes {
+        const rawRelationshipType = relTypeIdx !== -1 && row[relTypeIdx] != null
+            ? String(row[relTypeIdx])
+            : null;
+
+        let lag: number | null = null;
+        let lagPercent: number | null = null;
+        let hasInvalidLag = false;
+        const rawLag = relLagIdx !== -1 ? row[relLagIdx] : null;
+        if (typeof rawLag === "number") {
+            if (isFinite(rawLag)) {
+                lag = rawLag;
+            } else {
+                hasInvalidLag = true;
+            }
+        } else if (rawLag != null && String(rawLag).trim() !== "") {
+            const parsedLag = parseDurationText(String(rawLag), this.durationUnitOptions, true);
+            if (parsedLag) {
+                lag = parsedLag.days;
+                lagPercent = parsedLag.percent;
+            } else {
+                hasInvalidLag = true;
+            }
+        }
+
+        let freeFloat: number | null = null;
+        const rawRelationshipFreeFloat = relFreeFloatIdx !== -1
+            ? row[relFreeFloatIdx]
+            : null;
+        const hasRelationshipFreeFloatValue = rawRelationshipFreeFloat != null &&
+            !(typeof rawRelationshipFreeFloat === "string" && rawRelationshipFreeFloat.trim() === "");
+        if (hasRelationshipFreeFloatValue) {
+            const parsedFreeFloat = Number(rawRelationshipFreeFloat);
+            if (!isNaN(parsedFreeFloat) && isFinite(parsedFreeFloat)) {
+                freeFloat = parsedFreeFloat;
+            }
+        }
+
+        return {
+            relType: normalizeRelationshipType(rawRelationshipType),
+            hasTypeValue: rawRelationshipType !== null && rawRelationshipType.trim() !== "",
+            hasValidType: tryNormalizeRelationshipType(rawRelationshipType) !== null,
+            lag,
+            lagPercent,
+            hasInvalidLag,
+            freeFloat
+        };
+    }
+
+    /**
+     * A token's own type and lag override the Relationship Type and Lag columns. An
+     * expression token without a type is FS, as in MS Project, unless the column has one.
+     */
+    private applyPredecessorToken(
+        attributes: RelationshipRowAttributes,
+        token: PredecessorToken,
+        expressionMode: boolean
+    ): RelationshipRowAttributes {
+        const tokenAttributes = { ...attributes };
+        if (token.type) {
+            tokenAttributes.relType = token.type;
+            tokenAttributes.hasValidType = true;
+        } else if (expressionMode && !attributes.hasTypeValue) {
+            tokenAttributes.hasValidType = true;
+        }
+
+        if (token.lag) {
+            tokenAttributes.lag = token.lag.days;
+            tokenAttributes.lagPercent = token.lag.percent;
+            tokenAttributes.hasInvalidLag = false;
+        }
+        return tokenAttributes;
+    }
+
+    private readPredecessorTokens(
+        row: any[],
+        predIdIdx: number,
+        dataView: DataView,
+        expressionMode: boolean
+    ): PredecessorExpressionResult {
+        if (!expressionMode) {
+            const predId = this.extractPredecessorId(row, dataView);
+            return {
+                tokens: predId ? [{ text: predId, predecessorId: predId, type: null, lag: null }] : [],
+                invalidTokens: []
+            };
+        }
+
+        const rawValue = row[predIdIdx];
+        return rawValue == null ? { tokens: [], invalidTokens: [] } : parsePredecessorExpression(String(rawValue), this.durationUnitOptions);
+    }
+
+    /**
+     * Folds successor-oriented rows into their successor's bucket. Rows identical to an
+     * existing relationship (by getRelationshipIdentityKey) are dropped. When a
+     * Predecessor ID row already links the same pair with a different type, lag or
+     * float, that row is kept and the disagreement is reported. Rows whose successor
+     * has no task row are returned as orphaned so they can link to a synthetic task.
+     */
+    private mergeSuccessorShapedRelationships(
+        taskDataMap: Map<string, TaskRowBucket>,
+        successorShapedRelationships: SuccessorShapedRelationship[]
+    ): { orphanedRelationships: SuccessorShapedRelationship[]; conflicts: string[] } {
+        const orphanedRelationships: SuccessorShapedRelationship[] = [];
+        const orphanedKeys = new Set<string>();
+        const conflicts: string[] = [];
+        const toIdentityKey = (rel: RelationshipRowData, succId: string): string => getRelationshipIdentityKey({
+            predecessorId: rel.predId,
+            successorId: succId,
+            type: rel.relType,
+            lag: rel.lag,
+            freeFloat: rel.freeFloat
+        }) + (rel.lagPercent !== null ? `|${rel.lagPercent}%` : "");
+
+        for (const rel of successorShapedRelationships) {
+            const key = toIdentityKey(rel, rel.succId);
+            const bucket = taskDataMap.get(rel.succId);
+            if (!bucket) {
+                if (!orphanedKeys.has(key)) {
+                    orphanedKeys.add(key);
+                    orphanedRelationships.push(rel);
+                }
+                continue;
+            }
+
+            if (bucket.relationships.some(existing => toIdentityKey(existing, rel.succId) === key)) {
+                continue;
+            }
+
+            const predecessorShaped = bucket.relationships.filter(existing =>
+                existing.source === "predecessor" && existing.predId === rel.predId
+            );
+            if (predecessorShaped.length > 0) {
+                conflicts.push(this.describeRelationshipOrientationConflict(predecessorShaped[0], rel));
+                continue;
+            }
+
+            bucket.relationships.push(rel);
+        }
+
+        return { orphanedRelationships, conflicts };
+    }
+
+    private describeRelationshipOrientationConflict(
+        predecessorShaped: RelationshipRowData,
+        successorShaped: SuccessorShapedRelationship
+    ): string {
+        const formatNumber = (value: number | null): string => value === null ? "blank" : String(value);
+        const differences: string[] = [];
+        if (predecessorShaped.relType !== successorShaped.relType) {
+            differences.push(`type ${predecessorShaped.relType}/${successorShaped.relType}`);
+        }
+        const formatLag = (rel: RelationshipRowData): string =>
+            rel.lagPercent !== null ? `${rel.lagPercent}%` : formatNumber(rel.lag);
+        if (formatLag(predecessorShaped) !== formatLag(successorShaped)) {
+            differences.push(`lag ${formatLag(predecessorShaped)}/${formatLag(successorShaped)}`);
+        }
+        if (predecessorShaped.freeFloat !== successorShaped.freeFloat) {
+            differences.push(`float ${formatNumber(predecessorShaped.freeFloat)}/${formatNumber(successorShaped.freeFloat)}`);
+        }
+        return `${successorShaped.predId} -> ${successorShaped.succId}: ${differences.join(", ")}`;
+    }
+
     private extractPredecessorId(row: any[], dataView: DataView): string | null {
         const predIdIdx = this.getColumnIndex(dataView, 'predecessorId');
         if (predIdIdx === -1) return null;
@@ -586,6 +1067,19 @@ export class DataProcessor {
         return predIdStr === '' ? null : predIdStr;
     }
 
+    private extractSuccessorId(row: any[], dataView: DataView): string | null {
+        const succIdIdx = this.getColumnIndex(dataView, 'successorId');
+        if (succIdIdx === -1) return null;
+
+        const rawSuccId = row[succIdIdx];
+        if (rawSuccId == null || (typeof rawSuccId !== 'string' && typeof rawSuccId !== 'number')) {
+            return null;
+        }
+
+        const succIdStr = String(rawSuccId).trim();
+        return succIdStr === '' ? null : succIdStr;
+    }
+
     private getCalculationMode(settings: VisualSettings): string {
         const value = settings?.criticalPath?.calculationMode?.value?.value;
         return typeof value === "string" ? value : "longestPath";
@@ -607,13 +1101,34 @@ export class DataProcessor {
         return null;
     }
 
-    private calculateElapsedCalendarDuration(startDate: Date | null, finishDate: Date | null): number {
+    /**
+     * Elapsed Start-to-Finish span in days. Hour-resolution schedules keep minutes,
+     * expressed in days of `hoursPerDay`, so same-day tasks do not round to milestones.
+     * Each calendar day counts at most `hoursPerDay` hours, so multi-day spans match
+     * the day-resolution count.
+     */
+    private calculateElapsedCalendarDuration(startDate: Date | null, finishDate: Date | null, hourResolution: boolean = false): number {
         if (!(startDate instanceof Date) || !(finishDate instanceof Date) ||
             !Number.isFinite(startDate.getTime()) || !Number.isFinite(finishDate.getTime()) ||
             finishDate < startDate) {
             return 0;
         }
 
+        if (hourResolution) {
+            const millisecondsPerMinute = 60 * 1000;
+            const hoursPerDay = this.durationUnitOptions.hoursPerDay;
+            let workingHours = 0;
+            let dayStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+            while (dayStart < finishDate) {
+                const nextDay = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+                const from = Math.max(dayStart.getTime(), startDate.getTime());
+                const to = Math.min(nextDay.getTime(), finishDate.getTime());
+                workingHours += Math.min(hoursPerDay, Math.round((to - from) / millisecondsPerMinute) / 60);
+                dayStart = nextDay;
+            }
+            return Math.max(0, workingHours / hoursPerDay);
+        }
+
         const millisecondsPerDay = 24 * 60 * 60 * 1000;
         return Math.max(0, Math.round((finishDate.getTime() - startDate.getTime()) / millisecondsPerDay));
     }
@@ -635,8 +1150,21 @@ export class DataProcessor {
         const baselineFinishDateIdx = this.getColumnIndex(dataView, 'baselineFinishDate');
         const previousUpdateStartDateIdx = this.getColumnIndex(dataView, 'previousUpdateStartDate');
         const previousUpdateFinishDateIdx = this.getColumnIndex(dataView, 'previousUpdateFinishDate');
+        const previousUpdateTotalFloatIdx = this.getColumnIndex(dataView, 'previousUpdateTotalFloat');
         const manualStartDateIdx = this.getColumnIndex(dataView, 'manualStartDate');
         const manualFinishDateIdx = this.getColumnIndex(dataView, 'manualFinishDate');
+        const actualStartDateIdx = this.getColumnIndex(dataView, 'actualStartDate');
+        const actualFinishDateIdx = this.getColumnIndex(dataView, 'actualFinishDate');
+        const percentCompleteColumn = this.getRoleColumnInfo(dataView, 'percentComplete');
+        const minDurationIdx = this.getColumnIndex(dataView, 'minDuration');
+        const mostLikelyDurationIdx = this.getColumnIndex(dataView, 'mostLikelyDuration');
+        const maxDurationIdx = this.getColumnIndex(dataView, 'maxDuration');
+        const constraintTypeIdx = this.getColumnIndex(dataView, 'constraintType');
+        const constraintDateIdx = this.getColumnIndex(dataView, 'constraintDate');
+        const secondaryConstraintTypeIdx = this.getColumnIndex(dataView, 'secondaryConstraintType');
+        const secondaryConstraintDateIdx = this.getColumnIndex(dataView, 'secondaryConstraintDate');
+        const calendarIdx = this.getColumnIndex(dataView, 'calendar');
+        const projectIdx = this.getColumnIndex(dataView, 'projectId');
 
         const taskName = (nameIdx !== -1 && row[nameIdx] != null)
             ? String(row[nameIdx]).trim()
@@ -656,22 +1184,22 @@ export class DataProcessor {
         const mode = this.getCalculationMode(settings);
         let duration = 0;
         let hasFiniteDuration = false;
-        if (durationIdx !== -1 && row[durationIdx] != null) {
-            const rawDuration = row[durationIdx];
-            const durationIsBlank = typeof rawDuration === "string" && rawDuration.trim() === "";
-            if (!durationIsBlank) {
-                const parsedDuration = Number(rawDuration);
-                if (!isNaN(parsedDuration) && isFinite(parsedDuration)) {
-                    duration = parsedDuration;
-                    hasFiniteDuration = true;
-                }
+        if (durationIdx !== -1) {
+            const parsedDuration = parseDurationValue(row[durationIdx], this.durationUnitOptions);
+            if (typeof parsedDuration === "number") {
+                duration = parsedDuration;
+                hasFiniteDuration = true;
             }
         }
         if (mode === "none") {
             if (!startDate) {
                 duration = 0;
             } else if (!hasFiniteDuration) {
-                duration = this.calculateElapsedCalendarDuration(startDate, finishDate);
+                duration = this.calculateElapsedCalendarDuration(
+                    startDate,
+                    finishDate,
+                    settings?.gridLines?.timeResolution?.value?.value === "hour"
+                );
             }
         }
         if (taskType === 'TT_Mile' || taskType === 'TT_FinMile') {
@@ -687,6 +1215,14 @@ export class DataProcessor {
             }
         }
 
+        let previousUpdateTotalFloat: number | null = null;
+        if (previousUpdateTotalFloatIdx !== -1 && row[previousUpdateTotalFloatIdx] != null) {
+            const parsedFloat = Number(row[previousUpdateTotalFloatIdx]);
+            if (!isNaN(parsedFloat) && isFinite(parsedFloat)) {
+                previousUpdateTotalFloat = parsedFloat;
+            }
+        }
+
         let taskFreeFloat: number | undefined = undefined;
         if (taskFreeFloatIdx !== -1 && row[taskFreeFloatIdx] != null) {
             const parsedFloat = Number(row[taskFreeFloatIdx]);
@@ -723,6 +1259,39 @@ export class DataProcessor {
             this.debugLog(`[DEBUG] Task ${taskId} - parsedStart: ${manualStartDate}, parsedFinish: ${manualFinishDate}`);
         }
 
+        const actualStartDate = (actualStartDateIdx !== -1 && row[actualStartDateIdx] != null)
+            ? this.parseDate(row[actualStartDateIdx])
+            : null;
+        const actualFinishDate = (actualFinishDateIdx !== -1 && row[actualFinishDateIdx] != null)
+            ? this.parseDate(row[actualFinishDateIdx])
+            : null;
+        const parseOptionalDuration = (index: number): number | null => {
+            const parsed = index !== -1 ? parseDurationValue(row[index], this.durationUnitOptions) : null;
+            return typeof parsed === "number" ? Math.max(0, parsed) : null;
+        };
+        const minDuration = parseOptionalDuration(minDurationIdx);
+        const mostLikelyDuration = parseOptionalDuration(mostLikelyDurationIdx);
+        const maxDuration = parseOptionalDuration(maxDurationIdx);
+
+        const percentComplete = percentCompleteColumn
+            ? this.parsePercentComplete(row[percentCompleteColumn.index], percentCompleteColumn.column)
+            : null;
+
+        const constraintType = constraintTypeIdx !== -1 ? tryNormalizeConstraintType(row[constraintTypeIdx]) : null;
+        const constraintDate = (constraintType && constraintDateIdx !== -1 && row[constraintDateIdx] != null)
+            ? this.parseDate(row[constraintDateIdx])
+            : null;
+        const secondaryConstraintType = secondaryConstraintTypeIdx !== -1 ? tryNormalizeConstraintType(row[secondaryConstraintTypeIdx]) : null;
+        const secondaryConstraintDate = (secondaryConstraintType && secondaryConstraintDateIdx !== -1 && row[secondaryConstraintDateIdx] != null)
+            ? this.parseDate(row[secondaryConstraintDateIdx])
+            : null;
+        const calendarName = (calendarIdx !== -1 && row[calendarIdx] != null && String(row[calendarIdx]).trim() !== "")
+            ? String(row[calendarIdx]).trim()
+            : null;
+        const projectId = (projectIdx !== -1 && row[projectIdx] != null && String(row[projectIdx]).trim() !== "")
+            ? String(row[projectIdx]).trim()
+            : null;
+
 
         const legendIdx = this.getColumnIndex(dataView, 'legend');
         const normalizedLegendValue = legendIdx !== -1
@@ -790,8 +1359,21 @@ export class DataProcessor {
             baselineFinishDate: baselineFinishDate,
             previousUpdateStartDate: previousUpdateStartDate,
             previousUpdateFinishDate: previousUpdateFinishDate,
+            previousUpdateTotalFloat: previousUpdateTotalFloat,
             manualStartDate: manualStartDate,
             manualFinishDate: manualFinishDate,
+            actualStartDate: actualStartDate,
+            actualFinishDate: actualFinishDate,
+            percentComplete: percentComplete,
+            minDuration: minDuration,
+            mostLikelyDuration: mostLikelyDuration,
+            maxDuration: maxDuration,
+            constraintType: constraintType,
+            constraintDate: constraintDate,
+            secondaryConstraintType: secondaryConstraintType,
+            secondaryConstraintDate: secondaryConstraintDate,
+            calendarName: calendarName,
+            projectId: projectId,
             tooltipData: tooltipData,
             selectionId: selectionId,
             legendValue: legendValue,
@@ -802,6 +1384,103 @@ export class DataProcessor {
         return task;
     }
 
+    /**
+     * Normalises Percent Complete to 0-100. Columns formatted as a percentage carry
+     * fractions (0.45), so they are scaled; everything else is read as 0-100.
+     */
+    private parsePercentComplete(raw: PrimitiveValue, column: { format?: string }): number | null {
+        if (raw == null || (typeof raw === "string" && raw.trim() === "")) {
+            return null;
+        }
+
+        const isPercentString = typeof raw === "string" && raw.trim().endsWith("%");
+        const parsed = Number(isPercentString ? (raw as string).trim().slice(0, -1) : raw);
+        if (!Number.isFinite(parsed)) {
+            return null;
+        }
+
+        const isFractionFormat = !isPercentString && typeof column.format === "string" && column.format.includes("%");
+        const percent = isFractionFormat ? parsed * 100 : parsed;
+        return Math.min(100, Math.max(0, percent));
+    }
+
+    /** Tasks whose Task Type matches Curtains > Curtain Task Type are also drawn as curtains. */
+    private collectTaskTypeCurtains(tasks: Task[], settings: VisualSettings, curtainsByKey: Map<string, Curtain>): void {
+        const curtainType = String(settings?.curtains?.curtainTaskType?.value ?? "").trim().toLowerCase();
+        if (!curtainType) {
+            return;
+        }
+
+        for (const task of tasks) {
+            if (String(task.type ?? "").trim().toLowerCase() !== curtainType) {
+                continue;
+            }
+            const curtain = createCurtain(task.name, task.startDate ?? null, task.finishDate ?? null, task.type, "task");
+            if (curtain && !curtainsByKey.has(curtain.key)) {
+                curtainsByKey.set(curtain.key, curtain);
+            }
+        }
+    }
+
+    /**
+     * Accumulates the row's work-week and exception date onto its calendar. Every row is
+     * read (not just the canonical task row) so exceptions can be supplied one per row.
+     * Returns the number of values that could not be parsed.
+     */
+    private collectCalendarDefinition(
+        row: any[],
+        calendarIdx: number,
+        workWeekIdx: number,
+        exceptionIdx: number,
+        calendars: Map<string, WorkingCalendar>
+    ): number {
+        const rawName = row[calendarIdx];
+        const name = rawName != null ? String(rawName).trim() : "";
+        if (!name) {
+            return 0;
+        }
+
+        const key = getCalendarKey(name);
+        let calendar = calendars.get(key);
+        if (!calendar) {
+            calendar = createWorkingCalendar(name, inferWorkDaysFromName(name) ?? undefined);
+            calendars.set(key, calendar);
+        }
+
+        let invalidCount = 0;
+        const rawWorkWeek = workWeekIdx !== -1 ? row[workWeekIdx] : null;
+        if (rawWorkWeek != null && String(rawWorkWeek).trim() !== "") {
+            const workDays = parseWorkDaysSpec(rawWorkWeek);
+            if (workDays) {
+                calendar.workDays = workDays;
+            } else {
+                invalidCount++;
+            }
+        }
+
+        const rawException = exceptionIdx !== -1 ? row[exceptionIdx] : null;
+        if (rawException != null && String(rawException).trim() !== "") {
+            const exceptionDate = rawException instanceof Date ? rawException : this.parseDate(rawException);
+            if (!exceptionDate || !addCalendarException(calendar, exceptionDate)) {
+                invalidCount++;
+            }
+        }
+
+        return invalidCount;
+    }
+
+    private countInvalidConstraintTypes(row: any[], dataView: DataView): number {
+        let invalidCount = 0;
+        for (const role of ['constraintType', 'secondaryConstraintType']) {
+            const idx = this.getColumnIndex(dataView, role);
+            if (idx === -1 || isNoConstraintValue(row[idx])) continue;
+            if (!tryNormalizeConstraintType(row[idx])) {
+                invalidCount++;
+            }
+        }
+        return invalidCount;
+    }
+
     private extractTooltipData(row: any[], dataView: DataView): Array<{ key: string, value: PrimitiveValue }> | undefined {
         const tooltipInfos = this.getRoleColumnInfos(dataView, "tooltip");
         if (tooltipInfos.length === 0) return undefined;
@@ -907,7 +1586,8 @@ export class DataProcessor {
         data: ProcessedData,
         settings: VisualSettings,
         wbsExpandedState: Map<string, boolean>,
-        lastExpandCollapseAllState: boolean | null
+        lastExpandCollapseAllState: boolean | null,
+        groupByProject: boolean = false
     ): void {
         data.wbsDataExists = false;
         data.wbsGroups = [];
@@ -916,7 +1596,7 @@ export class DataProcessor {
         data.wbsAvailableLevels = [];
 
         const hasWbsData = data.allTasksData.some(task =>
-            task.wbsLevels && task.wbsLevels.length > 0
+            (task.wbsLevels && task.wbsLevels.length > 0) || (groupByProject && !!task.projectId)
         );
 
         if (!hasWbsData) {
@@ -937,13 +1617,20 @@ export class DataProcessor {
         }
 
         // Build WBS groups...
+        // Project grouping adds the project as level 1 and shifts WBS levels down by one.
+        const levelOffset = groupByProject ? 1 : 0;
         for (const task of data.allTasksData) {
             const pathParts: string[] = [];
+            const hasWbsLevels = !!task.wbsLevels && task.wbsLevels.length > 0;
+
+            if (groupByProject && (task.projectId || hasWbsLevels)) {
+                pathParts.push(`L1:${task.projectId ?? DataProcessor.NO_PROJECT_GROUP_NAME}`);
+            }
 
-            if (task.wbsLevels && task.wbsLevels.length > 0) {
-                for (let i = 0; i < task.wbsLevels.length; i++) {
-                    const level = i + 1;
-                    pathParts.push(`L${level}:${task.wbsLevels[i]}`);
+            if (hasWbsLevels) {
+                for (let i = 0; i < task.wbsLevels!.length; i++) {
+                    const level = i + 1 + levelOffset;
+                    pathParts.push(`L${level}:${task.wbsLevels![i]}`);
                 }
             }
 
@@ -1012,6 +1699,9 @@ export class DataProcessor {
                 summaryPreviousUpdateMilestoneMarkers: [],
                 summaryTotalFloat: null
             };
+            if (groupByProject && level === 1 && name !== DataProcessor.NO_PROJECT_GROUP_NAME) {
+                group.projectId = name;
+            }
 
             data.wbsGroups.push(group);
             data.wbsGroupMap.set(path, group);
@@ -1209,13 +1899,26 @@ export class DataProcessor {
             duplicateTaskIds: [],
             conflictingTaskRows: [],
             conflictingScheduleTaskRows: [],
+            relationshipOrientationConflicts: [],
             missingPredecessorIds: [],
+            missingSuccessorIds: [],
+            invalidPredecessorTokens: [],
             relationshipCount: 0,
             relationshipFreeFloatMissingCount: 0,
             hasRelationshipFreeFloat: false,
+            relationshipFloatMethod: "supplied",
             invalidRelationshipTypeCount: 0,
             invalidRelationshipLagCount: 0,
             selfRelationshipCount: 0,
+            invalidConstraintTypeCount: 0,
+            invalidDurationValueCount: 0,
+            invalidCalendarValueCount: 0,
+            hardConstraintTaskIds: [],
+            drivingPathHardConstraintTaskIds: [],
+            openStartTaskIds: [],
+            openFinishTaskIds: [],
+            danglingStartTaskIds: [],
+            danglingFinishTaskIds: [],
             circularPaths: [],
             missingRawDateTaskIds: [],
             invalidRawDateRangeTaskIds: [],
@@ -1270,6 +1973,19 @@ export class DataProcessor {
             "baselineFinishDate",
             "previousUpdateStartDate",
             "previousUpdateFinishDate",
+            "previousUpdateTotalFloat",
+            "actualStartDate",
+            "actualFinishDate",
+            "percentComplete",
+            "minDuration",
+            "mostLikelyDuration",
+            "maxDuration",
+            "constraintType",
+            "constraintDate",
+            "secondaryConstraintType",
+            "secondaryConstraintDate",
+            "calendar",
+            "projectId",
             "dataDate",
             "taskType",
             "legend"
@@ -1347,7 +2063,8 @@ export class DataProcessor {
             .map(([id, count]) => `${id} (${count}x)`);
 
         const possibleTruncation = dataFetchLimitReached;
-        const circularPaths = this.detectCircularDependencies(allTasksData, taskIdToTask);
+        const circularPaths = context.circularPaths;
+        const openEnds = this.detectOpenEnds(allTasksData);
         const missingRawDateTaskIds = allTasksData
             .filter(task => task.type !== "Synthetic")
             .filter(task => {
@@ -1392,7 +2109,7 @@ export class DataProcessor {
         if (allTasksData.some(task => task.type !== "Synthetic") && finiteFinishCandidateCount === 0) {
             longestPathBlockers.push("no activity has a finite Finish Date");
         }
-        if (context.relationshipCount > 0 && !context.hasRelationshipFreeFloat) {
+        if (context.relationshipCount > 0 && !context.hasRelationshipFreeFloat && context.relationshipFloatMethod === "supplied") {
             longestPathBlockers.push("no finite Relationship Free Float values are available");
         }
         if (longestPathBlockers.length > 0) {
@@ -1408,7 +2125,28 @@ export class DataProcessor {
         if (context.missingPredecessorIds.length > 0) {
             longestPathAdvisories.push(`missing predecessor activities (${context.missingPredecessorIds.length})`);
         }
-        if (context.relationshipFreeFloatMissingCount > 0 && context.hasRelationshipFreeFloat) {
+        if (context.missingSuccessorIds.length > 0) {
+            longestPathAdvisories.push(`missing successor activities (${context.missingSuccessorIds.length})`);
+        }
+        if (context.invalidPredecessorTokens.length > 0) {
+            const issues = context.invalidPredecessorTokens;
+            longestPathAdvisories.push(
+                `${issues.length} unparseable predecessor token(s) were ignored ` +
+                `(${issues.slice(0, 3).map(issue => `row ${issue.row} "${issue.token}"`).join("; ")}` +
+                `${issues.length > 3 ? `; and ${issues.length - 3} more` : ""})`
+            );
+        }
+        if (context.relationshipOrientationConflicts.length > 0) {
+            const conflicts = context.relationshipOrientationConflicts;
+            longestPathAdvisories.push(
+                `${conflicts.length} relationship(s) differ between Predecessor ID and Successor ID rows ` +
+                `(${conflicts.slice(0, 3).join("; ")}${conflicts.length > 3 ? `; and ${conflicts.length - 3} more` : ""}); ` +
+                `the Predecessor ID row was used`
+            );
+        }
+        if (context.relationshipCount > 0 && context.relationshipFloatMethod === "derived") {
+            longestPathAdvisories.push("relationship float is derived from the linked dates, type and lag instead of Relationship Free Float");
+        } else if (context.relationshipFreeFloatMissingCount > 0 && context.hasRelationshipFreeFloat) {
             longestPathAdvisories.push(
                 `${context.relationshipFreeFloatMissingCount} relationship(s) without finite Relationship Free Float were excluded from driving ranking`
             );
@@ -1426,6 +2164,15 @@ export class DataProcessor {
         if (context.selfRelationshipCount > 0) {
             longestPathAdvisories.push(`${context.selfRelationshipCount} self-relationship(s) were excluded`);
         }
+        if (context.invalidConstraintTypeCount > 0) {
+            longestPathAdvisories.push(`${context.invalidConstraintTypeCount} unrecognised constraint type value(s) were ignored`);
+        }
+        if (context.invalidDurationValueCount > 0) {
+            longestPathAdvisories.push(`${context.invalidDurationValueCount} unrecognised duration value(s) were ignored`);
+        }
+        if (context.invalidCalendarValueCount > 0) {
+            longestPathAdvisories.push(`${context.invalidCalendarValueCount} unrecognised calendar work-week or exception value(s) were ignored`);
+        }
         if (context.conflictingScheduleTaskRows.length > 0) {
             longestPathAdvisories.push(
                 `${context.conflictingScheduleTaskRows.length} activity(s) have conflicting Start/Finish rows; the canonical row was used`
@@ -1448,13 +2195,25 @@ export class DataProcessor {
             duplicateTaskIds: duplicates,
             conflictingTaskRows: context.conflictingTaskRows,
             conflictingScheduleTaskRows: context.conflictingScheduleTaskRows,
+            relationshipOrientationConflicts: context.relationshipOrientationConflicts,
             missingPredecessorIds: context.missingPredecessorIds,
+            missingSuccessorIds: context.missingSuccessorIds,
+            invalidPredecessorTokens: context.invalidPredecessorTokens,
             relationshipCount: context.relationshipCount,
             relationshipFreeFloatMissingCount: context.relationshipFreeFloatMissingCount,
             hasRelationshipFreeFloat: context.hasRelationshipFreeFloat,
+            relationshipFloatMethod: context.relationshipFloatMethod,
             invalidRelationshipTypeCount: context.invalidRelationshipTypeCount,
             invalidRelationshipLagCount: context.invalidRelationshipLagCount,
             selfRelationshipCount: context.selfRelationshipCount,
+            invalidConstraintTypeCount: context.invalidConstraintTypeCount,
+            invalidDurationValueCount: context.invalidDurationValueCount,
+            invalidCalendarValueCount: context.invalidCalendarValueCount,
+            hardConstraintTaskIds: allTasksData
+                .filter(task => hasHardConstraint(task))
+                .map(task => task.internalId),
+            drivingPathHardConstraintTaskIds: [],
+            ...openEnds,
             circularPaths,
             missingRawDateTaskIds,
             invalidRawDateRangeTaskIds,
@@ -1477,7 +2236,63 @@ export class DataProcessor {
 
 
 
-    private detectCircularDependencies(allTasksData: Task[], taskIdToTask: Map<string, Task>): string[] {
+    /**
+     * Open ends and dangling logic. The project start activities (earliest Start) may lack
+     * predecessors and the project finish activities (latest Finish) may lack successors.
+     * A start is dangling when only FF or SF links come in; a finish is dangling when only
+     * SS or SF links go out. Synthetic rows are ignored.
+     */
+    private detectOpenEnds(allTasksData: Task[]): Pick<DataQualityInfo,
+        "openStartTaskIds" | "openFinishTaskIds" | "danglingStartTaskIds" | "danglingFinishTaskIds"> {
+        const realTasks = allTasksData.filter(task => task.type !== "Synthetic");
+        const startTimes = realTasks
+            .map(task => this.getRawStart(task)?.getTime())
+            .filter((time): time is number => typeof time === "number" && Number.isFinite(time));
+        const projectStart = startTimes.length > 0 ? Math.min(...startTimes) : null;
+        const projectFinishIds = new Set(getLatestFinishTaskIds(realTasks.filter(isRealFinishTask)));
+        const isProjectStart = (task: Task): boolean =>
+            projectStart !== null && this.getRawStart(task)?.getTime() === projectStart;
+
+        const result = {
+            openStartTaskIds: [] as string[],
+            openFinishTaskIds: [] as string[],
+            danglingStartTaskIds: [] as string[],
+            danglingFinishTaskIds: [] as string[]
+        };
+        for (const task of realTasks) {
+            const incomingTypes = task.predecessorIds.map(id => normalizeRelationshipType(task.relationshipTypes[id]));
+            const outgoingTypes = task.successors.map(successor =>
+                normalizeRelationshipType(successor.relationshipTypes[task.internalId]));
+
+            if (incomingTypes.length === 0) {
+                if (!isProjectStart(task)) {
+                    result.openStartTaskIds.push(task.internalId);
+                }
+            } else if (incomingTypes.every(type => type === "FF" || type === "SF")) {
+                result.danglingStartTaskIds.push(task.internalId);
+            }
+
+            if (outgoingTypes.length === 0) {
+                if (!projectFinishIds.has(task.internalId)) {
+                    result.openFinishTaskIds.push(task.internalId);
+                }
+            } else if (outgoingTypes.every(type => type === "SS" || type === "SF")) {
+                result.danglingFinishTaskIds.push(task.internalId);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Lists circular relationship paths. When `cycleClosingLinks` is given it also collects
+     * the `successorId<predecessorId` links that close each loop; dropping them leaves the
+     * network acyclic.
+     */
+    private detectCircularDependencies(
+        allTasksData: Task[],
+        taskIdToTask: Map<string, Task>,
+        cycleClosingLinks?: Set<string>
+    ): string[] {
         const circularPaths: string[] = [];
         const seenCycles = new Set<string>();
         const visitState = new Map<string, 0 | 1 | 2>();
@@ -1519,6 +2334,7 @@ export class DataProcessor {
                 if (state === 0) {
                     pushNode(predId, frame.id);
                 } else if (state === 1) {
+                    cycleClosingLinks?.add(`${frame.id}<${predId}`);
                     const cycle: string[] = [predId];
                     let current: string | null = frame.id;
 
@@ -1542,6 +2358,53 @@ export class DataProcessor {
         return circularPaths;
     }
 
+    /**
+     * Sets each activity's logic level, the length of its longest predecessor chain, and the
+     * same depth counted only through predecessors in its own WBS group. Links that close a
+     * loop are skipped so activities in a loop still get a level.
+     */
+    private assignLogicLevels(allTasksData: Task[], taskIdToTask: Map<string, Task>, cycleClosingLinks: Set<string>): void {
+        const predecessorsById = new Map<string, Task[]>();
+        const pendingCount = new Map<string, number>();
+        const successorsById = new Map<string, Task[]>();
+        for (const task of allTasksData) {
+            const predecessors = Array.from(new Set(task.predecessorIds))
+                .filter(predId => !cycleClosingLinks.has(`${task.internalId}<${predId}`))
+                .map(predId => taskIdToTask.get(predId))
+                .filter((predecessor): predecessor is Task => predecessor !== undefined);
+            predecessorsById.set(task.internalId, predecessors);
+            pendingCount.set(task.internalId, predecessors.length);
+            for (const predecessor of predecessors) {
+                const successors = successorsById.get(predecessor.internalId) ?? [];
+                successors.push(task);
+                successorsById.set(predecessor.internalId, successors);
+            }
+        }
+
+        const queue = allTasksData.filter(task => pendingCount.get(task.internalId) === 0);
+        for (let cursor = 0; cursor < queue.length; cursor++) {
+            const task = queue[cursor];
+            let logicLevel = 0;
+            let wbsLogicLevel = 0;
+            for (const predecessor of predecessorsById.get(task.internalId) ?? []) {
+                logicLevel = Math.max(logicLevel, (predecessor.logicLevel ?? 0) + 1);
+                if (predecessor.wbsGroupId === task.wbsGroupId) {
+                    wbsLogicLevel = Math.max(wbsLogicLevel, (predecessor.wbsLogicLevel ?? 0) + 1);
+                }
+            }
+            task.logicLevel = logicLevel;
+            task.wbsLogicLevel = wbsLogicLevel;
+
+            for (const successor of successorsById.get(task.internalId) ?? []) {
+                const remaining = pendingCount.get(successor.internalId)! - 1;
+                pendingCount.set(successor.internalId, remaining);
+                if (remaining === 0) {
+                    queue.push(successor);
+                }
+            }
+        }
+    }
+
     // --- Utilities ---
 
     public hasDataRole(dataView: DataView, roleName: string): boolean {
@@ -1645,15 +2508,34 @@ export class DataProcessor {
      * AND contain at least one non-null value across the processed tasks.
      * This enables the visual to conditionally hide columns, bars, and toggle buttons.
      */
-    public detectBoundFields(dataView: DataView, tasks: Task[], settings?: VisualSettings): BoundFieldState {
+    /** Projects form the top grouping level when Project ID is bound and the option is on. */
+    public isProjectGroupingActive(dataView: DataView, settings: VisualSettings | undefined): boolean {
+        return this.hasDataRole(dataView, 'projectId') && (settings?.wbsGrouping?.groupByProject?.value ?? true);
+    }
+
+    public getProjectColumnName(dataView: DataView): string {
+        return this.getRoleColumnInfo(dataView, "projectId")?.column.displayName || "Project";
+    }
+
+    /** `hasReferenceSnapshot` counts Previous Update values filled from a snapshot as bound. */
+    public detectBoundFields(dataView: DataView, tasks: Task[], settings?: VisualSettings, hasReferenceSnapshot: boolean = false): BoundFieldState {
         const baselineStartBound = this.hasDataRole(dataView, 'baselineStartDate');
         const baselineFinishBound = this.hasDataRole(dataView, 'baselineFinishDate');
         const previousUpdateStartBound = this.hasDataRole(dataView, 'previousUpdateStartDate');
         const previousUpdateFinishBound = this.hasDataRole(dataView, 'previousUpdateFinishDate');
         const extraColumnsBound = this.hasDataRole(dataView, 'extraColumns');
+        const actualDatesBound = this.hasDataRole(dataView, 'actualStartDate') || this.hasDataRole(dataView, 'actualFinishDate');
+        const percentCompleteBound = this.hasDataRole(dataView, 'percentComplete');
+        const threePointDurationsBound = this.hasDataRole(dataView, 'minDuration') ||
+            this.hasDataRole(dataView, 'mostLikelyDuration') ||
+            this.hasDataRole(dataView, 'maxDuration');
+        const projectBound = this.hasDataRole(dataView, 'projectId');
+        const previousUpdateFloatBound = this.hasDataRole(dataView, 'taskTotalFloat') &&
+            (hasReferenceSnapshot || this.hasDataRole(dataView, 'previousUpdateTotalFloat'));
         const mode = settings ? this.getCalculationMode(settings) : "longestPath";
         const baselineRoleSetAvailable = baselineFinishBound && (mode === "none" || baselineStartBound);
-        const previousUpdateRoleSetAvailable = previousUpdateFinishBound && (mode === "none" || previousUpdateStartBound);
+        const previousUpdateRoleSetAvailable = hasReferenceSnapshot ||
+            (previousUpdateFinishBound && (mode === "none" || previousUpdateStartBound));
 
         // Calculated modes still require both roles. No Calculation can use finish-only markers.
         let baselineHasData = false;
@@ -1668,7 +2550,7 @@ export class DataProcessor {
                     }
                 }
                 if (!previousUpdateHasData && previousUpdateRoleSetAvailable) {
-                    if ((previousUpdateStartBound && this.isValidDateValue(task.previousUpdateStartDate)) ||
+                    if (((previousUpdateStartBound || hasReferenceSnapshot) && this.isValidDateValue(task.previousUpdateStartDate)) ||
                         this.isValidDateValue(task.previousUpdateFinishDate)) {
                         previousUpdateHasData = true;
                     }
@@ -1685,7 +2567,16 @@ export class DataProcessor {
             previousUpdateFinishBound,
             baselineAvailable: baselineRoleSetAvailable && baselineHasData,
             previousUpdateAvailable: previousUpdateRoleSetAvailable && previousUpdateHasData,
-            extraColumnsBound
+            previousUpdateFloatAvailable: previousUpdateFloatBound && tasks.some(task =>
+                typeof task.userProvidedTotalFloat === "number" && typeof task.previousUpdateTotalFloat === "number"),
+            extraColumnsBound,
+            actualDatesAvailable: actualDatesBound && tasks.some(task =>
+                this.isValidDateValue(task.actualStartDate) || this.isValidDateValue(task.actualFinishDate)),
+            percentCompleteAvailable: percentCompleteBound && tasks.some(task =>
+                typeof task.percentComplete === "number" && Number.isFinite(task.percentComplete)),
+            threePointDurationsAvailable: threePointDurationsBound && tasks.some(task =>
+                [task.minDuration, task.mostLikelyDuration, task.maxDuration].some(value => typeof value === "number" && Number.isFinite(value))),
+            projectAvailable: projectBound && tasks.some(task => !!task.projectId)
         };
     }
 }
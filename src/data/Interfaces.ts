@@ -38,19 +38,65 @@ export interface Task {
     baselineFinishDate?: Date | null;
     previousUpdateStartDate?: Date | null;
     previousUpdateFinishDate?: Date | null;
+    /** Total float reported in the previous update, in days like `userProvidedTotalFloat`. */
+    previousUpdateTotalFloat?: number | null;
+    actualStartDate?: Date | null;
+    actualFinishDate?: Date | null;
+    /** Physical or duration percent complete, normalised to 0-100. */
+    percentComplete?: number | null;
+    /** Three-point remaining durations for Monte Carlo risk, in days like `duration`. */
+    minDuration?: number | null;
+    mostLikelyDuration?: number | null;
+    maxDuration?: number | null;
+    /** Normalised constraint codes (see ConstraintLogic); null when unconstrained. */
+    constraintType?: string | null;
+    constraintDate?: Date | null;
+    secondaryConstraintType?: string | null;
+    secondaryConstraintDate?: Date | null;
+    /** Calendar name as bound; resolved against ProcessedData.calendars when needed. */
+    calendarName?: string | null;
+    /** Project the activity belongs to when several projects share one model. */
+    projectId?: string | null;
     yOrder?: number;
     tooltipData?: Array<{ key: string, value: PrimitiveValue }>;
     selectionId?: powerbi.visuals.ISelectionId;
     legendValue?: string;
+    /** Float path or critical path change label that stands in for legendValue while that mode is on. */
+    derivedLegendValue?: string;
     legendColor?: string;
 
     wbsLevels?: string[];
     wbsGroupId?: string;
     wbsIndentLevel?: number;
+    /** Longest predecessor chain depth; 0 for activities without predecessors. */
+    logicLevel?: number;
+    /** Logic level counting only predecessors in the same WBS group. */
+    wbsLogicLevel?: number;
 
     extraColumnValues?: PrimitiveValue[];
 }
 
+/** An activity's dates, float and progress as reported in one schedule update. */
+export interface TaskSnapshotState {
+    startDate: Date | null;
+    finishDate: Date | null;
+    /** Task Total Float as bound, in days; null when missing. */
+    totalFloat: number | null;
+    actualStartDate: Date | null;
+    actualFinishDate: Date | null;
+    /** Normalised to 0-100 like `Task.percentComplete`. */
+    percentComplete: number | null;
+}
+
+/** One schedule update from rows sharing a Snapshot Date. */
+export interface ScheduleSnapshot {
+    snapshotDate: Date;
+    /** Latest Data Date on the update's rows; null when none is bound. */
+    dataDate: Date | null;
+    /** Keyed by task ID. */
+    tasks: Map<string, TaskSnapshotState>;
+}
+
 export interface ExtraColumnInfo {
     displayName: string;
     queryName?: string;
@@ -100,6 +146,8 @@ export interface WBSGroup {
     summaryTotalFloat?: number | null;
     isUnassignedWbsGroup?: boolean;
     isWbsLevelFallbackGroup?: boolean;
+    /** Set on the top-level groups created by project grouping. */
+    projectId?: string;
 }
 
 export interface Relationship {
@@ -110,12 +158,28 @@ export interface Relationship {
     isCritical: boolean;
     lag: number | null;
     relationshipFloat?: number;
+    /** Float derived from the linked dates when Derive Relationship Float From Dates is on. */
+    derivedFloat?: number | null;
     /** Calculated from the minimum finite incoming relationship free float. */
     isDriving: boolean | null;
     /** True for finite relationship free float values below the calculation tolerance. */
     hasNegativeFloat: boolean | null;
+    /** Predecessor and successor belong to different projects. */
+    isInterProject?: boolean;
+    /** Implied by another route between the same activities (see RedundantLogic). */
+    isRedundant?: boolean;
 }
 
+export interface PredecessorTokenIssue {
+    /** One-based data row. */
+    row: number;
+    taskId: string;
+    token: string;
+}
+
+/** Where Longest Path takes relationship float from: the bound field or the linked dates. */
+export type RelationshipFloatMethod = "supplied" | "derived";
+
 export interface DataQualityInfo {
     rowCount: number;
     possibleTruncation: boolean;
@@ -123,13 +187,31 @@ export interface DataQualityInfo {
     duplicateTaskIds: string[];
     conflictingTaskRows: string[];
     conflictingScheduleTaskRows: string[];
+    /** Pairs linked by both Predecessor ID and Successor ID rows that disagree on type, lag or float. */
+    relationshipOrientationConflicts: string[];
     missingPredecessorIds: string[];
+    missingSuccessorIds: string[];
+    invalidPredecessorTokens: PredecessorTokenIssue[];
     relationshipCount: number;
     relationshipFreeFloatMissingCount: number;
     hasRelationshipFreeFloat: boolean;
+    relationshipFloatMethod: RelationshipFloatMethod;
     invalidRelationshipTypeCount: number;
     invalidRelationshipLagCount: number;
     selfRelationshipCount: number;
+    invalidConstraintTypeCount: number;
+    invalidCalendarValueCount: number;
+    invalidDurationValueCount: number;
+    hardConstraintTaskIds: string[];
+    drivingPathHardConstraintTaskIds: string[];
+    /** Activities without a predecessor, other than the project start activities. */
+    openStartTaskIds: string[];
+    /** Activities without a successor, other than the project finish activities. */
+    openFinishTaskIds: string[];
+    /** Activities with predecessors that are all FF or SF, so nothing drives their start. */
+    danglingStartTaskIds: string[];
+    /** Activities with successors that are all SS or SF, so their finish drives nothing. */
+    danglingFinishTaskIds: string[];
     circularPaths: string[];
     missingRawDateTaskIds: string[];
     invalidRawDateRangeTaskIds: string[];
@@ -175,6 +257,16 @@ export interface BoundFieldState {
     baselineAvailable: boolean;
     /** Previous Update roles satisfy the active calculation mode AND at least one task has a non-null previous update date */
     previousUpdateAvailable: boolean;
+    /** Task Total Float and Previous Update Total Float are bound AND at least one task has both values */
+    previousUpdateFloatAvailable: boolean;
     /** At least one field is bound to the extraColumns role */
     extraColumnsBound: boolean;
+    /** Actual Start or Actual Finish is bound AND at least one task has a valid actual date */
+    actualDatesAvailable: boolean;
+    /** Percent Complete is bound AND at least one task has a finite value */
+    percentCompleteAvailable: boolean;
+    /** A three-point duration role is bound AND at least one task has a finite value */
+    threePointDurationsAvailable: boolean;
+    /** Project ID is bound AND at least one task has a project */
+    projectAvailable: boolean;
 }
@@ -19,16 +19,55 @@ const lineStyleItems: powerbi.IEnumMember[] = [
     { value: "dotted", displayName: "Dotted" }
 ];
 
+const redundantConnectorStyleItems: powerbi.IEnumMember[] = [
+    { value: "show", displayName: "Show" },
+    { value: "dim", displayName: "Dim" },
+    { value: "hide", displayName: "Hide" }
+];
+
 const labelPositionItems: powerbi.IEnumMember[] = [
     { value: "right", displayName: "Right" },
     { value: "left", displayName: "Left" }
 ];
 
+const taskOrderItems: powerbi.IEnumMember[] = [
+    { value: "startDate", displayName: "Start Date" },
+    { value: "logicLevel", displayName: "Logic Level" },
+    { value: "wbsLogicLevel", displayName: "Logic Level Within WBS" }
+];
+
 const lookAheadDisplayModeItems: powerbi.IEnumMember[] = [
     { value: "filter", displayName: "Filter Tasks" },
     { value: "highlight", displayName: "Highlight Only" }
 ];
 
+const timeResolutionItems: powerbi.IEnumMember[] = [
+    { value: "day", displayName: "Days" },
+    { value: "hour", displayName: "Hours and Shifts" }
+];
+
+const timescaleTierItems: powerbi.IEnumMember[] = [
+    { value: "standard", displayName: "Standard" },
+    { value: "two", displayName: "Two Tiers" },
+    { value: "three", displayName: "Three Tiers" }
+];
+
+const weekNumberingItems: powerbi.IEnumMember[] = [
+    { value: "iso", displayName: "ISO (Monday, Week With 4 Jan)" },
+    { value: "us", displayName: "US (Sunday, Week With 1 Jan)" }
+];
+
+const fiscalYearStartMonthItems: powerbi.IEnumMember[] = [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December"
+].map((month, index) => ({ value: String(index + 1), displayName: month }));
+
+const nonWorkingShadingModeItems: powerbi.IEnumMember[] = [
+    { value: "off", displayName: "Off" },
+    { value: "perTask", displayName: "Each Task's Calendar" },
+    { value: "global", displayName: "Chosen Calendar" }
+];
+
 const progressLineReferenceItems: powerbi.IEnumMember[] = [
     { value: "baselineFinish", displayName: "Baseline" },
     { value: "previousUpdateFinish", displayName: "Previous Update" }
@@ -45,12 +84,22 @@ const currentBarDateModeItems: powerbi.IEnumMember[] = [
     { value: "hybridActualEarly", displayName: "Hybrid Start + Early" }
 ];
 
+const longestPathScopeItems: powerbi.IEnumMember[] = [
+    { value: "overall", displayName: "Whole Model" },
+    { value: "perProject", displayName: "Each Project" }
+];
+
 const criticalBarStyleItems: powerbi.IEnumMember[] = [
     { value: "statusStripe", displayName: "Status Stripe" },
     { value: "fullFill", displayName: "Full Fill" },
     { value: "outline", displayName: "Outline" }
 ];
 
+const predecessorFormatItems: powerbi.IEnumMember[] = [
+    { value: "singleId", displayName: "One ID Per Row" },
+    { value: "expression", displayName: "MS Project Expression" }
+];
+
 const wbsSummaryDisplayModeItems: powerbi.IEnumMember[] = [
     { value: "milestoneDots", displayName: "Milestone Dots" },
     { value: "summaryBar", displayName: "Summary Bar" }
@@ -192,6 +241,39 @@ class TaskBarsCard extends Card {
         value: { value: "#555555" }
     });
 
+    actualBarColor = new ColorPicker({
+        name: "actualBarColor",
+        displayName: "Actual Bar Color",
+        description: "Colour of the actual segment drawn from Actual Start to the Data Date or Actual Finish",
+        value: { value: "#3F4B5B" }
+    });
+
+    showPercentComplete = new ToggleSwitch({
+        name: "showPercentComplete",
+        displayName: "Show % Complete Bar",
+        description: "Draw a thin progress band inside task bars when Percent Complete is bound",
+        value: true
+    });
+
+    percentCompleteColor = new ColorPicker({
+        name: "percentCompleteColor",
+        displayName: "% Complete Bar Color",
+        value: { value: "#0B2E4F" }
+    });
+
+    showConstraintGlyphs = new ToggleSwitch({
+        name: "showConstraintGlyphs",
+        displayName: "Show Constraint Glyphs",
+        description: "Mark constrained bar edges; hard constraints are filled, soft constraints are outlined",
+        value: true
+    });
+
+    constraintGlyphColor = new ColorPicker({
+        name: "constraintGlyphColor",
+        displayName: "Constraint Glyph Color",
+        value: { value: "#6A1B9A" }
+    });
+
     taskHeight = new NumUpDown({
         name: "taskHeight",
         displayName: "Row Height (px)",
@@ -267,6 +349,11 @@ class TaskBarsCard extends Card {
         this.currentBarDateMode,
         this.taskColor,
         this.milestoneColor,
+        this.actualBarColor,
+        this.showPercentComplete,
+        this.percentCompleteColor,
+        this.showConstraintGlyphs,
+        this.constraintGlyphColor,
         this.taskHeight,
         this.taskBarHeight,
         this.taskBarCornerRadius,
@@ -296,6 +383,14 @@ class CriticalPathCard extends Card {
         value: { value: "floatBased", displayName: "Float-Based" }
     });
 
+    longestPathScope = new ItemDropdown({
+        name: "longestPathScope",
+        displayName: "Longest Path Scope",
+        description: "With Project ID bound, trace a separate Longest Path to each project's latest finish",
+        items: longestPathScopeItems,
+        value: longestPathScopeItems.find(item => item.value === "overall")
+    });
+
     criticalBarStyle = new ItemDropdown({
         name: "criticalBarStyle",
         displayName: "Critical Bar Style",
@@ -343,7 +438,30 @@ class CriticalPathCard extends Card {
         }
     });
 
+    verifyImportedSchedule = new ToggleSwitch({
+        name: "verifyImportedSchedule",
+        displayName: "Verify Imported Dates and Float",
+        description: "Run an independent forward/backward pass from the Data Date and flag tasks whose imported Start, Finish or Total Float differ",
+        value: false
+    });
 
+    verificationTolerance = new NumUpDown({
+        name: "verificationTolerance",
+        displayName: "Verification Tolerance (days)",
+        description: "Differences up to this many working days are not reported",
+        value: 1,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    deriveRelationshipFloat = new ToggleSwitch({
+        name: "deriveRelationshipFloat",
+        displayName: "Derive Relationship Float From Dates",
+        description: "Opt-in for data without Relationship Free Float: Longest Path uses each relationship's float calculated from the linked dates, type and lag instead",
+        value: false
+    });
 
     // Hidden persisted toggle.
     // Keep this default aligned with Visual.DEFAULT_SHOW_ALL_TASKS in visual.ts.
@@ -356,16 +474,40 @@ class CriticalPathCard extends Card {
 
     slices: Slice[] = [
         this.calculationMode,
+        this.longestPathScope,
         this.criticalBarStyle,
         this.criticalPathColor,
         this.criticalBorderWidth,
         this.showNearCritical,
         this.nearCriticalColor,
         this.nearCriticalBorderWidth,
+        this.verifyImportedSchedule,
+        this.verificationTolerance,
+        this.deriveRelationshipFloat,
         this.showAllTasks
     ];
 }
 
+// ============================================================================
+// 3.5. RELATIONSHIP DATA - How relationship fields are read
+// ============================================================================
+class RelationshipDataCard extends Card {
+    name: string = "relationshipData";
+    displayName: string = "Relationship Data";
+
+    predecessorFormat = new ItemDropdown({
+        name: "predecessorFormat",
+        displayName: "Predecessor Format",
+        description: "Read Predecessor ID as one ID per row, or as an MS Project list such as A1010FS+5d;A1020SS-2d",
+        items: predecessorFormatItems,
+        value: predecessorFormatItems.find(item => item.value === "singleId")
+    });
+
+    slices: Slice[] = [
+        this.predecessorFormat
+    ];
+}
+
 // ============================================================================
 // 4. COMPARISON BARS - Baseline and Previous Update
 // ============================================================================
@@ -543,6 +685,14 @@ class ConnectorLinesCard extends Card {
         }
     });
 
+    redundantConnectorStyle = new ItemDropdown({
+        name: "redundantConnectorStyle",
+        displayName: "Redundant Relationships",
+        description: "Relationships implied by other logic, such as A to C when A to B to C already exists",
+        items: redundantConnectorStyleItems,
+        value: redundantConnectorStyleItems[0]
+    });
+
     slices: Slice[] = [
         this.showConnectorToggle,
         this.showConnectorLines,
@@ -553,7 +703,8 @@ class ConnectorLinesCard extends Card {
         this.arrowHeadSize,
         this.differentiateDrivers,
         this.nonDrivingLineStyle,
-        this.nonDrivingOpacity
+        this.nonDrivingOpacity,
+        this.redundantConnectorStyle
     ];
 }
 
@@ -687,6 +838,29 @@ class ColumnsCard extends Card {
     previousUpdateStartDateWidth = new NumUpDown({ name: "previousUpdateStartDateWidth", displayName: "Previous Start Width (px)", value: 72, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
     previousUpdateFinishDateHeader = new TextInput({ name: "previousUpdateFinishDateHeader", displayName: "Previous Finish Header", value: "", placeholder: "Prev Finish" });
     previousUpdateFinishDateWidth = new NumUpDown({ name: "previousUpdateFinishDateWidth", displayName: "Previous Finish Width (px)", value: 72, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showActualDateColumns = new ToggleSwitch({ name: "showActualDateColumns", displayName: "Show Actual Date Columns", value: false });
+    actualStartDateHeader = new TextInput({ name: "actualStartDateHeader", displayName: "Actual Start Header", value: "", placeholder: "Act Start" });
+    actualStartDateWidth = new NumUpDown({ name: "actualStartDateWidth", displayName: "Actual Start Width (px)", value: 72, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    actualFinishDateHeader = new TextInput({ name: "actualFinishDateHeader", displayName: "Actual Finish Header", value: "", placeholder: "Act Finish" });
+    actualFinishDateWidth = new NumUpDown({ name: "actualFinishDateWidth", displayName: "Actual Finish Width (px)", value: 72, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showPercentComplete = new ToggleSwitch({ name: "showPercentComplete", displayName: "Show % Complete", value: false });
+    percentCompleteHeader = new TextInput({ name: "percentCompleteHeader", displayName: "% Complete Header", value: "", placeholder: "% Comp" });
+    percentCompleteWidth = new NumUpDown({ name: "percentCompleteWidth", displayName: "% Complete Width (px)", value: 52, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showCpmCheck = new ToggleSwitch({ name: "showCpmCheck", displayName: "Show CPM Check", description: "Lists differences found by Verify Imported Dates and Float", value: true });
+    cpmCheckHeader = new TextInput({ name: "cpmCheckHeader", displayName: "CPM Check Header", value: "", placeholder: "CPM Check" });
+    cpmCheckWidth = new NumUpDown({ name: "cpmCheckWidth", displayName: "CPM Check Width (px)", value: 96, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showFloatPath = new ToggleSwitch({ name: "showFloatPath", displayName: "Show Float Path", description: "Shown when Calculate Float Paths is on", value: true });
+    floatPathHeader = new TextInput({ name: "floatPathHeader", displayName: "Float Path Header", value: "", placeholder: "Float Path" });
+    floatPathWidth = new NumUpDown({ name: "floatPathWidth", displayName: "Float Path Width (px)", value: 64, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showCriticalityIndex = new ToggleSwitch({ name: "showCriticalityIndex", displayName: "Show Criticality Index", description: "Shown when Run Monte Carlo is on", value: true });
+    criticalityIndexHeader = new TextInput({ name: "criticalityIndexHeader", displayName: "Criticality Index Header", value: "", placeholder: "Crit %" });
+    criticalityIndexWidth = new NumUpDown({ name: "criticalityIndexWidth", displayName: "Criticality Index Width (px)", value: 56, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showLogicLevel = new ToggleSwitch({ name: "showLogicLevel", displayName: "Show Logic Level", value: false });
+    logicLevelHeader = new TextInput({ name: "logicLevelHeader", displayName: "Logic Level Header", value: "", placeholder: "Level" });
+    logicLevelWidth = new NumUpDown({ name: "logicLevelWidth", displayName: "Logic Level Width (px)", value: 48, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
+    showCriticalChange = new ToggleSwitch({ name: "showCriticalChange", displayName: "Show CP Change", description: "Shown when Previous Update Total Float is bound", value: true });
+    criticalChangeHeader = new TextInput({ name: "criticalChangeHeader", displayName: "CP Change Header", value: "", placeholder: "CP Change" });
+    criticalChangeWidth = new NumUpDown({ name: "criticalChangeWidth", displayName: "CP Change Width (px)", value: 96, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
 
     showExtraColumns = new ToggleSwitch({ name: "showExtraColumns", displayName: "Show Extra Columns", value: true });
     extraColumnsWidth = new NumUpDown({ name: "extraColumnsWidth", displayName: "Extra Column Width (px)", value: 72, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 30 } } });
@@ -710,6 +884,29 @@ class ColumnsCard extends Card {
         this.previousUpdateStartDateWidth,
         this.previousUpdateFinishDateHeader,
         this.previousUpdateFinishDateWidth,
+        this.showActualDateColumns,
+        this.actualStartDateHeader,
+        this.actualStartDateWidth,
+        this.actualFinishDateHeader,
+        this.actualFinishDateWidth,
+        this.showPercentComplete,
+        this.percentCompleteHeader,
+        this.percentCompleteWidth,
+        this.showCpmCheck,
+        this.cpmCheckHeader,
+        this.cpmCheckWidth,
+        this.showFloatPath,
+        this.floatPathHeader,
+        this.floatPathWidth,
+        this.showCriticalityIndex,
+        this.criticalityIndexHeader,
+        this.criticalityIndexWidth,
+        this.showLogicLevel,
+        this.logicLevelHeader,
+        this.logicLevelWidth,
+        this.showCriticalChange,
+        this.criticalChangeHeader,
+        this.criticalChangeWidth,
         this.showExtraColumns,
         this.extraColumnsWidth
     ];
@@ -774,12 +971,21 @@ class LayoutSettingsCard extends Card {
         }
     });
 
+    taskOrder = new ItemDropdown({
+        name: "taskOrder",
+        displayName: "Task Order",
+        description: "Logic Level orders activities by longest predecessor chain, then by start date. Within WBS counts only predecessors in the same WBS group",
+        items: taskOrderItems,
+        value: taskOrderItems[0]
+    });
+
     slices: Slice[] = [
         this.leftMargin,
         this.rightMargin,
         this.taskPadding,
         this.maxTasksToShow,
-        this.headerHeight
+        this.headerHeight,
+        this.taskOrder
     ];
 }
 
@@ -872,6 +1078,57 @@ class GridLinesCard extends Card {
         }
     });
 
+    timescaleTiers = new ItemDropdown({
+        name: "timescaleTiers",
+        displayName: "Timescale Tiers",
+        description: "Two or three tiers (Year / Quarter / Month / Week / Day) chosen automatically by zoom level",
+        items: timescaleTierItems,
+        value: timescaleTierItems.find(item => item.value === "standard")
+    });
+
+    fiscalYearStartMonth = new ItemDropdown({
+        name: "fiscalYearStartMonth",
+        displayName: "Fiscal Year Starts",
+        description: "Year and quarter tiers follow this fiscal year; fiscal years are named after the year they end",
+        items: fiscalYearStartMonthItems,
+        value: fiscalYearStartMonthItems[0]
+    });
+
+    weekNumbering = new ItemDropdown({
+        name: "weekNumbering",
+        displayName: "Week Numbering",
+        items: weekNumberingItems,
+        value: weekNumberingItems.find(item => item.value === "iso")
+    });
+
+    timeResolution = new ItemDropdown({
+        name: "timeResolution",
+        displayName: "Time Resolution",
+        description: "Hours and Shifts adds shift and hour timescale tiers, shows times with dates and reports durations in hours",
+        items: timeResolutionItems,
+        value: timeResolutionItems.find(item => item.value === "day")
+    });
+
+    shiftLengthHours = new NumUpDown({
+        name: "shiftLengthHours",
+        displayName: "Shift Length (Hours)",
+        value: 8,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 24 }
+        }
+    });
+
+    shiftStartHour = new NumUpDown({
+        name: "shiftStartHour",
+        displayName: "First Shift Starts (Hour)",
+        value: 6,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 23 }
+        }
+    });
+
     slices: Slice[] = [
         this.showHorizontalLines,
         this.horizontalLineColor,
@@ -882,7 +1139,13 @@ class GridLinesCard extends Card {
         this.verticalLineWidth,
         this.verticalLineStyle,
         this.showTimelineLabels,
-        this.timelineLabelFontSize
+        this.timelineLabelFontSize,
+        this.timescaleTiers,
+        this.fiscalYearStartMonth,
+        this.weekNumbering,
+        this.timeResolution,
+        this.shiftLengthHours,
+        this.shiftStartHour
     ];
 }
 
@@ -1252,6 +1515,154 @@ class LookAheadCard extends Card {
     ];
 }
 
+// ============================================================================
+// 13.4. CURTAINS - Possession, outage and reporting window bands
+// ============================================================================
+class CurtainsCard extends Card {
+    name: string = "curtains";
+    displayName: string = "Curtains";
+
+    show = new ToggleSwitch({
+        name: "show",
+        displayName: "Show Curtains",
+        description: "Shade bands from the Curtain fields and from tasks of the curtain task type",
+        value: true
+    });
+
+    curtainTaskType = new TextInput({
+        name: "curtainTaskType",
+        displayName: "Curtain Task Type",
+        description: "Tasks with this Task Type value are also drawn as curtains (e.g. Possession)",
+        value: "",
+        placeholder: "e.g. Possession"
+    });
+
+    defaultColor = new ColorPicker({
+        name: "defaultColor",
+        displayName: "Default Color",
+        description: "Colour of the first curtain category; later categories use the curtain palette",
+        value: { value: "#F4B183" }
+    });
+
+    transparency = new NumUpDown({
+        name: "transparency",
+        displayName: "Transparency (%)",
+        value: 65,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    showLabels = new ToggleSwitch({
+        name: "showLabels",
+        displayName: "Show Labels",
+        value: true
+    });
+
+    showLegend = new ToggleSwitch({
+        name: "showLegend",
+        displayName: "Show Legend",
+        value: true
+    });
+
+    slices: Slice[] = [
+        this.show,
+        this.curtainTaskType,
+        this.defaultColor,
+        this.transparency,
+        this.showLabels,
+        this.showLegend
+    ];
+}
+
+// ============================================================================
+// 13.5. CALENDARS - Work weeks, holidays and non-working time shading
+// ============================================================================
+class CalendarsCard extends Card {
+    name: string = "calendars";
+    displayName: string = "Calendars";
+
+    calendarDefinitions = new TextInput({
+        name: "calendarDefinitions",
+        displayName: "Calendar Definitions",
+        description: "Name: work week except holidays, separated by ';' (e.g. 5-Day: Mon-Fri except 2026-12-25, 2026-12-28..2027-01-01; 7-Day: Mon-Sun)",
+        value: "",
+        placeholder: "5-Day: Mon-Fri except 2026-12-25"
+    });
+
+    shadingMode = new ItemDropdown({
+        name: "shadingMode",
+        displayName: "Shade Non-Working Time",
+        items: nonWorkingShadingModeItems,
+        value: nonWorkingShadingModeItems.find(item => item.value === "off")
+    });
+
+    globalCalendar = new TextInput({
+        name: "globalCalendar",
+        displayName: "Chosen Calendar",
+        description: "Calendar shaded across all rows when shading uses a chosen calendar",
+        value: "",
+        placeholder: "5-Day"
+    });
+
+    nonWorkingColor = new ColorPicker({
+        name: "nonWorkingColor",
+        displayName: "Non-Working Color",
+        value: { value: "#E6E6E6" }
+    });
+
+    nonWorkingTransparency = new NumUpDown({
+        name: "nonWorkingTransparency",
+        displayName: "Non-Working Transparency (%)",
+        value: 40,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    showWorkingDayDuration = new ToggleSwitch({
+        name: "showWorkingDayDuration",
+        displayName: "Duration In Working Days",
+        description: "Show Start to Finish working days on the task's calendar in the Duration column",
+        value: false
+    });
+
+    hoursPerDay = new NumUpDown({
+        name: "hoursPerDay",
+        displayName: "Hours Per Day",
+        description: "Converts hour durations and lags such as 16h to days",
+        value: 8,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 24 }
+        }
+    });
+
+    daysPerWeek = new NumUpDown({
+        name: "daysPerWeek",
+        displayName: "Days Per Week",
+        description: "Converts week durations and lags such as 3w to days",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 7 }
+        }
+    });
+
+    slices: Slice[] = [
+        this.calendarDefinitions,
+        this.shadingMode,
+        this.globalCalendar,
+        this.nonWorkingColor,
+        this.nonWorkingTransparency,
+        this.showWorkingDayDuration,
+        this.hoursPerDay,
+        this.daysPerWeek
+    ];
+}
+
 // ============================================================================
 // 14. PATH SELECTION - Task selection and Longest Path information
 // ============================================================================
@@ -1295,14 +1706,26 @@ class PathSelectionCard extends Card {
     traceMode = new ItemDropdown({
         name: "traceMode",
         displayName: "Trace Mode",
-        description: "Trace critical path backward to or forward from selected task",
+        description: "Trace critical path backward to or forward from selected task, or between two selected tasks",
         items: [
             { value: "backward", displayName: "Trace Backward" },
-            { value: "forward", displayName: "Trace Forward" }
+            { value: "forward", displayName: "Trace Forward" },
+            { value: "between", displayName: "Trace A to B" }
         ],
         value: { value: "backward", displayName: "Trace Backward" }
     });
 
+    pathTargetScope = new ItemDropdown({
+        name: "pathTargetScope",
+        displayName: "Path Target Tasks",
+        description: "Tasks offered by the Path target picker for routing Longest Path into an interim target",
+        items: [
+            { value: "milestones", displayName: "Milestones Only" },
+            { value: "any", displayName: "Any Activity" }
+        ],
+        value: { value: "milestones", displayName: "Milestones Only" }
+    });
+
     selectedPathIndex = new NumUpDown({
         name: "selectedPathIndex",
         displayName: "Selected Path",
@@ -1325,10 +1748,349 @@ class PathSelectionCard extends Card {
         this.dropdownPosition,
         this.showSelectedTaskLabel,
         this.traceMode,
+        this.pathTargetScope,
         this.showPathInfo
     ];
 }
 
+// ============================================================================
+// 14.5. WHAT-IF - Ghost bars for delay and duration scenarios
+// ============================================================================
+class WhatIfCard extends Card {
+    name: string = "whatIf";
+    displayName: string = "What-If";
+
+    ghostColor = new ColorPicker({
+        name: "ghostColor",
+        displayName: "Ghost Bar Color",
+        description: "Outline and fill of the simulated bars drawn beside impacted tasks",
+        value: { value: "#8764B8" }
+    });
+
+    ghostTransparency = new NumUpDown({
+        name: "ghostTransparency",
+        displayName: "Ghost Bar Transparency (%)",
+        value: 75,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    showFinishMovement = new ToggleSwitch({
+        name: "showFinishMovement",
+        displayName: "Show Milestone Finish Movement",
+        description: "Label each impacted milestone with how far its finish moves",
+        value: true
+    });
+
+    slices: Slice[] = [
+        this.ghostColor,
+        this.ghostTransparency,
+        this.showFinishMovement
+    ];
+}
+
+// ============================================================================
+// 14.6. FLOAT PATHS - P6 Multiple Float Paths by relationship free float
+// ============================================================================
+class FloatPathsCard extends Card {
+    name: string = "floatPaths";
+    displayName: string = "Float Paths";
+
+    enableFloatPaths = new ToggleSwitch({
+        name: "enableFloatPaths",
+        displayName: "Calculate Float Paths",
+        description: "Number activities into float paths from the path target or latest finish using relationship free float. Bars and the legend are coloured by float path instead of the Legend field.",
+        value: false
+    });
+
+    pathCount = new NumUpDown({
+        name: "pathCount",
+        displayName: "Number of Paths",
+        value: 10,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 50 }
+        }
+    });
+
+    slices: Slice[] = [
+        this.enableFloatPaths,
+        this.pathCount
+    ];
+}
+
+// ============================================================================
+// 14.7. SCHEDULE RISK - Monte Carlo over three-point durations
+// ============================================================================
+class ScheduleRiskCard extends Card {
+    name: string = "scheduleRisk";
+    displayName: string = "Schedule Risk";
+
+    enableMonteCarlo = new ToggleSwitch({
+        name: "enableMonteCarlo",
+        displayName: "Run Monte Carlo",
+        description: "Sample remaining durations between the Minimum, Most Likely and Maximum Duration fields and report P50/P80/P90 finishes and each task's criticality index. Runs in the visual; nothing leaves the report.",
+        value: false
+    });
+
+    iterations = new NumUpDown({
+        name: "iterations",
+        displayName: "Iterations",
+        value: 1000,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 100 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 20000 }
+        }
+    });
+
+    randomSeed = new NumUpDown({
+        name: "randomSeed",
+        displayName: "Random Seed",
+        description: "The same seed always gives the same results; change it to draw a different sample",
+        value: 1,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 1 }
+        }
+    });
+
+    slices: Slice[] = [
+        this.enableMonteCarlo,
+        this.iterations,
+        this.randomSeed
+    ];
+}
+
+// ============================================================================
+// 14.8. SCHEDULE ASSESSMENT - DCMA 14-point pass/fail thresholds
+// ============================================================================
+class ScheduleAssessmentCard extends Card {
+    name: string = "scheduleAssessment";
+    displayName: string = "Schedule Assessment";
+
+    enableAssessment = new ToggleSwitch({
+        name: "enableAssessment",
+        displayName: "Assess Schedule",
+        description: "Score the schedule against the DCMA 14-point checks using the thresholds below",
+        value: false
+    });
+
+    logicMaxPercent = new NumUpDown({
+        name: "logicMaxPercent",
+        displayName: "Logic Max %",
+        description: "Largest share of incomplete activities that may lack a predecessor or successor",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    leadsMaxPercent = new NumUpDown({
+        name: "leadsMaxPercent",
+        displayName: "Leads Max %",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    lagsMaxPercent = new NumUpDown({
+        name: "lagsMaxPercent",
+        displayName: "Lags Max %",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    finishToStartMinPercent = new NumUpDown({
+        name: "finishToStartMinPercent",
+        displayName: "Finish-to-Start Min %",
+        description: "Smallest share of finish-to-start relationships that passes",
+        value: 90,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    hardConstraintsMaxPercent = new NumUpDown({
+        name: "hardConstraintsMaxPercent",
+        displayName: "Hard Constraints Max %",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    highFloatDays = new NumUpDown({
+        name: "highFloatDays",
+        displayName: "High Float Days",
+        description: "Total float above this many working days counts as high",
+        value: 44,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    highFloatMaxPercent = new NumUpDown({
+        name: "highFloatMaxPercent",
+        displayName: "High Float Max %",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    negativeFloatMaxPercent = new NumUpDown({
+        name: "negativeFloatMaxPercent",
+        displayName: "Negative Float Max %",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    highDurationDays = new NumUpDown({
+        name: "highDurationDays",
+        displayName: "High Duration Days",
+        description: "Remaining duration above this many working days counts as high",
+        value: 44,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    highDurationMaxPercent = new NumUpDown({
+        name: "highDurationMaxPercent",
+        displayName: "High Duration Max %",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    invalidDatesMaxPercent = new NumUpDown({
+        name: "invalidDatesMaxPercent",
+        displayName: "Invalid Dates Max %",
+        value: 0,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    missedTasksMaxPercent = new NumUpDown({
+        name: "missedTasksMaxPercent",
+        displayName: "Missed Tasks Max %",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 },
+            maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 100 }
+        }
+    });
+
+    cpliMin = new NumUpDown({
+        name: "cpliMin",
+        displayName: "CPLI Min",
+        value: 0.95,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    beiMin = new NumUpDown({
+        name: "beiMin",
+        displayName: "BEI Min",
+        value: 0.95,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    slices: Slice[] = [
+        this.enableAssessment,
+        this.logicMaxPercent,
+        this.leadsMaxPercent,
+        this.lagsMaxPercent,
+        this.finishToStartMinPercent,
+        this.hardConstraintsMaxPercent,
+        this.highFloatDays,
+        this.highFloatMaxPercent,
+        this.negativeFloatMaxPercent,
+        this.highDurationDays,
+        this.highDurationMaxPercent,
+        this.invalidDatesMaxPercent,
+        this.missedTasksMaxPercent,
+        this.cpliMin,
+        this.beiMin
+    ];
+}
+
+// ============================================================================
+// 14.9. CRITICAL PATH CHANGE - total float against the previous update
+// ============================================================================
+class CriticalPathChangeCard extends Card {
+    name: string = "criticalPathChange";
+    displayName: string = "Critical Path Change";
+
+    colourByChange = new ToggleSwitch({
+        name: "colourByChange",
+        displayName: "Colour By Change",
+        description: "Colour bars and the legend by how each activity's total float moved since the previous update instead of by the Legend field. Needs Task Total Float and Previous Update Total Float; Float Paths take precedence.",
+        value: false
+    });
+
+    erosionThresholdDays = new NumUpDown({
+        name: "erosionThresholdDays",
+        displayName: "Float Erosion Threshold (days)",
+        description: "Smallest loss of total float reported as Float Eroded when an activity stays in the same band",
+        value: 5,
+        options: {
+            minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }
+        }
+    });
+
+    slices: Slice[] = [
+        this.colourByChange,
+        this.erosionThresholdDays
+    ];
+}
+
+// ============================================================================
+// 14.10. SCHEDULE HISTORY - earlier updates from the Snapshot Date field
+// ============================================================================
+class ScheduleHistoryCard extends Card {
+    name: string = "scheduleHistory";
+    displayName: string = "Schedule History";
+
+    showSlipTrail = new ToggleSwitch({
+        name: "showSlipTrail",
+        displayName: "Show Slip Trail",
+        description: "Mark each earlier finish an activity has moved away from, when Snapshot Date holds more than one update",
+        value: true
+    });
+
+    slipTrailColor = new ColorPicker({
+        name: "slipTrailColor",
+        displayName: "Slip Trail Color",
+        value: { value: "#C239B3" }
+    });
+
+    slices: Slice[] = [
+        this.showSlipTrail,
+        this.slipTrailColor
+    ];
+}
+
 // ============================================================================
 // 15. WBS GROUPING
 // ============================================================================
@@ -1337,6 +2099,7 @@ class WBSGroupingCard extends Card {
     displayName: string = "WBS Grouping";
 
     enableWbsGrouping = new ToggleSwitch({ name: "enableWbsGrouping", displayName: "Enable WBS Grouping", value: false });
+    groupByProject = new ToggleSwitch({ name: "groupByProject", displayName: "Group By Project", description: "When Project ID is bound, add a project level above the WBS levels", value: true });
     defaultExpanded = new ToggleSwitch({ name: "defaultExpanded", displayName: "Default Expanded", value: true });
     expandCollapseAll = new ToggleSwitch({ name: "expandCollapseAll", displayName: "Expand All Groups", value: true });
     showWbsToggle = new ToggleSwitch({ name: "showWbsToggle", displayName: "Show WBS Toggle Button", value: true });
@@ -1357,7 +2120,7 @@ class WBSGroupingCard extends Card {
     groupNameColor = new ColorPicker({ name: "groupNameColor", displayName: "WBS Text Color", value: { value: "#2A3240" } });
     indentPerLevel = new NumUpDown({ name: "indentPerLevel", displayName: "Indent Per Level (px)", value: 22, options: { minValue: { type: powerbi.visuals.ValidatorType.Min, value: 0 }, maxValue: { type: powerbi.visuals.ValidatorType.Max, value: 50 } } });
 
-    slices: Slice[] = [this.enableWbsGrouping, this.defaultExpanded, this.expandCollapseAll, this.showWbsToggle, this.hideEmptyGroups, this.showGroupSummary, this.summaryDisplayMode, this.groupHeaderColor, this.groupSummaryColor, this.summaryBarHeight, this.summaryMilestoneSize, this.groupNameFontSize, this.groupNameColor, this.indentPerLevel];
+    slices: Slice[] = [this.enableWbsGrouping, this.groupByProject, this.defaultExpanded, this.expandCollapseAll, this.showWbsToggle, this.hideEmptyGroups, this.showGroupSummary, this.summaryDisplayMode, this.groupHeaderColor, this.groupSummaryColor, this.summaryBarHeight, this.summaryMilestoneSize, this.groupNameFontSize, this.groupNameColor, this.indentPerLevel];
 }
 
 // ============================================================================
@@ -1497,8 +2260,13 @@ class PersistedStateCard extends Card {
     zoomRangeStart = new NumUpDown({ name: "zoomRangeStart", displayName: "", value: 0, visible: false });
     zoomRangeEnd = new NumUpDown({ name: "zoomRangeEnd", displayName: "", value: 1, visible: false });
     lookAheadWindowDays = new NumUpDown({ name: "lookAheadWindowDays", displayName: "", value: -1, visible: false });
+    activeProjectId = new TextInput({ name: "activeProjectId", displayName: "", value: "", placeholder: "", visible: false });
+    projectPathSelections = new TextInput({ name: "projectPathSelections", displayName: "", value: "", placeholder: "", visible: false });
+    pathTargetTaskId = new TextInput({ name: "pathTargetTaskId", displayName: "", value: "", placeholder: "", visible: false });
+    referenceSnapshot = new TextInput({ name: "referenceSnapshot", displayName: "", value: "", placeholder: "", visible: false });
+    traceEndTaskId = new TextInput({ name: "traceEndTaskId", displayName: "", value: "", placeholder: "", visible: false });
 
-    slices: Slice[] = [this.selectedTaskId, this.floatThreshold, this.traceMode, this.selectedLegendCategories, this.legendCategoryOrder, this.wbsExpandLevel, this.wbsDisplayMode, this.wbsOnlyLevel, this.wbsExpandedState, this.wbsManualToggledGroups, this.zoomRangeStart, this.zoomRangeEnd, this.lookAheadWindowDays];
+    slices: Slice[] = [this.selectedTaskId, this.floatThreshold, this.traceMode, this.selectedLegendCategories, this.legendCategoryOrder, this.wbsExpandLevel, this.wbsDisplayMode, this.wbsOnlyLevel, this.wbsExpandedState, this.wbsManualToggledGroups, this.zoomRangeStart, this.zoomRangeEnd, this.lookAheadWindowDays, this.activeProjectId, this.projectPathSelections, this.pathTargetTaskId, this.referenceSnapshot, this.traceEndTaskId];
 }
 
 // ============================================================================
@@ -1508,6 +2276,7 @@ export class VisualSettings extends Model {
     generalSettings = new GeneralSettingsCard();
     taskBars = new TaskBarsCard();
     criticalPath = new CriticalPathCard();
+    relationshipData = new RelationshipDataCard();
     comparisonBars = new ComparisonBarsCard();
     connectorLines = new ConnectorLinesCard();
     textAndLabels = new TextAndLabelsCard();
@@ -1519,8 +2288,16 @@ export class VisualSettings extends Model {
     previousUpdateFinishLine = new PreviousUpdateFinishLineCard();
     dataDateLine = new DataDateLineCard();
     lookAhead = new LookAheadCard();
+    curtains = new CurtainsCard();
+    calendars = new CalendarsCard();
     progressLine = new ProgressLineCard();
     pathSelection = new PathSelectionCard();
+    whatIf = new WhatIfCard();
+    floatPaths = new FloatPathsCard();
+    scheduleRisk = new ScheduleRiskCard();
+    scheduleAssessment = new ScheduleAssessmentCard();
+    criticalPathChange = new CriticalPathChangeCard();
+    scheduleHistory = new ScheduleHistoryCard();
     wbsGrouping = new WBSGroupingCard();
     wbsLevelStyles = new WbsLevelStylesCard();
     legend = new LegendCard();
@@ -1534,6 +2311,7 @@ export class VisualSettings extends Model {
         this.generalSettings,
         this.taskBars,
         this.criticalPath,
+        this.relationshipData,
         this.comparisonBars,
         this.connectorLines,
         this.textAndLabels,
@@ -1547,7 +2325,15 @@ export class VisualSettings extends Model {
         this.dataDateColorOverride,
         this.progressLine,
         this.lookAhead,
+        this.curtains,
+        this.calendars,
         this.pathSelection,
+        this.whatIf,
+        this.floatPaths,
+        this.scheduleRisk,
+        this.scheduleAssessment,
+        this.criticalPathChange,
+        this.scheduleHistory,
         this.wbsGrouping,
         this.wbsLevelStyles,
         this.legend,
@@ -7,6 +7,14 @@ export type LabelColumnId =
     | "previousStart"
     | "baselineFinish"
     | "baselineStart"
+    | "actualStart"
+    | "actualFinish"
+    | "percentComplete"
+    | "cpmCheck"
+    | "floatPath"
+    | "criticalityIndex"
+    | "logicLevel"
+    | "criticalChange"
     | `extra_${number}`;
 
 export type LabelColumnSpec = {
@@ -45,6 +53,14 @@ export const MIN_TASK_NAME_WIDTH = 180;
 export const MIN_WBS_TASK_NAME_WIDTH = 220;
 
 export const COLUMN_HIDE_PRIORITY: LabelColumnId[] = [
+    "cpmCheck",
+    "floatPath",
+    "criticalityIndex",
+    "logicLevel",
+    "criticalChange",
+    "actualStart",
+    "actualFinish",
+    "percentComplete",
     "previousStart",
     "previousFinish",
     "baselineStart",
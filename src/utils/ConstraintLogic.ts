@@ -0,0 +1,203 @@
+import type { Task } from "../data/Interfaces";
+import type { GlyphPolyline } from "./HeaderGlyphGeometry";
+
+export type ConstraintType =
+    | "startOn"
+    | "startOnOrAfter"
+    | "startOnOrBefore"
+    | "finishOn"
+    | "finishOnOrAfter"
+    | "finishOnOrBefore"
+    | "mandatoryStart"
+    | "mandatoryFinish"
+    | "asLateAsPossible";
+
+export type ConstraintEdge = "start" | "finish";
+
+export interface TaskConstraint {
+    type: ConstraintType;
+    date: Date | null;
+    isPrimary: boolean;
+}
+
+export interface ConstraintGlyph {
+    stem: GlyphPolyline;
+    flag: GlyphPolyline;
+}
+
+type ConstraintTaskLike = Pick<Task, "constraintType" | "constraintDate" | "secondaryConstraintType" | "secondaryConstraintDate">;
+
+const CONSTRAINT_TYPE_ALIASES: Record<string, ConstraintType> = {
+    // P6 codes (CS_*), P6 display names, and MS Project names/abbreviations.
+    csmso: "startOn",
+    muststarton: "startOn",
+    starton: "startOn",
+    mso: "startOn",
+    csmsoa: "startOnOrAfter",
+    startonorafter: "startOnOrAfter",
+    startnoearlierthan: "startOnOrAfter",
+    snet: "startOnOrAfter",
+    csmsob: "startOnOrBefore",
+    startonorbefore: "startOnOrBefore",
+    startnolaterthan: "startOnOrBefore",
+    snlt: "startOnOrBefore",
+    csmeo: "finishOn",
+    mustfinishon: "finishOn",
+    finishon: "finishOn",
+    mfo: "finishOn",
+    csmeoa: "finishOnOrAfter",
+    finishonorafter: "finishOnOrAfter",
+    finishnoearlierthan: "finishOnOrAfter",
+    fnet: "finishOnOrAfter",
+    csmeob: "finishOnOrBefore",
+    finishonorbefore: "finishOnOrBefore",
+    finishnolaterthan: "finishOnOrBefore",
+    fnlt: "finishOnOrBefore",
+    csmandstart: "mandatoryStart",
+    mandatorystart: "mandatoryStart",
+    csmandfin: "mandatoryFinish",
+    csmandfinish: "mandatoryFinish",
+    mandatoryfinish: "mandatoryFinish",
+    csalap: "asLateAsPossible",
+    aslateaspossible: "asLateAsPossible",
+    alap: "asLateAsPossible"
+};
+
+const NO_CONSTRAINT_VALUES = new Set(["", "none", "csasap", "asap", "assoonaspossible"]);
+
+const CONSTRAINT_LABELS: Record<ConstraintType, string> = {
+    startOn: "Start On",
+    startOnOrAfter: "Start On or After",
+    startOnOrBefore: "Start On or Before",
+    finishOn: "Finish On",
+    finishOnOrAfter: "Finish On or After",
+    finishOnOrBefore: "Finish On or Before",
+    mandatoryStart: "Mandatory Start",
+    mandatoryFinish: "Mandatory Finish",
+    asLateAsPossible: "As Late As Possible"
+};
+
+function getConstraintAliasKey(value: string): string {
+    return value.trim().toLowerCase().replace(/[^a-z]/g, "");
+}
+
+/** Returns true when the raw value means "no constraint" (blank, None, ASAP). */
+export function isNoConstraintValue(value: unknown): boolean {
+    if (value == null) {
+        return true;
+    }
+    return NO_CONSTRAINT_VALUES.has(getConstraintAliasKey(String(value)));
+}
+
+export function tryNormalizeConstraintType(value: unknown): ConstraintType | null {
+    if (value == null) {
+        return null;
+    }
+
+    const key = getConstraintAliasKey(String(value));
+    return Object.prototype.hasOwnProperty.call(CONSTRAINT_TYPE_ALIASES, key)
+        ? CONSTRAINT_TYPE_ALIASES[key]
+        : null;
+}
+
+export function getConstraintTypeLabel(type: ConstraintType): string {
+    return CONSTRAINT_LABELS[type];
+}
+
+/**
+ * Hard constraints can override network logic and hold an activity regardless of its
+ * predecessors. Soft (on-or-before/after) constraints only bound early or late dates.
+ */
+export function isHardConstraint(type: ConstraintType | null | undefined): boolean {
+    return type === "startOn" ||
+        type === "finishOn" ||
+        type === "mandatoryStart" ||
+        type === "mandatoryFinish";
+}
+
+export function getConstraintEdge(type: ConstraintType): ConstraintEdge | null {
+    switch (type) {
+        case "startOn":
+        case "startOnOrAfter":
+        case "startOnOrBefore":
+        case "mandatoryStart":
+            return "start";
+        case "finishOn":
+        case "finishOnOrAfter":
+        case "finishOnOrBefore":
+        case "mandatoryFinish":
+            return "finish";
+        default:
+            return null;
+    }
+}
+
+export function getTaskConstraints(task: ConstraintTaskLike): TaskConstraint[] {
+    const constraints: TaskConstraint[] = [];
+    const primaryType = tryNormalizeConstraintType(task.constraintType);
+    if (primaryType) {
+        constraints.push({ type: primaryType, date: task.constraintDate ?? null, isPrimary: true });
+    }
+
+    const secondaryType = tryNormalizeConstraintType(task.secondaryConstraintType);
+    if (secondaryType) {
+        constraints.push({ type: secondaryType, date: task.secondaryConstraintDate ?? null, isPrimary: false });
+    }
+
+    return constraints;
+}
+
+export function hasHardConstraint(task: ConstraintTaskLike): boolean {
+    return getTaskConstraints(task).some(constraint => isHardConstraint(constraint.type));
+}
+
+/**
+ * Returns the hard-constrained activities among those already flagged on the driving
+ * path. Task order is preserved so diagnostics read in schedule order.
+ */
+export function collectDrivingPathHardConstraintTaskIds(
+    tasks: Iterable<Pick<Task, "internalId" | "isLongestPath"> & ConstraintTaskLike>
+): string[] {
+    const taskIds: string[] = [];
+    for (const task of tasks) {
+        if (task.isLongestPath === true && hasHardConstraint(task)) {
+            taskIds.push(task.internalId);
+        }
+    }
+    return taskIds;
+}
+
+/**
+ * Builds the bar-edge glyph: a stem overhanging the bar by `overhang` px and a flag
+ * pointing into the bar, so start and finish constraints read as opposite brackets.
+ */
+export function getConstraintGlyph(
+    edgeX: number,
+    barTop: number,
+    barHeight: number,
+    edge: ConstraintEdge,
+    size: number,
+    overhang: number = 2
+): ConstraintGlyph {
+    const direction = edge === "start" ? 1 : -1;
+    const stemTop = barTop - overhang;
+    const stemBottom = barTop + barHeight + overhang;
+    const flagDepth = Math.max(2, size);
+
+    return {
+        stem: {
+            points: [
+                { x: edgeX, y: stemTop },
+                { x: edgeX, y: stemBottom }
+            ]
+        },
+        flag: {
+            points: [
+                { x: edgeX, y: stemTop },
+                { x: edgeX + direction * flagDepth, y: stemTop },
+                { x: edgeX, y: stemTop + flagDepth }
+            ],
+            closed: true
+        }
+    };
+}
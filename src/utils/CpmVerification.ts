@@ -0,0 +1,532 @@
+import type { Task } from "../data/Interfaces";
+import { getTaskConstraints } from "./ConstraintLogic";
+import { normalizeRelationshipType } from "./RelationshipLogic";
+import { isWorkingDay } from "./WorkingCalendar";
+import type { WorkingCalendar } from "./WorkingCalendar";
+
+export type CpmVerificationTask = Pick<
+    Task,
+    | "internalId"
+    | "duration"
+    | "startDate"
+    | "finishDate"
+    | "actualStartDate"
+    | "actualFinishDate"
+    | "percentComplete"
+    | "userProvidedTotalFloat"
+    | "constraintType"
+    | "constraintDate"
+    | "secondaryConstraintType"
+    | "secondaryConstraintDate"
+    | "calendarName"
+>;
+
+export interface CpmVerificationRelationship {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+}
+
+export interface CpmVerificationOptions {
+    /** Remaining work is scheduled from this date; null anchors at the earliest imported start. */
+    dataDate: Date | null;
+    /** Differences up to this many working days are not reported. */
+    toleranceDays: number;
+    /** Null means every day is a working day. */
+    getCalendar: (task: CpmVerificationTask) => WorkingCalendar | null;
+}
+
+export type CpmCheckField = "start" | "finish" | "totalFloat";
+
+export interface CpmDiscrepancy {
+    field: CpmCheckField;
+    /** Imported date, or imported total float in days. */
+    imported: Date | number;
+    /** Calculated date (a finish is its last working day), or calculated total float. */
+    calculated: Date | number;
+    /** Calculated minus imported, in working days on the task's calendar. */
+    differenceDays: number;
+}
+
+export interface CpmTaskCheck {
+    taskId: string;
+    earlyStart: Date;
+    /** Finishes are exclusive: midnight after the last working day. */
+    earlyFinish: Date;
+    lateStart: Date;
+    lateFinish: Date;
+    /** Working days between early and late finish. */
+    totalFloat: number;
+    /** Completed tasks keep their actual dates and are not compared. */
+    isComplete: boolean;
+    discrepancies: CpmDiscrepancy[];
+}
+
+export interface CpmVerificationResult {
+    anchor: Date | null;
+    anchorSource: "dataDate" | "earliestStart" | null;
+    projectFinish: Date | null;
+    checks: Map<string, CpmTaskCheck>;
+    /** Task IDs with at least one discrepancy, largest absolute difference first. */
+    discrepancyTaskIds: string[];
+    /** True when the network has a loop; no dates are calculated then. */
+    blockedByCycle: boolean;
+}
+
+const MS_PER_DAY = 86400000;
+const MAX_NON_WORKING_RUN = 3660;
+
+/** Whole local days are numbered so calendar walks stay clear of daylight-saving offsets. */
+function toDayNumber(date: Date): number {
+    return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+}
+
+function fromDayNumber(day: number): Date {
+    const utc = new Date(day * MS_PER_DAY);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+/**
+ * A finish ends its day, so it maps to the next midnight. Date-only finishes (midnight) are
+ * read the same way as timed ones such as P6's 17:00.
+ */
+function toFinishDayNumber(date: Date): number {
+    return toDayNumber(date) + 1;
+}
+
+function isValidDate(date: Date | null | undefined): date is Date {
+    return date instanceof Date && !isNaN(date.getTime());
+}
+
+class CalendarWalker {
+    private readonly workingCache = new Map<number, boolean>();
+
+    constructor(private readonly calendar: WorkingCalendar | null) {
+        if (calendar && !calendar.workDays.some(Boolean)) {
+            this.calendar = null;
+        }
+    }
+
+    isWorking(day: number): boolean {
+        if (!this.calendar) {
+            return true;
+        }
+        let working = this.workingCache.get(day);
+        if (working === undefined) {
+            working = isWorkingDay(this.calendar, fromDayNumber(day));
+            this.workingCache.set(day, working);
+        }
+        return working;
+    }
+
+    nextWorking(day: number): number {
+        let cursor = day;
+        for (let i = 0; i < MAX_NON_WORKING_RUN && !this.isWorking(cursor); i++) {
+            cursor++;
+        }
+        return cursor;
+    }
+
+    /** Exclusive finish after `count` working days starting on or after `day`. */
+    addWorking(day: number, count: number): number {
+        if (count <= 0) {
+            return count === 0 ? day : this.subtractWorking(day, -count);
+        }
+        let cursor = this.nextWorking(day);
+        for (let counted = 0, guard = 0; guard < count + MAX_NON_WORKING_RUN; cursor++, guard++) {
+            if (this.isWorking(cursor) && ++counted === count) {
+                return cursor + 1;
+            }
+        }
+        return cursor;
+    }
+
+    /** Start of the `count` working days that end before the exclusive finish `day`. */
+    subtractWorking(day: number, count: number): number {
+        if (count <= 0) {
+            return count === 0 ? day : this.addWorking(day, -count);
+        }
+        let cursor = day - 1;
+        for (let counted = 0, guard = 0; guard < count + MAX_NON_WORKING_RUN; cursor--, guard++) {
+            if (this.isWorking(cursor) && ++counted === count) {
+                return cursor;
+            }
+        }
+        return cursor;
+    }
+
+    /** Signed working days from `from` up to (but excluding) `to`. */
+    countBetween(from: number, to: number): number {
+        const sign = to >= from ? 1 : -1;
+        let count = 0;
+        for (let cursor = Math.min(from, to); cursor < Math.max(from, to); cursor++) {
+            if (this.isWorking(cursor)) {
+                count++;
+            }
+        }
+        return sign * count;
+    }
+}
+
+interface NetworkNode {
+    task: CpmVerificationTask;
+    walker: CalendarWalker;
+    duration: number;
+    isComplete: boolean;
+    isInProgress: boolean;
+    successors: { node: NetworkNode; type: string; lag: number }[];
+    predecessors: { node: NetworkNode; type: string; lag: number }[];
+    earlyStart: number;
+    earlyFinish: number;
+    lateStart: number;
+    lateFinish: number;
+}
+
+/** The Data Date, or the earliest actual or planned start when no Data Date is bound. */
+export function getScheduleAnchor(
+    tasks: readonly Pick<CpmVerificationTask, "startDate" | "actualStartDate">[],
+    dataDate: Date | null
+): Pick<CpmVerificationResult, "anchor" | "anchorSource"> {
+    if (isValidDate(dataDate)) {
+        return { anchor: fromDayNumber(toDayNumber(dataDate)), anchorSource: "dataDate" };
+    }
+    let earliest: number | null = null;
+    for (const task of tasks) {
+        const start = task.actualStartDate ?? task.startDate;
+        if (isValidDate(start) && (earliest === null || toDayNumber(start) < earliest)) {
+            earliest = toDayNumber(start);
+        }
+    }
+    return earliest === null
+        ? { anchor: null, anchorSource: null }
+        : { anchor: fromDayNumber(earliest), anchorSource: "earliestStart" };
+}
+
+/**
+ * Working days still to do on a started task: from the anchor to its imported finish, or
+ * Duration less Percent Complete without a finish or anchor, else the whole Duration.
+ */
+export function getRemainingDuration(
+    task: Pick<CpmVerificationTask, "duration" | "finishDate" | "percentComplete">,
+    anchor: Date | null,
+    calendar: WorkingCalendar | null
+): number {
+    if (isValidDate(anchor) && isValidDate(task.finishDate)) {
+        return Math.max(0, new CalendarWalker(calendar).countBetween(toDayNumber(anchor), toFinishDayNumber(task.finishDate)));
+    }
+    const duration = Math.max(0, task.duration || 0);
+    const percent = task.percentComplete;
+    return typeof percent === "number" && isFinite(percent)
+        ? duration * (1 - Math.min(100, Math.max(0, percent)) / 100)
+        : duration;
+}
+
+/** Kahn's algorithm; returns null when the network contains a loop. */
+function getTopologicalOrder(nodes: NetworkNode[]): NetworkNode[] | null {
+    const inDegree = new Map<NetworkNode, number>();
+    nodes.forEach(node => inDegree.set(node, node.predecessors.length));
+    const queue = nodes.filter(node => node.predecessors.length === 0);
+    const order: NetworkNode[] = [];
+    for (let index = 0; index < queue.length; index++) {
+        const node = queue[index];
+        order.push(node);
+        for (const link of node.successors) {
+            const remaining = (inDegree.get(link.node) ?? 0) - 1;
+            inDegree.set(link.node, remaining);
+            if (remaining === 0) {
+                queue.push(link.node);
+            }
+        }
+    }
+    return order.length === nodes.length ? order : null;
+}
+
+/** Shifts `day` by a lag measured on `walker`'s calendar; negative lags move back. */
+function applyLag(walker: CalendarWalker, day: number, lag: number): number {
+    if (lag > 0) {
+        return walker.addWorking(day, lag);
+    }
+    return lag < 0 ? walker.subtractWorking(day, -lag) : day;
+}
+
+function forwardPass(order: NetworkNode[], anchorDay: number): void {
+    for (const node of order) {
+        if (node.isComplete) {
+            continue;
+        }
+        const { walker, duration, task } = node;
+        if (node.isInProgress) {
+            node.earlyStart = toDayNumber(task.actualStartDate as Date);
+            node.earlyFinish = Math.max(node.earlyStart, walker.addWorking(anchorDay, duration));
+            continue;
+        }
+
+        let start = anchorDay;
+        for (const link of node.predecessors) {
+            const predecessor = link.node;
+            const lagWalker = predecessor.walker;
+            switch (normalizeRelationshipType(link.type)) {
+                case "FS":
+                    start = Math.max(start, applyLag(lagWalker, predecessor.earlyFinish, link.lag));
+                    break;
+                case "SS":
+                    start = Math.max(start, applyLag(lagWalker, predecessor.earlyStart, link.lag));
+                    break;
+                case "FF":
+                    start = Math.max(start, walker.subtractWorking(applyLag(lagWalker, predecessor.earlyFinish, link.lag), duration));
+                    break;
+                case "SF":
+                    start = Math.max(start, walker.subtractWorking(applyLag(lagWalker, predecessor.earlyStart, link.lag), duration));
+                    break;
+            }
+        }
+        for (const constraint of getTaskConstraints(task)) {
+            if (!isValidDate(constraint.date)) {
+                continue;
+            }
+            switch (constraint.type) {
+                case "startOn":
+                case "startOnOrAfter":
+                case "mandatoryStart":
+                    start = Math.max(start, toDayNumber(constraint.date));
+                    break;
+                case "finishOn":
+                case "finishOnOrAfter":
+                case "mandatoryFinish":
+                    start = Math.max(start, walker.subtractWorking(toFinishDayNumber(constraint.date), duration));
+                    break;
+            }
+        }
+
+        node.earlyStart = walker.nextWorking(start);
+        node.earlyFinish = walker.addWorking(node.earlyStart, duration);
+    }
+}
+
+function backwardPass(order: NetworkNode[], projectFinishDay: number): void {
+    for (let index = order.length - 1; index >= 0; index--) {
+        const node = order[index];
+        const { walker, duration, task } = node;
+        let finish = projectFinishDay;
+        for (const link of node.successors) {
+            const successor = link.node;
+            switch (normalizeRelationshipType(link.type)) {
+                case "FS":
+                    finish = Math.min(finish, applyLag(walker, successor.lateStart, -link.lag));
+                    break;
+                case "SS":
+                    finish = Math.min(finish, walker.addWorking(applyLag(walker, successor.lateStart, -link.lag), duration));
+                    break;
+                case "FF":
+                    finish = Math.min(finish, applyLag(walker, successor.lateFinish, -link.lag));
+                    break;
+                case "SF":
+                    finish = Math.min(finish, walker.addWorking(applyLag(walker, successor.lateFinish, -link.lag), duration));
+                    break;
+            }
+        }
+        for (const constraint of getTaskConstraints(task)) {
+            if (!isValidDate(constraint.date)) {
+                continue;
+            }
+            switch (constraint.type) {
+                case "startOn":
+                case "startOnOrBefore":
+                case "mandatoryStart":
+                    finish = Math.min(finish, walker.addWorking(toDayNumber(constraint.date), duration));
+                    break;
+                case "finishOn":
+                case "finishOnOrBefore":
+                case "mandatoryFinish":
+                    finish = Math.min(finish, toFinishDayNumber(constraint.date));
+                    break;
+            }
+        }
+
+        node.lateFinish = finish;
+        node.lateStart = walker.subtractWorking(finish, duration);
+    }
+}
+
+function compareTask(node: NetworkNode, toleranceDays: number): CpmDiscrepancy[] {
+    const { task, walker } = node;
+    const discrepancies: CpmDiscrepancy[] = [];
+    if (!node.isInProgress && isValidDate(task.startDate)) {
+        const difference = walker.countBetween(toDayNumber(task.startDate), node.earlyStart);
+        if (Math.abs(difference) > toleranceDays) {
+            discrepancies.push({ field: "start", imported: task.startDate, calculated: fromDayNumber(node.earlyStart), differenceDays: difference });
+        }
+    }
+    if (isValidDate(task.finishDate)) {
+        const difference = walker.countBetween(toFinishDayNumber(task.finishDate), node.earlyFinish);
+        if (Math.abs(difference) > toleranceDays) {
+            const lastWorkingDay = node.earlyFinish > node.earlyStart ? node.earlyFinish - 1 : node.earlyFinish;
+            discrepancies.push({ field: "finish", imported: task.finishDate, calculated: fromDayNumber(lastWorkingDay), differenceDays: difference });
+        }
+    }
+    if (typeof task.userProvidedTotalFloat === "number" && isFinite(task.userProvidedTotalFloat)) {
+        const totalFloat = walker.countBetween(node.earlyFinish, node.lateFinish);
+        const difference = Math.round((totalFloat - task.userProvidedTotalFloat) * 100) / 100;
+        if (Math.abs(difference) > toleranceDays) {
+            discrepancies.push({ field: "totalFloat", imported: task.userProvidedTotalFloat, calculated: totalFloat, differenceDays: difference });
+        }
+    }
+    return discrepancies;
+}
+
+function getLargestDifference(check: CpmTaskCheck): number {
+    return check.discrepancies.reduce((largest, discrepancy) => Math.max(largest, Math.abs(discrepancy.differenceDays)), 0);
+}
+
+/**
+ * Relationship float derived from the linked dates, for data without Relationship Free
+ * Float: working days on `calendar` (every day when null) from the predecessor's start or
+ * finish to the successor's start or finish, as the type links them, less the lag. Finishes
+ * are exclusive as in the CPM pass. Null when either date is missing.
+ */
+export function deriveRelationshipFloat(
+    predecessor: Pick<CpmVerificationTask, "startDate" | "finishDate">,
+    successor: Pick<CpmVerificationTask, "startDate" | "finishDate">,
+    relationship: Pick<CpmVerificationRelationship, "type" | "lag">,
+    calendar: WorkingCalendar | null
+): number | null {
+    const type = normalizeRelationshipType(relationship.type);
+    const fromDate = type === "FS" || type === "FF" ? predecessor.finishDate : predecessor.startDate;
+    const toDate = type === "FS" || type === "SS" ? successor.startDate : successor.finishDate;
+    if (!isValidDate(fromDate) || !isValidDate(toDate)) {
+        return null;
+    }
+
+    const fromDay = type === "FS" || type === "FF" ? toFinishDayNumber(fromDate) : toDayNumber(fromDate);
+    const toDay = type === "FS" || type === "SS" ? toDayNumber(toDate) : toFinishDayNumber(toDate);
+    const lag = typeof relationship.lag === "number" && isFinite(relationship.lag) ? relationship.lag : 0;
+    return new CalendarWalker(calendar).countBetween(fromDay, toDay) - lag;
+}
+
+/**
+ * Runs an independent forward and backward pass over the whole network and compares the
+ * results with the imported Start, Finish and Total Float. Durations, lags and float are
+ * whole working days on each task's calendar; lags use the predecessor's calendar.
+ * Remaining work is scheduled from the anchor, completed tasks keep their actual dates and
+ * in-progress tasks keep their actual start and run their remaining duration from the
+ * anchor. Start/finish "on or after" and "on" constraints
+ * bound early dates; "on or before" and "on" constraints bound late dates. Finishes are
+ * exclusive: an imported finish counts its whole day as worked, with or without a time of day.
+ */
+export function verifyScheduleCpm(
+    tasks: readonly CpmVerificationTask[],
+    relationships: readonly CpmVerificationRelationship[],
+    options: CpmVerificationOptions
+): CpmVerificationResult {
+    const { anchor, anchorSource } = getScheduleAnchor(tasks, options.dataDate);
+    const result: CpmVerificationResult = {
+        anchor,
+        anchorSource,
+        projectFinish: null,
+        checks: new Map(),
+        discrepancyTaskIds: [],
+        blockedByCycle: false
+    };
+    if (!anchor) {
+        return result;
+    }
+
+    const nodes = new Map<string, NetworkNode>();
+    for (const task of tasks) {
+        if (nodes.has(task.internalId)) {
+            continue;
+        }
+        const isComplete = isValidDate(task.actualFinishDate);
+        const isInProgress = !isComplete && isValidDate(task.actualStartDate);
+        const calendar = options.getCalendar(task);
+        const node: NetworkNode = {
+            task,
+            walker: new CalendarWalker(calendar),
+            duration: Math.max(0, Math.round(isInProgress ? getRemainingDuration(task, anchor, calendar) : task.duration || 0)),
+            isComplete,
+            isInProgress,
+            successors: [],
+            predecessors: [],
+            earlyStart: 0,
+            earlyFinish: 0,
+            lateStart: 0,
+            lateFinish: 0
+        };
+        if (isComplete) {
+            const actualFinish = task.actualFinishDate as Date;
+            const actualStart = isValidDate(task.actualStartDate) ? task.actualStartDate : actualFinish;
+            node.earlyStart = toDayNumber(actualStart);
+            node.earlyFinish = Math.max(node.earlyStart, toFinishDayNumber(actualFinish));
+        }
+        nodes.set(task.internalId, node);
+    }
+
+    for (const relationship of relationships) {
+        const predecessor = nodes.get(relationship.predecessorId);
+        const successor = nodes.get(relationship.successorId);
+        if (!predecessor || !successor || predecessor === successor) {
+            continue;
+        }
+        const lag = typeof relationship.lag === "number" && isFinite(relationship.lag) ? Math.round(relationship.lag) : 0;
+        predecessor.successors.push({ node: successor, type: relationship.type, lag });
+        successor.predecessors.push({ node: predecessor, type: relationship.type, lag });
+    }
+
+    const order = getTopologicalOrder(Array.from(nodes.values()));
+    if (!order) {
+        result.blockedByCycle = true;
+        return result;
+    }
+
+    forwardPass(order, toDayNumber(anchor));
+    const projectFinishDay = order.reduce((latest, node) => Math.max(latest, node.earlyFinish), toDayNumber(anchor));
+    result.projectFinish = fromDayNumber(projectFinishDay);
+    backwardPass(order, projectFinishDay);
+
+    const tolerance = Math.max(0, options.toleranceDays);
+    for (const node of order) {
+        const check: CpmTaskCheck = {
+            taskId: node.task.internalId,
+            earlyStart: fromDayNumber(node.earlyStart),
+            earlyFinish: fromDayNumber(node.earlyFinish),
+            lateStart: fromDayNumber(node.lateStart),
+            lateFinish: fromDayNumber(node.lateFinish),
+            totalFloat: node.walker.countBetween(node.earlyFinish, node.lateFinish),
+            isComplete: node.isComplete,
+            discrepancies: node.isComplete ? [] : compareTask(node, tolerance)
+        };
+        result.checks.set(check.taskId, check);
+    }
+
+    result.discrepancyTaskIds = Array.from(result.checks.values())
+        .filter(check => check.discrepancies.length > 0)
+        .sort((a, b) => getLargestDifference(b) - getLargestDifference(a))
+        .map(check => check.taskId);
+    return result;
+}
+
+export function getCpmCheckFieldLabel(field: CpmCheckField): string {
+    switch (field) {
+        case "start":
+            return "Start";
+        case "finish":
+            return "Finish";
+        case "totalFloat":
+            return "Total Float";
+    }
+}
+
+/** Short column text such as "Finish +3d, TF -2d"; blank when the task matches. */
+export function formatCpmCheckSummary(check: CpmTaskCheck | null | undefined): string {
+    if (!check || check.discrepancies.length === 0) {
+        return "";
+    }
+    return check.discrepancies
+        .map(discrepancy => {
+            const label = discrepancy.field === "totalFloat" ? "TF" : getCpmCheckFieldLabel(discrepancy.field);
+            const sign = discrepancy.differenceDays > 0 ? "+" : "";
+            return `${label} ${sign}${discrepancy.differenceDays}d`;
+        })
+        .join(", ");
+}
@@ -0,0 +1,132 @@
+export type CriticalChangeStatus =
+    | "newlyCritical"
+    | "newlyNearCritical"
+    | "noLongerCritical"
+    | "noLongerNearCritical"
+    | "floatEroded"
+    | "unchanged";
+
+export const DEFAULT_EROSION_THRESHOLD_DAYS = 5;
+export const NO_PREVIOUS_FLOAT_LABEL = "No Previous Float";
+
+/** Legend and summary order: entries into the critical set first, unchanged last. */
+export const CRITICAL_CHANGE_STATUSES: readonly CriticalChangeStatus[] = [
+    "newlyCritical",
+    "newlyNearCritical",
+    "floatEroded",
+    "noLongerNearCritical",
+    "noLongerCritical",
+    "unchanged"
+];
+
+const STATUS_LABELS: Record<CriticalChangeStatus, string> = {
+    newlyCritical: "Newly Critical",
+    newlyNearCritical: "Newly Near-Critical",
+    floatEroded: "Float Eroded",
+    noLongerNearCritical: "No Longer Near-Critical",
+    noLongerCritical: "No Longer Critical",
+    unchanged: "No Change"
+};
+
+export interface CriticalChangeOptions {
+    /** Float at or below this many days is near-critical; 0 turns the near-critical band off. */
+    nearCriticalDays: number;
+    /** Smallest loss of float, in days, reported as erosion when the band is unchanged. */
+    erosionThresholdDays: number;
+}
+
+export interface CriticalChange {
+    status: CriticalChangeStatus;
+    currentFloat: number;
+    previousFloat: number;
+    /** Previous minus current float; positive when float was lost. */
+    erosionDays: number;
+}
+
+type FloatBand = "critical" | "nearCritical" | "none";
+
+function getFloatBand(totalFloat: number, nearCriticalDays: number): FloatBand {
+    if (totalFloat <= 0) {
+        return "critical";
+    }
+    return nearCriticalDays > 0 && totalFloat <= nearCriticalDays ? "nearCritical" : "none";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Compares an activity's total float with the previous update's. Moving into a band
+ * (critical at zero or less, near-critical up to `nearCriticalDays`) or out of one
+ * wins; otherwise a loss of at least `erosionThresholdDays` is erosion. Returns null
+ * when either float is missing.
+ */
+export function classifyCriticalChange(
+    currentFloat: number | null | undefined,
+    previousFloat: number | null | undefined,
+    options: CriticalChangeOptions
+): CriticalChange | null {
+    if (!isFiniteNumber(currentFloat) || !isFiniteNumber(previousFloat)) {
+        return null;
+    }
+    const nearCriticalDays = Math.max(0, options.nearCriticalDays);
+    const current = getFloatBand(currentFloat, nearCriticalDays);
+    const previous = getFloatBand(previousFloat, nearCriticalDays);
+    const erosionDays = previousFloat - currentFloat;
+
+    let status: CriticalChangeStatus = "unchanged";
+    if (current === "critical" && previous !== "critical") {
+        status = "newlyCritical";
+    } else if (previous === "critical" && current !== "critical") {
+        status = "noLongerCritical";
+    } else if (current === "nearCritical" && previous === "none") {
+        status = "newlyNearCritical";
+    } else if (previous === "nearCritical" && current === "none") {
+        status = "noLongerNearCritical";
+    } else if (erosionDays > 0 && erosionDays >= Math.max(0, options.erosionThresholdDays)) {
+        status = "floatEroded";
+    }
+    return { status, currentFloat, previousFloat, erosionDays };
+}
+
+export function getCriticalChangeStatusLabel(status: CriticalChangeStatus | null | undefined): string {
+    return status ? STATUS_LABELS[status] : NO_PREVIOUS_FLOAT_LABEL;
+}
+
+export function formatFloatDays(days: number): string {
+    return `${Number(days.toFixed(1))}d`;
+}
+
+/** Signed float change as shown in the column and ranking table, e.g. "-5d" for a loss. */
+export function formatFloatChange(change: CriticalChange): string {
+    const delta = -change.erosionDays;
+    return delta > 0 ? `+${formatFloatDays(delta)}` : formatFloatDays(delta);
+}
+
+/** Column text such as "Newly Critical (-3d)"; empty when either float is missing. */
+export function formatCriticalChangeSummary(change: CriticalChange | null | undefined): string {
+    if (!change) {
+        return "";
+    }
+    const label = getCriticalChangeStatusLabel(change.status);
+    return change.status === "unchanged" ? label : `${label} (${formatFloatChange(change)})`;
+}
+
+/** Changed activities, the largest loss of float first, then the least float. */
+export function rankCriticalChanges(changes: ReadonlyMap<string, CriticalChange>): Array<[string, CriticalChange]> {
+    return Array.from(changes.entries())
+        .filter(([, change]) => change.status !== "unchanged")
+        .sort(([aId, a], [bId, b]) =>
+            b.erosionDays - a.erosionDays ||
+            a.currentFloat - b.currentFloat ||
+            aId.localeCompare(bId));
+}
+
+export function countCriticalChanges(changes: ReadonlyMap<string, CriticalChange>): Record<CriticalChangeStatus, number> {
+    const counts = Object.fromEntries(CRITICAL_CHANGE_STATUSES.map(status => [status, 0])) as Record<CriticalChangeStatus, number>;
+    for (const change of changes.values()) {
+        counts[change.status]++;
+    }
+    return counts;
+}
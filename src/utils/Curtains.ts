@@ -0,0 +1,101 @@
+export interface Curtain {
+    key: string;
+    label: string;
+    start: Date;
+    finish: Date;
+    category: string | null;
+    /** Explicit colour when the category cell holds a hex colour; null uses the category colour. */
+    color: string | null;
+    source: "row" | "task";
+}
+
+export interface CurtainLegendEntry {
+    category: string;
+    color: string;
+    count: number;
+}
+
+export const UNCATEGORISED_CURTAIN_LABEL = "Curtain";
+
+export const CURTAIN_PALETTE = ["#F4B183", "#A9D18E", "#9DC3E6", "#FFD966", "#C9A0DC", "#F8CBAD", "#B4C7E7", "#D9D9D9"];
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function parseCurtainColor(value: unknown): string | null {
+    const text = value != null ? String(value).trim() : "";
+    return HEX_COLOR_PATTERN.test(text) ? text.toUpperCase() : null;
+}
+
+/**
+ * Builds a curtain from one bound row or task. The category cell may hold either a
+ * category name or a hex colour. Reversed dates are swapped; a missing finish makes a
+ * one-day curtain. Returns null without a valid start.
+ */
+export function createCurtain(
+    label: unknown,
+    start: Date | null,
+    finish: Date | null,
+    category: unknown,
+    source: Curtain["source"]
+): Curtain | null {
+    if (!start || isNaN(start.getTime())) {
+        return null;
+    }
+
+    let curtainStart = start;
+    let curtainFinish = finish && !isNaN(finish.getTime())
+        ? finish
+        : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    if (curtainFinish.getTime() < curtainStart.getTime()) {
+        [curtainStart, curtainFinish] = [curtainFinish, curtainStart];
+    }
+
+    const color = parseCurtainColor(category);
+    const categoryText = !color && category != null ? String(category).trim() : "";
+    const labelText = label != null ? String(label).trim() : "";
+    return {
+        key: `${labelText}\u0000${curtainStart.getTime()}\u0000${curtainFinish.getTime()}\u0000${color ?? categoryText}`,
+        label: labelText || categoryText || UNCATEGORISED_CURTAIN_LABEL,
+        start: curtainStart,
+        finish: curtainFinish,
+        category: categoryText || null,
+        color,
+        source
+    };
+}
+
+/**
+ * Groups curtains by category in order of first appearance. Each category takes the first
+ * explicit colour among its curtains, otherwise the next palette colour.
+ */
+export function buildCurtainLegend(curtains: readonly Curtain[], palette: readonly string[] = CURTAIN_PALETTE): CurtainLegendEntry[] {
+    const entries = new Map<string, CurtainLegendEntry>();
+    let paletteIndex = 0;
+    for (const curtain of curtains) {
+        const category = curtain.category ?? UNCATEGORISED_CURTAIN_LABEL;
+        let entry = entries.get(category);
+        if (!entry) {
+            entry = { category, color: curtain.color ?? palette[paletteIndex++ % palette.length], count: 0 };
+            entries.set(category, entry);
+        }
+        entry.count++;
+    }
+    return Array.from(entries.values());
+}
+
+export function getCurtainColor(curtain: Curtain, legend: readonly CurtainLegendEntry[]): string {
+    if (curtain.color) {
+        return curtain.color;
+    }
+    const category = curtain.category ?? UNCATEGORISED_CURTAIN_LABEL;
+    return legend.find(entry => entry.category === category)?.color ?? CURTAIN_PALETTE[0];
+}
+
+/** Curtains that share at least part of `[start, finish]`; a milestone passes the same date twice. */
+export function getOverlappingCurtains(curtains: readonly Curtain[], start: Date, finish: Date): Curtain[] {
+    const startTime = Math.min(start.getTime(), finish.getTime());
+    const finishTime = Math.max(start.getTime(), finish.getTime());
+    return curtains.filter(curtain =>
+        curtain.start.getTime() <= finishTime && curtain.finish.getTime() >= startTime
+    );
+}
@@ -0,0 +1,110 @@
+export interface DurationUnitOptions {
+    hoursPerDay: number;
+    daysPerWeek: number;
+}
+
+export interface ParsedDuration {
+    /** Duration in days; null when the value is a percentage. */
+    days: number | null;
+    percent: number | null;
+}
+
+export const DEFAULT_DURATION_UNIT_OPTIONS: DurationUnitOptions = { hoursPerDay: 8, daysPerWeek: 5 };
+
+const DURATION_PATTERN = /^([+-]?)\s*(\d+(?:\.\d+)?|\.\d+)\s*([a-z%]*)\.?$/i;
+
+/** Falls back to the defaults for missing, zero or negative conversion factors. */
+export function resolveDurationUnitOptions(
+    hoursPerDay: number | null | undefined,
+    daysPerWeek: number | null | undefined
+): DurationUnitOptions {
+    const isPositive = (value: number | null | undefined): value is number =>
+        typeof value === "number" && isFinite(value) && value > 0;
+    return {
+        hoursPerDay: isPositive(hoursPerDay) ? hoursPerDay : DEFAULT_DURATION_UNIT_OPTIONS.hoursPerDay,
+        daysPerWeek: isPositive(daysPerWeek) ? daysPerWeek : DEFAULT_DURATION_UNIT_OPTIONS.daysPerWeek
+    };
+}
+
+/**
+ * Parses "5", "16h", "-3w", "5ed", "2.5 days" or, when `allowPercent` is set, "50%".
+ * Working days and elapsed days both map to days because bars are plotted on calendar
+ * dates; working weeks and hours use the given days-per-week and hours-per-day, while
+ * elapsed weeks ("ew") and hours ("eh") use 7 and 24.
+ */
+export function parseDurationText(
+    text: string,
+    options: DurationUnitOptions = DEFAULT_DURATION_UNIT_OPTIONS,
+    allowPercent: boolean = false
+): ParsedDuration | null {
+    const match = DURATION_PATTERN.exec(text.trim());
+    if (!match) {
+        return null;
+    }
+
+    const value = Number(match[2]) * (match[1] === "-" ? -1 : 1);
+    switch (match[3].toLowerCase()) {
+        case "":
+        case "d":
+        case "day":
+        case "days":
+        case "ed":
+        case "eday":
+        case "edays":
+            return { days: value, percent: null };
+        case "w":
+        case "wk":
+        case "wks":
+        case "week":
+        case "weeks":
+            return { days: value * options.daysPerWeek, percent: null };
+        case "ew":
+        case "ewk":
+        case "ewks":
+        case "eweek":
+        case "eweeks":
+            return { days: value * 7, percent: null };
+        case "h":
+        case "hr":
+        case "hrs":
+        case "hour":
+        case "hours":
+            return { days: value / options.hoursPerDay, percent: null };
+        case "eh":
+        case "ehr":
+        case "ehrs":
+        case "ehour":
+        case "ehours":
+            return { days: value / 24, percent: null };
+        case "%":
+            return allowPercent ? { days: null, percent: value } : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Reads a duration cell as days. Numbers pass through; text is parsed with units.
+ * Returns undefined for blank cells and null for values that cannot be read.
+ */
+export function parseDurationValue(
+    value: unknown,
+    options: DurationUnitOptions = DEFAULT_DURATION_UNIT_OPTIONS
+): number | null | undefined {
+    if (value == null || (typeof value === "string" && value.trim() === "")) {
+        return undefined;
+    }
+
+    if (typeof value === "number") {
+        return isFinite(value) ? value : null;
+    }
+
+    const parsed = parseDurationText(String(value), options);
+    return parsed && parsed.days !== null && isFinite(parsed.days) ? parsed.days : null;
+}
+
+/** Whole days print without decimals; fractional days (e.g. from hours) keep up to two. */
+export function formatDurationDays(days: number): string {
+    const rounded = Math.round(days * 100) / 100;
+    return Number.isInteger(rounded) ? rounded.toFixed(0) : String(rounded);
+}
@@ -0,0 +1,152 @@
+import { getLatestFinishTaskIds, isRealFinishTask } from "./LongestPathLogic";
+import type { LongestPathTaskLike } from "./LongestPathLogic";
+
+export const DEFAULT_FLOAT_PATH_COUNT = 10;
+export const MAX_FLOAT_PATH_COUNT = 50;
+export const NO_FLOAT_PATH_LABEL = "No Float Path";
+
+export interface FloatPathRelationshipLike {
+    predecessorId: string;
+    successorId: string;
+    freeFloat?: number | null;
+}
+
+export interface FloatPath {
+    /** 1 is the driving path into the end activity. */
+    pathNumber: number;
+    /** From the activity that joins an earlier path back to the path's first activity. */
+    taskIds: string[];
+    /** Float relative to the driving path where this path joins it, in days. */
+    relativeFloatDays: number;
+}
+
+export interface FloatPathResult {
+    endTaskIds: string[];
+    paths: FloatPath[];
+    pathByTaskId: Map<string, number>;
+}
+
+interface FloatPathCandidate {
+    taskId: string;
+    relativeFloatDays: number;
+    finishTime: number;
+}
+
+export function normalizeFloatPathCount(value: unknown): number {
+    const count = typeof value === "number" && isFinite(value) ? Math.floor(value) : DEFAULT_FLOAT_PATH_COUNT;
+    return Math.max(1, Math.min(MAX_FLOAT_PATH_COUNT, count));
+}
+
+export function getFloatPathLabel(pathNumber: number | null | undefined): string {
+    return typeof pathNumber === "number" && pathNumber > 0 ? `Float Path ${pathNumber}` : NO_FLOAT_PATH_LABEL;
+}
+
+/** Candidates with less relative float first, then later finishes, then stable ID order. */
+function compareCandidates(a: FloatPathCandidate, b: FloatPathCandidate): number {
+    return a.relativeFloatDays - b.relativeFloatDays ||
+        b.finishTime - a.finishTime ||
+        a.taskId.localeCompare(b.taskId);
+}
+
+/**
+ * P6-style Multiple Float Paths using relationship free float. Path 1 follows the
+ * driving (lowest incoming free float) predecessor back from the end activity. Each
+ * later path starts at the unassigned predecessor with the least float relative to
+ * an activity already on a path, then follows its own driving predecessors back
+ * until the driving predecessor is already on a path. A link's relative float is its free float above the
+ * successor's lowest incoming free float, accumulated along the paths it joins.
+ * Links without a finite free float are ignored, and activities that never reach
+ * the end activity keep no path.
+ */
+export function calculateFloatPaths<TTask extends LongestPathTaskLike, TRel extends FloatPathRelationshipLike>(
+    tasks: Iterable<TTask>,
+    relationships: Iterable<TRel>,
+    maxPaths: number,
+    endTaskId: string | null = null
+): FloatPathResult {
+    const tasksById = new Map<string, TTask>();
+    for (const task of tasks) {
+        tasksById.set(task.internalId, task);
+    }
+
+    const endTaskIds = endTaskId && tasksById.has(endTaskId)
+        ? [endTaskId]
+        : getLatestFinishTaskIds(Array.from(tasksById.values()).filter(isRealFinishTask));
+    const result: FloatPathResult = { endTaskIds, paths: [], pathByTaskId: new Map() };
+    const pathLimit = normalizeFloatPathCount(maxPaths);
+    if (endTaskIds.length === 0) {
+        return result;
+    }
+
+    const incoming = new Map<string, Array<{ predecessorId: string; freeFloat: number }>>();
+    for (const relationship of relationships) {
+        const freeFloat = relationship.freeFloat;
+        if (typeof freeFloat !== "number" || !isFinite(freeFloat) ||
+            relationship.predecessorId === relationship.successorId ||
+            !tasksById.has(relationship.predecessorId) ||
+            !tasksById.has(relationship.successorId)) {
+            continue;
+        }
+        const links = incoming.get(relationship.successorId) ?? [];
+        links.push({ predecessorId: relationship.predecessorId, freeFloat });
+        incoming.set(relationship.successorId, links);
+    }
+
+    const getFinishTime = (taskId: string): number => {
+        const time = tasksById.get(taskId)?.finishDate?.getTime();
+        return typeof time === "number" && isFinite(time) ? time : -Infinity;
+    };
+    const relativeFloatByTaskId = new Map<string, number>();
+    const getPredecessorCandidates = (taskId: string): FloatPathCandidate[] => {
+        const links = incoming.get(taskId) ?? [];
+        const drivingFloat = Math.min(...links.map(link => link.freeFloat));
+        const baseFloat = relativeFloatByTaskId.get(taskId) ?? 0;
+        return links
+            .filter(link => !result.pathByTaskId.has(link.predecessorId))
+            .map(link => ({
+                taskId: link.predecessorId,
+                relativeFloatDays: baseFloat + Math.max(0, link.freeFloat - drivingFloat),
+                finishTime: getFinishTime(link.predecessorId)
+            }));
+    };
+
+    const candidates: FloatPathCandidate[] = endTaskIds.map(taskId => ({
+        taskId,
+        relativeFloatDays: 0,
+        finishTime: getFinishTime(taskId)
+    }));
+
+    while (result.paths.length < pathLimit) {
+        let next: FloatPathCandidate | null = null;
+        for (const candidate of candidates) {
+            if (!result.pathByTaskId.has(candidate.taskId) && (!next || compareCandidates(candidate, next) < 0)) {
+                next = candidate;
+            }
+        }
+        if (!next) {
+            break;
+        }
+
+        const path: FloatPath = {
+            pathNumber: result.paths.length + 1,
+            taskIds: [],
+            relativeFloatDays: next.relativeFloatDays
+        };
+        let current: FloatPathCandidate | undefined = next;
+        while (current) {
+            result.pathByTaskId.set(current.taskId, path.pathNumber);
+            relativeFloatByTaskId.set(current.taskId, current.relativeFloatDays);
+            path.taskIds.push(current.taskId);
+
+            // The path continues only through the driving predecessor; once that is
+            // already on a path, the remaining predecessors wait for later paths.
+            const predecessors = getPredecessorCandidates(current.taskId).sort(compareCandidates);
+            candidates.push(...predecessors);
+            const driving: FloatPathCandidate | undefined = predecessors[0];
+            current = driving && driving.relativeFloatDays === current.relativeFloatDays ? driving : undefined;
+        }
+        result.paths.push(path);
+    }
+
+    return result;
+}
@@ -13,6 +13,17 @@ export type HeaderMenuAction =
     | "wbsEnable"
     | "wbsExpand"
     | "wbsCollapse"
+    | "scheduleCheck"
+    | "scheduleRisk"
+    | "scheduleAssessment"
+    | "openEnds"
+    | "redundantLogic"
+    | "floatErosion"
+    | "milestoneTrend"
+    | "whatIf"
+    | "pathTarget"
+    | "comparisonSnapshot"
+    | "playback"
     | "html"
     | "pdf"
     | "help";
@@ -28,6 +39,17 @@ export interface HeaderDesiredControls {
     wbsEnable: boolean;
     wbsExpand: boolean;
     wbsCollapse: boolean;
+    scheduleCheck: boolean;
+    scheduleRisk: boolean;
+    scheduleAssessment: boolean;
+    openEnds: boolean;
+    redundantLogic: boolean;
+    floatErosion: boolean;
+    milestoneTrend: boolean;
+    whatIf: boolean;
+    pathTarget: boolean;
+    comparisonSnapshot: boolean;
+    playback: boolean;
     copyButton: boolean;
     htmlExportButton: boolean;
     exportButton: boolean;
@@ -42,6 +64,8 @@ export interface HeaderActiveControlState {
     showConnectorLines: boolean;
     showExtraColumns: boolean;
     wbsEnabled: boolean;
+    whatIfActive: boolean;
+    pathTargetActive: boolean;
 }
 
 export interface HeaderLayoutInput {
@@ -97,6 +121,8 @@ export interface HeaderSecondRowLayoutInput {
     configuredDropdownWidth?: number;
     dropdownPosition?: string;
     traceVisible?: boolean;
+    /** Buttons in the trace mode toggle; defaults to two (Backward and Forward). */
+    traceOptionCount?: number;
 }
 
 export interface HeaderSecondRowLayout {
@@ -249,6 +275,17 @@ export function computeHeaderButtonLayout(input: HeaderLayoutInput): HeaderButto
         if (desiredControls.wbsEnable && !visibleButtons.wbsEnable) controls.push("wbsEnable");
         if (desiredControls.wbsExpand && !visibleButtons.wbsExpand) controls.push("wbsExpand");
         if (desiredControls.wbsCollapse && !visibleButtons.wbsCollapse) controls.push("wbsCollapse");
+        if (desiredControls.scheduleCheck) controls.push("scheduleCheck");
+        if (desiredControls.scheduleRisk) controls.push("scheduleRisk");
+        if (desiredControls.scheduleAssessment) controls.push("scheduleAssessment");
+        if (desiredControls.openEnds) controls.push("openEnds");
+        if (desiredControls.redundantLogic) controls.push("redundantLogic");
+        if (desiredControls.floatErosion) controls.push("floatErosion");
+        if (desiredControls.milestoneTrend) controls.push("milestoneTrend");
+        if (desiredControls.whatIf) controls.push("whatIf");
+        if (desiredControls.pathTarget) controls.push("pathTarget");
+        if (desiredControls.comparisonSnapshot) controls.push("comparisonSnapshot");
+        if (desiredControls.playback) controls.push("playback");
         if (desiredControls.htmlExportButton && !visibleButtons.htmlExportButton) controls.push("html");
         if (desiredControls.exportButton && !visibleButtons.exportButton) controls.push("pdf");
         if (desiredControls.helpButton && !visibleButtons.helpButton) controls.push("help");
@@ -523,6 +560,10 @@ export function getActiveHiddenHeaderControlCount(
                 return count + (state.showExtraColumns ? 1 : 0);
             case "wbsEnable":
                 return count + (state.wbsEnabled ? 1 : 0);
+            case "whatIf":
+                return count + (state.whatIfActive ? 1 : 0);
+            case "pathTarget":
+                return count + (state.pathTargetActive ? 1 : 0);
             default:
                 return count;
         }
@@ -535,7 +576,7 @@ export function computeSecondRowLayout(input: HeaderSecondRowLayoutInput): Heade
     const horizontalPadding = 10;
     const traceVisible = !!input.traceVisible;
     const traceButtonWidth = mode === "narrow" ? 30 : (mode === "medium" ? 68 : 92);
-    const traceContainerWidth = (traceButtonWidth * 2) + 10;
+    const traceContainerWidth = (traceButtonWidth * Math.max(1, input.traceOptionCount ?? 2)) + 10;
     const traceGap = traceVisible ? 12 : 0;
     const statusGap = traceVisible ? 12 : 12;
     const reservedTraceWidth = traceVisible ? traceGap + traceContainerWidth + statusGap : 0;
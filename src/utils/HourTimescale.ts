@@ -0,0 +1,83 @@
+export type TimeResolution = "day" | "hour";
+
+export interface ShiftPattern {
+    /** Length of each shift in hours; the last shift of a day is cut short at the next day's start. */
+    lengthHours: number;
+    /** Local hour (0-23) at which the first shift of each day starts. */
+    startHour: number;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MAX_SHIFT_BOUNDARIES = 5000;
+
+export function normalizeTimeResolution(value: unknown): TimeResolution {
+    return value === "hour" ? "hour" : "day";
+}
+
+export function normalizeShiftPattern(lengthHours: number | null | undefined, startHour: number | null | undefined): ShiftPattern {
+    const length = typeof lengthHours === "number" && isFinite(lengthHours)
+        ? Math.min(24, Math.max(1, Math.round(lengthHours)))
+        : 8;
+    const start = typeof startHour === "number" && isFinite(startHour)
+        ? ((Math.round(startHour) % 24) + 24) % 24
+        : 6;
+    return { lengthHours: length, startHour: start };
+}
+
+/** Local start of the shift day containing `date`; times before the first shift belong to the previous day. */
+function getShiftDayStart(date: Date, pattern: ShiftPattern): Date {
+    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate(), pattern.startHour);
+    if (dayStart.getTime() > date.getTime()) {
+        dayStart.setDate(dayStart.getDate() - 1);
+    }
+    return dayStart;
+}
+
+/**
+ * Returns shift start times in `[start, end]`. Shifts restart at `startHour` every day,
+ * so a pattern that does not divide 24 hours ends each day with a shorter shift.
+ */
+export function getShiftBoundaries(start: Date, end: Date, pattern: ShiftPattern): Date[] {
+    const boundaries: Date[] = [];
+    if (!(end.getTime() > start.getTime())) {
+        return boundaries;
+    }
+
+    const shiftsPerDay = Math.ceil(24 / pattern.lengthHours);
+    const dayStart = getShiftDayStart(start, pattern);
+    while (boundaries.length < MAX_SHIFT_BOUNDARIES && dayStart.getTime() <= end.getTime()) {
+        for (let shift = 0; shift < shiftsPerDay; shift++) {
+            const boundary = new Date(dayStart.getTime());
+            boundary.setHours(boundary.getHours() + shift * pattern.lengthHours);
+            if (boundary.getTime() >= start.getTime() && boundary.getTime() <= end.getTime()) {
+                boundaries.push(boundary);
+            }
+        }
+        dayStart.setDate(dayStart.getDate() + 1);
+    }
+    return boundaries;
+}
+
+/** One-based shift number within its shift day. */
+export function getShiftNumber(date: Date, pattern: ShiftPattern): number {
+    const elapsedHours = (date.getTime() - getShiftDayStart(date, pattern).getTime()) / MS_PER_HOUR;
+    return Math.floor(elapsedHours / pattern.lengthHours) + 1;
+}
+
+export function isShiftBoundary(date: Date, pattern: ShiftPattern): boolean {
+    if (date.getMinutes() !== 0 || date.getSeconds() !== 0 || date.getMilliseconds() !== 0) {
+        return false;
+    }
+    const elapsedHours = Math.round((date.getTime() - getShiftDayStart(date, pattern).getTime()) / MS_PER_HOUR);
+    return elapsedHours % pattern.lengthHours === 0;
+}
+
+export function formatTimeOfDay(date: Date): string {
+    return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+/** Whole hours print without decimals; fractional hours keep one. */
+export function formatHours(hours: number): string {
+    const rounded = Math.round(hours * 10) / 10;
+    return Number.isInteger(rounded) ? rounded.toFixed(0) : rounded.toFixed(1);
+}
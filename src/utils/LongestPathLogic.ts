@@ -1,9 +1,20 @@
 export type DrivingTraceDirection = "backward" | "forward";
 
+/** Trace modes offered by the trace toggle; "between" traces from task A to task B. */
+export type DrivingTraceMode = DrivingTraceDirection | "between";
+
+/**
+ * Why an A to B trace found no driving route: a task is missing, A and B are the
+ * same task, B drives A rather than the reverse, logic links them but not through
+ * driving relationships, or no logic links them at all.
+ */
+export type DrivingConnectionGap = "missingTask" | "sameTask" | "reversed" | "nonDriving" | "disconnected";
+
 export interface LongestPathTaskLike {
     internalId: string;
     finishDate?: Date | null;
     type?: string | null;
+    projectId?: string | null;
 }
 
 export interface LongestPathRelationshipLike {
@@ -36,12 +47,8 @@ export function calculateLongestPathMembership<
     relationships: Iterable<TRelationship>
 ): LongestPathMembership<TRelationship> {
     const taskList = Array.from(tasks);
-    const realTasks = taskList.filter(task => {
-        const finishTime = task.finishDate?.getTime();
-        return task.type !== "Synthetic" && typeof finishTime === "number" && Number.isFinite(finishTime);
-    });
-
-    if (realTasks.length === 0) {
+    const finishTaskIds = getLatestFinishTaskIds(taskList.filter(isRealFinishTask));
+    if (finishTaskIds.length === 0) {
         return {
             finishTaskIds: [],
             taskIds: new Set<string>(),
@@ -49,13 +56,79 @@ export function calculateLongestPathMembership<
         };
     }
 
+    const validTaskIds = new Set(taskList.map(task => task.internalId));
+    return collectDrivingMembership(
+        finishTaskIds,
+        "backward",
+        validTaskIds,
+        buildIncomingDrivingRelationships(validTaskIds, relationships),
+        new Map<string, TRelationship[]>()
+    );
+}
+
+/**
+ * Per-project variant of calculateLongestPathMembership: each project's own
+ * latest-finish activities are the sinks. Driving ancestry is traced across the
+ * whole network, so a project driven through an inter-project link keeps the
+ * upstream project's activities on its path. Activities without a project are
+ * never sinks. Results are keyed by project id in ascending order.
+ */
+export function calculateProjectLongestPathMemberships<
+    TTask extends LongestPathTaskLike,
+    TRelationship extends LongestPathRelationshipLike
+>(
+    tasks: Iterable<TTask>,
+    relationships: Iterable<TRelationship>
+): Map<string, LongestPathMembership<TRelationship>> {
+    const taskList = Array.from(tasks);
+    const tasksByProject = new Map<string, TTask[]>();
+    for (const task of taskList) {
+        if (!task.projectId || !isRealFinishTask(task)) {
+            continue;
+        }
+        const projectTasks = tasksByProject.get(task.projectId) ?? [];
+        projectTasks.push(task);
+        tasksByProject.set(task.projectId, projectTasks);
+    }
+
+    const validTaskIds = new Set(taskList.map(task => task.internalId));
+    const incoming = buildIncomingDrivingRelationships(validTaskIds, relationships);
+    const memberships = new Map<string, LongestPathMembership<TRelationship>>();
+    const projectIds = Array.from(tasksByProject.keys()).sort((left, right) => left.localeCompare(right));
+    for (const projectId of projectIds) {
+        memberships.set(projectId, collectDrivingMembership(
+            getLatestFinishTaskIds(tasksByProject.get(projectId)!),
+            "backward",
+            validTaskIds,
+            incoming,
+            new Map<string, TRelationship[]>()
+        ));
+    }
+
+    return memberships;
+}
+
+export function isRealFinishTask(task: LongestPathTaskLike): boolean {
+    const finishTime = task.finishDate?.getTime();
+    return task.type !== "Synthetic" && typeof finishTime === "number" && Number.isFinite(finishTime);
+}
+
+export function getLatestFinishTaskIds(realTasks: LongestPathTaskLike[]): string[] {
+    if (realTasks.length === 0) {
+        return [];
+    }
+
     const latestFinish = Math.max(...realTasks.map(task => task.finishDate!.getTime()));
-    const finishTaskIds = realTasks
+    return realTasks
         .filter(task => task.finishDate!.getTime() === latestFinish)
         .map(task => task.internalId)
         .sort((left, right) => left.localeCompare(right));
+}
 
-    const validTaskIds = new Set(taskList.map(task => task.internalId));
+function buildIncomingDrivingRelationships<TRelationship extends LongestPathRelationshipLike>(
+    validTaskIds: Set<string>,
+    relationships: Iterable<TRelationship>
+): Map<string, TRelationship[]> {
     const incoming = new Map<string, TRelationship[]>();
     for (const relationship of relationships) {
         if (relationship.isDriving !== true ||
@@ -68,41 +141,112 @@ export function calculateLongestPathMembership<
         successorRelationships.push(relationship);
         incoming.set(relationship.successorId, successorRelationships);
     }
-
-    return collectDrivingMembership(
-        finishTaskIds,
-        "backward",
-        validTaskIds,
-        incoming,
-        new Map<string, TRelationship[]>()
-    );
+    return incoming;
 }
 
 /**
  * Collects the complete driving closure for selected-task backward or forward
- * tracing. Every tied driving branch is retained.
+ * tracing. Every tied driving branch is retained. In "between" mode the closure
+ * is every activity and driving relationship on some driving route from the
+ * start task to `endTaskId`; it is empty when no such route exists.
  */
 export function collectDrivingTraceMembership<
     TTask extends LongestPathTaskLike,
     TRelationship extends LongestPathRelationshipLike
 >(
     startTaskId: string,
-    direction: DrivingTraceDirection,
+    direction: DrivingTraceMode,
     tasks: Iterable<TTask>,
-    relationships: Iterable<TRelationship>
+    relationships: Iterable<TRelationship>,
+    endTaskId: string | null = null
 ): DrivingTraceMembership<TRelationship> {
     const validTaskIds = new Set(Array.from(tasks, task => task.internalId));
-    if (!validTaskIds.has(startTaskId)) {
+    const emptyMembership = (): DrivingTraceMembership<TRelationship> => ({
+        taskIds: new Set<string>(),
+        relationships: new Set<TRelationship>()
+    });
+    if (!validTaskIds.has(startTaskId) ||
+        (direction === "between" && (!endTaskId || !validTaskIds.has(endTaskId)))) {
+        return emptyMembership();
+    }
+
+    const { incoming, outgoing } = buildDrivingAdjacency(validTaskIds, relationships, true);
+    if (direction !== "between") {
+        const result = collectDrivingMembership(
+            [startTaskId],
+            direction,
+            validTaskIds,
+            incoming,
+            outgoing
+        );
         return {
-            taskIds: new Set<string>(),
-            relationships: new Set<TRelationship>()
+            taskIds: result.taskIds,
+            relationships: result.relationships
         };
     }
 
+    const downstream = collectDrivingMembership([startTaskId], "forward", validTaskIds, incoming, outgoing);
+    if (!downstream.taskIds.has(endTaskId!)) {
+        return emptyMembership();
+    }
+
+    const upstream = collectDrivingMembership([endTaskId!], "backward", validTaskIds, incoming, outgoing);
+    const taskIds = new Set(Array.from(downstream.taskIds).filter(taskId => upstream.taskIds.has(taskId)));
+    const betweenRelationships = new Set(Array.from(downstream.relationships).filter(relationship =>
+        taskIds.has(relationship.predecessorId) && taskIds.has(relationship.successorId)
+    ));
+    return {
+        taskIds,
+        relationships: betweenRelationships
+    };
+}
+
+/**
+ * Explains an empty A to B trace, or returns null when a driving route from
+ * the start task to the end task exists.
+ */
+export function getDrivingConnectionGap<
+    TTask extends LongestPathTaskLike,
+    TRelationship extends LongestPathRelationshipLike
+>(
+    startTaskId: string,
+    endTaskId: string,
+    tasks: Iterable<TTask>,
+    relationships: Iterable<TRelationship>
+): DrivingConnectionGap | null {
+    const validTaskIds = new Set(Array.from(tasks, task => task.internalId));
+    if (!validTaskIds.has(startTaskId) || !validTaskIds.has(endTaskId)) {
+        return "missingTask";
+    }
+    if (startTaskId === endTaskId) {
+        return "sameTask";
+    }
+
+    const relationshipList = Array.from(relationships);
+    const reaches = (fromTaskId: string, toTaskId: string, drivingOnly: boolean): boolean => {
+        const { incoming, outgoing } = buildDrivingAdjacency(validTaskIds, relationshipList, drivingOnly);
+        return collectDrivingMembership([fromTaskId], "forward", validTaskIds, incoming, outgoing)
+            .taskIds.has(toTaskId);
+    };
+
+    if (reaches(startTaskId, endTaskId, true)) {
+        return null;
+    }
+    if (reaches(endTaskId, startTaskId, true)) {
+        return "reversed";
+    }
+    return reaches(startTaskId, endTaskId, false) ? "nonDriving" : "disconnected";
+}
+
+function buildDrivingAdjacency<TRelationship extends LongestPathRelationshipLike>(
+    validTaskIds: Set<string>,
+    relationships: Iterable<TRelationship>,
+    drivingOnly: boolean
+): { incoming: Map<string, TRelationship[]>; outgoing: Map<string, TRelationship[]> } {
     const incoming = new Map<string, TRelationship[]>();
     const outgoing = new Map<string, TRelationship[]>();
     for (const relationship of relationships) {
-        if (relationship.isDriving !== true ||
+        if ((drivingOnly && relationship.isDriving !== true) ||
             !validTaskIds.has(relationship.predecessorId) ||
             !validTaskIds.has(relationship.successorId)) {
             continue;
@@ -116,18 +260,7 @@ export function collectDrivingTraceMembership<
         predecessorRelationships.push(relationship);
         outgoing.set(relationship.predecessorId, predecessorRelationships);
     }
-
-    const result = collectDrivingMembership(
-        [startTaskId],
-        direction,
-        validTaskIds,
-        incoming,
-        outgoing
-    );
-    return {
-        taskIds: result.taskIds,
-        relationships: result.relationships
-    };
+    return { incoming, outgoing };
 }
 
 function collectDrivingMembership<TRelationship extends LongestPathRelationshipLike>(
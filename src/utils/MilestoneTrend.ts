@@ -0,0 +1,136 @@
+import type { ScheduleSnapshot } from "../data/Interfaces";
+import { isTaskMilestone, isValidTaskDate } from "./TaskBarGeometry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MilestoneTrendTaskLike {
+    internalId: string;
+    type: string;
+    duration: number;
+    finishDate?: Date | null;
+    baselineFinishDate?: Date | null;
+    previousUpdateFinishDate?: Date | null;
+}
+
+export interface MilestoneTrendReport {
+    label: string;
+    /** When the forecast was reported; null when the data does not say, as for the baseline. */
+    reportDate: Date | null;
+}
+
+export interface MilestoneTrendSeries {
+    taskId: string;
+    /** Forecast finish per report, aligned with `MilestoneTrend.reports`; null where missing. */
+    finishes: Array<Date | null>;
+    /** Latest reported forecast minus the earliest, in calendar days; positive is a slip. */
+    slipDays: number | null;
+}
+
+export interface MilestoneTrend {
+    reports: MilestoneTrendReport[];
+    series: MilestoneTrendSeries[];
+    minFinish: Date | null;
+    maxFinish: Date | null;
+}
+
+export interface MilestoneTrendOptions {
+    /** Reporting date of the current finishes, normally the Data Date. */
+    currentReportDate: Date | null;
+    /** Counts zero-duration activities as milestones, as No Calculation mode draws them. */
+    treatZeroDurationAsMilestone: boolean;
+    /** Snapshot Date history, oldest first; with two or more it replaces Previous Update and Current. */
+    snapshots?: readonly ScheduleSnapshot[];
+}
+
+type MilestoneTrendColumn = {
+    report: MilestoneTrendReport;
+    getFinish: (task: MilestoneTrendTaskLike) => Date | null | undefined;
+};
+
+function getReportColumns(options: MilestoneTrendOptions): MilestoneTrendColumn[] {
+    const baseline: MilestoneTrendColumn = {
+        report: { label: "Baseline", reportDate: null },
+        getFinish: task => task.baselineFinishDate
+    };
+    const snapshots = options.snapshots ?? [];
+    if (snapshots.length > 1) {
+        return [baseline, ...snapshots.map((snapshot, index): MilestoneTrendColumn => ({
+            report: {
+                label: index === snapshots.length - 1 ? "Current" : `Update ${index + 1}`,
+                reportDate: snapshot.dataDate ?? snapshot.snapshotDate
+            },
+            getFinish: task => snapshot.tasks.get(task.internalId)?.finishDate
+        }))];
+    }
+    return [
+        baseline,
+        { report: { label: "Previous Update", reportDate: null }, getFinish: task => task.previousUpdateFinishDate },
+        { report: { label: "Current", reportDate: options.currentReportDate }, getFinish: task => task.finishDate }
+    ];
+}
+
+/**
+ * Milestone Trend Analysis data: one series per milestone with its Baseline, Previous
+ * Update and current Finish as successive reports, or its Baseline and the finish in
+ * each snapshot when there is a Snapshot Date history. Reports no milestone has a date for
+ * are left out, as are milestones without any date. Series are ordered by their latest
+ * forecast, then ID.
+ */
+export function buildMilestoneTrend(
+    tasks: Iterable<MilestoneTrendTaskLike>,
+    options: MilestoneTrendOptions
+): MilestoneTrend {
+    const milestones = Array.from(tasks).filter(task => isTaskMilestone(task, options.treatZeroDurationAsMilestone));
+    const columns = getReportColumns(options)
+        .filter(column => milestones.some(task => isValidTaskDate(column.getFinish(task))));
+
+    const series: MilestoneTrendSeries[] = [];
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    for (const task of milestones) {
+        const finishes = columns.map(column => {
+            const finish = column.getFinish(task);
+            return isValidTaskDate(finish) ? finish : null;
+        });
+        const reported = finishes.filter((finish): finish is Date => finish !== null);
+        if (reported.length === 0) {
+            continue;
+        }
+        for (const finish of reported) {
+            minTime = Math.min(minTime, finish.getTime());
+            maxTime = Math.max(maxTime, finish.getTime());
+        }
+        series.push({
+            taskId: task.internalId,
+            finishes,
+            slipDays: reported.length > 1
+                ? Math.round((reported[reported.length - 1].getTime() - reported[0].getTime()) / DAY_MS)
+                : null
+        });
+    }
+
+    const latestTime = (entry: MilestoneTrendSeries): number => {
+        for (let index = entry.finishes.length - 1; index >= 0; index--) {
+            const finish = entry.finishes[index];
+            if (finish) {
+                return finish.getTime();
+            }
+        }
+        return Infinity;
+    };
+    series.sort((a, b) => latestTime(a) - latestTime(b) || a.taskId.localeCompare(b.taskId));
+
+    return {
+        reports: columns.map(column => column.report),
+        series,
+        minFinish: series.length > 0 ? new Date(minTime) : null,
+        maxFinish: series.length > 0 ? new Date(maxTime) : null
+    };
+}
+
+export function formatMilestoneSlip(slipDays: number | null): string {
+    if (slipDays === null) {
+        return "";
+    }
+    return slipDays > 0 ? `+${slipDays}d` : `${slipDays}d`;
+}
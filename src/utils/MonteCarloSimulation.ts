@@ -0,0 +1,383 @@
+import { getRemainingDuration } from "./CpmVerification";
+import { normalizeRelationshipType } from "./RelationshipLogic";
+import type { RelationshipType } from "./RelationshipLogic";
+import { isWorkingDay } from "./WorkingCalendar";
+import type { WorkingCalendar } from "./WorkingCalendar";
+
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 1000;
+export const MIN_MONTE_CARLO_ITERATIONS = 100;
+export const MAX_MONTE_CARLO_ITERATIONS = 20000;
+export const MONTE_CARLO_PERCENTILES = [50, 80, 90] as const;
+
+const CRITICAL_TOLERANCE_DAYS = 1e-6;
+const MAX_NON_WORKING_RUN = 3660;
+
+export type MonteCarloPercentile = typeof MONTE_CARLO_PERCENTILES[number];
+
+export interface MonteCarloTaskLike {
+    internalId: string;
+    /** Working days; on a started task only its remaining part is the most likely value. */
+    duration: number;
+    minDuration?: number | null;
+    mostLikelyDuration?: number | null;
+    maxDuration?: number | null;
+    actualStartDate?: Date | null;
+    actualFinishDate?: Date | null;
+    finishDate?: Date | null;
+    percentComplete?: number | null;
+}
+
+export interface MonteCarloRelationshipLike {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+}
+
+export interface MonteCarloOptions {
+    iterations: number;
+    seed: number;
+    /** Day 0; with it a started task's remaining Duration runs to its imported finish. */
+    anchor?: Date | null;
+    /** Counts that remaining span; null counts every day. */
+    calendar?: WorkingCalendar | null;
+}
+
+export interface MonteCarloHistogramBin {
+    /** Working days after the anchor, inclusive. */
+    fromDays: number;
+    /** Working days after the anchor, exclusive except for the last bin. */
+    toDays: number;
+    count: number;
+    /** Share of iterations finishing by the end of this bin, 0-1. */
+    cumulative: number;
+}
+
+export interface MonteCarloResult {
+    iterations: number;
+    /** Project finish of every iteration in working days after the anchor, ascending. */
+    finishDays: number[];
+    /** Project finish with every task at its most likely duration. */
+    deterministicFinishDays: number;
+    percentileFinishDays: Record<MonteCarloPercentile, number>;
+    /** Share of iterations in which each open task had no total float, 0-1. */
+    criticalityIndex: Map<string, number>;
+    /** Open tasks with a min/max range that differs from the most likely duration. */
+    rangedTaskCount: number;
+    /** True when the relationships form a loop; nothing is simulated then. */
+    blockedByCycle: boolean;
+}
+
+interface SimulationNode {
+    taskId: string;
+    isComplete: boolean;
+    /** Started tasks keep their actual start, so their predecessors no longer hold them. */
+    isStarted: boolean;
+    min: number;
+    mode: number;
+    max: number;
+    predecessors: { index: number; type: RelationshipType; lag: number }[];
+    successors: { index: number; type: RelationshipType; lag: number }[];
+}
+
+export function normalizeMonteCarloIterations(value: unknown): number {
+    const iterations = typeof value === "number" && isFinite(value) ? Math.round(value) : DEFAULT_MONTE_CARLO_ITERATIONS;
+    return Math.max(MIN_MONTE_CARLO_ITERATIONS, Math.min(MAX_MONTE_CARLO_ITERATIONS, iterations));
+}
+
+/** Mulberry32: small, fast and repeatable for the same seed. Returns values in [0, 1). */
+export function createSeededRandom(seed: number): () => number {
+    let state = (Math.floor(isFinite(seed) ? seed : 0) >>> 0) || 1;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Inverse CDF of the triangular distribution for a uniform sample `u`. */
+export function sampleTriangular(min: number, mode: number, max: number, u: number): number {
+    if (max <= min) {
+        return mode;
+    }
+    const split = (mode - min) / (max - min);
+    return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/** Nearest-rank percentile of an ascending list; 0 when the list is empty. */
+export function getPercentileValue(sortedValues: readonly number[], percentile: number): number {
+    if (sortedValues.length === 0) {
+        return 0;
+    }
+    const rank = Math.ceil(Math.max(0, Math.min(100, percentile)) / 100 * sortedValues.length);
+    return sortedValues[Math.max(0, rank - 1)];
+}
+
+/** Equal-width bins over the simulated finishes with a running cumulative share for the S-curve. */
+export function buildFinishHistogram(sortedFinishDays: readonly number[], binCount: number): MonteCarloHistogramBin[] {
+    if (sortedFinishDays.length === 0) {
+        return [];
+    }
+    const low = sortedFinishDays[0];
+    const high = sortedFinishDays[sortedFinishDays.length - 1];
+    const bins = high > low ? Math.max(1, Math.floor(binCount)) : 1;
+    const width = high > low ? (high - low) / bins : 1;
+    const result: MonteCarloHistogramBin[] = [];
+    for (let index = 0; index < bins; index++) {
+        result.push({ fromDays: low + index * width, toDays: low + (index + 1) * width, count: 0, cumulative: 0 });
+    }
+    for (const value of sortedFinishDays) {
+        result[Math.min(bins - 1, Math.floor((value - low) / width))].count++;
+    }
+    let running = 0;
+    for (const bin of result) {
+        running += bin.count;
+        bin.cumulative = running / sortedFinishDays.length;
+    }
+    return result;
+}
+
+/**
+ * Calendar date of a finish `days` working days after the anchor: the last working day
+ * used, or the anchor itself for zero. Null calendars count every day.
+ */
+export function getWorkingDayFinishDate(anchor: Date, days: number, calendar: WorkingCalendar | null): Date {
+    const cursor = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+    const target = Math.ceil(days - CRITICAL_TOLERANCE_DAYS);
+    const hasWorkingDays = !!calendar && calendar.workDays.some(Boolean);
+    let counted = 0;
+    for (let guard = 0; counted < target && guard < target + MAX_NON_WORKING_RUN; guard++) {
+        if (!hasWorkingDays || isWorkingDay(calendar!, cursor)) {
+            counted++;
+            if (counted === target) {
+                break;
+            }
+        }
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return cursor;
+}
+
+function isValidDate(date: Date | null | undefined): date is Date {
+    return date instanceof Date && !isNaN(date.getTime());
+}
+
+function buildNodes(
+    tasks: readonly MonteCarloTaskLike[],
+    relationships: readonly MonteCarloRelationshipLike[],
+    options: MonteCarloOptions
+): { nodes: SimulationNode[]; order: number[] | null } {
+    const indexById = new Map<string, number>();
+    const nodes: SimulationNode[] = [];
+    for (const task of tasks) {
+        if (indexById.has(task.internalId)) {
+            continue;
+        }
+        const finite = (value: number | null | undefined): number | null =>
+            typeof value === "number" && isFinite(value) ? Math.max(0, value) : null;
+        const isComplete = isValidDate(task.actualFinishDate);
+        const isStarted = !isComplete && isValidDate(task.actualStartDate);
+        // Three-point values are remaining durations already; Duration is the whole span.
+        const mode = finite(task.mostLikelyDuration) ?? (isStarted
+            ? getRemainingDuration(task, options.anchor ?? null, options.calendar ?? null)
+            : Math.max(0, task.duration || 0));
+        const [min, , max] = [finite(task.minDuration) ?? mode, mode, finite(task.maxDuration) ?? mode].sort((a, b) => a - b);
+        indexById.set(task.internalId, nodes.length);
+        nodes.push({
+            taskId: task.internalId,
+            isComplete,
+            isStarted,
+            min,
+            mode: Math.max(min, Math.min(max, mode)),
+            max,
+            predecessors: [],
+            successors: []
+        });
+    }
+
+    for (const relationship of relationships) {
+        const predecessor = indexById.get(relationship.predecessorId);
+        const successor = indexById.get(relationship.successorId);
+        if (predecessor === undefined || successor === undefined || predecessor === successor) {
+            continue;
+        }
+        const lag = typeof relationship.lag === "number" && isFinite(relationship.lag) ? relationship.lag : 0;
+        const type = normalizeRelationshipType(relationship.type);
+        nodes[predecessor].successors.push({ index: successor, type, lag });
+        nodes[successor].predecessors.push({ index: predecessor, type, lag });
+    }
+
+    const inDegree = nodes.map(node => node.predecessors.length);
+    const order = nodes.map((_, index) => index).filter(index => inDegree[index] === 0);
+    for (let cursor = 0; cursor < order.length; cursor++) {
+        for (const link of nodes[order[cursor]].successors) {
+            if (--inDegree[link.index] === 0) {
+                order.push(link.index);
+            }
+        }
+    }
+    return { nodes, order: order.length === nodes.length ? order : null };
+}
+
+/**
+ * One forward and backward pass with the given durations. Open work starts at the
+ * anchor (day 0) and started work runs from there whatever its predecessors; completed
+ * tasks take no time and do not hold successors back. Returns
+ * the project finish and flags tasks without total float in `critical`.
+ */
+function runPass(
+    nodes: readonly SimulationNode[],
+    order: readonly number[],
+    durations: Float64Array,
+    earlyStart: Float64Array,
+    earlyFinish: Float64Array,
+    lateFinish: Float64Array,
+    critical: Uint8Array | null
+): number {
+    let projectFinish = 0;
+    for (const index of order) {
+        const node = nodes[index];
+        const duration = durations[index];
+        let start = 0;
+        if (!node.isComplete && !node.isStarted) {
+            for (const link of node.predecessors) {
+                if (nodes[link.index].isComplete) {
+                    continue;
+                }
+                switch (link.type) {
+                    case "FS":
+                        start = Math.max(start, earlyFinish[link.index] + link.lag);
+                        break;
+                    case "SS":
+                        start = Math.max(start, earlyStart[link.index] + link.lag);
+                        break;
+                    case "FF":
+                        start = Math.max(start, earlyFinish[link.index] + link.lag - duration);
+                        break;
+                    case "SF":
+                        start = Math.max(start, earlyStart[link.index] + link.lag - duration);
+                        break;
+                }
+            }
+        }
+        earlyStart[index] = start;
+        earlyFinish[index] = start + duration;
+        projectFinish = Math.max(projectFinish, earlyFinish[index]);
+    }
+    if (!critical) {
+        return projectFinish;
+    }
+
+    for (let position = order.length - 1; position >= 0; position--) {
+        const index = order[position];
+        const duration = durations[index];
+        let finish = projectFinish;
+        for (const link of nodes[index].successors) {
+            if (nodes[link.index].isComplete) {
+                continue;
+            }
+            const successorLateFinish = lateFinish[link.index];
+            const successorLateStart = successorLateFinish - durations[link.index];
+            switch (link.type) {
+                case "FS":
+                    finish = Math.min(finish, successorLateStart - link.lag);
+                    break;
+                case "SS":
+                    finish = Math.min(finish, successorLateStart - link.lag + duration);
+                    break;
+                case "FF":
+                    finish = Math.min(finish, successorLateFinish - link.lag);
+                    break;
+                case "SF":
+                    finish = Math.min(finish, successorLateFinish - link.lag + duration);
+                    break;
+            }
+        }
+        lateFinish[index] = finish;
+        critical[index] = !nodes[index].isComplete && finish - earlyFinish[index] <= CRITICAL_TOLERANCE_DAYS ? 1 : 0;
+    }
+    return projectFinish;
+}
+
+/**
+ * Samples every open task's remaining duration from a triangular distribution over its
+ * min / most likely / max values and re-runs a forward and backward pass over the whole
+ * network for each iteration. Missing values fall back to the most likely duration, which
+ * falls back to the Duration role, so unranged tasks stay fixed. On a started task that
+ * fallback is its remaining duration (see `getRemainingDuration`). Durations and lags are
+ * working days from the anchor; constraints and calendars are not applied, so the results
+ * show the spread of the finish rather than reproduce imported dates. The same seed always
+ * gives the same results.
+ */
+export function runMonteCarloSimulation(
+    tasks: readonly MonteCarloTaskLike[],
+    relationships: readonly MonteCarloRelationshipLike[],
+    options: MonteCarloOptions
+): MonteCarloResult {
+    const iterations = normalizeMonteCarloIterations(options.iterations);
+    const result: MonteCarloResult = {
+        iterations,
+        finishDays: [],
+        deterministicFinishDays: 0,
+        percentileFinishDays: { 50: 0, 80: 0, 90: 0 },
+        criticalityIndex: new Map(),
+        rangedTaskCount: 0,
+        blockedByCycle: false
+    };
+
+    const { nodes, order } = buildNodes(tasks, relationships, options);
+    if (!order) {
+        result.blockedByCycle = true;
+        return result;
+    }
+
+    const count = nodes.length;
+    const durations = new Float64Array(count);
+    const earlyStart = new Float64Array(count);
+    const earlyFinish = new Float64Array(count);
+    const lateFinish = new Float64Array(count);
+    const critical = new Uint8Array(count);
+    const criticalCounts = new Uint32Array(count);
+
+    nodes.forEach((node, index) => {
+        durations[index] = node.isComplete ? 0 : node.mode;
+        if (!node.isComplete && node.max > node.min) {
+            result.rangedTaskCount++;
+        }
+    });
+    result.deterministicFinishDays = runPass(nodes, order, durations, earlyStart, earlyFinish, lateFinish, null);
+
+    const random = createSeededRandom(options.seed);
+    const finishDays = new Float64Array(iterations);
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        nodes.forEach((node, index) => {
+            // Draw for every task so one task's range does not shift another task's samples.
+            const u = random();
+            durations[index] = node.isComplete ? 0 : sampleTriangular(node.min, node.mode, node.max, u);
+        });
+        finishDays[iteration] = runPass(nodes, order, durations, earlyStart, earlyFinish, lateFinish, critical);
+        for (let index = 0; index < count; index++) {
+            criticalCounts[index] += critical[index];
+        }
+    }
+
+    result.finishDays = Array.from(finishDays).sort((a, b) => a - b);
+    for (const percentile of MONTE_CARLO_PERCENTILES) {
+        result.percentileFinishDays[percentile] = getPercentileValue(result.finishDays, percentile);
+    }
+    nodes.forEach((node, index) => {
+        if (!node.isComplete) {
+            result.criticalityIndex.set(node.taskId, criticalCounts[index] / iterations);
+        }
+    });
+    return result;
+}
+
+/** Column and tooltip text such as "85%"; blank when the task was not simulated. */
+export function formatCriticalityIndex(value: number | null | undefined): string {
+    return typeof value === "number" && isFinite(value) ? `${Math.round(value * 100)}%` : "";
+}
@@ -5,18 +5,22 @@ export interface PathSelectorMetrics {
     totalPaths: number;
     spanDays: number;
     activityCount: number;
+    /** Hour-resolution timescales report spans in elapsed hours. */
+    spanUnit?: "day" | "hour";
 }
 
-export function formatPathSpanDays(spanDays: number): { compact: string; spoken: string } {
+export function formatPathSpanDays(spanDays: number, unit: "day" | "hour" = "day"): { compact: string; spoken: string } {
     const safeSpan = Number.isFinite(spanDays) ? Math.max(0, spanDays) : 0;
-    const roundedSpan = Math.round(safeSpan * 10) / 10;
+    const spanValue = unit === "hour" ? safeSpan * 24 : safeSpan;
+    const roundedSpan = Math.round(spanValue * 10) / 10;
     const numericText = Number.isInteger(roundedSpan)
         ? roundedSpan.toFixed(0)
         : roundedSpan.toFixed(1);
+    const unitName = unit === "hour" ? "calendar hour" : "calendar day";
 
     return {
-        compact: `${numericText}d`,
-        spoken: `${numericText} ${roundedSpan === 1 ? "calendar day" : "calendar days"}`
+        compact: `${numericText}${unit === "hour" ? "h" : "d"}`,
+        spoken: `${numericText} ${roundedSpan === 1 ? unitName : `${unitName}s`}`
     };
 }
 
@@ -29,7 +33,7 @@ export function getPathSelectorVisibleLabel(
         return baseLabel;
     }
 
-    const span = formatPathSpanDays(metrics.spanDays).compact;
+    const span = formatPathSpanDays(metrics.spanDays, metrics.spanUnit).compact;
     if (mode === "medium") {
         return `${baseLabel} · ${span} span`;
     }
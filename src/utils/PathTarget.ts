@@ -0,0 +1,55 @@
+export type PathTargetScope = "milestones" | "any";
+
+export interface PathTargetCandidate {
+    internalId: string;
+    name?: string | null;
+    finishDate?: Date | null;
+}
+
+export const PATH_TARGET_MAX_OPTIONS = 500;
+
+export function normalizePathTargetScope(value: unknown): PathTargetScope {
+    return value === "any" ? "any" : "milestones";
+}
+
+function getFinishTime(task: PathTargetCandidate): number {
+    const time = task.finishDate instanceof Date ? task.finishDate.getTime() : NaN;
+    return isFinite(time) ? time : Infinity;
+}
+
+/**
+ * Eligible path targets by finish date, then name and ID. The list is capped, but the
+ * current target is always kept so the picker can show it.
+ */
+export function buildPathTargetOptions<T extends PathTargetCandidate>(
+    tasks: readonly T[],
+    isEligible: (task: T) => boolean,
+    currentTargetId: string | null,
+    maxOptions: number = PATH_TARGET_MAX_OPTIONS
+): T[] {
+    const eligible = tasks
+        .filter(task => isEligible(task))
+        .sort((a, b) =>
+            getFinishTime(a) - getFinishTime(b) ||
+            (a.name ?? "").localeCompare(b.name ?? "") ||
+            a.internalId.localeCompare(b.internalId)
+        );
+    const options = eligible.slice(0, Math.max(0, maxOptions));
+    if (currentTargetId && !options.some(task => task.internalId === currentTargetId)) {
+        const current = eligible.find(task => task.internalId === currentTargetId);
+        if (current) {
+            options.push(current);
+        }
+    }
+    return options;
+}
+
+/** The stored target when it is still in the data and eligible; otherwise null (latest finish). */
+export function resolvePathTargetTaskId<T extends PathTargetCandidate>(
+    targetTaskId: string | null | undefined,
+    tasksById: ReadonlyMap<string, T>,
+    isEligible: (task: T) => boolean
+): string | null {
+    const task = targetTaskId ? tasksById.get(targetTaskId) : undefined;
+    return task && isEligible(task) ? task.internalId : null;
+}
@@ -0,0 +1,95 @@
+import { tryNormalizeRelationshipType } from "./RelationshipLogic";
+import type { RelationshipType } from "./RelationshipLogic";
+import { DEFAULT_DURATION_UNIT_OPTIONS, parseDurationText } from "./DurationUnits";
+import type { DurationUnitOptions, ParsedDuration } from "./DurationUnits";
+
+export type LagUnitOptions = DurationUnitOptions;
+
+/** Lag in days, or a percentage of the predecessor's duration. */
+export type ParsedLag = ParsedDuration;
+
+export interface PredecessorToken {
+    text: string;
+    predecessorId: string;
+    /** Null when the token has no type suffix (MS Project reads that as FS). */
+    type: RelationshipType | null;
+    lag: ParsedLag | null;
+}
+
+export interface PredecessorExpressionResult {
+    tokens: PredecessorToken[];
+    invalidTokens: string[];
+}
+
+export const DEFAULT_LAG_UNIT_OPTIONS: LagUnitOptions = DEFAULT_DURATION_UNIT_OPTIONS;
+
+const TYPE_SUFFIX_PATTERN = /^(.*[^A-Za-z])(FS|SS|FF|SF)$/i;
+const LAGGED_TOKEN_PATTERN = /^(.*?)(FS|SS|FF|SF)\s*([+-].*)$/i;
+
+/**
+ * Converts a signed lag such as "+5d", "-2w", "+16h", "+3ed" or "+50%" to days. The
+ * sign is required so the lag can be told apart from digits at the end of an ID.
+ */
+export function parseLagWithUnit(text: string, options: LagUnitOptions = DEFAULT_LAG_UNIT_OPTIONS): ParsedLag | null {
+    const trimmed = text.trim();
+    return /^[+-]/.test(trimmed) ? parseDurationText(trimmed, options, true) : null;
+}
+
+/**
+ * Parses one predecessor token: `ID`, `IDFS`, `IDSS-2d` or `IDFF+50%`. A lag is only
+ * recognised after a type suffix, so IDs such as "EL-100" stay intact. Without a lag the
+ * suffix must follow a digit or delimiter, so IDs such as "ACCESS" or "PROOFS" stay whole.
+ */
+export function parsePredecessorToken(
+    text: string,
+    options: LagUnitOptions = DEFAULT_LAG_UNIT_OPTIONS
+): PredecessorToken | null {
+    const token = text.trim();
+    const lagMatch = LAGGED_TOKEN_PATTERN.exec(token);
+    if (lagMatch) {
+        const lag = parseLagWithUnit(lagMatch[3], options);
+        const predecessorId = lagMatch[1].trim();
+        return lag && predecessorId
+            ? { text: token, predecessorId, type: tryNormalizeRelationshipType(lagMatch[2]), lag }
+            : null;
+    }
+
+    if (!token || /[\s+]/.test(token)) {
+        return null;
+    }
+
+    const typeMatch = TYPE_SUFFIX_PATTERN.exec(token);
+    if (typeMatch && typeMatch[1]) {
+        return {
+            text: token,
+            predecessorId: typeMatch[1],
+            type: tryNormalizeRelationshipType(typeMatch[2]),
+            lag: null
+        };
+    }
+
+    return { text: token, predecessorId: token, type: null, lag: null };
+}
+
+/** Splits an MS Project predecessor list such as `A1010FS+5d;A1020SS-2d, A1030`. */
+export function parsePredecessorExpression(
+    text: string | null | undefined,
+    options: LagUnitOptions = DEFAULT_LAG_UNIT_OPTIONS
+): PredecessorExpressionResult {
+    const tokens: PredecessorToken[] = [];
+    const invalidTokens: string[] = [];
+    for (const rawToken of (text ?? "").split(/[;,]/)) {
+        const tokenText = rawToken.trim();
+        if (!tokenText) {
+            continue;
+        }
+
+        const token = parsePredecessorToken(tokenText, options);
+        if (token) {
+            tokens.push(token);
+        } else {
+            invalidTokens.push(tokenText);
+        }
+    }
+    return { tokens, invalidTokens };
+}
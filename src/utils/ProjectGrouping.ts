@@ -0,0 +1,89 @@
+import type { Task } from "../data/Interfaces";
+
+export interface ProjectLink {
+    fromProjectId: string;
+    toProjectId: string;
+    relationshipCount: number;
+    drivingCount: number;
+}
+
+interface ProjectRelationshipLike {
+    predecessorId: string;
+    successorId: string;
+    isDriving?: boolean | null;
+}
+
+type ProjectTaskLike = Pick<Task, "projectId">;
+
+/** True when both ends carry a project id and the ids differ. */
+export function isInterProjectRelationship(
+    predecessor: ProjectTaskLike | undefined,
+    successor: ProjectTaskLike | undefined
+): boolean {
+    return !!predecessor?.projectId && !!successor?.projectId && predecessor.projectId !== successor.projectId;
+}
+
+/**
+ * Aggregates relationships that cross a project boundary into one link per
+ * project pair, ordered by source then target project.
+ */
+export function collectInterProjectLinks(
+    tasksById: ReadonlyMap<string, ProjectTaskLike>,
+    relationships: Iterable<ProjectRelationshipLike>
+): ProjectLink[] {
+    const links = new Map<string, ProjectLink>();
+    for (const relationship of relationships) {
+        const predecessor = tasksById.get(relationship.predecessorId);
+        const successor = tasksById.get(relationship.successorId);
+        if (!isInterProjectRelationship(predecessor, successor)) {
+            continue;
+        }
+
+        const fromProjectId = predecessor!.projectId!;
+        const toProjectId = successor!.projectId!;
+        const key = `${fromProjectId}\u0000${toProjectId}`;
+        const link = links.get(key) ?? { fromProjectId, toProjectId, relationshipCount: 0, drivingCount: 0 };
+        link.relationshipCount++;
+        if (relationship.isDriving === true) {
+            link.drivingCount++;
+        }
+        links.set(key, link);
+    }
+
+    return Array.from(links.values()).sort((left, right) =>
+        left.fromProjectId.localeCompare(right.fromProjectId) || left.toProjectId.localeCompare(right.toProjectId)
+    );
+}
+
+/** Reads the persisted `{ projectId: oneBasedPathIndex }` map, ignoring malformed entries. */
+export function parsePersistedProjectPathSelections(value: string | null | undefined): Map<string, number> {
+    const selections = new Map<string, number>();
+    if (!value || value.trim().length === 0) {
+        return selections;
+    }
+
+    try {
+        const parsed = JSON.parse(value) as unknown;
+        if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+            for (const [projectId, pathIndex] of Object.entries(parsed as Record<string, unknown>)) {
+                if (typeof pathIndex === "number" && Number.isInteger(pathIndex) && pathIndex >= 1) {
+                    selections.set(projectId, pathIndex - 1);
+                }
+            }
+        }
+    } catch {
+        // Malformed state falls back to each project's first route.
+    }
+
+    return selections;
+}
+
+export function serializeProjectPathSelections(selections: ReadonlyMap<string, number>): string {
+    const payload: Record<string, number> = {};
+    Array.from(selections.keys())
+        .sort((left, right) => left.localeCompare(right))
+        .forEach(projectId => {
+            payload[projectId] = selections.get(projectId)! + 1;
+        });
+    return JSON.stringify(payload);
+}
@@ -0,0 +1,316 @@
+import { normalizeRelationshipType } from "./RelationshipLogic";
+
+export interface RedundancyTaskLike {
+    internalId: string;
+    /** Remaining duration in days; the span an SS link must outlast to imply an FS link. */
+    duration: number;
+}
+
+export interface RedundancyRelationshipLike {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+}
+
+export interface RedundancyOptions {
+    /** Events the reachability searches may visit in all before the check gives up. */
+    searchBudget?: number;
+}
+
+/** Keeps the check to a few seconds at most on very large networks. */
+export const DEFAULT_REDUNDANCY_SEARCH_BUDGET = 2_000_000;
+
+interface SearchBudget {
+    remaining: number;
+}
+
+interface EventEdge<TRel> {
+    fromNodeId: string;
+    toNodeId: string;
+    weightDays: number;
+    relationship: TRel | null;
+}
+
+const WEIGHT_TOLERANCE_DAYS = 1e-9;
+
+function startNode(taskId: string): string {
+    return `${taskId}:S`;
+}
+
+function finishNode(taskId: string): string {
+    return `${taskId}:F`;
+}
+
+function getLag(relationship: RedundancyRelationshipLike): number {
+    return typeof relationship.lag === "number" && isFinite(relationship.lag) ? relationship.lag : 0;
+}
+
+/**
+ * Finds relationships implied by other logic (transitive reduction). Each activity is a
+ * start and finish event joined by its duration; FS/SS/FF/SF links join the matching
+ * events with their lag. A link is redundant when another route of two or more edges
+ * between the same two events imposes at least its lag, so A->C (FS 0) is implied by
+ * A->B->C (FS 0, FS 0), but A->C (FS 5) is not. When two links join the same events the
+ * one with the smaller lag is redundant, keeping the first on a tie. Activities in a loop
+ * are skipped, and calendars are ignored, so durations and lags are compared as days.
+ * Returns null, meaning not checked, when the searches would visit more events than
+ * `searchBudget` allows.
+ */
+export function findRedundantRelationships<TRel extends RedundancyRelationshipLike>(
+    tasks: Iterable<RedundancyTaskLike>,
+    relationshipByPredecessor: ReadonlyMap<string, readonly TRel[]>,
+    options: RedundancyOptions = {}
+): Set<TRel> | null {
+    const budget: SearchBudget = { remaining: Math.max(0, options.searchBudget ?? DEFAULT_REDUNDANCY_SEARCH_BUDGET) };
+    const outgoing = new Map<string, EventEdge<TRel>[]>();
+    const incoming = new Map<string, EventEdge<TRel>[]>();
+    const addEdge = (edge: EventEdge<TRel>): void => {
+        pushToGroup(outgoing, edge.fromNodeId, edge);
+        pushToGroup(incoming, edge.toNodeId, edge);
+    };
+
+    const taskIds = new Set<string>();
+    for (const task of tasks) {
+        if (taskIds.has(task.internalId)) {
+            continue;
+        }
+        taskIds.add(task.internalId);
+        const duration = typeof task.duration === "number" && isFinite(task.duration) ? Math.max(0, task.duration) : 0;
+        addEdge({ fromNodeId: startNode(task.internalId), toNodeId: finishNode(task.internalId), weightDays: duration, relationship: null });
+    }
+
+    const redundant = new Set<TRel>();
+    for (const relationships of relationshipByPredecessor.values()) {
+        const edgeByEvents = new Map<string, EventEdge<TRel>>();
+        for (const relationship of relationships) {
+            if (relationship.predecessorId === relationship.successorId ||
+                !taskIds.has(relationship.predecessorId) ||
+                !taskIds.has(relationship.successorId)) {
+                continue;
+            }
+            const type = normalizeRelationshipType(relationship.type);
+            const fromNodeId = type === "FS" || type === "FF" ? finishNode(relationship.predecessorId) : startNode(relationship.predecessorId);
+            const toNodeId = type === "FS" || type === "SS" ? startNode(relationship.successorId) : finishNode(relationship.successorId);
+
+            const eventsKey = `${fromNodeId}>${toNodeId}`;
+            const existing = edgeByEvents.get(eventsKey);
+            if (existing) {
+                // The edge carries the strongest link, so routes through it use the larger lag.
+                if (getLag(relationship) > existing.weightDays + WEIGHT_TOLERANCE_DAYS) {
+                    redundant.add(existing.relationship!);
+                    existing.relationship = relationship;
+                    existing.weightDays = getLag(relationship);
+                } else {
+                    redundant.add(relationship);
+                }
+                continue;
+            }
+            const edge: EventEdge<TRel> = { fromNodeId, toNodeId, weightDays: getLag(relationship), relationship };
+            edgeByEvents.set(eventsKey, edge);
+            addEdge(edge);
+        }
+    }
+
+    // Each link is checked from whichever end has fewer links, so a finish milestone with
+    // thousands of predecessors costs one backward pass rather than one forward pass each.
+    const topologicalIndex = getTopologicalIndex(outgoing);
+    const links = Array.from(outgoing.values()).flat().filter(edge =>
+        edge.relationship !== null && topologicalIndex.has(edge.fromNodeId) && topologicalIndex.has(edge.toNodeId));
+    const linkCount = (edges: EventEdge<TRel>[] | undefined): number => edges?.filter(edge => edge.relationship !== null).length ?? 0;
+    const linksBySource = new Map<string, EventEdge<TRel>[]>();
+    const linksByTarget = new Map<string, EventEdge<TRel>[]>();
+    for (const link of links) {
+        if (linkCount(outgoing.get(link.fromNodeId)) >= linkCount(incoming.get(link.toNodeId))) {
+            pushToGroup(linksBySource, link.fromNodeId, link);
+        } else {
+            pushToGroup(linksByTarget, link.toNodeId, link);
+        }
+    }
+    const isImplied = (link: EventEdge<TRel>, alternativeDays: number | undefined): boolean =>
+        alternativeDays !== undefined && alternativeDays >= link.weightDays - WEIGHT_TOLERANCE_DAYS;
+
+    for (const [fromNodeId, sourceLinks] of linksBySource) {
+        if (outgoing.get(fromNodeId)!.length < 2) {
+            continue;
+        }
+        const longestFrom = getLongestMultiEdgeDistancesFrom(fromNodeId, outgoing, topologicalIndex,
+            Math.max(...sourceLinks.map(link => topologicalIndex.get(link.toNodeId)!)), budget);
+        if (!longestFrom) {
+            return null;
+        }
+        for (const link of sourceLinks) {
+            if (isImplied(link, longestFrom.get(link.toNodeId))) {
+                redundant.add(link.relationship!);
+            }
+        }
+    }
+
+    for (const [toNodeId, targetLinks] of linksByTarget) {
+        if (incoming.get(toNodeId)!.length < 2) {
+            continue;
+        }
+        const longestTo = getLongestDistancesTo(toNodeId, incoming, topologicalIndex,
+            Math.min(...targetLinks.map(link => topologicalIndex.get(link.fromNodeId)!)), budget);
+        if (!longestTo) {
+            return null;
+        }
+        for (const link of targetLinks) {
+            // Routes of two or more edges leave the source by some other edge first.
+            let alternativeDays: number | undefined;
+            for (const edge of outgoing.get(link.fromNodeId)!) {
+                const remaining = edge.toNodeId === toNodeId ? undefined : longestTo.get(edge.toNodeId);
+                if (remaining !== undefined) {
+                    alternativeDays = Math.max(alternativeDays ?? -Infinity, edge.weightDays + remaining);
+                }
+            }
+            if (isImplied(link, alternativeDays)) {
+                redundant.add(link.relationship!);
+            }
+        }
+    }
+
+    return redundant;
+}
+
+function pushToGroup<T>(groups: Map<string, T[]>, key: string, value: T): void {
+    const group = groups.get(key);
+    if (group) {
+        group.push(value);
+    } else {
+        groups.set(key, [value]);
+    }
+}
+
+/** Kahn order over the event graph; nodes on or behind a loop get no index. */
+function getTopologicalIndex<TRel>(outgoing: ReadonlyMap<string, EventEdge<TRel>[]>): Map<string, number> {
+    const inDegree = new Map<string, number>();
+    for (const [fromNodeId, edges] of outgoing) {
+        if (!inDegree.has(fromNodeId)) {
+            inDegree.set(fromNodeId, 0);
+        }
+        for (const edge of edges) {
+            inDegree.set(edge.toNodeId, (inDegree.get(edge.toNodeId) ?? 0) + 1);
+        }
+    }
+
+    const queue = Array.from(inDegree.entries()).filter(([, degree]) => degree === 0).map(([nodeId]) => nodeId);
+    const index = new Map<string, number>();
+    for (let cursor = 0; cursor < queue.length; cursor++) {
+        const nodeId = queue[cursor];
+        index.set(nodeId, cursor);
+        for (const edge of outgoing.get(nodeId) ?? []) {
+            const remaining = inDegree.get(edge.toNodeId)! - 1;
+            inDegree.set(edge.toNodeId, remaining);
+            if (remaining === 0) {
+                queue.push(edge.toNodeId);
+            }
+        }
+    }
+    return index;
+}
+
+/**
+ * Longest distance from `sourceNodeId` to each node over routes of two or more edges,
+ * visiting nodes in topological order up to `maxIndex` (the furthest direct target).
+ * Null once the search budget runs out.
+ */
+function getLongestMultiEdgeDistancesFrom<TRel>(
+    sourceNodeId: string,
+    outgoing: ReadonlyMap<string, EventEdge<TRel>[]>,
+    topologicalIndex: ReadonlyMap<string, number>,
+    maxIndex: number,
+    budget: SearchBudget
+): Map<string, number> | null {
+    const reachable: string[] = [];
+    const seen = new Set<string>([sourceNodeId]);
+    const stack = [sourceNodeId];
+    while (stack.length > 0) {
+        for (const edge of outgoing.get(stack.pop()!) ?? []) {
+            const nodeIndex = topologicalIndex.get(edge.toNodeId);
+            if (nodeIndex !== undefined && nodeIndex <= maxIndex && !seen.has(edge.toNodeId)) {
+                if (--budget.remaining < 0) {
+                    return null;
+                }
+                seen.add(edge.toNodeId);
+                reachable.push(edge.toNodeId);
+                stack.push(edge.toNodeId);
+            }
+        }
+    }
+    reachable.sort((a, b) => topologicalIndex.get(a)! - topologicalIndex.get(b)!);
+
+    // `anyRoute` holds routes of one or more edges; `multiEdge` only those of two or more.
+    const anyRoute = new Map<string, number>();
+    const multiEdge = new Map<string, number>();
+    const relax = (distances: Map<string, number>, nodeId: string, distance: number): void => {
+        if (distance > (distances.get(nodeId) ?? -Infinity)) {
+            distances.set(nodeId, distance);
+        }
+    };
+    for (const edge of outgoing.get(sourceNodeId) ?? []) {
+        relax(anyRoute, edge.toNodeId, edge.weightDays);
+    }
+    for (const nodeId of reachable) {
+        const distance = anyRoute.get(nodeId);
+        if (distance === undefined) {
+            continue;
+        }
+        for (const edge of outgoing.get(nodeId) ?? []) {
+            relax(anyRoute, edge.toNodeId, distance + edge.weightDays);
+            relax(multiEdge, edge.toNodeId, distance + edge.weightDays);
+        }
+    }
+    return multiEdge;
+}
+
+/**
+ * Longest distance from each node to `targetNodeId` over routes of one or more edges,
+ * visiting ancestors in reverse topological order down to `minIndex` (the earliest source).
+ * Null once the search budget runs out.
+ */
+function getLongestDistancesTo<TRel>(
+    targetNodeId: string,
+    incoming: ReadonlyMap<string, EventEdge<TRel>[]>,
+    topologicalIndex: ReadonlyMap<string, number>,
+    minIndex: number,
+    budget: SearchBudget
+): Map<string, number> | null {
+    const ancestors: string[] = [];
+    const seen = new Set<string>([targetNodeId]);
+    const stack = [targetNodeId];
+    while (stack.length > 0) {
+        for (const edge of incoming.get(stack.pop()!) ?? []) {
+            const nodeIndex = topologicalIndex.get(edge.fromNodeId);
+            if (nodeIndex !== undefined && nodeIndex >= minIndex && !seen.has(edge.fromNodeId)) {
+                if (--budget.remaining < 0) {
+                    return null;
+                }
+                seen.add(edge.fromNodeId);
+                ancestors.push(edge.fromNodeId);
+                stack.push(edge.fromNodeId);
+            }
+        }
+    }
+    ancestors.sort((a, b) => topologicalIndex.get(b)! - topologicalIndex.get(a)!);
+
+    const longestTo = new Map<string, number>();
+    const relax = (nodeId: string, distance: number): void => {
+        if (distance > (longestTo.get(nodeId) ?? -Infinity)) {
+            longestTo.set(nodeId, distance);
+        }
+    };
+    for (const edge of incoming.get(targetNodeId) ?? []) {
+        relax(edge.fromNodeId, edge.weightDays);
+    }
+    for (const nodeId of ancestors) {
+        const distance = longestTo.get(nodeId);
+        if (distance === undefined) {
+            continue;
+        }
+        for (const edge of incoming.get(nodeId) ?? []) {
+            relax(edge.fromNodeId, distance + edge.weightDays);
+        }
+    }
+    return longestTo;
+}
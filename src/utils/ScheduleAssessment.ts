@@ -0,0 +1,404 @@
+import type { Task } from "../data/Interfaces";
+import { hasHardConstraint } from "./ConstraintLogic";
+import { getLatestFinishTaskIds } from "./LongestPathLogic";
+import { normalizeRelationshipType } from "./RelationshipLogic";
+import { simulateWhatIf } from "./WhatIfSimulation";
+import { countWorkingDays } from "./WorkingCalendar";
+import type { WorkingCalendar } from "./WorkingCalendar";
+
+export type DcmaCheckId =
+    | "logic"
+    | "leads"
+    | "lags"
+    | "relationshipTypes"
+    | "hardConstraints"
+    | "highFloat"
+    | "negativeFloat"
+    | "highDuration"
+    | "invalidDates"
+    | "resources"
+    | "missedTasks"
+    | "criticalPathTest"
+    | "cpli"
+    | "bei";
+
+export type DcmaCheckStatus = "pass" | "fail" | "notAssessed";
+
+export interface DcmaThresholds {
+    logicMaxPercent: number;
+    leadsMaxPercent: number;
+    lagsMaxPercent: number;
+    finishToStartMinPercent: number;
+    hardConstraintsMaxPercent: number;
+    highFloatDays: number;
+    highFloatMaxPercent: number;
+    negativeFloatMaxPercent: number;
+    highDurationDays: number;
+    highDurationMaxPercent: number;
+    invalidDatesMaxPercent: number;
+    missedTasksMaxPercent: number;
+    cpliMin: number;
+    beiMin: number;
+}
+
+export const DEFAULT_DCMA_THRESHOLDS: DcmaThresholds = {
+    logicMaxPercent: 5,
+    leadsMaxPercent: 0,
+    lagsMaxPercent: 5,
+    finishToStartMinPercent: 90,
+    hardConstraintsMaxPercent: 5,
+    highFloatDays: 44,
+    highFloatMaxPercent: 5,
+    negativeFloatMaxPercent: 0,
+    highDurationDays: 44,
+    highDurationMaxPercent: 5,
+    invalidDatesMaxPercent: 0,
+    missedTasksMaxPercent: 5,
+    cpliMin: 0.95,
+    beiMin: 0.95
+};
+
+export type ScheduleAssessmentTask = Pick<
+    Task,
+    | "internalId"
+    | "type"
+    | "duration"
+    | "userProvidedTotalFloat"
+    | "startDate"
+    | "finishDate"
+    | "baselineFinishDate"
+    | "actualStartDate"
+    | "actualFinishDate"
+    | "constraintType"
+    | "constraintDate"
+    | "secondaryConstraintType"
+    | "secondaryConstraintDate"
+>;
+
+export interface ScheduleAssessmentRelationship {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+    freeFloat?: number | null;
+}
+
+export interface ScheduleAssessmentOptions {
+    dataDate: Date | null;
+    thresholds: DcmaThresholds;
+    /** Calendar for the critical path length; null counts every day. */
+    calendar: WorkingCalendar | null;
+}
+
+export interface DcmaCheckResult {
+    id: DcmaCheckId;
+    /** DCMA point number, 1-14. */
+    number: number;
+    label: string;
+    status: DcmaCheckStatus;
+    /** Percentage for count checks, ratio for CPLI and BEI; null when not assessed. */
+    value: number | null;
+    /** How the value is compared, such as "<= 5%" or ">= 0.95". */
+    thresholdText: string;
+    /** Activities or relationships the metric counts. */
+    population: number;
+    /** Activities that fail the metric, in input order; successors stand in for relationships. */
+    offendingTaskIds: string[];
+    /** Why a check was not assessed, or how its value was found. */
+    note: string;
+}
+
+export interface ScheduleAssessmentResult {
+    checks: DcmaCheckResult[];
+    passCount: number;
+    failCount: number;
+    /** Assessed activities with no Baseline Finish Date; missed tasks and BEI ignore them. */
+    missingBaselineTaskIds: string[];
+}
+
+const MS_PER_DAY = 86400000;
+const CRITICAL_PATH_TEST_DELAY_DAYS = 600;
+const EXCLUDED_TASK_TYPES = new Set(["Synthetic", "TT_LOE", "TT_WBS"]);
+const MILESTONE_TASK_TYPES = new Set(["TT_Mile", "TT_FinMile"]);
+
+function isValidDate(date: Date | null | undefined): date is Date {
+    return date instanceof Date && !isNaN(date.getTime());
+}
+
+function getTotalFloat(task: ScheduleAssessmentTask): number | null {
+    return typeof task.userProvidedTotalFloat === "number" && isFinite(task.userProvidedTotalFloat)
+        ? task.userProvidedTotalFloat
+        : null;
+}
+
+function formatPercentThreshold(comparison: "<=" | ">=", percent: number): string {
+    return `${comparison} ${percent}%`;
+}
+
+function toPercent(count: number, population: number): number {
+    return population > 0 ? count / population * 100 : 0;
+}
+
+/** Checks that count offending items against a population with a percentage limit. */
+function buildCountCheck(
+    id: DcmaCheckId,
+    number: number,
+    label: string,
+    population: number,
+    offendingTaskIds: string[],
+    offendingCount: number,
+    comparison: "<=" | ">=",
+    limitPercent: number,
+    note: string
+): DcmaCheckResult {
+    const thresholdText = formatPercentThreshold(comparison, limitPercent);
+    if (population === 0) {
+        return { id, number, label, status: "notAssessed", value: null, thresholdText, population, offendingTaskIds: [], note: note || "Nothing to assess." };
+    }
+    const value = toPercent(offendingCount, population);
+    const passes = comparison === "<=" ? value <= limitPercent + 1e-9 : value >= limitPercent - 1e-9;
+    return { id, number, label, status: passes ? "pass" : "fail", value, thresholdText, population, offendingTaskIds, note };
+}
+
+function notAssessed(id: DcmaCheckId, number: number, label: string, thresholdText: string, note: string): DcmaCheckResult {
+    return { id, number, label, status: "notAssessed", value: null, thresholdText, population: 0, offendingTaskIds: [], note };
+}
+
+function getCalendarSpanDays(from: Date, to: Date, calendar: WorkingCalendar | null): number {
+    if (calendar && calendar.workDays.some(Boolean)) {
+        return countWorkingDays(calendar, from, to);
+    }
+    return Math.max(0, Math.round((to.getTime() - from.getTime()) / MS_PER_DAY));
+}
+
+/**
+ * Runs the DCMA 14-point assessment over incomplete activities, excluding level-of-effort,
+ * WBS summary and synthetic rows. Relationship checks count links into incomplete
+ * activities. Float and duration are the imported values in working days. Point 10
+ * (resources) is not assessed because no resource data is bound. Point 12 delays the
+ * open activity with the least total float by 600 days and expects the project finish
+ * to move by the same amount. CPLI is (critical path length + finish float) / critical
+ * path length from the Data Date; BEI is completed activities over those baselined to
+ * finish by the Data Date.
+ */
+export function assessSchedule(
+    tasks: readonly ScheduleAssessmentTask[],
+    relationships: readonly ScheduleAssessmentRelationship[],
+    options: ScheduleAssessmentOptions
+): ScheduleAssessmentResult {
+    const thresholds = options.thresholds;
+    const dataDate = isValidDate(options.dataDate) ? options.dataDate : null;
+    const tasksById = new Map<string, ScheduleAssessmentTask>();
+    for (const task of tasks) {
+        if (!tasksById.has(task.internalId) && !EXCLUDED_TASK_TYPES.has(task.type)) {
+            tasksById.set(task.internalId, task);
+        }
+    }
+    const allTasks = Array.from(tasksById.values());
+    const openTasks = allTasks.filter(task => !isValidDate(task.actualFinishDate));
+    const openTaskIds = new Set(openTasks.map(task => task.internalId));
+
+    const hasPredecessor = new Set<string>();
+    const hasSuccessor = new Set<string>();
+    const openRelationships: ScheduleAssessmentRelationship[] = [];
+    for (const relationship of relationships) {
+        if (!tasksById.has(relationship.predecessorId) || !tasksById.has(relationship.successorId) ||
+            relationship.predecessorId === relationship.successorId) {
+            continue;
+        }
+        hasPredecessor.add(relationship.successorId);
+        hasSuccessor.add(relationship.predecessorId);
+        if (openTaskIds.has(relationship.successorId)) {
+            openRelationships.push(relationship);
+        }
+    }
+    const relationshipSuccessors = (filter: (relationship: ScheduleAssessmentRelationship) => boolean): { ids: string[]; count: number } => {
+        const matches = openRelationships.filter(filter);
+        return { ids: Array.from(new Set(matches.map(relationship => relationship.successorId))), count: matches.length };
+    };
+    const getLag = (relationship: ScheduleAssessmentRelationship): number =>
+        typeof relationship.lag === "number" && isFinite(relationship.lag) ? relationship.lag : 0;
+
+    const checks: DcmaCheckResult[] = [];
+
+    const missingLogic = openTasks.filter(task => !hasPredecessor.has(task.internalId) || !hasSuccessor.has(task.internalId));
+    checks.push(buildCountCheck("logic", 1, "Logic", openTasks.length, missingLogic.map(task => task.internalId), missingLogic.length,
+        "<=", thresholds.logicMaxPercent, "Incomplete activities missing a predecessor or a successor."));
+
+    const leads = relationshipSuccessors(relationship => getLag(relationship) < 0);
+    checks.push(buildCountCheck("leads", 2, "Leads", openRelationships.length, leads.ids, leads.count,
+        "<=", thresholds.leadsMaxPercent, "Relationships with a negative lag; successors are listed."));
+
+    const lags = relationshipSuccessors(relationship => getLag(relationship) > 0);
+    checks.push(buildCountCheck("lags", 3, "Lags", openRelationships.length, lags.ids, lags.count,
+        "<=", thresholds.lagsMaxPercent, "Relationships with a positive lag; successors are listed."));
+
+    const nonFinishToStart = relationshipSuccessors(relationship => normalizeRelationshipType(relationship.type) !== "FS");
+    const finishToStartCheck = buildCountCheck("relationshipTypes", 4, "Relationship Types", openRelationships.length,
+        nonFinishToStart.ids, openRelationships.length - nonFinishToStart.count,
+        ">=", thresholds.finishToStartMinPercent, "Share of finish-to-start relationships; successors of other types are listed.");
+    checks.push(finishToStartCheck);
+
+    const hardConstraints = openTasks.filter(task => hasHardConstraint(task));
+    checks.push(buildCountCheck("hardConstraints", 5, "Hard Constraints", openTasks.length, hardConstraints.map(task => task.internalId),
+        hardConstraints.length, "<=", thresholds.hardConstraintsMaxPercent, "Start on, finish on and mandatory constraints."));
+
+    const floatTasks = openTasks.filter(task => getTotalFloat(task) !== null);
+    const floatNote = floatTasks.length === 0 ? "Bind Task Total Float to assess float." : "";
+    const highFloat = floatTasks.filter(task => getTotalFloat(task)! > thresholds.highFloatDays);
+    checks.push(buildCountCheck("highFloat", 6, "High Float", floatTasks.length, highFloat.map(task => task.internalId), highFloat.length,
+        "<=", thresholds.highFloatMaxPercent, floatNote || `Total float above ${thresholds.highFloatDays} working days.`));
+
+    const negativeFloat = floatTasks.filter(task => getTotalFloat(task)! < 0);
+    checks.push(buildCountCheck("negativeFloat", 7, "Negative Float", floatTasks.length, negativeFloat.map(task => task.internalId),
+        negativeFloat.length, "<=", thresholds.negativeFloatMaxPercent, floatNote || "Total float below zero."));
+
+    const durationTasks = openTasks.filter(task => !MILESTONE_TASK_TYPES.has(task.type));
+    const highDuration = durationTasks.filter(task => task.duration > thresholds.highDurationDays);
+    checks.push(buildCountCheck("highDuration", 8, "High Duration", durationTasks.length, highDuration.map(task => task.internalId),
+        highDuration.length, "<=", thresholds.highDurationMaxPercent, `Remaining duration above ${thresholds.highDurationDays} working days.`));
+
+    if (dataDate) {
+        const dataDateTime = dataDate.getTime();
+        const invalidDates = allTasks.filter(task => {
+            const forecastInPast = (!isValidDate(task.actualStartDate) && isValidDate(task.startDate) && task.startDate.getTime() < dataDateTime) ||
+                (!isValidDate(task.actualFinishDate) && isValidDate(task.finishDate) && task.finishDate.getTime() < dataDateTime);
+            const actualInFuture = (isValidDate(task.actualStartDate) && task.actualStartDate.getTime() > dataDateTime) ||
+                (isValidDate(task.actualFinishDate) && task.actualFinishDate.getTime() > dataDateTime);
+            return forecastInPast || actualInFuture;
+        });
+        checks.push(buildCountCheck("invalidDates", 9, "Invalid Dates", allTasks.length, invalidDates.map(task => task.internalId),
+            invalidDates.length, "<=", thresholds.invalidDatesMaxPercent, "Forecast dates before the Data Date or actual dates after it."));
+    } else {
+        checks.push(notAssessed("invalidDates", 9, "Invalid Dates", formatPercentThreshold("<=", thresholds.invalidDatesMaxPercent), "Bind Data Date to assess invalid dates."));
+    }
+
+    checks.push(notAssessed("resources", 10, "Resources", "Loaded", "Resource assignments are not part of the bound data."));
+
+    const baselinedDue = dataDate
+        ? allTasks.filter(task => isValidDate(task.baselineFinishDate) && task.baselineFinishDate.getTime() <= dataDate.getTime())
+        : [];
+    if (dataDate && baselinedDue.length > 0) {
+        const missed = baselinedDue.filter(task => !isValidDate(task.actualFinishDate) ||
+            task.actualFinishDate.getTime() > task.baselineFinishDate!.getTime());
+        checks.push(buildCountCheck("missedTasks", 11, "Missed Tasks", baselinedDue.length, missed.map(task => task.internalId), missed.length,
+            "<=", thresholds.missedTasksMaxPercent, "Activities baselined to finish by the Data Date that finished late or are still open."));
+    } else {
+        checks.push(notAssessed("missedTasks", 11, "Missed Tasks", formatPercentThreshold("<=", thresholds.missedTasksMaxPercent),
+            "Bind Data Date and Baseline Finish Date to assess missed tasks."));
+    }
+
+    checks.push(runCriticalPathTest(openTasks, tasksById, relationships));
+    checks.push(calculateCpli(allTasks, dataDate, thresholds.cpliMin, options.calendar));
+
+    const beiThreshold = `>= ${thresholds.beiMin}`;
+    if (dataDate && baselinedDue.length > 0) {
+        const completed = allTasks.filter(task => isValidDate(task.actualFinishDate));
+        const bei = completed.length / baselinedDue.length;
+        const notFinished = baselinedDue.filter(task => !isValidDate(task.actualFinishDate)).map(task => task.internalId);
+        checks.push({
+            id: "bei", number: 14, label: "BEI",
+            status: bei >= thresholds.beiMin - 1e-9 ? "pass" : "fail",
+            value: bei, thresholdText: beiThreshold, population: baselinedDue.length,
+            offendingTaskIds: notFinished,
+            note: `${completed.length} completed of ${baselinedDue.length} baselined to finish by the Data Date; open ones are listed.`
+        });
+    } else {
+        checks.push(notAssessed("bei", 14, "BEI", beiThreshold, "Bind Data Date and Baseline Finish Date to assess BEI."));
+    }
+
+    return {
+        checks,
+        passCount: checks.filter(check => check.status === "pass").length,
+        failCount: checks.filter(check => check.status === "fail").length,
+        missingBaselineTaskIds: allTasks.filter(task => !isValidDate(task.baselineFinishDate)).map(task => task.internalId)
+    };
+}
+
+function runCriticalPathTest(
+    openTasks: readonly ScheduleAssessmentTask[],
+    tasksById: ReadonlyMap<string, ScheduleAssessmentTask>,
+    relationships: readonly ScheduleAssessmentRelationship[]
+): DcmaCheckResult {
+    const label = "Critical Path Test";
+    const thresholdText = "Finish moves";
+    const datedTasks = new Map(Array.from(tasksById.entries()).filter(([, task]) => isValidDate(task.startDate) && isValidDate(task.finishDate)));
+    const candidates = openTasks
+        .filter(task => datedTasks.has(task.internalId) && getTotalFloat(task) !== null)
+        .sort((a, b) => getTotalFloat(a)! - getTotalFloat(b)! || a.finishDate!.getTime() - b.finishDate!.getTime());
+    const finishTaskIds = getLatestFinishTaskIds(Array.from(datedTasks.values()));
+    if (candidates.length === 0 || finishTaskIds.length === 0) {
+        return notAssessed("criticalPathTest", 12, label, thresholdText, "Bind Task Total Float and dates to run the critical path test.");
+    }
+
+    const testTask = candidates[0];
+    const result = simulateWhatIf(datedTasks, relationships, {
+        taskId: testTask.internalId,
+        delayDays: CRITICAL_PATH_TEST_DELAY_DAYS,
+        durationChangeDays: 0
+    });
+    if (result.blockedByCycle) {
+        return notAssessed("criticalPathTest", 12, label, thresholdText, "The relationships form a loop, so the delay could not be pushed through.");
+    }
+    const finishShift = finishTaskIds.reduce((largest, taskId) => Math.max(largest, result.impacts.get(taskId)?.finishShiftDays ?? 0), 0);
+    const passes = finishShift >= CRITICAL_PATH_TEST_DELAY_DAYS - 1;
+    return {
+        id: "criticalPathTest", number: 12, label,
+        status: passes ? "pass" : "fail",
+        value: null, thresholdText, population: 1,
+        offendingTaskIds: passes ? [] : [testTask.internalId],
+        note: `A ${CRITICAL_PATH_TEST_DELAY_DAYS}-day delay on the lowest-float activity moved the project finish ${Math.round(finishShift)} days.`
+    };
+}
+
+function calculateCpli(
+    tasks: readonly ScheduleAssessmentTask[],
+    dataDate: Date | null,
+    cpliMin: number,
+    calendar: WorkingCalendar | null
+): DcmaCheckResult {
+    const label = "CPLI";
+    const thresholdText = `>= ${cpliMin}`;
+    const finishTaskIds = getLatestFinishTaskIds(tasks.filter(task => isValidDate(task.finishDate)));
+    const finishTask = finishTaskIds.length > 0 ? tasks.find(task => task.internalId === finishTaskIds[0]) : undefined;
+    const finishFloat = finishTask ? getTotalFloat(finishTask) : null;
+    if (!dataDate || !finishTask?.finishDate || finishFloat === null) {
+        return notAssessed("cpli", 13, label, thresholdText, "Bind Data Date and Task Total Float to assess CPLI.");
+    }
+
+    const criticalPathLength = getCalendarSpanDays(dataDate, finishTask.finishDate, calendar);
+    if (criticalPathLength <= 0) {
+        return notAssessed("cpli", 13, label, thresholdText, "The project finish is not after the Data Date.");
+    }
+    const cpli = (criticalPathLength + finishFloat) / criticalPathLength;
+    return {
+        id: "cpli", number: 13, label,
+        status: cpli >= cpliMin - 1e-9 ? "pass" : "fail",
+        value: cpli, thresholdText, population: 1,
+        offendingTaskIds: cpli >= cpliMin - 1e-9 ? [] : [finishTask.internalId],
+        note: `Critical path length ${criticalPathLength} days with ${finishFloat} days of float at the project finish.`
+    };
+}
+
+/** "3.2%" for count checks, "0.97" for ratios, blank when not assessed. */
+export function formatDcmaValue(check: DcmaCheckResult): string {
+    if (check.value === null) {
+        return check.id === "criticalPathTest" && check.status !== "notAssessed"
+            ? (check.status === "pass" ? "Moves" : "Does not move")
+            : "";
+    }
+    return check.id === "cpli" || check.id === "bei"
+        ? check.value.toFixed(2)
+        : `${Math.round(check.value * 10) / 10}%`;
+}
+
+export function getDcmaStatusLabel(status: DcmaCheckStatus): string {
+    switch (status) {
+        case "pass":
+            return "Pass";
+        case "fail":
+            return "Fail";
+        default:
+            return "Not assessed";
+    }
+}
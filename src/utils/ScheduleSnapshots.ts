@@ -0,0 +1,116 @@
+import type { ScheduleSnapshot, TaskSnapshotState } from "../data/Interfaces";
+
+/** Stored reference value that keeps the bound Previous Update fields as the comparison. */
+export const PREVIOUS_UPDATE_FIELD_REFERENCE = "field";
+
+/** Playback speeds offered in the header, as multiples of PLAYBACK_FRAME_MS. */
+export const PLAYBACK_SPEEDS: readonly number[] = [0.5, 1, 2, 4];
+export const PLAYBACK_FRAME_MS = 1500;
+
+export interface SnapshotStateTaskLike {
+    internalId: string;
+    startDate?: Date | null;
+    finishDate?: Date | null;
+    userProvidedTotalFloat?: number;
+    actualStartDate?: Date | null;
+    actualFinishDate?: Date | null;
+    percentComplete?: number | null;
+}
+
+export interface SnapshotReferenceTaskLike {
+    internalId: string;
+    previousUpdateStartDate?: Date | null;
+    previousUpdateFinishDate?: Date | null;
+    previousUpdateTotalFloat?: number | null;
+}
+
+export interface SlipTrailMarker {
+    /** First snapshot that reported this finish. */
+    snapshotDate: Date;
+    finishDate: Date;
+}
+
+function isValidDate(value: Date | null | undefined): value is Date {
+    return value instanceof Date && isFinite(value.getTime());
+}
+
+export function getSnapshotKey(snapshot: ScheduleSnapshot): string {
+    return snapshot.snapshotDate.toISOString();
+}
+
+/**
+ * The earlier snapshot compared against the current one (the last). A stored key picks
+ * one; otherwise the bound Previous Update fields win when `previousUpdateBound`, and the
+ * update just before the current one is used when they are not. Null means no snapshot
+ * replaces the Previous Update fields.
+ */
+export function resolveReferenceSnapshot(
+    snapshots: readonly ScheduleSnapshot[],
+    storedKey: string | null | undefined,
+    previousUpdateBound: boolean
+): ScheduleSnapshot | null {
+    if (snapshots.length < 2) {
+        return null;
+    }
+    const earlier = snapshots.slice(0, -1);
+    const stored = storedKey ? earlier.find(snapshot => getSnapshotKey(snapshot) === storedKey) : undefined;
+    if (stored) {
+        return stored;
+    }
+    return previousUpdateBound ? null : earlier[earlier.length - 1];
+}
+
+/** Replaces each task's Previous Update dates and float with the reference snapshot's. */
+export function applyReferenceSnapshot(tasks: Iterable<SnapshotReferenceTaskLike>, snapshot: ScheduleSnapshot): void {
+    for (const task of tasks) {
+        const state: TaskSnapshotState | undefined = snapshot.tasks.get(task.internalId);
+        task.previousUpdateStartDate = state?.startDate ?? null;
+        task.previousUpdateFinishDate = state?.finishDate ?? null;
+        task.previousUpdateTotalFloat = state?.totalFloat ?? null;
+    }
+}
+
+/**
+ * Replaces each task's dates, Task Total Float and progress with the snapshot's, as shown
+ * by playback. Tasks the snapshot does not report lose their dates, so they are not drawn.
+ */
+export function applySnapshotState(tasks: Iterable<SnapshotStateTaskLike>, snapshot: ScheduleSnapshot): void {
+    for (const task of tasks) {
+        const state = snapshot.tasks.get(task.internalId);
+        task.startDate = state?.startDate ?? null;
+        task.finishDate = state?.finishDate ?? null;
+        task.userProvidedTotalFloat = state?.totalFloat ?? undefined;
+        task.actualStartDate = state?.actualStartDate ?? null;
+        task.actualFinishDate = state?.actualFinishDate ?? null;
+        task.percentComplete = state?.percentComplete ?? null;
+    }
+}
+
+export function getPlaybackFrameDelay(speed: number): number {
+    return Math.round(PLAYBACK_FRAME_MS / (speed > 0 ? speed : 1));
+}
+
+/**
+ * Earlier finishes of a task, oldest first: one marker per finish it has since moved
+ * away from. Updates repeating a finish share the first marker, and the run ending in
+ * the current snapshot is left out because the bar already shows it.
+ */
+export function getSlipTrail(snapshots: readonly ScheduleSnapshot[], taskId: string): SlipTrailMarker[] {
+    const runs: SlipTrailMarker[] = [];
+    for (const snapshot of snapshots) {
+        const finish = snapshot.tasks.get(taskId)?.finishDate;
+        if (!isValidDate(finish)) {
+            continue;
+        }
+        const last = runs[runs.length - 1];
+        if (!last || last.finishDate.getTime() !== finish.getTime()) {
+            runs.push({ snapshotDate: snapshot.snapshotDate, finishDate: finish });
+        }
+    }
+    const current = snapshots.length > 0 ? snapshots[snapshots.length - 1].tasks.get(taskId)?.finishDate : null;
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && isValidDate(current) && lastRun.finishDate.getTime() === current.getTime()) {
+        runs.pop();
+    }
+    return runs;
+}
@@ -2,7 +2,7 @@ import type { Task } from "../data/Interfaces";
 
 export type CurrentBarDateMode = "startFinishOverride" | "hybridActualEarly";
 
-export type TaskBarSegmentKind = "current" | "started" | "scheduled";
+export type TaskBarSegmentKind = "current" | "started" | "scheduled" | "actual" | "remaining" | "percentComplete";
 
 export type TaskBarSegment = {
     kind: TaskBarSegmentKind;
@@ -20,6 +20,8 @@ export type TaskBarGeometry = {
     labelFinishDate: Date | null;
     sortDate: Date | null;
     hasSplit: boolean;
+    /** Progress overlay from the bar start; not part of `segments`, so extents and splits are unaffected. */
+    percentCompleteSegment: TaskBarSegment | null;
 };
 
 export const currentBarDateModeItems = [
@@ -38,6 +40,10 @@ export function isTaskMilestone(task: Pick<Task, "type" | "duration">, treatZero
 }
 
 export function shouldApplyCriticalFormatToTaskBarSegment(segment: Pick<TaskBarSegment, "kind">): boolean {
+    if (segment.kind === "actual") {
+        return false;
+    }
+
     return segment.kind !== "started";
 }
 
@@ -77,6 +83,22 @@ function getDefaultMilestoneDate(task: Task): Date | null {
     return getOverrideStart(task) ?? getOverrideFinish(task);
 }
 
+function getActualStart(task: Pick<Task, "actualStartDate">): Date | null {
+    return isValidTaskDate(task.actualStartDate) ? task.actualStartDate : null;
+}
+
+function getActualFinish(task: Pick<Task, "actualFinishDate">): Date | null {
+    return isValidTaskDate(task.actualFinishDate) ? task.actualFinishDate : null;
+}
+
+function getActualMilestoneDate(task: Task): Date | null {
+    if (task.type === "TT_FinMile") {
+        return getActualFinish(task) ?? getActualStart(task);
+    }
+
+    return getActualStart(task) ?? getActualFinish(task);
+}
+
 function getHybridMilestoneDate(task: Task): Date | null {
     if (task.type === "TT_FinMile") {
         return getScheduleFinish(task) ?? getScheduleStart(task) ?? getDefaultMilestoneDate(task);
@@ -111,9 +133,9 @@ export function getCurrentTaskBarGeometry(
     const normalizedMode = normalizeCurrentBarDateMode(mode);
 
     if (isMilestone) {
-        const milestoneDate = normalizedMode === "hybridActualEarly"
+        const milestoneDate = getActualMilestoneDate(task) ?? (normalizedMode === "hybridActualEarly"
             ? getHybridMilestoneDate(task)
-            : getDefaultMilestoneDate(task);
+            : getDefaultMilestoneDate(task));
 
         return {
             isMilestone: true,
@@ -124,15 +146,21 @@ export function getCurrentTaskBarGeometry(
             labelStartDate: milestoneDate,
             labelFinishDate: milestoneDate,
             sortDate: milestoneDate,
-            hasSplit: false
+            hasSplit: false,
+            percentCompleteSegment: null
         };
     }
 
+    const actualGeometry = getActualTaskBarGeometry(task, dataDate);
+    if (actualGeometry) {
+        return actualGeometry;
+    }
+
     const defaultSegment = createSegment("current", getOverrideStart(task), getOverrideFinish(task));
 
     if (normalizedMode !== "hybridActualEarly") {
         const segments = defaultSegment ? [defaultSegment] : [];
-        return buildGeometryFromSegments(segments, defaultSegment?.start ?? null, defaultSegment?.finish ?? null);
+        return buildGeometryFromSegments(segments, defaultSegment?.start ?? null, defaultSegment?.finish ?? null, task.percentComplete);
     }
 
     const earlyStart = getScheduleStart(task);
@@ -141,7 +169,7 @@ export function getCurrentTaskBarGeometry(
 
     if (!scheduledSegment) {
         const segments = defaultSegment ? [defaultSegment] : [];
-        return buildGeometryFromSegments(segments, defaultSegment?.start ?? null, defaultSegment?.finish ?? null);
+        return buildGeometryFromSegments(segments, defaultSegment?.start ?? null, defaultSegment?.finish ?? null, task.percentComplete);
     }
 
     const segments: TaskBarSegment[] = [];
@@ -161,13 +189,83 @@ export function getCurrentTaskBarGeometry(
 
     const labelStartDate = getOverrideStart(task) ?? scheduledSegment.start;
 
-    return buildGeometryFromSegments(segments, labelStartDate, scheduledSegment.finish);
+    return buildGeometryFromSegments(segments, labelStartDate, scheduledSegment.finish, task.percentComplete);
+}
+
+/**
+ * Progressed bars take precedence over the current bar date mode: completed work is drawn
+ * as a single actual segment, in-progress work as actual up to the data date (or the
+ * resumed schedule start) followed by the remaining segment.
+ */
+function getActualTaskBarGeometry(task: Task, dataDate: Date | null | undefined): TaskBarGeometry | null {
+    const actualStart = getActualStart(task);
+    if (!actualStart) {
+        return null;
+    }
+
+    const actualFinish = getActualFinish(task);
+    if (actualFinish) {
+        const completedSegment = createSegment("actual", actualStart, actualFinish);
+        return completedSegment
+            ? buildGeometryFromSegments([completedSegment], actualStart, actualFinish, task.percentComplete)
+            : null;
+    }
+
+    const finish = getOverrideFinish(task);
+    if (!finish || finish < actualStart) {
+        return null;
+    }
+
+    const scheduleStart = getScheduleStart(task);
+    const validDataDate = isValidTaskDate(dataDate) && dataDate > actualStart ? dataDate : null;
+    const resumeCandidates = [validDataDate, scheduleStart && scheduleStart > actualStart ? scheduleStart : null]
+        .filter((date): date is Date => date !== null);
+    const remainingStart = getDateMin([getDateMax(resumeCandidates) ?? actualStart, finish]) ?? actualStart;
+    const actualEnd = validDataDate && validDataDate < remainingStart ? validDataDate : remainingStart;
+
+    const segments: TaskBarSegment[] = [];
+    const actualSegment = createSegment("actual", actualStart, actualEnd);
+    if (actualSegment && actualSegment.start < actualSegment.finish) {
+        segments.push(actualSegment);
+    }
+
+    const remainingSegment = createSegment("remaining", remainingStart, finish);
+    if (remainingSegment && (segments.length === 0 || remainingSegment.start < remainingSegment.finish)) {
+        segments.push(remainingSegment);
+    }
+
+    return buildGeometryFromSegments(segments, actualStart, finish, task.percentComplete);
+}
+
+function createPercentCompleteSegment(
+    extentStart: Date | null,
+    extentFinish: Date | null,
+    percentComplete: number | null | undefined
+): TaskBarSegment | null {
+    if (
+        !isValidTaskDate(extentStart) ||
+        !isValidTaskDate(extentFinish) ||
+        typeof percentComplete !== "number" ||
+        !Number.isFinite(percentComplete) ||
+        percentComplete <= 0
+    ) {
+        return null;
+    }
+
+    const fraction = Math.min(100, percentComplete) / 100;
+    const span = extentFinish.getTime() - extentStart.getTime();
+    if (span <= 0) {
+        return null;
+    }
+
+    return createSegment("percentComplete", extentStart, new Date(extentStart.getTime() + span * fraction));
 }
 
 function buildGeometryFromSegments(
     segments: TaskBarSegment[],
     labelStartDate: Date | null,
-    labelFinishDate: Date | null
+    labelFinishDate: Date | null,
+    percentComplete?: number | null
 ): TaskBarGeometry {
     const dates = segments.flatMap(segment => [segment.start, segment.finish]);
     const extentStart = getDateMin(dates);
@@ -184,6 +282,7 @@ function buildGeometryFromSegments(
         labelStartDate,
         labelFinishDate,
         sortDate,
-        hasSplit: segments.length > 1
+        hasSplit: segments.length > 1,
+        percentCompleteSegment: createPercentCompleteSegment(extentStart, extentFinish, percentComplete)
     };
 }
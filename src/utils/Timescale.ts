@@ -0,0 +1,171 @@
+export type TimescaleUnit = "year" | "quarter" | "month" | "week" | "day";
+
+export type WeekNumbering = "iso" | "us";
+
+export interface TimescaleOptions {
+    /** Calendar month (1-12) in which the fiscal year starts; 1 means calendar years. */
+    fiscalYearStartMonth: number;
+    weekNumbering: WeekNumbering;
+}
+
+export interface TimescaleCell {
+    start: Date;
+    end: Date;
+    /** Label candidates from longest to shortest; renderers use the first that fits. */
+    labels: string[];
+}
+
+export const DEFAULT_TIMESCALE_OPTIONS: TimescaleOptions = { fiscalYearStartMonth: 1, weekNumbering: "iso" };
+
+const UNIT_ORDER: TimescaleUnit[] = ["day", "week", "month", "quarter", "year"];
+const APPROXIMATE_UNIT_DAYS: Record<TimescaleUnit, number> = {
+    day: 1,
+    week: 7,
+    month: 30.44,
+    quarter: 91.31,
+    year: 365.25
+};
+const SHORTEST_LABEL_LENGTH: Record<TimescaleUnit, number> = {
+    day: 2,
+    week: 3,
+    month: 3,
+    quarter: 2,
+    year: 4
+};
+const TIER_SETS: Record<TimescaleUnit, { two: TimescaleUnit[]; three: TimescaleUnit[] }> = {
+    day: { two: ["month", "day"], three: ["month", "week", "day"] },
+    week: { two: ["month", "week"], three: ["year", "month", "week"] },
+    month: { two: ["year", "month"], three: ["year", "quarter", "month"] },
+    quarter: { two: ["year", "quarter"], three: ["year", "quarter"] },
+    year: { two: ["year"], three: ["year"] }
+};
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_TIER_CELLS = 2000;
+
+export function normalizeTimescaleOptions(fiscalYearStartMonth: unknown, weekNumbering: unknown): TimescaleOptions {
+    const month = Number(fiscalYearStartMonth);
+    return {
+        fiscalYearStartMonth: Number.isInteger(month) && month >= 1 && month <= 12 ? month : 1,
+        weekNumbering: weekNumbering === "us" ? "us" : "iso"
+    };
+}
+
+/**
+ * Picks the finest unit whose cells are wide enough for their shortest label, then the
+ * coarser tiers above it. Tiers are returned top to bottom.
+ */
+export function chooseTimescaleTiers(pixelsPerDay: number, characterWidthPx: number, tierCount: 2 | 3): TimescaleUnit[] {
+    const bottom = UNIT_ORDER.find(unit =>
+        pixelsPerDay * APPROXIMATE_UNIT_DAYS[unit] >= SHORTEST_LABEL_LENGTH[unit] * characterWidthPx + 8
+    ) ?? "year";
+    const tiers = TIER_SETS[bottom];
+    return (tierCount === 3 ? tiers.three : tiers.two).slice();
+}
+
+/** Fiscal years are named after the calendar year in which they end (FY27 = Jul 2026 - Jun 2027). */
+export function getFiscalYear(date: Date, options: TimescaleOptions): number {
+    const startMonthIndex = options.fiscalYearStartMonth - 1;
+    if (startMonthIndex === 0) {
+        return date.getFullYear();
+    }
+    return date.getMonth() >= startMonthIndex ? date.getFullYear() + 1 : date.getFullYear();
+}
+
+export function getFiscalQuarter(date: Date, options: TimescaleOptions): number {
+    const monthsIntoYear = (date.getMonth() - (options.fiscalYearStartMonth - 1) + 12) % 12;
+    return Math.floor(monthsIntoYear / 3) + 1;
+}
+
+/**
+ * ISO weeks start on Monday and week 1 contains 4 January. US weeks start on Sunday
+ * and week 1 contains 1 January.
+ */
+export function getWeekNumber(date: Date, numbering: WeekNumbering): { year: number; week: number } {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (numbering === "us") {
+        const januaryFirst = new Date(day.getFullYear(), 0, 1);
+        const dayOfYear = Math.round((day.getTime() - januaryFirst.getTime()) / 86400000);
+        return { year: day.getFullYear(), week: Math.floor((dayOfYear + januaryFirst.getDay()) / 7) + 1 };
+    }
+
+    const thursday = new Date(day.getTime());
+    thursday.setDate(day.getDate() + 3 - ((day.getDay() + 6) % 7));
+    const weekYearStart = new Date(thursday.getFullYear(), 0, 1);
+    const dayOfYear = Math.round((thursday.getTime() - weekYearStart.getTime()) / 86400000);
+    return { year: thursday.getFullYear(), week: Math.floor(dayOfYear / 7) + 1 };
+}
+
+export function floorToTimescaleUnit(date: Date, unit: TimescaleUnit, options: TimescaleOptions): Date {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    switch (unit) {
+        case "day":
+            return new Date(year, month, date.getDate());
+        case "week": {
+            const weekStartDay = options.weekNumbering === "us" ? 0 : 1;
+            const offset = (date.getDay() - weekStartDay + 7) % 7;
+            return new Date(year, month, date.getDate() - offset);
+        }
+        case "month":
+            return new Date(year, month, 1);
+        case "quarter": {
+            const monthsIntoYear = (month - (options.fiscalYearStartMonth - 1) + 12) % 12;
+            return new Date(year, month - (monthsIntoYear % 3), 1);
+        }
+        case "year": {
+            const startMonthIndex = options.fiscalYearStartMonth - 1;
+            return new Date(month >= startMonthIndex ? year : year - 1, startMonthIndex, 1);
+        }
+    }
+}
+
+export function offsetTimescaleUnit(date: Date, unit: TimescaleUnit, count: number): Date {
+    switch (unit) {
+        case "day":
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count);
+        case "week":
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count * 7);
+        case "month":
+            return new Date(date.getFullYear(), date.getMonth() + count, 1);
+        case "quarter":
+            return new Date(date.getFullYear(), date.getMonth() + count * 3, 1);
+        case "year":
+            return new Date(date.getFullYear(), date.getMonth() + count * 12, 1);
+    }
+}
+
+export function getTimescaleLabels(date: Date, unit: TimescaleUnit, options: TimescaleOptions): string[] {
+    const isFiscal = options.fiscalYearStartMonth !== 1;
+    const fiscalYear = getFiscalYear(date, options);
+    const yearText = isFiscal ? `FY${String(fiscalYear).slice(-2)}` : String(fiscalYear);
+    switch (unit) {
+        case "year":
+            return isFiscal ? [`FY${fiscalYear}`, yearText] : [yearText];
+        case "quarter":
+            return [`Q${getFiscalQuarter(date, options)} ${yearText}`, `Q${getFiscalQuarter(date, options)}`];
+        case "month":
+            return [`${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`, MONTH_NAMES[date.getMonth()], MONTH_NAMES[date.getMonth()].charAt(0)];
+        case "week": {
+            const week = getWeekNumber(date, options.weekNumbering).week;
+            const dayText = String(date.getDate()).padStart(2, "0");
+            return [`W${week} (${dayText}-${MONTH_NAMES[date.getMonth()]})`, `W${week}`, String(week)];
+        }
+        case "day": {
+            const dayText = String(date.getDate()).padStart(2, "0");
+            return [`${DAY_NAMES[date.getDay()]} ${dayText}`, dayText, DAY_NAMES[date.getDay()].charAt(0)];
+        }
+    }
+}
+
+/** Builds the cells of one tier that overlap `[start, end]`; cells are not clipped. */
+export function buildTimescaleCells(start: Date, end: Date, unit: TimescaleUnit, options: TimescaleOptions): TimescaleCell[] {
+    const cells: TimescaleCell[] = [];
+    let cellStart = floorToTimescaleUnit(start, unit, options);
+    while (cellStart.getTime() < end.getTime() && cells.length < MAX_TIER_CELLS) {
+        const cellEnd = offsetTimescaleUnit(cellStart, unit, 1);
+        cells.push({ start: cellStart, end: cellEnd, labels: getTimescaleLabels(cellStart, unit, options) });
+        cellStart = cellEnd;
+    }
+    return cells;
+}
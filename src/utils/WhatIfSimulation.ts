@@ -0,0 +1,193 @@
+import { buildDrivingEventGraph, getTaskEventNodeId } from "./DrivingPathScoring";
+import type { DrivingEventEdge, ScheduleRelationshipLike, ScheduleTaskLike } from "./DrivingPathScoring";
+import { formatDurationDays } from "./DurationUnits";
+
+const DAY_IN_MS = 86400000;
+const SHIFT_TOLERANCE_DAYS = 1e-9;
+
+export interface WhatIfScenario {
+    taskId: string;
+    /** Days the selected task starts later; its whole bar moves. */
+    delayDays: number;
+    /** Days added to (or, when negative, removed from) the selected task's duration. */
+    durationChangeDays: number;
+}
+
+export interface WhatIfRelationshipLike extends ScheduleRelationshipLike {
+    freeFloat?: number | null;
+}
+
+export interface WhatIfTaskImpact {
+    taskId: string;
+    startShiftDays: number;
+    finishShiftDays: number;
+    simulatedStart: Date;
+    simulatedFinish: Date;
+}
+
+export interface WhatIfResult {
+    scenario: WhatIfScenario;
+    /** Tasks whose simulated dates differ from their imported dates, keyed by task ID. */
+    impacts: Map<string, WhatIfTaskImpact>;
+    /** True when the selected task's successors form a loop; nothing is simulated then. */
+    blockedByCycle: boolean;
+}
+
+export function isWhatIfScenarioActive(scenario: WhatIfScenario | null | undefined): scenario is WhatIfScenario {
+    return !!scenario &&
+        !!scenario.taskId &&
+        (Math.abs(scenario.delayDays) > SHIFT_TOLERANCE_DAYS || Math.abs(scenario.durationChangeDays) > SHIFT_TOLERANCE_DAYS);
+}
+
+/** Signed day shift such as "+10d" or "-2.5d". */
+export function formatWhatIfShift(days: number): string {
+    const text = formatDurationDays(days);
+    return `${days > 0 && text !== "0" ? "+" : ""}${text}d`;
+}
+
+/** The selected task and everything reachable from it through successor links, in topological order. */
+function getDownstreamOrder<TTask extends ScheduleTaskLike, TRel extends WhatIfRelationshipLike>(
+    tasksById: ReadonlyMap<string, TTask>,
+    relationships: readonly TRel[],
+    taskId: string
+): { order: string[]; relationships: TRel[] } | null {
+    const outgoing = new Map<string, TRel[]>();
+    for (const relationship of relationships) {
+        if (relationship.predecessorId === relationship.successorId ||
+            !tasksById.has(relationship.predecessorId) ||
+            !tasksById.has(relationship.successorId)) {
+            continue;
+        }
+        const links = outgoing.get(relationship.predecessorId) ?? [];
+        links.push(relationship);
+        outgoing.set(relationship.predecessorId, links);
+    }
+
+    const reachable = new Set<string>([taskId]);
+    const stack = [taskId];
+    while (stack.length > 0) {
+        for (const relationship of outgoing.get(stack.pop()!) ?? []) {
+            if (!reachable.has(relationship.successorId)) {
+                reachable.add(relationship.successorId);
+                stack.push(relationship.successorId);
+            }
+        }
+    }
+
+    const scopedRelationships: TRel[] = [];
+    const inDegree = new Map<string, number>();
+    reachable.forEach(id => inDegree.set(id, 0));
+    reachable.forEach(id => {
+        for (const relationship of outgoing.get(id) ?? []) {
+            scopedRelationships.push(relationship);
+            inDegree.set(relationship.successorId, (inDegree.get(relationship.successorId) ?? 0) + 1);
+        }
+    });
+
+    const queue = Array.from(reachable).filter(id => inDegree.get(id) === 0);
+    const order: string[] = [];
+    for (let index = 0; index < queue.length; index++) {
+        const id = queue[index];
+        order.push(id);
+        for (const relationship of outgoing.get(id) ?? []) {
+            const remaining = (inDegree.get(relationship.successorId) ?? 0) - 1;
+            inDegree.set(relationship.successorId, remaining);
+            if (remaining === 0) {
+                queue.push(relationship.successorId);
+            }
+        }
+    }
+    return order.length === reachable.size ? { order, relationships: scopedRelationships } : null;
+}
+
+/**
+ * Slack a delay must use up before it crosses a link: the imported relationship free float
+ * when present, otherwise the gap between the linked events beyond the lag.
+ */
+function getEdgeSlackDays<TRel extends WhatIfRelationshipLike>(edge: DrivingEventEdge<TRel>): number {
+    if (edge.kind === "task" || !edge.relationship) {
+        return 0;
+    }
+    const freeFloat = edge.relationship.freeFloat;
+    const slack = typeof freeFloat === "number" && isFinite(freeFloat)
+        ? freeFloat
+        : edge.weightDays - (edge.relationship.lag ?? 0);
+    return Math.max(0, slack);
+}
+
+/**
+ * Pushes a delay or duration change on one task through its successors. The event graph
+ * from `buildDrivingEventGraph` supplies FS/SS/FF/SF links; a successor moves by the
+ * largest incoming shift left after each link's slack, and keeps its duration. Successors
+ * are only pushed later, so a shorter duration moves the selected task's finish but does
+ * not pull its successors in. Shifts are elapsed days like the Longest Path graph, and the
+ * input tasks are never modified.
+ */
+export function simulateWhatIf<TTask extends ScheduleTaskLike, TRel extends WhatIfRelationshipLike>(
+    tasksById: ReadonlyMap<string, TTask>,
+    relationships: readonly TRel[],
+    scenario: WhatIfScenario
+): WhatIfResult {
+    const result: WhatIfResult = { scenario, impacts: new Map(), blockedByCycle: false };
+    if (!isWhatIfScenarioActive(scenario) || !tasksById.has(scenario.taskId)) {
+        return result;
+    }
+
+    const downstream = getDownstreamOrder(tasksById, relationships, scenario.taskId);
+    if (!downstream) {
+        result.blockedByCycle = true;
+        return result;
+    }
+
+    const graph = buildDrivingEventGraph(tasksById, downstream.order, downstream.relationships);
+    if (!graph.validTaskIds.has(scenario.taskId)) {
+        return result;
+    }
+
+    const shifts = new Map<string, number>();
+    const getIncomingShift = (nodeId: string): number => {
+        let shift = 0;
+        for (const edge of graph.incoming.get(nodeId) ?? []) {
+            if (edge.kind === "relationship") {
+                shift = Math.max(shift, (shifts.get(edge.fromNodeId) ?? 0) - getEdgeSlackDays(edge));
+            }
+        }
+        return shift;
+    };
+
+    for (const taskId of downstream.order) {
+        if (!graph.validTaskIds.has(taskId)) {
+            continue;
+        }
+        const startNodeId = getTaskEventNodeId(taskId, "start");
+        const finishNodeId = getTaskEventNodeId(taskId, "finish");
+        if (taskId === scenario.taskId) {
+            const task = tasksById.get(taskId)!;
+            const durationDays = (task.finishDate!.getTime() - task.startDate!.getTime()) / DAY_IN_MS;
+            shifts.set(startNodeId, scenario.delayDays);
+            shifts.set(finishNodeId, scenario.delayDays + Math.max(-durationDays, scenario.durationChangeDays));
+            continue;
+        }
+        const shift = Math.max(getIncomingShift(startNodeId), getIncomingShift(finishNodeId));
+        shifts.set(startNodeId, shift);
+        shifts.set(finishNodeId, shift);
+    }
+
+    for (const taskId of downstream.order) {
+        const task = tasksById.get(taskId);
+        const startShiftDays = shifts.get(getTaskEventNodeId(taskId, "start")) ?? 0;
+        const finishShiftDays = shifts.get(getTaskEventNodeId(taskId, "finish")) ?? 0;
+        if (!task?.startDate || !task.finishDate ||
+            (Math.abs(startShiftDays) <= SHIFT_TOLERANCE_DAYS && Math.abs(finishShiftDays) <= SHIFT_TOLERANCE_DAYS)) {
+            continue;
+        }
+        result.impacts.set(taskId, {
+            taskId,
+            startShiftDays,
+            finishShiftDays,
+            simulatedStart: new Date(task.startDate.getTime() + startShiftDays * DAY_IN_MS),
+            simulatedFinish: new Date(task.finishDate.getTime() + finishShiftDays * DAY_IN_MS)
+        });
+    }
+    return result;
+}
@@ -0,0 +1,280 @@
+export interface WorkingCalendar {
+    name: string;
+    /** Indexed by `Date.getDay()`: 0 = Sunday ... 6 = Saturday. */
+    workDays: boolean[];
+    /** Non-working exception dates keyed by local `yyyy-mm-dd`. */
+    holidays: Set<string>;
+}
+
+export interface CalendarDefinitionResult {
+    calendars: Map<string, WorkingCalendar>;
+    errors: string[];
+}
+
+export interface NonWorkingRange {
+    start: Date;
+    end: Date;
+}
+
+const DAY_ALIASES: Record<string, number> = {
+    su: 0, sun: 0, sunday: 0,
+    mo: 1, mon: 1, monday: 1,
+    tu: 2, tue: 2, tues: 2, tuesday: 2,
+    we: 3, wed: 3, wednesday: 3,
+    th: 4, thu: 4, thur: 4, thurs: 4, thursday: 4,
+    fr: 5, fri: 5, friday: 5,
+    sa: 6, sat: 6, saturday: 6
+};
+
+const DEFAULT_WORK_DAYS = [false, true, true, true, true, true, false];
+const MAX_EXCEPTION_RANGE_DAYS = 366;
+const MAX_SHADING_DAYS = 5000;
+
+export function getCalendarKey(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+export function getCalendarDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function createWorkingCalendar(name: string, workDays: boolean[] = DEFAULT_WORK_DAYS): WorkingCalendar {
+    return { name, workDays: workDays.slice(0, 7), holidays: new Set<string>() };
+}
+
+/**
+ * Parses a work-week from "Mon-Fri", "Mon,Tue,Thu", "Sun-Thu" or a seven-character
+ * Monday-first mask such as "1111100". Returns null when nothing recognisable is found.
+ */
+export function parseWorkDaysSpec(value: unknown): boolean[] | null {
+    if (value == null) {
+        return null;
+    }
+
+    const text = String(value).trim().toLowerCase();
+    if (!text) {
+        return null;
+    }
+
+    if (/^[01]{7}$/.test(text)) {
+        const mondayFirst = text.split("").map(flag => flag === "1");
+        return [mondayFirst[6], ...mondayFirst.slice(0, 6)];
+    }
+
+    const workDays = [false, false, false, false, false, false, false];
+    for (const part of text.split(/[,\s/]+/).filter(Boolean)) {
+        const range = part.split(/-|\.\./);
+        if (range.length > 2) {
+            return null;
+        }
+
+        const from = DAY_ALIASES[range[0]];
+        const to = range.length === 2 ? DAY_ALIASES[range[1]] : from;
+        if (from === undefined || to === undefined) {
+            return null;
+        }
+
+        for (let day = from, steps = 0; steps < 7; day = (day + 1) % 7, steps++) {
+            workDays[day] = true;
+            if (day === to) {
+                break;
+            }
+        }
+    }
+
+    return workDays.some(Boolean) ? workDays : null;
+}
+
+/** Infers the work-week from conventional names such as "7-Day", "6 Day Week" or "5d". */
+export function inferWorkDaysFromName(name: string): boolean[] | null {
+    const match = /(?:^|\D)([5-7])\s*-?\s*d(?:ay)?(?:s)?\b/i.exec(name);
+    if (!match) {
+        return null;
+    }
+
+    const count = Number(match[1]);
+    return [count >= 7, true, true, true, true, true, count >= 6];
+}
+
+function parseIsoDate(text: string): Date | null {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text.trim());
+    if (!match) {
+        return null;
+    }
+
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/** Adds a single non-working date, or an inclusive `yyyy-mm-dd..yyyy-mm-dd` range. */
+export function addCalendarException(calendar: WorkingCalendar, value: unknown): boolean {
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            return false;
+        }
+        calendar.holidays.add(getCalendarDateKey(value));
+        return true;
+    }
+
+    if (value == null) {
+        return false;
+    }
+
+    const [fromText, toText] = String(value).split("..");
+    const from = parseIsoDate(fromText);
+    const to = toText === undefined ? from : parseIsoDate(toText);
+    if (!from || !to || to < from) {
+        return false;
+    }
+
+    const cursor = new Date(from.getTime());
+    for (let i = 0; cursor <= to && i < MAX_EXCEPTION_RANGE_DAYS; i++) {
+        calendar.holidays.add(getCalendarDateKey(cursor));
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return true;
+}
+
+/**
+ * Parses format-pane calendar text. Entries are separated by ";" or new lines:
+ * `5-Day: Mon-Fri except 2026-12-25, 2026-12-28..2027-01-01; 7-Day: Mon-Sun`.
+ * The work-week may be omitted when the name implies it ("6-Day").
+ */
+export function parseCalendarDefinitions(text: string | null | undefined): CalendarDefinitionResult {
+    const calendars = new Map<string, WorkingCalendar>();
+    const errors: string[] = [];
+
+    for (const rawEntry of (text ?? "").split(/[;\n]+/)) {
+        const entry = rawEntry.trim();
+        if (!entry) {
+            continue;
+        }
+
+        const separator = entry.indexOf(":");
+        const name = (separator >= 0 ? entry.slice(0, separator) : entry).trim();
+        const body = separator >= 0 ? entry.slice(separator + 1).trim() : "";
+        if (!name) {
+            errors.push(`Calendar entry "${entry}" has no name`);
+            continue;
+        }
+
+        const [weekText, exceptionText] = body.split(/\bexcept\b/i);
+        const workDays = weekText.trim()
+            ? parseWorkDaysSpec(weekText)
+            : inferWorkDaysFromName(name) ?? DEFAULT_WORK_DAYS;
+        if (!workDays) {
+            errors.push(`Calendar "${name}" has an unrecognised work week "${weekText.trim()}"`);
+            continue;
+        }
+
+        const calendar = createWorkingCalendar(name, workDays);
+        for (const exception of (exceptionText ?? "").split(",").map(part => part.trim()).filter(Boolean)) {
+            if (!addCalendarException(calendar, exception)) {
+                errors.push(`Calendar "${name}" has an unrecognised exception "${exception}"`);
+            }
+        }
+        calendars.set(getCalendarKey(name), calendar);
+    }
+
+    return { calendars, errors };
+}
+
+/**
+ * Layers `overrides` on top of `base`. An override replaces the work-week and adds its
+ * exceptions to any already defined for the same calendar name.
+ */
+export function mergeWorkingCalendars(
+    base: Map<string, WorkingCalendar>,
+    overrides: Map<string, WorkingCalendar>
+): Map<string, WorkingCalendar> {
+    const merged = new Map<string, WorkingCalendar>();
+    base.forEach((calendar, key) => {
+        merged.set(key, { ...calendar, holidays: new Set(calendar.holidays) });
+    });
+    overrides.forEach((calendar, key) => {
+        const existing = merged.get(key);
+        const holidays = new Set(existing?.holidays ?? []);
+        calendar.holidays.forEach(holiday => holidays.add(holiday));
+        merged.set(key, { name: calendar.name, workDays: calendar.workDays.slice(), holidays });
+    });
+    return merged;
+}
+
+/**
+ * Resolves a calendar by name. Names that were never defined fall back to a work-week
+ * inferred from the name itself so "7-Day" style calendars work without definitions.
+ */
+export function resolveWorkingCalendar(
+    calendars: Map<string, WorkingCalendar>,
+    name: string | null | undefined
+): WorkingCalendar | null {
+    if (!name || !name.trim()) {
+        return null;
+    }
+
+    const calendar = calendars.get(getCalendarKey(name));
+    if (calendar) {
+        return calendar;
+    }
+
+    const inferred = inferWorkDaysFromName(name);
+    return inferred ? createWorkingCalendar(name.trim(), inferred) : null;
+}
+
+export function isWorkingDay(calendar: WorkingCalendar, date: Date): boolean {
+    return calendar.workDays[date.getDay()] === true && !calendar.holidays.has(getCalendarDateKey(date));
+}
+
+/**
+ * Counts working days from the start date's day up to (but excluding) `finish`, so a
+ * Monday start with a Saturday 00:00 finish is five days on a Mon-Fri calendar.
+ */
+export function countWorkingDays(calendar: WorkingCalendar, start: Date, finish: Date): number {
+    if (finish <= start) {
+        return 0;
+    }
+
+    const cursor = new Date(start.getTime());
+    cursor.setHours(0, 0, 0, 0);
+    let workingDays = 0;
+    while (cursor < finish) {
+        if (isWorkingDay(calendar, cursor)) {
+            workingDays++;
+        }
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return workingDays;
+}
+
+/**
+ * Returns merged non-working day spans that overlap `[start, end)`. Spans are aligned to
+ * local midnight and not clipped, so callers can clip to their own viewport.
+ */
+export function getNonWorkingRanges(calendar: WorkingCalendar, start: Date, end: Date): NonWorkingRange[] {
+    const ranges: NonWorkingRange[] = [];
+    if (end <= start) {
+        return ranges;
+    }
+
+    const cursor = new Date(start.getTime());
+    cursor.setHours(0, 0, 0, 0);
+    let current: NonWorkingRange | null = null;
+    for (let i = 0; cursor < end && i < MAX_SHADING_DAYS; i++) {
+        const next = new Date(cursor.getTime());
+        next.setDate(next.getDate() + 1);
+        if (!isWorkingDay(calendar, cursor)) {
+            if (current) {
+                current.end = next;
+            } else {
+                current = { start: new Date(cursor.getTime()), end: next };
+                ranges.push(current);
+            }
+        } else {
+            current = null;
+        }
+        cursor.setTime(next.getTime());
+    }
+    return ranges;
+}
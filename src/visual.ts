@@ -26,7 +26,7 @@ import { VisualSettings } from "./settings";
 import { FormattingSettingsService, formattingSettings } from "powerbi-visuals-utils-formattingmodel";
 import { DataProcessor } from "./data/DataProcessor";
 import { Header, HeaderPalette, HeaderState } from "./components/Header";
-import { Task, WBSGroup, Relationship, DropdownItem, UpdateType, BoundFieldState, DataQualityInfo, ExtraColumnInfo, WbsSummaryMilestoneMarker } from "./data/Interfaces";
+import { Task, WBSGroup, Relationship, DropdownItem, UpdateType, BoundFieldState, DataQualityInfo, ExtraColumnInfo, WbsSummaryMilestoneMarker, RelationshipFloatMethod, ScheduleSnapshot } from "./data/Interfaces";
 import { UI_TOKENS, LAYOUT_BREAKPOINTS, HEADER_DOCK_TOKENS } from "./utils/Theme";
 import {
     buildDrivingEventGraph,
@@ -47,9 +47,73 @@ import {
 } from "./utils/RelationshipLogic";
 import {
     calculateLongestPathMembership,
-    collectDrivingTraceMembership
+    calculateProjectLongestPathMemberships,
+    collectDrivingTraceMembership,
+    getDrivingConnectionGap
 } from "./utils/LongestPathLogic";
-import type { LongestPathMembership } from "./utils/LongestPathLogic";
+import type { DrivingTraceMode, LongestPathMembership } from "./utils/LongestPathLogic";
+import {
+    collectInterProjectLinks,
+    parsePersistedProjectPathSelections,
+    serializeProjectPathSelections
+} from "./utils/ProjectGrouping";
+import type { ProjectLink } from "./utils/ProjectGrouping";
+import { formatDurationDays, resolveDurationUnitOptions } from "./utils/DurationUnits";
+import {
+    formatHours,
+    formatTimeOfDay,
+    getShiftBoundaries,
+    getShiftNumber,
+    isShiftBoundary,
+    normalizeShiftPattern,
+    normalizeTimeResolution
+} from "./utils/HourTimescale";
+import type { ShiftPattern } from "./utils/HourTimescale";
+import { buildTimescaleCells, chooseTimescaleTiers, normalizeTimescaleOptions } from "./utils/Timescale";
+import type { TimescaleOptions } from "./utils/Timescale";
+import { CURTAIN_PALETTE, buildCurtainLegend, getCurtainColor, getOverlappingCurtains } from "./utils/Curtains";
+import type { Curtain, CurtainLegendEntry } from "./utils/Curtains";
+import { deriveRelationshipFloat, formatCpmCheckSummary, getCpmCheckFieldLabel, getScheduleAnchor, verifyScheduleCpm } from "./utils/CpmVerification";
+import type { CpmDiscrepancy, CpmTaskCheck, CpmVerificationResult } from "./utils/CpmVerification";
+import { formatWhatIfShift, isWhatIfScenarioActive, simulateWhatIf } from "./utils/WhatIfSimulation";
+import type { WhatIfResult, WhatIfScenario, WhatIfTaskImpact } from "./utils/WhatIfSimulation";
+import { buildPathTargetOptions, normalizePathTargetScope, resolvePathTargetTaskId } from "./utils/PathTarget";
+import { NO_FLOAT_PATH_LABEL, calculateFloatPaths, getFloatPathLabel, normalizeFloatPathCount } from "./utils/FloatPaths";
+import type { FloatPathResult } from "./utils/FloatPaths";
+import {
+    CRITICAL_CHANGE_STATUSES,
+    DEFAULT_EROSION_THRESHOLD_DAYS,
+    NO_PREVIOUS_FLOAT_LABEL,
+    classifyCriticalChange,
+    countCriticalChanges,
+    formatCriticalChangeSummary,
+    formatFloatChange,
+    formatFloatDays,
+    getCriticalChangeStatusLabel,
+    rankCriticalChanges
+} from "./utils/CriticalPathChange";
+import type { CriticalChange, CriticalChangeOptions } from "./utils/CriticalPathChange";
+import { buildMilestoneTrend, formatMilestoneSlip } from "./utils/MilestoneTrend";
+import type { MilestoneTrend } from "./utils/MilestoneTrend";
+import {
+    PREVIOUS_UPDATE_FIELD_REFERENCE,
+    getPlaybackFrameDelay,
+    getSlipTrail,
+    getSnapshotKey
+} from "./utils/ScheduleSnapshots";
+import type { SlipTrailMarker } from "./utils/ScheduleSnapshots";
+import {
+    MONTE_CARLO_PERCENTILES,
+    buildFinishHistogram,
+    formatCriticalityIndex,
+    getWorkingDayFinishDate,
+    normalizeMonteCarloIterations,
+    runMonteCarloSimulation
+} from "./utils/MonteCarloSimulation";
+import type { MonteCarloResult } from "./utils/MonteCarloSimulation";
+import { assessSchedule, formatDcmaValue, getDcmaStatusLabel } from "./utils/ScheduleAssessment";
+import type { DcmaCheckResult, DcmaThresholds, ScheduleAssessmentResult } from "./utils/ScheduleAssessment";
+import { findRedundantRelationships } from "./utils/RedundantLogic";
 import {
     buildStableLegendCategoryOrder,
     normalizeLegendCategory,
@@ -77,6 +141,25 @@ import {
     shouldApplyCriticalFormatToTaskBarSegment
 } from "./utils/TaskBarGeometry";
 import type { CurrentBarDateMode, TaskBarGeometry, TaskBarSegment } from "./utils/TaskBarGeometry";
+import {
+    collectDrivingPathHardConstraintTaskIds,
+    getConstraintEdge,
+    getConstraintGlyph,
+    getConstraintTypeLabel,
+    getTaskConstraints,
+    hasHardConstraint,
+    isHardConstraint
+} from "./utils/ConstraintLogic";
+import type { ConstraintGlyph, TaskConstraint } from "./utils/ConstraintLogic";
+import { glyphPolylinePath } from "./utils/HeaderGlyphGeometry";
+import {
+    countWorkingDays,
+    getNonWorkingRanges,
+    mergeWorkingCalendars,
+    parseCalendarDefinitions,
+    resolveWorkingCalendar
+} from "./utils/WorkingCalendar";
+import type { WorkingCalendar } from "./utils/WorkingCalendar";
 import {
     createWbsSummaryMilestoneMarker,
     getCriticalFormattingExtentFromTaskBarGeometry,
@@ -280,6 +363,26 @@ type WbsHeaderContextMenuAction = {
     isCurrent: boolean;
 };
 
+type OverlayDialogOptions = {
+    idPrefix: string;
+    iconText: string;
+    title: string;
+    description: string;
+    closeLabel: string;
+    buildContent: (container: Selection<HTMLDivElement, unknown, null, undefined>) => void;
+};
+
+type WhatIfGhost = {
+    task: Task;
+    impact: WhatIfTaskImpact;
+    isMilestone: boolean;
+    x: number;
+    width: number;
+    y: number;
+    centerY: number;
+    label: string | null;
+};
+
 type VisibleExportColumn =
     | { kind: "taskName"; header: string }
     | { kind: "longestPath"; header: string }
@@ -398,8 +501,10 @@ export class Visual implements IVisual {
     private boundFields: BoundFieldState = {
         baselineStartBound: false, baselineFinishBound: false,
         previousUpdateStartBound: false, previousUpdateFinishBound: false,
-        baselineAvailable: false, previousUpdateAvailable: false,
-        extraColumnsBound: false
+        baselineAvailable: false, previousUpdateAvailable: false, previousUpdateFloatAvailable: false,
+        extraColumnsBound: false,
+        actualDatesAvailable: false, percentCompleteAvailable: false, threePointDurationsAvailable: false,
+        projectAvailable: false
     };
 
     private extraColumnInfos: ExtraColumnInfo[] = [];
@@ -417,6 +522,7 @@ export class Visual implements IVisual {
     private readonly HEADER_LINE_LABEL_MIN_HEIGHT = 18;
     private readonly HEADER_LINE_LABEL_PADDING_X = 6;
     private readonly HEADER_LINE_LABEL_PADDING_Y = 3;
+    private readonly MIN_NON_WORKING_DAY_WIDTH = 2;
     private readonly WBS_LEVEL_ACCENT_WIDTH = 5;
     private readonly WBS_TOGGLE_BOX_SIZE = 18;
     private readonly WBS_TASK_LABEL_INSET = 22;
@@ -514,6 +620,9 @@ export class Visual implements IVisual {
     private legendCategoriesInCurrentScope: string[] = [];
     private legendFieldName: string = "";
     private legendContainer: Selection<HTMLDivElement, unknown, null, undefined>;
+    private milestoneTrendContainer: Selection<HTMLDivElement, unknown, null, undefined>;
+    /** Gantt or Milestone Trend Analysis; held in memory like the open ends filter. */
+    private viewMode: "gantt" | "milestoneTrend" = "gantt";
     private selectedLegendCategories: Set<string> = new Set();
     private legendScrollPosition: number = 0;
     private lastLegendRenderSignature: string | null = null;
@@ -556,11 +665,65 @@ export class Visual implements IVisual {
 
     private relationshipIndex: Map<string, Relationship[]> = new Map();
     private hasRelationshipFreeFloat: boolean = false;
+    private rowCalendars: Map<string, WorkingCalendar> = new Map();
+    private curtains: Curtain[] = [];
+    private cpmVerification: CpmVerificationResult | null = null;
+    private cpmVerificationSignature: string | null = null;
+    /** Held in memory only, so a saved report never opens with a hypothetical delay. */
+    private whatIfScenario: WhatIfScenario | null = null;
+    private whatIfResult: WhatIfResult | null = null;
+    private whatIfSignature: string | null = null;
+    private monteCarloResult: MonteCarloResult | null = null;
+    /** Day 0 of the simulation: the Data Date, or the earliest start without one. */
+    private monteCarloAnchor: Date | null = null;
+    private monteCarloSignature: string | null = null;
+    private scheduleAssessment: ScheduleAssessmentResult | null = null;
+    /** "Show only open ends" filter; held in memory like the what-if scenario. */
+    private showOnlyOpenEnds: boolean = false;
+    private scheduleAssessmentSignature: string | null = null;
+    /** Data the redundant logic was checked against; null until it is needed. */
+    private redundantLogicSignature: string | null = null;
+    /** False when the network was too large to check within the search budget. */
+    private redundantLogicComplete: boolean = false;
+    /** Set once Redundant logic is opened, so the list stays current. Held in memory only. */
+    private redundantLogicRequested: boolean = false;
+    private floatPathResult: FloatPathResult | null = null;
+    /** Settings the float paths were numbered with; empty while Calculate Float Paths is off. */
+    private floatPathSignature: string = "";
+    /** Total float against Previous Update Total Float, by task; empty when either is missing. */
+    private criticalChanges: Map<string, CriticalChange> = new Map();
+    private criticalChangeSignature: string | null = null;
+    /** Thresholds the legend was coloured by change with; empty while Colour By Change is off. */
+    private criticalChangeLegendSignature: string = "";
+    /** Format pane settings the tasks were last built with. */
+    private processingSettingsSignature: string = "";
+    private workingCalendars: Map<string, WorkingCalendar> = new Map();
     private authoritativeLongestPathReady: boolean = false;
 
     private allDrivingChains: DrivingChain[] = [];
     private selectedPathIndex: number = 0;
     private pendingSelectedPathIndex: number | null = null;
+    private projectLongestPathMemberships: Map<string, LongestPathMembership<Relationship>> = new Map();
+    private projectDrivingChains: Map<string, DrivingChain[]> = new Map();
+    private projectPathSelections: Map<string, number> = new Map();
+    /** Stored Longest Path target; see getActivePathTargetTaskId() for the one in effect. */
+    private pathTargetTaskId: string | null = null;
+    private traceEndTaskId: string | null = null;
+    /** Schedule updates from the Snapshot Date field, oldest first; the last is the current one. */
+    private snapshots: ScheduleSnapshot[] = [];
+    /** Earlier snapshot filling the Previous Update values; null when the fields are used. */
+    private referenceSnapshot: ScheduleSnapshot | null = null;
+    /** Stored comparison choice; see resolveReferenceSnapshot() for the one in effect. */
+    private referenceSnapshotKey: string = "";
+    private appliedReferenceSnapshotKey: string = "";
+    /** Earlier snapshot shown by playback; null shows the latest update. Held in memory only. */
+    private playbackSnapshot: ScheduleSnapshot | null = null;
+    private playbackSnapshotKey: string = "";
+    private appliedPlaybackSnapshotKey: string = "";
+    private playbackTimer: number | null = null;
+    private playbackSpeed: number = 1;
+    private traceConnectionMessage: string | null = null;
+    private activeProjectId: string | null = null;
     private drivingPathsTruncationMessage: string | null = null;
     private scopedCycleWarningMessage: string | null = null;
 
@@ -693,7 +856,8 @@ export class Visual implements IVisual {
             mode,
             configuredDropdownWidth: this.settings?.pathSelection?.dropdownWidth?.value ?? defaultWidth,
             dropdownPosition: String(this.settings?.pathSelection?.dropdownPosition?.value?.value || "left"),
-            traceVisible: this.isTraceModeToggleVisible()
+            traceVisible: this.isTraceModeToggleVisible(),
+            traceOptionCount: 3
         });
     }
 
@@ -858,9 +1022,16 @@ export class Visual implements IVisual {
             .style("max-width", `${labelWidth}px`);
 
         if (labelWidth >= 96) {
+            const endTask = this.isTraceBetweenActive()
+                ? this.taskIdToTask.get(this.getTraceEndTaskId() ?? "")
+                : undefined;
+            const labelText = !this.isTraceBetweenActive()
+                ? `${selectedLabelPrefix}: ${this.selectedTaskName}`
+                : `A: ${this.selectedTaskName} → B: ${endTask ? endTask.name || endTask.id : "select a task"}`;
             this.selectedTaskLabel
                 .style("display", "inline-flex")
-                .text(`${selectedLabelPrefix}: ${this.selectedTaskName}`);
+                .attr("title", this.traceConnectionMessage && endTask ? this.traceConnectionMessage : null)
+                .text(labelText);
         } else {
             this.selectedTaskLabel.style("display", "none");
         }
@@ -1415,13 +1586,26 @@ export class Visual implements IVisual {
             duplicateTaskIds: [],
             conflictingTaskRows: [],
             conflictingScheduleTaskRows: [],
+            relationshipOrientationConflicts: [],
             missingPredecessorIds: [],
+            missingSuccessorIds: [],
+            invalidPredecessorTokens: [],
             relationshipCount: 0,
             relationshipFreeFloatMissingCount: 0,
             hasRelationshipFreeFloat: false,
+            relationshipFloatMethod: "supplied",
             invalidRelationshipTypeCount: 0,
             invalidRelationshipLagCount: 0,
             selfRelationshipCount: 0,
+            invalidConstraintTypeCount: 0,
+            invalidDurationValueCount: 0,
+            invalidCalendarValueCount: 0,
+            hardConstraintTaskIds: [],
+            drivingPathHardConstraintTaskIds: [],
+            openStartTaskIds: [],
+            openFinishTaskIds: [],
+            danglingStartTaskIds: [],
+            danglingFinishTaskIds: [],
             circularPaths: [],
             missingRawDateTaskIds: [],
             invalidRawDateRangeTaskIds: [],
@@ -1593,6 +1777,20 @@ export class Visual implements IVisual {
             },
             onLookAheadWindowChanged: (days) => this.setLookAheadWindowDays(days),
             onHelp: () => this.showHelpOverlay(),
+            onScheduleCheck: () => this.showScheduleCheckOverlay(),
+            onScheduleRisk: () => this.showScheduleRiskOverlay(),
+            onScheduleAssessment: () => this.showScheduleAssessmentOverlay(),
+            onOpenEnds: () => this.showOpenEndsOverlay(),
+            onRedundantLogic: () => this.showRedundantLogicOverlay(),
+            onFloatErosion: () => this.showFloatErosionOverlay(),
+            onToggleMilestoneTrend: () => this.toggleMilestoneTrendView(),
+            onWhatIfChanged: (delayDays, durationChangeDays) => this.setWhatIfScenario(delayDays, durationChangeDays),
+            onPathTargetChanged: (taskId) => this.setPathTarget(taskId),
+            onComparisonSnapshotChanged: (key) => this.setReferenceSnapshot(key),
+            onPlaybackFrameChanged: (index) => this.setPlaybackFrame(index),
+            onTogglePlayback: () => this.togglePlayback(),
+            onPlaybackSpeedChanged: (speed) => this.setPlaybackSpeed(speed),
+            onExportPlaybackFrames: () => { void this.exportPlaybackFrames(); },
             onExport: () => this.exportToPDF(),
             onExportHtml: () => this.exportVisualAsHtml(),
             onCopy: () => this.copyVisibleDataToClipboard()
@@ -1792,6 +1990,16 @@ export class Visual implements IVisual {
             .style("display", "none")
             .style("overflow", "hidden");
 
+        this.milestoneTrendContainer = this.visualWrapper.append("div")
+            .attr("class", "milestone-trend-view")
+            .style("position", "absolute")
+            .style("left", "0")
+            .style("right", "0")
+            .style("display", "none")
+            .style("flex-direction", "column")
+            .style("overflow", "hidden")
+            .style("z-index", "95");
+
         this.canvasElement = document.createElement('canvas');
         this.canvasElement.style.position = 'absolute';
         this.canvasElement.style.pointerEvents = 'auto';
@@ -2421,8 +2629,11 @@ export class Visual implements IVisual {
 
     private getWbsBindingSignature(dataView: DataView): string {
         const infos = this.dataProcessor.getRoleColumnInfos(dataView, 'wbsLevels');
-        return infos
-            .map((info, index) => `${info.column.queryName ?? info.column.displayName ?? `wbs-${index}`}`)
+        const projectKey = this.dataProcessor.isProjectGroupingActive(dataView, this.settings)
+            ? [`project:${this.dataProcessor.getRoleColumnInfos(dataView, 'projectId')[0]?.column.queryName ?? "projectId"}`]
+            : [];
+        return projectKey.concat(infos
+            .map((info, index) => `${info.column.queryName ?? info.column.displayName ?? `wbs-${index}`}`))
             .join("|");
     }
 
@@ -2705,8 +2916,10 @@ export class Visual implements IVisual {
 
     private clearCriticalPresentationState(): void {
         this.allDrivingChains = [];
+        this.projectDrivingChains = new Map();
         this.drivingPathsTruncationMessage = null;
         this.scopedCycleWarningMessage = null;
+        this.traceConnectionMessage = null;
         for (const task of this.allTasksData) {
             task.isCritical = false;
             task.isCriticalByFloat = false;
@@ -2721,6 +2934,10 @@ export class Visual implements IVisual {
 
     private clearAuthoritativeLongestPathState(): void {
         this.authoritativeLongestPathReady = false;
+        this.projectLongestPathMemberships = new Map();
+        if (this.dataQuality) {
+            this.dataQuality.drivingPathHardConstraintTaskIds = [];
+        }
 
         for (const task of this.allTasksData) {
             task.isLongestPath = null;
@@ -2743,6 +2960,13 @@ export class Visual implements IVisual {
         return (this.settings?.criticalPath?.calculationMode?.value?.value ?? "floatBased") === "longestPath";
     }
 
+    /** Longest Path per project: each project keeps its own sinks, routes and selector index. */
+    private isProjectLongestPathScope(): boolean {
+        return this.isLongestPathMode() &&
+            this.settings?.criticalPath?.longestPathScope?.value?.value === "perProject" &&
+            this.boundFields.projectAvailable;
+    }
+
     private isNoCalculationMode(): boolean {
         return (this.settings?.criticalPath?.calculationMode?.value?.value ?? "floatBased") === "none";
     }
@@ -2756,27 +2980,51 @@ export class Visual implements IVisual {
     }
 
     private getModeWarningMessage(): string | null {
+        if (this.traceConnectionMessage && this.isLongestPathMode() && this.isTraceBetweenActive()) {
+            return this.traceConnectionMessage;
+        }
         return null;
     }
 
     private ensureTaskSortCache(signature: string): void {
-        if (this.cachedSortedTasksSignature === signature) {
+        const cacheKey = `${signature}|${this.getTaskOrder()}`;
+        if (this.cachedSortedTasksSignature === cacheKey) {
             return;
         }
 
-        const sortedByStartDate = this.allTasksData
+        const sortedTasks = this.allTasksData
             .filter(task => {
                 const s = this.getTaskBarSortDate(task);
                 return s instanceof Date && !isNaN(s.getTime());
             })
-            .sort((a, b) => {
-                const aStart = this.getTaskBarSortDate(a)?.getTime() ?? 0;
-                const bStart = this.getTaskBarSortDate(b)?.getTime() ?? 0;
-                return aStart - bStart;
-            });
+            .sort((a, b) => this.compareTasksForDisplay(a, b));
+
+        this.cachedPlottableTasksSorted = sortedTasks.filter(task => this.hasValidPlotDates(task));
+        this.cachedSortedTasksSignature = cacheKey;
+    }
+
+    private getTaskOrder(): "startDate" | "logicLevel" | "wbsLogicLevel" {
+        const order = this.settings?.layoutSettings?.taskOrder?.value?.value;
+        return order === "logicLevel" || order === "wbsLogicLevel" ? order : "startDate";
+    }
 
-        this.cachedPlottableTasksSorted = sortedByStartDate.filter(task => this.hasValidPlotDates(task));
-        this.cachedSortedTasksSignature = signature;
+    /** Logic level used by the active Task Order; the plain level when ordering by date. */
+    private getTaskLogicLevel(task: Task): number | null {
+        const level = this.getTaskOrder() === "wbsLogicLevel" ? task.wbsLogicLevel : task.logicLevel;
+        return typeof level === "number" ? level : null;
+    }
+
+    /** Row order: logic level first when Task Order asks for it, then bar start date. */
+    private compareTasksForDisplay(a: Task, b: Task): number {
+        if (this.getTaskOrder() !== "startDate") {
+            const levelDifference = (this.getTaskLogicLevel(a) ?? 0) - (this.getTaskLogicLevel(b) ?? 0);
+            if (levelDifference !== 0) {
+                return levelDifference;
+            }
+        }
+        const aStart = this.getTaskBarSortDate(a)?.getTime() ?? 0;
+        const bStart = this.getTaskBarSortDate(b)?.getTime() ?? 0;
+        return aStart - bStart;
     }
 
     private determineUpdateType(options: VisualUpdateOptions): UpdateType {
@@ -2866,6 +3114,7 @@ export class Visual implements IVisual {
 
     public destroy(): void {
         this.isDestroyed = true;
+        this.stopPlayback();
 
         // Cleanup ResizeObserver
         if (this.resizeObserver) {
@@ -2964,6 +3213,11 @@ export class Visual implements IVisual {
         // Release large data structures to allow GC
         this.allTasksData = [];
         this.relationships = [];
+        this.cpmVerification = null;
+        this.cpmVerificationSignature = null;
+        this.whatIfScenario = null;
+        this.whatIfResult = null;
+        this.whatIfSignature = null;
         this.taskIdToTask.clear();
         this.predecessorIndex.clear();
         this.relationshipByPredecessor.clear();
@@ -3004,12 +3258,21 @@ export class Visual implements IVisual {
     }
 
     private getConnectorOpacity(rel: Relationship): number {
-        if (!this.hoveredTaskId) {
-            return rel.isCritical ? 0.85 : 0.35;
-        }
-        return this.isRelationshipHovered(rel)
-            ? (rel.isCritical ? 0.95 : 0.85)
-            : 0.12;
+        const opacity = !this.hoveredTaskId
+            ? (rel.isCritical ? 0.85 : 0.35)
+            : this.isRelationshipHovered(rel)
+                ? (rel.isCritical ? 0.95 : 0.85)
+                : 0.12;
+        return this.isDimmedRedundantRelationship(rel) ? opacity * 0.35 : opacity;
+    }
+
+    private getRedundantConnectorStyle(): "show" | "dim" | "hide" {
+        const style = this.settings?.connectorLines?.redundantConnectorStyle?.value?.value;
+        return style === "dim" || style === "hide" ? style : "show";
+    }
+
+    private isDimmedRedundantRelationship(rel: Relationship): boolean {
+        return rel.isRedundant === true && this.getRedundantConnectorStyle() === "dim";
     }
 
     private updateConnectorHoverStyles(): void {
@@ -3193,6 +3456,12 @@ export class Visual implements IVisual {
                 this.update(this.lastUpdateOptions);
             }
 
+            // Showing the previous update also reports how the critical set moved since it.
+            const changeSummary = this.showPreviousUpdateInternal ? this.getCriticalPathChangeSummary() : null;
+            if (changeSummary) {
+                this.announceToLiveRegion(changeSummary);
+            }
+
             this.debugLog("Visual update triggered by previous update toggle");
         } catch (error) {
             console.error("Error in previous update toggle method:", error);
@@ -4307,7 +4576,8 @@ export class Visual implements IVisual {
     }
 
     /**
-     * Called when zoom changes - triggers visual update with throttling
+     * Called when zoom changes - triggers visual update with throttling.
+     * The redraw re-chooses timescale tiers for the new zoom level.
      */
     private zoomChangeTimeout: ReturnType<typeof setTimeout> | null = null;
 
@@ -4954,6 +5224,277 @@ export class Visual implements IVisual {
      * Exports the visual as a PDF file using Power BI Download Service API
      * Falls back to direct download if the service is unavailable
      */
+    /** File name timestamp such as 2026-03-12-09-30-00. */
+    private getExportTimestamp(): string {
+        return new Date().toISOString()
+            .replace(/[:.]/g, '-')
+            .replace('T', '-')
+            .slice(0, 19);
+    }
+
+    private isMilestoneTrendViewActive(): boolean {
+        return this.viewMode === "milestoneTrend";
+    }
+
+    private toggleMilestoneTrendView(): void {
+        this.viewMode = this.isMilestoneTrendViewActive() ? "gantt" : "milestoneTrend";
+        this.announceToLiveRegion(this.isMilestoneTrendViewActive()
+            ? this.getLocalizedString("ui.milestoneTrendShown", "Milestone trend chart shown.")
+            : this.getLocalizedString("ui.milestoneTrendHidden", "Gantt chart shown."));
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
+    }
+
+    /** Milestones in the current filter scope: search, path, look-ahead and legend filters, not WBS collapse. */
+    private getMilestoneTrend(): MilestoneTrend {
+        return buildMilestoneTrend(this._lastFilteredTasksForFinishLines, {
+            currentReportDate: this.dataDate,
+            treatZeroDurationAsMilestone: this.isNoCalculationMode(),
+            snapshots: this.getShownSnapshots()
+        });
+    }
+
+    private getMilestoneTrendSvgNode(): SVGSVGElement | null {
+        return this.milestoneTrendContainer?.select<SVGSVGElement>("svg.milestone-trend-chart").node() ?? null;
+    }
+
+    private getMilestoneTrendColor(task: Task): string {
+        if (this.highContrastMode) {
+            return this.highContrastForeground;
+        }
+        return task.legendColor ?? this.host.colorPalette.getColor(task.internalId).value;
+    }
+
+    /**
+     * Milestone Trend Analysis view: forecast finish (up) against successive reports
+     * (across), one line per milestone in the current filter scope, coloured like the
+     * legend. It covers the Gantt body while shown; the header and legend stay usable.
+     */
+    private renderMilestoneTrendView(): void {
+        if (!this.milestoneTrendContainer) {
+            return;
+        }
+        const active = this.isMilestoneTrendViewActive();
+        this.headerGridLayer?.style("display", active ? "none" : null);
+        this.milestoneTrendContainer.selectAll("*").remove();
+        if (!active) {
+            this.milestoneTrendContainer.style("display", "none");
+            return;
+        }
+
+        const maxSeries = 40;
+        const toolbarHeight = 40;
+        const legendNode = this.legendContainer?.node();
+        const legendHeight = legendNode && legendNode.style.display !== "none" ? legendNode.offsetHeight : 0;
+        const foreground = this.getForegroundColor();
+        const background = this.getVisualBackgroundColor();
+        const fontFamily = this.getFontFamily();
+        this.milestoneTrendContainer
+            .style("display", "flex")
+            .style("top", `${this.headerHeight}px`)
+            .style("bottom", `${legendHeight}px`)
+            .style("background", background)
+            .style("color", foreground)
+            .style("font-family", fontFamily);
+
+        const trend = this.getMilestoneTrend();
+        const toolbar = this.milestoneTrendContainer.append("div")
+            .style("display", "flex")
+            .style("align-items", "center")
+            .style("gap", "12px")
+            .style("height", `${toolbarHeight}px`)
+            .style("flex-shrink", "0")
+            .style("padding", "0 12px")
+            .style("border-bottom", `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        toolbar.append("div")
+            .style("font-size", "13px")
+            .style("font-weight", "600")
+            .text(this.getLocalizedString("ui.milestoneTrendTitle", "Milestone Trend"));
+        toolbar.append("div")
+            .style("flex", "1 1 auto")
+            .style("font-size", "12px")
+            .style("overflow", "hidden")
+            .style("text-overflow", "ellipsis")
+            .style("white-space", "nowrap")
+            .text(trend.series.length > maxSeries
+                ? `Showing ${maxSeries} of ${trend.series.length} milestones, earliest forecast first.`
+                : `${trend.series.length} milestone${trend.series.length === 1 ? "" : "s"} in the current filter.`);
+        const appendToolbarButton = (label: string, onClick: () => void): void => {
+            toolbar.append("button")
+                .attr("type", "button")
+                .style("padding", "4px 12px")
+                .style("border", `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+                .style("border-radius", "8px")
+                .style("background", "none")
+                .style("color", foreground)
+                .style("font-family", DEFAULT_SYSTEM_FONT_STACK)
+                .style("font-size", "12px")
+                .style("cursor", "pointer")
+                .text(label)
+                .on("click", onClick);
+        };
+        if (trend.series.length > 0) {
+            appendToolbarButton(this.getLocalizedString("ui.milestoneTrendExportPng", "Export PNG"), () => {
+                void this.exportMilestoneTrendPng();
+            });
+        }
+        appendToolbarButton(this.getLocalizedString("ui.milestoneTrendBack", "Show Gantt"), () => this.toggleMilestoneTrendView());
+
+        const containerNode = this.milestoneTrendContainer.node();
+        const width = Math.max(320, this.snapRectCoord(containerNode?.clientWidth ?? 0));
+        const height = Math.max(180, this.snapRectCoord((containerNode?.clientHeight ?? 0) - toolbarHeight));
+        const svg = this.milestoneTrendContainer.append("svg")
+            .attr("class", "milestone-trend-chart")
+            .attr("width", width)
+            .attr("height", height)
+            .attr("role", "img")
+            .attr("font-family", fontFamily)
+            .style("display", "block");
+        svg.append("rect")
+            .attr("width", width)
+            .attr("height", height)
+            .attr("fill", background);
+
+        if (trend.series.length === 0 || !trend.minFinish || !trend.maxFinish) {
+            const message = this.getLocalizedString(
+                "ui.milestoneTrendEmpty",
+                "No milestones with finish dates in the current filter."
+            );
+            svg.attr("aria-label", message);
+            svg.append("text")
+                .attr("x", width / 2)
+                .attr("y", height / 2)
+                .attr("text-anchor", "middle")
+                .attr("font-size", 13)
+                .attr("fill", foreground)
+                .text(message);
+            return;
+        }
+
+        const series = trend.series.slice(0, maxSeries);
+        const plot = { left: 88, right: 200, top: 20, bottom: 44 };
+        const minDomain = trend.minFinish.getTime() === trend.maxFinish.getTime()
+            ? d3.timeDay.offset(trend.minFinish, -7)
+            : trend.minFinish;
+        const maxDomain = trend.minFinish.getTime() === trend.maxFinish.getTime()
+            ? d3.timeDay.offset(trend.maxFinish, 7)
+            : trend.maxFinish;
+        const x = d3.scalePoint<number>()
+            .domain(trend.reports.map((_, index) => index))
+            .range([plot.left, Math.max(plot.left + 1, width - plot.right)])
+            .padding(0.5);
+        const y = d3.scaleTime()
+            .domain([minDomain, maxDomain])
+            .range([Math.max(plot.top + 1, height - plot.bottom), plot.top])
+            .nice();
+        const gridColor = UI_TOKENS.color.neutral.grey30;
+        svg.attr("aria-label", `Milestone trend of ${series.length} milestone${series.length === 1 ? "" : "s"} across ${trend.reports.map(report => report.label).join(", ")}.`);
+
+        for (const tick of y.ticks(6)) {
+            svg.append("line")
+                .attr("x1", plot.left).attr("x2", width - plot.right)
+                .attr("y1", y(tick)).attr("y2", y(tick))
+                .attr("stroke", gridColor);
+            svg.append("text")
+                .attr("x", plot.left - 8)
+                .attr("y", y(tick))
+                .attr("text-anchor", "end")
+                .attr("dominant-baseline", "central")
+                .attr("font-size", 11)
+                .attr("fill", foreground)
+                .text(this.formatLineDate(tick));
+        }
+        trend.reports.forEach((report, index) => {
+            const px = x(index) ?? plot.left;
+            svg.append("line")
+                .attr("x1", px).attr("x2", px)
+                .attr("y1", plot.top).attr("y2", height - plot.bottom)
+                .attr("stroke", gridColor)
+                .attr("stroke-dasharray", "3,3");
+            svg.append("text")
+                .attr("x", px)
+                .attr("y", height - plot.bottom + 16)
+                .attr("text-anchor", "middle")
+                .attr("font-size", 11)
+                .attr("font-weight", 600)
+                .attr("fill", foreground)
+                .text(report.label);
+            if (report.reportDate) {
+                svg.append("text")
+                    .attr("x", px)
+                    .attr("y", height - plot.bottom + 30)
+                    .attr("text-anchor", "middle")
+                    .attr("font-size", 10)
+                    .attr("fill", foreground)
+                    .text(this.formatLineDate(report.reportDate));
+            }
+        });
+
+        for (const entry of series) {
+            const task = this.taskIdToTask.get(entry.taskId);
+            if (!task) {
+                continue;
+            }
+            const color = this.getMilestoneTrendColor(task);
+            const points = entry.finishes
+                .map((finish, index) => finish ? { index, finish, px: x(index) ?? plot.left, py: y(finish) } : null)
+                .filter((point): point is { index: number; finish: Date; px: number; py: number } => point !== null);
+            const group = svg.append("g").attr("class", "milestone-trend-series");
+            group.append("path")
+                .attr("d", d3.line()(points.map(point => [point.px, point.py] as [number, number])) ?? "")
+                .attr("fill", "none")
+                .attr("stroke", color)
+                .attr("stroke-width", 2);
+            for (const point of points) {
+                group.append("circle")
+                    .attr("cx", point.px)
+                    .attr("cy", point.py)
+                    .attr("r", 4)
+                    .attr("fill", color)
+                    .append("title")
+                    .text(`${task.name || task.id}: ${trend.reports[point.index].label} ${this.formatLineDate(point.finish)}`);
+            }
+            const last = points[points.length - 1];
+            const name = task.name || String(task.id);
+            const slip = formatMilestoneSlip(entry.slipDays);
+            group.append("text")
+                .attr("x", last.px + 8)
+                .attr("y", last.py)
+                .attr("dominant-baseline", "central")
+                .attr("font-size", 11)
+                .attr("fill", foreground)
+                .text(`${name.length > 28 ? `${name.slice(0, 27)}\u2026` : name}${slip ? ` (${slip})` : ""}`);
+        }
+    }
+
+    private async exportMilestoneTrendPng(): Promise<void> {
+        const svgNode = this.getMilestoneTrendSvgNode();
+        if (!svgNode || this.isExporting) {
+            return;
+        }
+
+        this.isExporting = true;
+        this.updateExportButtonState(true);
+        try {
+            const canvas = await this.svgToCanvas(svgNode, this.getExportPixelRatio(2));
+            const pngBase64 = canvas.toDataURL('image/png').split(',')[1];
+            await this.downloadExportContent(
+                pngBase64,
+                `milestone-trend-${this.getExportTimestamp()}.png`,
+                'image/png',
+                'PNG export of Milestone Trend Analysis chart'
+            );
+        } catch (error) {
+            console.error('[PNG Export] Export failed:', error);
+            this.showToast('PNG export failed. Please try again.', 4000);
+        } finally {
+            this.isExporting = false;
+            this.updateExportButtonState(false);
+        }
+    }
+
     private async exportToPDF(): Promise<void> {
         this.debugLog('[PDF Export] Starting export...');
 
@@ -4967,54 +5508,19 @@ export class Visual implements IVisual {
 
         try {
             // Generate filename with timestamp
-            const now = new Date();
-            const timestamp = now.toISOString()
-                .replace(/[:.]/g, '-')
-                .replace('T', '-')
-                .slice(0, 19);
-            const filename = `gantt-export-${timestamp}.pdf`;
+            const timestamp = this.getExportTimestamp();
+            const isMilestoneTrend = this.isMilestoneTrendViewActive();
+            const filename = `${isMilestoneTrend ? "milestone-trend" : "gantt-export"}-${timestamp}.pdf`;
+            const description = isMilestoneTrend
+                ? 'PDF export of Milestone Trend Analysis chart'
+                : 'PDF export of Gantt chart visualization';
 
             // Generate PDF content
             this.debugLog('[PDF Export] Generating PDF content...');
             const pdfBase64 = await this.generatePDFContent();
             this.debugLog('[PDF Export] PDF content generated, size:', pdfBase64.length, 'chars');
 
-            // Try Power BI Download Service first
-            if (this.downloadService) {
-                try {
-                    this.debugLog('[PDF Export] Checking download service status...');
-                    const status = await this.downloadService.exportStatus();
-                    this.debugLog('[PDF Export] Export status:', status);
-
-                    if (status === PrivilegeStatus.Allowed) {
-                        this.debugLog('[PDF Export] Triggering download via Power BI API...');
-                        const result = await this.downloadService.exportVisualsContentExtended(
-                            pdfBase64,
-                            filename,
-                            'base64',
-                            'PDF export of Gantt chart visualization'
-                        );
-
-                        if (result.downloadCompleted) {
-                            this.debugLog('[PDF Export] Download completed successfully:', result.fileName);
-                            return; // Success!
-                        } else {
-                            console.warn('[PDF Export] Download may not have completed, trying fallback...');
-                        }
-                    } else {
-                        this.debugLog('[PDF Export] Export not allowed by Power BI, status:', status);
-                        // Still try fallback - it has better messaging for Desktop users
-                    }
-                } catch (apiError) {
-                    console.warn('[PDF Export] Power BI API failed, trying fallback:', apiError);
-                }
-            } else {
-                this.debugLog('[PDF Export] Download service not available, using fallback');
-            }
-
-            // Fallback: Direct download using blob URL
-            this.debugLog('[PDF Export] Using fallback download method...');
-            this.fallbackDownload(pdfBase64, filename);
+            await this.downloadExportContent(pdfBase64, filename, 'application/pdf', description);
 
         } catch (error) {
             console.error('[PDF Export] Export failed:', error);
@@ -5026,11 +5532,54 @@ export class Visual implements IVisual {
         }
     }
 
+    /**
+     * Downloads base64 content through the Power BI Download Service, falling back to a
+     * blob URL when the service is unavailable, not allowed or does not complete.
+     */
+    private async downloadExportContent(base64Content: string, filename: string, mimeType: string, description: string): Promise<void> {
+        if (this.downloadService) {
+            try {
+                this.debugLog('[Export] Checking download service status...');
+                const status = await this.downloadService.exportStatus();
+                this.debugLog('[Export] Export status:', status);
+
+                if (status === PrivilegeStatus.Allowed) {
+                    this.debugLog('[Export] Triggering download via Power BI API...');
+                    const result = await this.downloadService.exportVisualsContentExtended(
+                        base64Content,
+                        filename,
+                        'base64',
+                        description
+                    );
+
+                    if (result.downloadCompleted) {
+                        this.debugLog('[Export] Download completed successfully:', result.fileName);
+                        return; // Success!
+                    } else {
+                        console.warn('[Export] Download may not have completed, trying fallback...');
+                    }
+                } else {
+                    this.debugLog('[Export] Export not allowed by Power BI, status:', status);
+                    // Still try fallback - it has better messaging for Desktop users
+                }
+            } catch (apiError) {
+                console.warn('[Export] Power BI API failed, trying fallback:', apiError);
+            }
+        } else {
+            this.debugLog('[Export] Download service not available, using fallback');
+        }
+
+        // Fallback: Direct download using blob URL
+        this.debugLog('[Export] Using fallback download method...');
+        this.fallbackDownload(base64Content, filename, mimeType);
+    }
+
     /**
      * Fallback download method using blob URL
      * This works when the Power BI Download Service is unavailable
      */
-    private fallbackDownload(base64Content: string, filename: string): void {
+    private fallbackDownload(base64Content: string, filename: string, mimeType: string = 'application/pdf'): void {
+        const formatLabel = mimeType === 'image/png' ? 'PNG' : 'PDF';
         try {
             // Convert base64 to blob
             const byteCharacters = atob(base64Content);
@@ -5039,7 +5588,7 @@ export class Visual implements IVisual {
                 byteNumbers[i] = byteCharacters.charCodeAt(i);
             }
             const byteArray = new Uint8Array(byteNumbers);
-            const blob = new Blob([byteArray], { type: 'application/pdf' });
+            const blob = new Blob([byteArray], { type: mimeType });
 
             // Try method 1: Direct download link
             try {
@@ -5057,46 +5606,51 @@ export class Visual implements IVisual {
                     URL.revokeObjectURL(url);
                 }, 100);
 
-                this.debugLog('[PDF Export] Fallback download initiated:', filename);
+                this.debugLog('[Export] Fallback download initiated:', filename);
                 return;
             } catch (downloadError) {
-                console.warn('[PDF Export] Direct download blocked, trying window.open...', downloadError);
+                console.warn('[Export] Direct download blocked, trying window.open...', downloadError);
             }
 
             // Try method 2: Open in new window (works in some Desktop scenarios)
             try {
-                const dataUri = 'data:application/pdf;base64,' + base64Content;
+                const dataUri = `data:${mimeType};base64,` + base64Content;
                 const newWindow = window.open(dataUri, '_blank');
                 if (newWindow) {
-                    this.debugLog('[PDF Export] Opened PDF in new tab. Use Ctrl+S or right-click to save.');
-                    this.showToast('PDF opened in a new tab. Use Ctrl+S or right-click to save it.', 5000);
+                    this.debugLog(`[Export] Opened ${formatLabel} in new tab. Use Ctrl+S or right-click to save.`);
+                    this.showToast(`${formatLabel} opened in a new tab. Use Ctrl+S or right-click to save it.`, 5000);
                     return;
                 }
             } catch (windowError) {
-                console.warn('[PDF Export] window.open blocked:', windowError);
+                console.warn('[Export] window.open blocked:', windowError);
             }
 
             // Method 3: Copy to clipboard as last resort
-            this.debugLog('[PDF Export] All download methods blocked. Showing manual instructions.');
+            this.debugLog('[Export] All download methods blocked. Showing manual instructions.');
             this.showToast(
-                'PDF Export is blocked by browser security. Publish to Power BI Service or use File → Export → PDF.',
+                `${formatLabel} Export is blocked by browser security. Publish to Power BI Service or use File → Export → PDF.`,
                 6000
             );
         } catch (error) {
-            console.error('[PDF Export] Fallback download failed:', error);
-            this.showToast('Unable to download PDF in this environment.', 4000);
+            console.error('[Export] Fallback download failed:', error);
+            this.showToast(`Unable to download ${formatLabel} in this environment.`, 4000);
         }
     }
 
     /**
-     * Generates PDF content by compositing all visual layers onto a single canvas
+     * Generates PDF content by compositing all visual layers onto a single canvas, or
+     * from the Milestone Trend chart alone while that view is shown
      * @returns Base64 encoded PDF content
      */
     private async generatePDFContent(): Promise<string> {
         const scaleFactor = 2;
-        const visualWidth = Math.max(1, this.snapRectCoord(this.target.clientWidth));
-        const visualHeight = Math.max(1, this.snapRectCoord(this.target.clientHeight));
-        const outputCanvas = await this.renderCompositeExportCanvas(scaleFactor);
+        const milestoneTrendSvg = this.isMilestoneTrendViewActive() ? this.getMilestoneTrendSvgNode() : null;
+        const exportNode = milestoneTrendSvg ?? this.target;
+        const visualWidth = Math.max(1, this.snapRectCoord(exportNode.clientWidth));
+        const visualHeight = Math.max(1, this.snapRectCoord(exportNode.clientHeight));
+        const outputCanvas = milestoneTrendSvg
+            ? await this.svgToCanvas(milestoneTrendSvg, this.getExportPixelRatio(scaleFactor))
+            : await this.renderCompositeExportCanvas(scaleFactor);
 
         // Preserve hard text and rule edges; lossy JPEG introduces visible halos around glyphs.
         const imgData = outputCanvas.toDataURL('image/png');
@@ -5693,7 +6247,8 @@ export class Visual implements IVisual {
             }
 
             this.wbsLevelColumnNames = [];
-            this.wbsDataExistsInMetadata = this.dataProcessor.hasDataRole(dataView, 'wbsLevels');
+            const projectGroupingActive = this.dataProcessor.isProjectGroupingActive(dataView, this.settings);
+            this.wbsDataExistsInMetadata = this.dataProcessor.hasDataRole(dataView, 'wbsLevels') || projectGroupingActive;
             const wbsBindingSignature = this.getWbsBindingSignature(dataView);
             const wbsBindingChanged = wbsBindingSignature !== this.lastWbsBindingSignature;
 
@@ -5708,7 +6263,9 @@ export class Visual implements IVisual {
 
             if (this.wbsDataExistsInMetadata) {
                 const layout = this.dataProcessor.getRoleColumnLayout(dataView, 'wbsLevels');
-                this.wbsLevelColumnNames = layout.names;
+                this.wbsLevelColumnNames = projectGroupingActive
+                    ? [this.dataProcessor.getProjectColumnName(dataView), ...layout.names]
+                    : layout.names;
             }
 
             if (this.settings?.wbsGrouping?.enableWbsGrouping) {
@@ -5772,6 +6329,21 @@ export class Visual implements IVisual {
                     const persistedMode = this.settings.persistedState.traceMode.value;
                     this.traceMode = persistedMode ? persistedMode : "backward";
                 }
+                if (this.settings?.persistedState?.projectPathSelections !== undefined) {
+                    this.projectPathSelections = parsePersistedProjectPathSelections(
+                        this.settings.persistedState.projectPathSelections.value
+                    );
+                    this.activeProjectId = this.settings.persistedState.activeProjectId?.value || null;
+                }
+                if (this.settings?.persistedState?.pathTargetTaskId !== undefined) {
+                    this.pathTargetTaskId = this.settings.persistedState.pathTargetTaskId.value || null;
+                }
+                if (this.settings?.persistedState?.referenceSnapshot !== undefined) {
+                    this.referenceSnapshotKey = this.settings.persistedState.referenceSnapshot.value || "";
+                }
+                if (this.settings?.persistedState?.traceEndTaskId !== undefined) {
+                    this.traceEndTaskId = this.settings.persistedState.traceEndTaskId.value || null;
+                }
 
                 if (this.settings?.persistedState?.selectedLegendCategories !== undefined) {
                     const savedCategories = this.settings.persistedState.selectedLegendCategories.value;
@@ -5871,7 +6443,16 @@ export class Visual implements IVisual {
             this.createpathSelectionDropdown();
             this.createTraceModeToggle();
 
-            const shouldTransform = dataChanged || this.allTasksData.length === 0;
+            // Float paths and critical path change colouring replace the Legend field values, so a change
+            // re-runs the transform to restore them. The relationship float method decides the Longest
+            // Path blockers found by validation. The comparison update is applied to the tasks as they are built.
+            const shouldTransform = dataChanged || this.allTasksData.length === 0 ||
+                this.getProcessingSettingsSignature() !== this.processingSettingsSignature ||
+                this.referenceSnapshotKey !== this.appliedReferenceSnapshotKey ||
+                this.playbackSnapshotKey !== this.appliedPlaybackSnapshotKey ||
+                this.getFloatPathSignature() !== this.floatPathSignature ||
+                this.getCriticalChangeLegendSignature() !== this.criticalChangeLegendSignature ||
+                this.dataQuality?.relationshipFloatMethod !== this.getRelationshipFloatMethod();
             if (shouldTransform) {
                 const processedData = this.dataProcessor.processData(
                     dataView,
@@ -5881,11 +6462,14 @@ export class Visual implements IVisual {
                     this.lastExpandCollapseAllState,
                     this.highContrastMode,
                     this.highContrastForeground,
-                    this.dataFetchLimitReached
+                    this.dataFetchLimitReached,
+                    this.referenceSnapshotKey,
+                    this.playbackSnapshotKey
                 );
 
                 // Update local state from processed data
                 this.allTasksData = processedData.allTasksData;
+                this.invalidateDerivedResults();
                 this.relationships = processedData.relationships;
                 this.authoritativeLongestPathReady = false;
                 this.taskIdToTask = processedData.taskIdToTask;
@@ -5899,6 +6483,8 @@ export class Visual implements IVisual {
                 this.legendCategories = stableLegendCategories;
                 this.legendColorMap = new Map();
                 this.legendFieldName = processedData.legendFieldName;
+                this.applyFloatPaths();
+                this.applyCriticalChangeLegend();
                 this.refreshLegendColorAssignments(dataView);
                 this.sanitizeLegendSelectionState(true);
                 this.wbsDataExists = processedData.wbsDataExists;
@@ -5909,6 +6495,17 @@ export class Visual implements IVisual {
                 this.wbsLevelColumnNames = processedData.wbsLevelColumnNames;
                 this.extraColumnInfos = processedData.extraColumnInfos;
                 this.dataQuality = processedData.dataQuality;
+                this.rowCalendars = processedData.calendars;
+                this.curtains = processedData.curtains;
+                this.snapshots = processedData.snapshots;
+                this.referenceSnapshot = processedData.referenceSnapshot;
+                this.appliedReferenceSnapshotKey = this.referenceSnapshotKey;
+                this.playbackSnapshot = processedData.playbackSnapshot;
+                if (!this.playbackSnapshot) {
+                    this.playbackSnapshotKey = "";
+                }
+                this.appliedPlaybackSnapshotKey = this.playbackSnapshotKey;
+                this.processingSettingsSignature = this.getProcessingSettingsSignature();
 
                 this.lastDataSignature = dataSignature;
                 this.cachedSortedTasksSignature = null;
@@ -5921,7 +6518,7 @@ export class Visual implements IVisual {
             // Detect which optional fields are bound and have data,
             // then override internal toggle flags to force-hide when unavailable.
             // Must run AFTER data processing so allTasksData is populated.
-            this.boundFields = this.dataProcessor.detectBoundFields(dataView, this.allTasksData || [], this.settings);
+            this.boundFields = this.dataProcessor.detectBoundFields(dataView, this.allTasksData || [], this.settings, this.referenceSnapshot !== null);
             if (!this.boundFields.baselineAvailable) {
                 this.showBaselineInternal = false;
             }
@@ -5930,6 +6527,13 @@ export class Visual implements IVisual {
             }
 
             this.settings = this.formattingSettingsService.populateFormattingSettingsModel(VisualSettings, dataView);
+            this.refreshWorkingCalendars();
+            this.refreshCpmVerification();
+            this.refreshWhatIf();
+            this.refreshRedundantLogic();
+            this.refreshMonteCarlo();
+            this.refreshScheduleAssessment();
+            this.refreshCriticalPathChanges();
             this.reconcilePendingPathSelection();
             this.reconcilePendingWbsDisplaySelection();
             this.ensureValidWbsDisplaySelection();
@@ -5979,55 +6583,32 @@ export class Visual implements IVisual {
             const noCalculationMode = mode === 'none';
             const longestPathUnavailable = mode === 'longestPath' && !this.isCpmSafe();
 
-            let predecessorTaskSet = new Set<string>();
-            let successorTaskSet = new Set<string>();
+            let traceTaskSet = new Set<string>();
 
             if (noCalculationMode) {
                 this.clearCriticalPathState();
                 if (enableTaskSelection && this.selectedTaskId) {
-                    const traceModeSetting = this.normalizeTraceMode(this.settings.pathSelection.traceMode.value.value);
-                    const effectiveTraceMode = this.normalizeTraceMode(this.traceMode || traceModeSetting);
-                    if (effectiveTraceMode === 'forward') {
-                        successorTaskSet = this.identifySuccessorTasksFloatBased(this.selectedTaskId);
-                    } else {
-                        predecessorTaskSet = this.identifyPredecessorTasksFloatBased(this.selectedTaskId);
-                    }
+                    traceTaskSet = this.identifyTraceTasksFloatBased(this.selectedTaskId, this.getEffectiveTraceMode());
                 }
             } else if (longestPathUnavailable) {
                 this.clearCriticalPathState();
             } else if (enableTaskSelection && this.selectedTaskId) {
-                const traceModeSetting = this.normalizeTraceMode(this.settings.pathSelection.traceMode.value.value);
-                const effectiveTraceMode = this.normalizeTraceMode(this.traceMode || traceModeSetting);
+                const effectiveTraceMode = this.getEffectiveTraceMode();
 
                 if (mode === 'floatBased') {
                     this.applyFloatBasedCriticality();
-
-                    if (effectiveTraceMode === 'forward') {
-                        successorTaskSet = this.identifySuccessorTasksFloatBased(this.selectedTaskId);
-                    } else {
-                        predecessorTaskSet = this.identifyPredecessorTasksFloatBased(this.selectedTaskId);
-                    }
+                    traceTaskSet = this.identifyTraceTasksFloatBased(this.selectedTaskId, effectiveTraceMode);
                 } else {
                     if (this.showAllTasksInternal) {
                         this.debugLog("Longest Path 'Show All' is active: Performing full structural trace.");
-                        if (effectiveTraceMode === 'forward') {
-                            successorTaskSet = this.identifySuccessorTasksFloatBased(this.selectedTaskId);
-                        } else {
-                            predecessorTaskSet = this.identifyPredecessorTasksFloatBased(this.selectedTaskId);
-                        }
-
-                        if (effectiveTraceMode === 'forward') {
-                            this.calculateCPMFromTask(this.selectedTaskId);
-                        } else {
-                            this.calculateCPMToTask(this.selectedTaskId);
-                        }
+                        traceTaskSet = this.identifyTraceTasksFloatBased(this.selectedTaskId, effectiveTraceMode);
+                        this.traceDrivingPathFromSelectedTask(this.selectedTaskId, effectiveTraceMode);
                     } else {
                         this.debugLog("Longest Path 'Show Critical' is active: Tracing driving path.");
-                        if (effectiveTraceMode === 'forward') {
-                            this.calculateCPMFromTask(this.selectedTaskId);
-                        } else {
-                            this.calculateCPMToTask(this.selectedTaskId);
+                        if (effectiveTraceMode === 'between') {
+                            traceTaskSet = this.identifyTraceTasksFloatBased(this.selectedTaskId, effectiveTraceMode);
                         }
+                        this.traceDrivingPathFromSelectedTask(this.selectedTaskId, effectiveTraceMode);
                     }
                 }
             } else {
@@ -6049,10 +6630,7 @@ export class Visual implements IVisual {
             let tasksToConsider: Task[] = [];
 
             if (enableTaskSelection && this.selectedTaskId) {
-                const traceModeSetting = this.normalizeTraceMode(this.settings.pathSelection.traceMode.value.value);
-                const effectiveTraceMode = this.normalizeTraceMode(this.traceMode || traceModeSetting);
-                const relevantTaskSet = effectiveTraceMode === 'forward' ? successorTaskSet : predecessorTaskSet;
-                const relevantPlottableTasks = plottableTasksSorted.filter(task => relevantTaskSet.has(task.internalId));
+                const relevantPlottableTasks = plottableTasksSorted.filter(task => traceTaskSet.has(task.internalId));
 
                 if (noCalculationMode) {
                     tasksToConsider = relevantPlottableTasks.length > 0 ? relevantPlottableTasks : [];
@@ -6098,6 +6676,12 @@ export class Visual implements IVisual {
                 }
             }
 
+            const openEndsFilterActive = this.showOnlyOpenEnds;
+            if (openEndsFilterActive) {
+                const openEndTaskIds = this.getOpenEndTaskIds();
+                tasksToConsider = plottableTasksSorted.filter(task => openEndTaskIds.has(task.internalId));
+            }
+
             if (tasksToConsider === plottableTasksSorted) {
                 tasksToConsider = [...plottableTasksSorted];
             }
@@ -6114,7 +6698,9 @@ export class Visual implements IVisual {
                 this.updateLegendScopeForTasks([], true);
                 this.displayMessage(lookAheadFilterActive
                     ? "No tasks fall within the current look-ahead window."
-                    : "No tasks to display after filtering/limiting.");
+                    : (openEndsFilterActive
+                        ? "No open ends or dangling logic found."
+                        : "No tasks to display after filtering/limiting."));
                 this.renderLegend(viewportWidth);
                 return;
             }
@@ -6135,7 +6721,7 @@ export class Visual implements IVisual {
             let tasksAfterLegendFilter = tasksToPlot;
             if (hasActiveLegendFilter) {
                 tasksAfterLegendFilter = tasksToPlot.filter(task => {
-                    const normalizedLegendValue = normalizeLegendCategory(task.legendValue);
+                    const normalizedLegendValue = normalizeLegendCategory(this.getTaskLegendValue(task));
                     if (normalizedLegendValue) {
                         return this.selectedLegendCategories.has(normalizedLegendValue);
                     }
@@ -6167,11 +6753,7 @@ export class Visual implements IVisual {
             if (wbsGroupingEnabled) {
                 orderedTasks = this.applyWbsOrdering(tasksAfterLegendFilter);
             } else {
-                orderedTasks = [...tasksAfterLegendFilter].sort((a, b) => {
-                    const aStart = this.getTaskBarSortDate(a)?.getTime() ?? 0;
-                    const bStart = this.getTaskBarSortDate(b)?.getTime() ?? 0;
-                    return aStart - bStart;
-                });
+                orderedTasks = this.sortTasksForDisplay(tasksAfterLegendFilter);
             }
 
             // Update allFilteredTasks with the properly ordered tasks
@@ -6266,6 +6848,7 @@ export class Visual implements IVisual {
             this.drawVisualElements(visibleTasks, this.xScale, this.yScale, chartWidth, calculatedChartHeight, this.getEffectiveLeftMargin());
 
             this.renderLegend(viewportWidth);
+            this.renderMilestoneTrendView();
 
             this.updateHeaderElements(viewportWidth);
 
@@ -6525,6 +7108,7 @@ export class Visual implements IVisual {
         const oldMode = this.settings?.criticalPath?.calculationMode?.value?.value ?? 'floatBased';
         const oldLookAheadFilterSignature = this.getLookAheadFilterSignature();
         const oldLookAheadFilterActive = this.shouldFilterToLookAhead();
+        const oldTaskOrder = this.getTaskOrder();
 
         if (options.dataViews?.[0]) {
             // TODO: Re-integrate legend processing via DataProcessor
@@ -6533,6 +7117,13 @@ export class Visual implements IVisual {
 
         this.settings = this.formattingSettingsService.populateFormattingSettingsModel(
             VisualSettings, options.dataViews[0]);
+        this.refreshWorkingCalendars();
+        this.refreshCpmVerification();
+        this.refreshWhatIf();
+        this.refreshRedundantLogic();
+        this.refreshMonteCarlo();
+        this.refreshScheduleAssessment();
+        this.refreshCriticalPathChanges();
         this.reconcilePendingPathSelection();
         this.reconcilePendingWbsDisplaySelection();
 
@@ -6550,6 +7141,11 @@ export class Visual implements IVisual {
             oldMode !== mode;
         const requiresLookAheadFilterRefresh = oldLookAheadFilterSignature !== newLookAheadFilterSignature &&
             (oldLookAheadFilterActive || newLookAheadFilterActive);
+        const requiresFloatPathRefresh = this.getFloatPathSignature() !== this.floatPathSignature ||
+            this.getCriticalChangeLegendSignature() !== this.criticalChangeLegendSignature;
+        const requiresTaskOrderRefresh = oldTaskOrder !== this.getTaskOrder();
+        const requiresRelationshipFloatRefresh = this.dataQuality?.relationshipFloatMethod !== this.getRelationshipFloatMethod();
+        const requiresProcessingRefresh = this.getProcessingSettingsSignature() !== this.processingSettingsSignature;
         const pathInfoVisibilityChanged = oldShowPathInfo !== newShowPathInfo;
 
         if (this.settings?.comparisonBars?.showBaseline !== undefined) {
@@ -6581,8 +7177,8 @@ export class Visual implements IVisual {
         this.applyHighContrastStyling();
 
 
-        if (requiresPathRecalc || requiresLookAheadFilterRefresh) {
-            this.debugLog(`${requiresPathRecalc ? "Path-related" : "Look-ahead filter"} settings changed; scheduling a full refresh.`);
+        if (requiresPathRecalc || requiresLookAheadFilterRefresh || requiresFloatPathRefresh || requiresTaskOrderRefresh || requiresRelationshipFloatRefresh || requiresProcessingRefresh) {
+            this.debugLog(`${requiresPathRecalc || requiresRelationshipFloatRefresh ? "Path-related" : requiresProcessingRefresh ? "Data processing" : requiresFloatPathRefresh ? "Float path" : requiresTaskOrderRefresh ? "Task order" : "Look-ahead filter"} settings changed; scheduling a full refresh.`);
             this.forceFullUpdate = true;
             this.requestUpdate();
             return;
@@ -6597,6 +7193,7 @@ export class Visual implements IVisual {
 
         this.updateHeaderElements(options.viewport.width);
         this.renderLegend(options.viewport.width);
+        this.renderMilestoneTrendView();
 
         this.createpathSelectionDropdown();
 
@@ -6982,6 +7579,7 @@ export class Visual implements IVisual {
             this.drawHorizontalGridLines(this.yScale, chartWidth, effectiveMargin);
         }
 
+        this.drawCurtains(chartWidth, this.xScale, chartHeight, this.gridLayer, this.headerGridLayer);
         this.drawLookAheadWindow(chartWidth, this.xScale, chartHeight, this.gridLayer, this.headerGridLayer);
 
         // Vertical grid lines + x-axis date labels
@@ -7023,6 +7621,8 @@ export class Visual implements IVisual {
             taskNameFontSize, labelColor
         );
 
+        this.drawWhatIfGhosts(renderableTasks, this.xScale, this.yScale, chartWidth, chartHeight, true);
+        this.drawSlipTrails(renderableTasks, this.xScale, this.yScale, chartWidth, chartHeight, true);
         this.drawProgressLine(renderableTasks, this.xScale, this.yScale, chartWidth, chartHeight, true);
 
         // Data date line
@@ -7294,18 +7894,20 @@ export class Visual implements IVisual {
 
         let domainMinDate: Date;
         let domainMaxDate: Date;
+        // Hour-resolution schedules pad by an hour so short outages are not dwarfed by a day of margin.
+        const minimumPaddingMilliseconds = this.isHourResolution() ? 3600000 : 86400000;
 
         if (minTimestamp > maxTimestamp) {
             const midPoint = (minTimestamp + maxTimestamp) / 2;
-            const range = Math.max(86400000 * 7, Math.abs(maxTimestamp - minTimestamp) * 1.1);
+            const range = Math.max(minimumPaddingMilliseconds * 7, Math.abs(maxTimestamp - minTimestamp) * 1.1);
             domainMinDate = new Date(midPoint - range / 2);
             domainMaxDate = new Date(midPoint + range / 2);
         } else if (minTimestamp === maxTimestamp) {
             domainMinDate = new Date(minTimestamp);
-            domainMaxDate = new Date(minTimestamp + 86400000);
+            domainMaxDate = new Date(minTimestamp + minimumPaddingMilliseconds);
         } else {
 
-            const domainPaddingMilliseconds = Math.max((maxTimestamp - minTimestamp) * 0.05, 86400000);
+            const domainPaddingMilliseconds = Math.max((maxTimestamp - minTimestamp) * 0.05, minimumPaddingMilliseconds);
             domainMinDate = new Date(minTimestamp);
             domainMaxDate = new Date(maxTimestamp + domainPaddingMilliseconds);
         }
@@ -7590,6 +8192,7 @@ export class Visual implements IVisual {
                     ? relationship.freeFloat.toLocaleString()
                     : this.getLocalizedString("tooltip.status.unavailable", "Unavailable")
             },
+            ...this.buildDerivedFloatTooltipItems(relationship),
             {
                 displayName: this.getLocalizedString("tooltip.relationshipIsDriving", "Relationship Is Driving"),
                 value: this.getCalculatedStatusText(relationship.isDriving)
@@ -7597,8 +8200,82 @@ export class Visual implements IVisual {
             {
                 displayName: this.getLocalizedString("tooltip.relationshipHasNegativeFloat", "Relationship Has Negative Float"),
                 value: this.getCalculatedStatusText(relationship.hasNegativeFloat)
-            }
+            },
+            ...(relationship.isRedundant ? [{
+                displayName: this.getLocalizedString("tooltip.relationshipRedundant", "Redundant"),
+                value: this.getLocalizedString("tooltip.relationshipRedundantValue", "Implied by other logic")
+            }] : []),
+            ...this.buildInterProjectTooltipItems(relationship, predecessor, successor),
+            ...this.buildDrivingHardConstraintTooltipItems(relationship, predecessor, successor)
+        ];
+    }
+
+    /** Derived float, and its difference from the supplied value when both exist. */
+    private buildDerivedFloatTooltipItems(relationship: Relationship): VisualTooltipDataItem[] {
+        const derivedFloat = relationship.derivedFloat;
+        if (this.getRelationshipFloatMethod() !== "derived" || typeof derivedFloat !== "number" || !isFinite(derivedFloat)) {
+            return [];
+        }
+
+        const items: VisualTooltipDataItem[] = [{
+            displayName: this.getLocalizedString("tooltip.relationshipDerivedFloat", "Derived Relationship Float"),
+            value: derivedFloat.toLocaleString()
+        }];
+        if (typeof relationship.freeFloat === "number" && isFinite(relationship.freeFloat)) {
+            const difference = derivedFloat - relationship.freeFloat;
+            items.push({
+                displayName: this.getLocalizedString("tooltip.relationshipDerivedDifference", "Derived vs Supplied"),
+                value: Math.abs(difference) <= RELATIONSHIP_FLOAT_TOLERANCE
+                    ? this.getLocalizedString("tooltip.relationshipDerivedMatches", "Matches")
+                    : `${difference > 0 ? "+" : ""}${difference.toLocaleString()}`
+            });
+        }
+        return items;
+    }
+
+    private buildInterProjectTooltipItems(
+        relationship: Relationship,
+        predecessor: Task | undefined,
+        successor: Task | undefined
+    ): VisualTooltipDataItem[] {
+        if (relationship.isInterProject !== true || !predecessor?.projectId || !successor?.projectId) {
+            return [];
+        }
+
+        return [{
+            displayName: this.getLocalizedString("tooltip.interProjectLink", "Inter-Project Link"),
+            value: `${predecessor.projectId} \u2192 ${successor.projectId}`
+        }];
+    }
+
+    private buildDrivingHardConstraintTooltipItems(
+        relationship: Relationship,
+        predecessor: Task | undefined,
+        successor: Task | undefined
+    ): VisualTooltipDataItem[] {
+        if (relationship.isDriving !== true) {
+            return [];
+        }
+
+        const endpoints: Array<[Task | undefined, string, string]> = [
+            [predecessor, "tooltip.predecessorHardConstraint", "Predecessor Hard Constraint"],
+            [successor, "tooltip.successorHardConstraint", "Successor Hard Constraint"]
         ];
+        const items: VisualTooltipDataItem[] = [];
+        for (const [task, key, fallback] of endpoints) {
+            const hardConstraint = task ? getTaskConstraints(task).find(constraint => isHardConstraint(constraint.type)) : undefined;
+            if (hardConstraint) {
+                items.push({ displayName: this.getLocalizedString(key, fallback), value: this.formatTaskConstraint(hardConstraint) });
+            }
+        }
+        return items;
+    }
+
+    private formatTaskConstraint(constraint: TaskConstraint): string {
+        const dateText = this.formatDate(constraint.date);
+        return dateText
+            ? `${getConstraintTypeLabel(constraint.type)} ${dateText}`
+            : getConstraintTypeLabel(constraint.type);
     }
 
     private getRelationshipAccessibilityLabel(relationship: Relationship): string {
@@ -7778,6 +8455,9 @@ export class Visual implements IVisual {
 
         const cols = this.settings.columns;
         const clampWidth = (value: number | undefined, fallback: number): number => Math.max(30, value ?? fallback);
+        // Date-time text ("16-Jun-26 14:00") needs a wider column at hour resolution
+        const minimumDateWidth = this.isHourResolution() ? 100 : 30;
+        const clampDateWidth = (value: number | undefined, fallback: number): number => Math.max(minimumDateWidth, value ?? fallback);
         const specs: LabelColumnSpec[] = [];
 
         if (cols.showTotalFloat.value && !this.isNoCalculationMode()) {
@@ -7801,7 +8481,7 @@ export class Visual implements IVisual {
                 id: "finish",
                 text: this.getColumnHeaderText(cols.finishDateHeader.value, "Finish"),
                 headerCandidates: this.getColumnHeaderCandidates(cols.finishDateHeader.value, ["Finish", "Fin"]),
-                width: clampWidth(cols.finishDateWidth.value, 72)
+                width: clampDateWidth(cols.finishDateWidth.value, 72)
             });
         }
         if (this.shouldShowStartDateColumn()) {
@@ -7809,7 +8489,7 @@ export class Visual implements IVisual {
                 id: "start",
                 text: this.getColumnHeaderText(cols.startDateHeader.value, "Start"),
                 headerCandidates: this.getColumnHeaderCandidates(cols.startDateHeader.value, ["Start", "St"]),
-                width: clampWidth(cols.startDateWidth.value, 72)
+                width: clampDateWidth(cols.startDateWidth.value, 72)
             });
         }
         if (this.boundFields.previousUpdateAvailable && (this.showPreviousUpdateInternal || cols.showPreviousUpdateDateColumns?.value)) {
@@ -7817,14 +8497,14 @@ export class Visual implements IVisual {
                 id: "previousFinish",
                 text: this.getColumnHeaderText(cols.previousUpdateFinishDateHeader.value, "Prev Finish"),
                 headerCandidates: this.getColumnHeaderCandidates(cols.previousUpdateFinishDateHeader.value, ["Prev Finish", "Prev Fin", "PF"]),
-                width: clampWidth(cols.previousUpdateFinishDateWidth.value, 72)
+                width: clampDateWidth(cols.previousUpdateFinishDateWidth.value, 72)
             });
             if (this.shouldShowPreviousUpdateStartDateColumn()) {
                 specs.push({
                     id: "previousStart",
                     text: this.getColumnHeaderText(cols.previousUpdateStartDateHeader.value, "Prev Start"),
                     headerCandidates: this.getColumnHeaderCandidates(cols.previousUpdateStartDateHeader.value, ["Prev Start", "Prev St", "PS"]),
-                    width: clampWidth(cols.previousUpdateStartDateWidth.value, 72)
+                    width: clampDateWidth(cols.previousUpdateStartDateWidth.value, 72)
                 });
             }
         }
@@ -7833,17 +8513,79 @@ export class Visual implements IVisual {
                 id: "baselineFinish",
                 text: this.getColumnHeaderText(cols.baselineFinishDateHeader.value, "BL Finish"),
                 headerCandidates: this.getColumnHeaderCandidates(cols.baselineFinishDateHeader.value, ["BL Finish", "BL Fin", "BF"]),
-                width: clampWidth(cols.baselineFinishDateWidth.value, 72)
+                width: clampDateWidth(cols.baselineFinishDateWidth.value, 72)
             });
             if (this.shouldShowBaselineStartDateColumn()) {
                 specs.push({
                     id: "baselineStart",
                     text: this.getColumnHeaderText(cols.baselineStartDateHeader.value, "BL Start"),
                     headerCandidates: this.getColumnHeaderCandidates(cols.baselineStartDateHeader.value, ["BL Start", "BL St", "BS"]),
-                    width: clampWidth(cols.baselineStartDateWidth.value, 72)
+                    width: clampDateWidth(cols.baselineStartDateWidth.value, 72)
                 });
             }
         }
+        if (this.boundFields.percentCompleteAvailable && cols.showPercentComplete?.value) {
+            specs.push({
+                id: "percentComplete",
+                text: this.getColumnHeaderText(cols.percentCompleteHeader.value, "% Comp"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.percentCompleteHeader.value, ["% Comp", "%"]),
+                width: clampWidth(cols.percentCompleteWidth.value, 52)
+            });
+        }
+        if (this.cpmVerification && cols.showCpmCheck?.value) {
+            specs.push({
+                id: "cpmCheck",
+                text: this.getColumnHeaderText(cols.cpmCheckHeader.value, "CPM Check"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.cpmCheckHeader.value, ["CPM Check", "CPM"]),
+                width: clampWidth(cols.cpmCheckWidth.value, 96)
+            });
+        }
+        if (this.monteCarloResult && !this.monteCarloResult.blockedByCycle && cols.showCriticalityIndex?.value) {
+            specs.push({
+                id: "criticalityIndex",
+                text: this.getColumnHeaderText(cols.criticalityIndexHeader.value, "Crit %"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.criticalityIndexHeader.value, ["Crit %", "CI"]),
+                width: clampWidth(cols.criticalityIndexWidth.value, 56)
+            });
+        }
+        if (this.floatPathResult && cols.showFloatPath?.value) {
+            specs.push({
+                id: "floatPath",
+                text: this.getColumnHeaderText(cols.floatPathHeader.value, "Float Path"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.floatPathHeader.value, ["Float Path", "Path", "FP"]),
+                width: clampWidth(cols.floatPathWidth.value, 64)
+            });
+        }
+        if (cols.showLogicLevel?.value) {
+            specs.push({
+                id: "logicLevel",
+                text: this.getColumnHeaderText(cols.logicLevelHeader.value, "Level"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.logicLevelHeader.value, ["Level", "Lvl"]),
+                width: clampWidth(cols.logicLevelWidth.value, 48)
+            });
+        }
+        if (this.boundFields.previousUpdateFloatAvailable && cols.showCriticalChange?.value) {
+            specs.push({
+                id: "criticalChange",
+                text: this.getColumnHeaderText(cols.criticalChangeHeader.value, "CP Change"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.criticalChangeHeader.value, ["CP Change", "CP Chg", "CPC"]),
+                width: clampWidth(cols.criticalChangeWidth.value, 96)
+            });
+        }
+        if (this.boundFields.actualDatesAvailable && cols.showActualDateColumns?.value) {
+            specs.push({
+                id: "actualFinish",
+                text: this.getColumnHeaderText(cols.actualFinishDateHeader.value, "Act Finish"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.actualFinishDateHeader.value, ["Act Finish", "Act Fin", "AF"]),
+                width: clampDateWidth(cols.actualFinishDateWidth.value, 72)
+            });
+            specs.push({
+                id: "actualStart",
+                text: this.getColumnHeaderText(cols.actualStartDateHeader.value, "Act Start"),
+                headerCandidates: this.getColumnHeaderCandidates(cols.actualStartDateHeader.value, ["Act Start", "Act St", "AS"]),
+                width: clampDateWidth(cols.actualStartDateWidth.value, 72)
+            });
+        }
 
         // Extra columns: pushed LAST so they render LEFTMOST in the data-column block
         // (immediately to the right of the task name lane, before all date columns).
@@ -8052,7 +8794,31 @@ export class Visual implements IVisual {
             wbsEnabled: !!this.settings?.wbsGrouping?.enableWbsGrouping?.value,
             lookAheadAvailable: this.dataDate instanceof Date && !isNaN(this.dataDate.getTime()),
             lookAheadWindowDays: this.getEffectiveLookAheadWindowDays(),
-            lookAheadDisplayMode: this.getLookAheadDisplayMode()
+            lookAheadDisplayMode: this.getLookAheadDisplayMode(),
+            scheduleCheckIssueCount: this.cpmVerification ? this.cpmVerification.discrepancyTaskIds.length : null,
+            scheduleRiskStatus: this.getScheduleRiskStatus(),
+            scheduleAssessmentStatus: this.getScheduleAssessmentStatus(),
+            openEndCount: this.getOpenEndTaskIds().size,
+            openEndsFilterActive: this.showOnlyOpenEnds,
+            redundantRelationshipCount: this.getRedundantRelationshipCount(),
+            criticalPathChangeStatus: this.getCriticalPathChangeStatus(),
+            milestoneTrendActive: this.isMilestoneTrendViewActive(),
+            whatIfTaskName: this.selectedTaskId ? (this.selectedTaskName || this.selectedTaskId) : null,
+            whatIfDelayDays: this.whatIfScenario?.delayDays ?? 0,
+            whatIfDurationChangeDays: this.whatIfScenario?.durationChangeDays ?? 0,
+            whatIfFinishShiftDays: this.getWhatIfFinishShiftDays(),
+            pathTargetOptions: this.getPathTargetOptions(),
+            pathTargetTaskId: this.getActivePathTargetTaskId(),
+            comparisonSnapshotOptions: this.getComparisonSnapshotOptions(),
+            comparisonSnapshotKey: this.referenceSnapshot ? getSnapshotKey(this.referenceSnapshot) : PREVIOUS_UPDATE_FIELD_REFERENCE,
+            playbackFrameCount: this.snapshots.length,
+            playbackFrameIndex: this.getPlaybackFrameIndex(),
+            playbackFrameLabel: this.snapshots.length > 0
+                ? this.formatSnapshotLabel(this.getShownSnapshots()[this.getPlaybackFrameIndex()].snapshotDate)
+                : "",
+            playbackPlaying: this.isPlaybackPlaying(),
+            playbackSpeed: this.playbackSpeed,
+            playbackAutoplayAvailable: !this.prefersReducedMotion()
         };
 
         this.header.render(viewportWidth, this.settings, state, this.getResolvedHeaderPalette());
@@ -8491,6 +9257,9 @@ export class Visual implements IVisual {
             this.drawHorizontalGridLines(yScale, chartWidth, currentLeftMargin);
         }
 
+        const nonWorkingRects = this.getNonWorkingTimeRects(renderableTasks, xScale, yScale, chartWidth, chartHeight);
+        this.drawNonWorkingTime(nonWorkingRects, this.gridLayer, !this.useCanvasRendering);
+        this.drawCurtains(chartWidth, xScale, chartHeight, this.gridLayer, this.headerGridLayer, !this.useCanvasRendering);
         this.drawLookAheadWindow(chartWidth, xScale, chartHeight, this.gridLayer, this.headerGridLayer, !this.useCanvasRendering);
 
         // --- 1. Draw Grid Lines ---
@@ -8511,6 +9280,8 @@ export class Visual implements IVisual {
         // --- 4. Draw Tasks ---
         if (this.useCanvasRendering) {
             if (this._setupCanvasForDrawing(chartWidth, chartHeight)) {
+                this.drawNonWorkingTimeCanvas(nonWorkingRects);
+                this.drawCurtainsCanvasBands(xScale, chartWidth, chartHeight);
                 this.drawLookAheadWindowCanvasBand(xScale, chartWidth, chartHeight);
 
                 if (this.showConnectorLinesInternal) {
@@ -8568,6 +9339,8 @@ export class Visual implements IVisual {
             );
         }
 
+        this.drawWhatIfGhosts(renderableTasks, xScale, yScale, chartWidth, chartHeight);
+        this.drawSlipTrails(renderableTasks, xScale, yScale, chartWidth, chartHeight);
         this.drawProgressLine(renderableTasks, xScale, yScale, chartWidth, chartHeight);
 
         // --- 5. Data Date Line ---
@@ -8743,7 +9516,7 @@ export class Visual implements IVisual {
         const settings = this.settings.gridLines;
         if (!settings.showVerticalLines.value) {
             mainGridLayer.selectAll(".vertical-grid-line").remove();
-            headerLayer.selectAll(".vertical-grid-label").remove();
+            headerLayer.selectAll(".vertical-grid-label, .timescale-tier-label").remove();
             return;
         }
 
@@ -8767,15 +9540,21 @@ export class Visual implements IVisual {
         const pixelsPerDay = (range[1] - range[0]) / visibleDaysSpan;
 
         // Determine granularity based on pixel density
-        // Granularity levels: monthly → bi-weekly → weekly → daily
-        type GranularityLevel = 'day' | 'week' | 'biweek' | 'triweek' | 'month';
+        // Granularity levels: monthly → bi-weekly → weekly → daily → shift → hourly (hour resolution only)
+        type GranularityLevel = 'hour' | 'shift' | 'day' | 'week' | 'biweek' | 'triweek' | 'month';
         let granularity: GranularityLevel = 'month';
         let ticks: Date[] = [];
+        const hourResolution = this.isHourResolution();
+        const shiftPattern = this.getShiftPattern();
+        const pixelsPerHour = pixelsPerDay / 24;
+        let hourInterval = 1;
 
         // Estimate label widths for different formats
         const weekLabelWidth = "02-May-26".length * labelFontSizePx * 0.55 + 10; // ~70px for DD-Mon-YY
         const monthLabelWidth = "Sep-26".length * labelFontSizePx * 0.55 + 10; // ~50px for Mon-YY
         const dayLabelWidth = "02-May".length * labelFontSizePx * 0.55 + 10; // ~55px for DD-Mon
+        const hourLabelWidth = "06:00".length * labelFontSizePx * 0.55 + 10; // ~50px for HH:MM
+        const shiftLabelWidth = "S1 06:00".length * labelFontSizePx * 0.55 + 10; // ~70px for shift + start time
 
         // Calculate approximate spacing for each granularity
         const pixelsPerWeek = pixelsPerDay * 7;
@@ -8783,7 +9562,18 @@ export class Visual implements IVisual {
 
         // Choose granularity: prefer finer detail when zoomed in
         // The thresholds determine when we switch between granularity levels
-        if (pixelsPerDay >= dayLabelWidth * 1.2 && visibleDaysSpan <= 45) {
+        if (hourResolution && pixelsPerHour * shiftPattern.lengthHours >= shiftLabelWidth) {
+            // Hour resolution: hourly ticks inside each shift when they fit, otherwise shift boundaries
+            granularity = 'shift';
+            for (const interval of [1, 2, 3, 4, 6]) {
+                if (interval >= shiftPattern.lengthHours) break;
+                if (pixelsPerHour * interval >= hourLabelWidth) {
+                    hourInterval = interval;
+                    granularity = 'hour';
+                    break;
+                }
+            }
+        } else if (pixelsPerDay >= dayLabelWidth * 1.2 && visibleDaysSpan <= 45) {
             // Show days when very zoomed in (less than ~45 days visible and enough space)
             granularity = 'day';
         } else if (pixelsPerWeek >= weekLabelWidth * 1.1 && visibleDaysSpan <= 90) {
@@ -8798,6 +9588,33 @@ export class Visual implements IVisual {
         }
 
         // Generate ticks based on granularity
+        if (granularity === 'hour') {
+            try { ticks = xScale.ticks(d3.timeHour.every(hourInterval)); }
+            catch (e) { ticks = []; }
+            if (ticks.length < 2) granularity = 'shift';
+        }
+
+        if (granularity === 'shift') {
+            ticks = getShiftBoundaries(domain[0], domain[1], shiftPattern);
+            if (ticks.length < 2) granularity = 'day';
+        }
+
+        // Tiered timescales replace the day/week/month ladder; hour and shift tiers keep their own labels
+        const tierCount = this.getTimescaleTierCount();
+        if (tierCount !== null && granularity !== 'hour' && granularity !== 'shift') {
+            this.drawTimescaleTiers(xScale, chartHeight, mainGridLayer, headerLayer, tierCount, {
+                lineColor,
+                lineWidth,
+                lineDashArray,
+                showLabels: showMonthLabels,
+                labelColor,
+                labelFontSize,
+                labelFontSizePx
+            });
+            return;
+        }
+        headerLayer.selectAll(".timescale-tier-label").remove();
+
         if (granularity === 'day') {
             // Daily ticks - try every day, then every 2, 3, 5 days
             const dayIntervals = [1, 2, 3, 5, 7];
@@ -8906,7 +9723,8 @@ export class Visual implements IVisual {
             .attr("y1", 0)
             .attr("y2", this.snapRectCoord(chartHeight))
             .style("stroke", lineColor)
-            .style("stroke-width", lineWidth)
+            // Hourly ticks emphasise shift changes so the shift tier stays readable
+            .style("stroke-width", (d: Date) => granularity === 'hour' && isShiftBoundary(d, shiftPattern) ? lineWidth + 1 : lineWidth)
             .style("stroke-dasharray", lineDashArray);
 
         // Draw labels with two-tier formatting
@@ -8918,6 +9736,9 @@ export class Visual implements IVisual {
             if (granularity === 'month') {
                 try { majorTicks = xScale.ticks(d3.timeYear); } catch (e) { majorTicks = []; }
                 formatMajor = d3.timeFormat("%Y");
+            } else if (granularity === 'hour' || granularity === 'shift') {
+                try { majorTicks = xScale.ticks(d3.timeDay); } catch (e) { majorTicks = []; }
+                formatMajor = d3.timeFormat("%a %d-%b-%y");
             } else {
                 try { majorTicks = xScale.ticks(d3.timeMonth); } catch (e) { majorTicks = []; }
                 formatMajor = d3.timeFormat("%B %Y");
@@ -8957,7 +9778,11 @@ export class Visual implements IVisual {
                 const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
                     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
-                if (granularity === 'day') {
+                if (granularity === 'hour') {
+                    return formatTimeOfDay(d);
+                } else if (granularity === 'shift') {
+                    return `S${getShiftNumber(d, shiftPattern)} ${formatTimeOfDay(d)}`;
+                } else if (granularity === 'day') {
                     return String(d.getDate()).padStart(2, '0');
                 } else if (granularity === 'week' || granularity === 'biweek' || granularity === 'triweek') {
                     return String(d.getDate()).padStart(2, '0');
@@ -8996,9 +9821,129 @@ export class Visual implements IVisual {
         }
     }
 
-    /** Draws task bars, milestones, and associated labels */
-    private drawTasks(
-        tasks: Task[],
+    private getTimescaleTierCount(): 2 | 3 | null {
+        const value = this.settings?.gridLines?.timescaleTiers?.value?.value;
+        return value === "two" ? 2 : value === "three" ? 3 : null;
+    }
+
+    private getTimescaleOptions(): TimescaleOptions {
+        return normalizeTimescaleOptions(
+            this.settings?.gridLines?.fiscalYearStartMonth?.value?.value,
+            this.settings?.gridLines?.weekNumbering?.value?.value
+        );
+    }
+
+    /**
+     * Draws a P6-style tiered timescale. The bottom tier is the finest unit whose cells fit
+     * a label at the current zoom, so zooming (see onZoomChange) re-chooses the tiers.
+     * Grid lines follow the bottom tier and thicken on upper-tier boundaries.
+     */
+    private drawTimescaleTiers(
+        xScale: ScaleTime<number, number>,
+        chartHeight: number,
+        mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
+        headerLayer: Selection<SVGGElement, unknown, null, undefined>,
+        tierCount: 2 | 3,
+        style: {
+            lineColor: string;
+            lineWidth: number;
+            lineDashArray: string;
+            showLabels: boolean;
+            labelColor: string;
+            labelFontSize: number;
+            labelFontSizePx: number;
+        }
+    ): void {
+        const options = this.getTimescaleOptions();
+        const [domainStart, domainEnd] = xScale.domain();
+        const range = xScale.range();
+        const rangeLeft = Math.min(range[0], range[1]);
+        const rangeRight = Math.max(range[0], range[1]);
+        const visibleDays = Math.max(1e-9, (domainEnd.getTime() - domainStart.getTime()) / 86400000);
+        const pixelsPerDay = (rangeRight - rangeLeft) / visibleDays;
+        const characterWidthPx = style.labelFontSizePx * 0.6;
+        const tiers = chooseTimescaleTiers(pixelsPerDay, characterWidthPx, tierCount)
+            .map(unit => ({ unit, cells: buildTimescaleCells(domainStart, domainEnd, unit, options) }));
+
+        const upperBoundaries = new Set<number>();
+        tiers.slice(0, -1).forEach(tier => tier.cells.forEach(cell => upperBoundaries.add(cell.start.getTime())));
+        const ticks = tiers[tiers.length - 1].cells
+            .map(cell => cell.start)
+            .filter(date => date >= domainStart && date <= domainEnd);
+
+        mainGridLayer.selectAll<SVGLineElement, Date>(".vertical-grid-line")
+            .data(ticks, (d: Date) => d.getTime())
+            .join(
+                enter => enter.append("line")
+                    .attr("class", "vertical-grid-line")
+                    .style("pointer-events", "none"),
+                update => update,
+                exit => exit.remove()
+            )
+            .attr("x1", (d: Date) => this.snapLineCoord(xScale(d), style.lineWidth))
+            .attr("x2", (d: Date) => this.snapLineCoord(xScale(d), style.lineWidth))
+            .attr("y1", 0)
+            .attr("y2", this.snapRectCoord(chartHeight))
+            .style("stroke", style.lineColor)
+            .style("stroke-width", (d: Date) => upperBoundaries.has(d.getTime()) ? style.lineWidth + 1 : style.lineWidth)
+            .style("stroke-dasharray", style.lineDashArray);
+
+        headerLayer.selectAll(".major-grid-label, .vertical-grid-label").remove();
+        if (!style.showLabels) {
+            headerLayer.selectAll(".timescale-tier-label").remove();
+            return;
+        }
+
+        const metrics = this.getHeaderBandMetrics();
+        const rowYs = tiers.length === 3
+            ? [0.25, 0.51, 0.77].map(fraction => this.snapTextCoord(metrics.top + metrics.height * fraction))
+            : tiers.length === 2
+                ? [metrics.majorLabelY, metrics.minorLabelY]
+                : [metrics.minorLabelY];
+
+        type TierLabel = { key: string; x: number; y: number; text: string; anchor: "start" | "middle"; isTop: boolean };
+        const labels: TierLabel[] = [];
+        tiers.forEach((tier, tierIndex) => {
+            const isBottom = tierIndex === tiers.length - 1;
+            for (const cell of tier.cells) {
+                const left = Math.max(rangeLeft, xScale(cell.start));
+                const right = Math.min(rangeRight, xScale(cell.end));
+                const text = cell.labels.find(label => label.length * characterWidthPx + 6 <= right - left);
+                if (!text) continue;
+                labels.push({
+                    key: `${tier.unit}:${cell.start.getTime()}`,
+                    // Upper tiers stay pinned to the visible left edge of their cell, as the standard major tier does
+                    x: this.snapTextCoord(isBottom ? left + (right - left) / 2 : left + 3),
+                    y: rowYs[tierIndex],
+                    text,
+                    anchor: isBottom ? "middle" : "start",
+                    isTop: tierIndex === 0
+                });
+            }
+        });
+
+        headerLayer.selectAll<SVGTextElement, TierLabel>(".timescale-tier-label")
+            .data(labels, (d: TierLabel) => d.key)
+            .join(
+                enter => enter.append("text")
+                    .attr("class", "timescale-tier-label")
+                    .style("pointer-events", "none"),
+                update => update,
+                exit => exit.remove()
+            )
+            .attr("x", d => d.x)
+            .attr("y", d => d.y)
+            .attr("text-anchor", d => d.anchor)
+            .style("font-family", this.getFontFamily())
+            .style("font-size", this.fontPxFromPtSetting(style.labelFontSize))
+            .style("font-weight", d => d.isTop ? "bold" : "600")
+            .style("fill", style.labelColor)
+            .text(d => d.text);
+    }
+
+    /** Draws task bars, milestones, and associated labels */
+    private drawTasks(
+        tasks: Task[],
         xScale: ScaleTime<number, number>,
         yScale: ScaleBand<string>,
         taskColor: string,
@@ -9070,6 +10015,26 @@ export class Visual implements IVisual {
         const getTaskFillColor = (d: Task, fallbackColor: string, applyCriticalFormat: boolean = true): string =>
             this.getSemanticTaskFillColor(d, fallbackColor, criticalColor, nearCriticalColor, applyCriticalFormat);
 
+        const constraintGlyphColor = this.resolveColor(this.settings.taskBars.constraintGlyphColor.value.value, "foreground");
+        const appendConstraintGlyphs = (node: SVGGElement, d: Task, startX: number, finishX: number, top: number, height: number): void => {
+            for (const { glyph, isHard } of this.getTaskConstraintGlyphs(d, startX, finishX, top, height)) {
+                const glyphGroup = d3.select(node).append("g")
+                    .attr("class", `constraint-glyph ${isHard ? "hard" : "soft"}`)
+                    .attr("aria-hidden", "true")
+                    .style("pointer-events", "none");
+                glyphGroup.append("path")
+                    .attr("d", glyphPolylinePath(glyph.stem))
+                    .style("fill", "none")
+                    .style("stroke", constraintGlyphColor)
+                    .style("stroke-width", 1.5);
+                glyphGroup.append("path")
+                    .attr("d", glyphPolylinePath(glyph.flag))
+                    .style("fill", isHard ? constraintGlyphColor : "none")
+                    .style("stroke", constraintGlyphColor)
+                    .style("stroke-width", 1);
+            }
+        };
+
         const taskGroupsSelection = this.taskLayer.selectAll<SVGGElement, Task>(".task-group")
             .data(tasks, (d: Task) => d.internalId);
 
@@ -9215,7 +10180,7 @@ export class Visual implements IVisual {
             allTaskGroups.selectAll(".baseline-bar").remove();
         }
 
-        allTaskGroups.selectAll(".task-bar, .milestone, .task-bar-before-data-date, .task-bar-data-date-divider, .critical-status-marker, .critical-status-ring").remove();
+        allTaskGroups.selectAll(".task-bar, .milestone, .task-bar-before-data-date, .task-bar-data-date-divider, .task-bar-percent-complete, .constraint-glyph, .critical-status-marker, .critical-status-ring").remove();
 
         allTaskGroups.filter((d: Task) => !self.isVisualMilestoneTask(d))
             .each(function (d: Task) {
@@ -9231,9 +10196,10 @@ export class Visual implements IVisual {
                     const barRadius = Math.min(taskBarCornerRadius, barWidth / 2, barHeight / 2);
                     const applyCriticalFormat = self.shouldApplyCriticalFormatToSegment(segment);
                     const baseFillColor = getTaskFillColor(d, taskColor, applyCriticalFormat);
+                    const segmentFillColor = segment.kind === "actual" ? self.getActualBarColor() : baseFillColor;
                     const renderStyle = self.getTaskRenderStyle(
                         d,
-                        baseFillColor,
+                        segmentFillColor,
                         barWidth,
                         false,
                         taskBarStrokeColor,
@@ -9278,8 +10244,9 @@ export class Visual implements IVisual {
                         .style("stroke-opacity", renderStyle.strokeOpacity)
                         .style("filter", renderStyle.svgFilter);
 
+                    // Actual segments already represent pre-data-date progress in their own colour.
                     const overlay = self.getBeforeDataDateOverlay(segment.start, segment.finish, startX, finishX, barRadius);
-                    if (overlay) {
+                    if (overlay && segment.kind !== "actual") {
                         const overrideColor = self.settings.dataDateColorOverride.beforeDataDateColor.value.value;
                         const overlayY = barYOffset;
                         const overlayHeight = barHeight;
@@ -9329,6 +10296,30 @@ export class Visual implements IVisual {
                             .style("pointer-events", "none");
                     }
                 }
+
+                const progressBand = self.getPercentCompleteBand(geometry, xScale, barYOffset, barHeight);
+                if (progressBand) {
+                    d3.select(this).append("rect")
+                        .attr("class", "task-bar-percent-complete")
+                        .attr("aria-hidden", "true")
+                        .attr("x", progressBand.x)
+                        .attr("y", progressBand.y)
+                        .attr("width", progressBand.w)
+                        .attr("height", progressBand.h)
+                        .style("fill", self.settings.taskBars.percentCompleteColor.value.value)
+                        .style("pointer-events", "none");
+                }
+
+                if (geometry.extentStart && geometry.extentFinish) {
+                    appendConstraintGlyphs(
+                        this,
+                        d,
+                        self.snapRectCoord(xScale(geometry.extentStart)),
+                        self.snapRectCoord(xScale(geometry.extentFinish)),
+                        barYOffset,
+                        barHeight
+                    );
+                }
             });
 
         allTaskGroups.filter((d: Task) => self.isVisualMilestoneTask(d))
@@ -9337,7 +10328,7 @@ export class Visual implements IVisual {
                 if (mDate instanceof Date && !isNaN(mDate.getTime())) {
                     const milestoneSize = self.getRenderedMilestoneSize(milestoneSizeSetting, taskHeight);
                     const overrideFill = (self.settings.dataDateColorOverride.enableP6Style.value && self.dataDate &&
-                        self.normalizeToStartOfDay(mDate) <= self.normalizeToStartOfDay(self.dataDate))
+                        self.normalizeToTimeResolution(mDate) <= self.normalizeToTimeResolution(self.dataDate))
                         ? self.settings.dataDateColorOverride.beforeDataDateColor.value.value
                         : null;
                     const fillColor = overrideFill ?? getTaskFillColor(d, milestoneColor);
@@ -9418,6 +10409,16 @@ export class Visual implements IVisual {
                             .style("stroke-dasharray", markerStyle.dashed ? markerStyle.dashArray : "none")
                             .style("pointer-events", "none");
                     }
+
+                    const milestoneX = self.snapRectCoord(xScale(mDate));
+                    appendConstraintGlyphs(
+                        this,
+                        d,
+                        milestoneX - milestoneSize / 2,
+                        milestoneX + milestoneSize / 2,
+                        milestoneCenterY - milestoneSize / 2,
+                        milestoneSize
+                    );
                 }
             });
 
@@ -9534,7 +10535,7 @@ export class Visual implements IVisual {
                     const finishX = xScale(segment.finish);
                     if (isNaN(startX) || isNaN(finishX)) return "";
                     const barWidth = finishX - startX;
-                    const textContent = `${Math.round(d.duration || 0)}d`;
+                    const textContent = self.formatTaskDuration(d.duration || 0, "label");
                     const estimatedTextWidth = textContent.length * (durationFontSizePx * 0.6);
                     const minWidth = Math.max(minInlineDurationWidth, estimatedTextWidth + 8);
                     return (barWidth >= minWidth) ? textContent : "";
@@ -9816,8 +10817,13 @@ export class Visual implements IVisual {
                         const date = this.getTaskBarLabelFinish(task);
                         return date ? this.formatColumnDate(date) : "";
                     }
-                    case "duration":
-                        return task.duration !== undefined ? task.duration.toFixed(0) : "";
+                    case "duration": {
+                        const workingDays = this.getTaskWorkingDayDuration(task);
+                        if (workingDays !== null) {
+                            return this.formatTaskDuration(workingDays, "value");
+                        }
+                        return task.duration !== undefined ? this.formatTaskDuration(task.duration, "value") : "";
+                    }
                     case "totalFloat": {
                         const val = task.userProvidedTotalFloat ?? task.totalFloat;
                         return (val !== undefined && isFinite(val)) ? val.toFixed(0) : "-";
@@ -9830,6 +10836,22 @@ export class Visual implements IVisual {
                         return task.baselineFinishDate ? this.formatColumnDate(task.baselineFinishDate) : "";
                     case "baselineStart":
                         return task.baselineStartDate ? this.formatColumnDate(task.baselineStartDate) : "";
+                    case "actualStart":
+                        return task.actualStartDate ? this.formatColumnDate(task.actualStartDate) : "";
+                    case "actualFinish":
+                        return task.actualFinishDate ? this.formatColumnDate(task.actualFinishDate) : "";
+                    case "percentComplete":
+                        return this.formatPercentComplete(task.percentComplete);
+                    case "cpmCheck":
+                        return formatCpmCheckSummary(this.getTaskCpmCheck(task));
+                    case "floatPath":
+                        return String(this.getTaskFloatPathNumber(task) ?? "");
+                    case "criticalityIndex":
+                        return formatCriticalityIndex(this.getTaskCriticalityIndex(task));
+                    case "logicLevel":
+                        return String(this.getTaskLogicLevel(task) ?? "");
+                    case "criticalChange":
+                        return formatCriticalChangeSummary(this.getTaskCriticalChange(task));
                 }
                 return "";
             };
@@ -9856,6 +10878,9 @@ export class Visual implements IVisual {
                                 return this.resolveColor("#4C8C4A", "foreground");
                             }
                         }
+                        if (column.id === "cpmCheck" && (this.getTaskCpmCheck(d)?.discrepancies.length ?? 0) > 0) {
+                            return this.resolveColor(UI_TOKENS.color.warning.pressed, "foreground");
+                        }
                         return labelColor;
                     })
                     .each((d: Task, _i: number, nodes: BaseType[] | ArrayLike<BaseType>) => {
@@ -9993,7 +11018,7 @@ export class Visual implements IVisual {
         const edgePadding = this.HEADER_LINE_LABEL_EDGE_PADDING;
         const gap = this.HEADER_LINE_LABEL_GAP;
         const labelGroups = Array.from(headerLayer.selectAll<SVGGElement, unknown>(
-            ".data-date-label-group, .look-ahead-window-label-group, .progress-line-label-group, .previous-update-end-label-group, .baseline-end-label-group, .project-end-label-group"
+            ".data-date-label-group, .look-ahead-window-label-group, .curtain-label-group, .progress-line-label-group, .previous-update-end-label-group, .baseline-end-label-group, .project-end-label-group"
         ).nodes());
 
         if (labelGroups.length === 0) {
@@ -10386,6 +11411,8 @@ export class Visual implements IVisual {
         const milestoneBatches = new Map<string, MilestoneBatch[]>();
         const statusMarkerBatches = new Map<string, StatusMarkerBatch[]>();
         const milestoneStatusMarkerBatches = new Map<string, MilestoneStatusMarkerBatch[]>();
+        const percentCompleteBatch: RectBatch[] = [];
+        const constraintGlyphBatch: Array<{ glyph: ConstraintGlyph; isHard: boolean }> = [];
 
         for (const task of tasks) {
             const domainKey = task.yOrder?.toString() ?? '';
@@ -10430,7 +11457,7 @@ export class Visual implements IVisual {
                     const milestoneSize = Math.round(this.getRenderedMilestoneSize(milestoneSizeSetting, taskHeight));
                     const semanticFill = this.getSemanticTaskFillColor(task, milestoneColor, criticalColor, nearCriticalColor);
                     const fillColor = (this.settings.dataDateColorOverride.enableP6Style.value && this.dataDate &&
-                        this.normalizeToStartOfDay(mDate) <= this.normalizeToStartOfDay(this.dataDate))
+                        this.normalizeToTimeResolution(mDate) <= this.normalizeToTimeResolution(this.dataDate))
                         ? this.settings.dataDateColorOverride.beforeDataDateColor.value.value
                         : semanticFill;
                     const renderStyle = this.getTaskRenderStyle(
@@ -10460,6 +11487,14 @@ export class Visual implements IVisual {
                             size: milestoneSize + markerStyle.thickness
                         });
                     }
+
+                    constraintGlyphBatch.push(...this.getTaskConstraintGlyphs(
+                        task,
+                        x - milestoneSize / 2,
+                        x + milestoneSize / 2,
+                        y - milestoneSize / 2,
+                        milestoneSize
+                    ));
                 }
             } else {
                 const geometry = this.getTaskBarGeometry(task);
@@ -10473,9 +11508,10 @@ export class Visual implements IVisual {
                     const r = Math.min(taskBarCornerRadius, w / 2, h / 2);
                     const applyCriticalFormat = this.shouldApplyCriticalFormatToSegment(segment);
                     const semanticFill = this.getSemanticTaskFillColor(task, taskColor, criticalColor, nearCriticalColor, applyCriticalFormat);
+                    const segmentFill = segment.kind === "actual" ? this.getActualBarColor() : semanticFill;
                     const renderStyle = this.getTaskRenderStyle(
                         task,
-                        semanticFill,
+                        segmentFill,
                         w,
                         false,
                         taskBarStrokeColor,
@@ -10484,13 +11520,13 @@ export class Visual implements IVisual {
                         nearCriticalColor,
                         applyCriticalFormat
                     );
-                    const styleKey = `${semanticFill}|${renderStyle.strokeColor}|${renderStyle.strokeWidth}|${renderStyle.strokeOpacity}|${renderStyle.shadowBlur}|${renderStyle.shadowColor}|${renderStyle.shadowOffsetY}`;
+                    const styleKey = `${segmentFill}|${renderStyle.strokeColor}|${renderStyle.strokeWidth}|${renderStyle.strokeOpacity}|${renderStyle.shadowBlur}|${renderStyle.shadowColor}|${renderStyle.shadowOffsetY}`;
 
                     if (!taskBatches.has(styleKey)) taskBatches.set(styleKey, []);
                     taskBatches.get(styleKey)!.push({ x, y, w, h, r });
 
                     const overlay = this.getBeforeDataDateOverlay(segment.start, segment.finish, startX, finishX, r);
-                    if (overlay) {
+                    if (overlay && segment.kind !== "actual") {
                         const overrideColor = this.settings.dataDateColorOverride.beforeDataDateColor.value.value;
                         const overlayStyleKey = `${overrideColor}`;
                         if (!beforeDataDateBatches.has(overlayStyleKey)) beforeDataDateBatches.set(overlayStyleKey, []);
@@ -10530,6 +11566,21 @@ export class Visual implements IVisual {
                         });
                     }
                 }
+
+                const progressBand = this.getPercentCompleteBand(geometry, xScale, yPos + barYOffset, barHeight);
+                if (progressBand) {
+                    percentCompleteBatch.push({ ...progressBand, r: 0 });
+                }
+
+                if (geometry.extentStart && geometry.extentFinish) {
+                    constraintGlyphBatch.push(...this.getTaskConstraintGlyphs(
+                        task,
+                        this.snapRectCoord(xScale(geometry.extentStart)),
+                        this.snapRectCoord(xScale(geometry.extentFinish)),
+                        this.snapRectCoord(yPos + barYOffset),
+                        barHeight
+                    ));
+                }
             }
         } // Close for loop
 
@@ -10629,6 +11680,15 @@ export class Visual implements IVisual {
             ctx.stroke();
         });
 
+        if (percentCompleteBatch.length > 0) {
+            ctx.fillStyle = this.settings.taskBars.percentCompleteColor.value.value;
+            ctx.beginPath();
+            for (const b of percentCompleteBatch) {
+                ctx.rect(b.x, b.y, b.w, b.h);
+            }
+            ctx.fill();
+        }
+
         statusMarkerBatches.forEach((batch, markerKey) => {
             const [stroke, widthStr, dashStyle] = markerKey.split('|');
             const markerWidth = parseFloat(widthStr);
@@ -10743,6 +11803,31 @@ export class Visual implements IVisual {
             ctx.restore();
         });
 
+        if (constraintGlyphBatch.length > 0) {
+            const glyphColor = this.resolveColor(this.settings.taskBars.constraintGlyphColor.value.value, "foreground");
+            const tracePolyline = (points: readonly { x: number; y: number }[], closed?: boolean) => {
+                points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+                if (closed) ctx.closePath();
+            };
+
+            ctx.save();
+            ctx.strokeStyle = glyphColor;
+            ctx.fillStyle = glyphColor;
+            for (const { glyph, isHard } of constraintGlyphBatch) {
+                ctx.lineWidth = 1.5;
+                ctx.beginPath();
+                tracePolyline(glyph.stem.points);
+                ctx.stroke();
+
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                tracePolyline(glyph.flag.points, glyph.flag.closed);
+                if (isHard) ctx.fill();
+                ctx.stroke();
+            }
+            ctx.restore();
+        }
+
         // Draw duration text on task bars (matching SVG)
         if (showDuration) {
             const durationFontSize = Math.max(7, generalFontSize * 0.8);
@@ -10767,7 +11852,7 @@ export class Visual implements IVisual {
                 if (isNaN(startX) || isNaN(finishX)) continue;
 
                 const barWidth = finishX - startX;
-                const textContent = `${Math.round(task.duration)}d`;
+                const textContent = this.formatTaskDuration(task.duration, "label");
                 const estimatedTextWidth = textContent.length * (durationFontSizePx * 0.6);
                 const minWidth = Math.max(minInlineDurationWidth, estimatedTextWidth + 8);
                 if (barWidth < minWidth) continue;
@@ -11104,7 +12189,9 @@ export class Visual implements IVisual {
                 ctx.lineJoin = 'miter';
 
                 // Phase 2: Set dash pattern for non-driving lines
-                if (isNegativeNonDriving) {
+                if (this.isDimmedRedundantRelationship(rel)) {
+                    ctx.setLineDash([2, 3]);
+                } else if (isNegativeNonDriving) {
                     ctx.setLineDash([3, 3]);
                 } else if (differentiateDrivers && !isDriving) {
                     switch (nonDrivingLineStyle) {
@@ -11214,12 +12301,13 @@ export class Visual implements IVisual {
         });
 
         const visibleTaskIds = new Set(taskPositions.keys());
+        const hideRedundant = this.getRedundantConnectorStyle() === "hide";
         const visibleRelationships: Relationship[] = [];
         for (const predecessorId of visibleTaskIds) {
             const relationships = this.relationshipByPredecessor.get(predecessorId);
             if (!relationships) continue;
             for (const rel of relationships) {
-                if (visibleTaskIds.has(rel.successorId)) {
+                if (visibleTaskIds.has(rel.successorId) && !(hideRedundant && rel.isRedundant)) {
                     visibleRelationships.push(rel);
                 }
             }
@@ -11323,6 +12411,7 @@ export class Visual implements IVisual {
         // Helper to get dash array for SVG
         const getDashArray = (rel: Relationship): string => {
             const isDriving = rel.isDriving === true;
+            if (this.isDimmedRedundantRelationship(rel)) return '2,3';
             if (isNegativeNonDriving(rel)) return '3,3';
             if (!differentiateDrivers || isDriving) return 'none';
             switch (nonDrivingLineStyle) {
@@ -11983,6 +13072,355 @@ export class Visual implements IVisual {
         ].join(" ");
     }
 
+    private getWhatIfGhosts(
+        tasksToShow: Task[],
+        xScale: ScaleTime<number, number>,
+        yScale: ScaleBand<string>,
+        taskHeight: number,
+        milestoneSize: number
+    ): WhatIfGhost[] {
+        const taskBarHeight = this.settings.taskBars.taskBarHeight.value;
+        const barHeight = Math.max(1, this.snapRectCoord(Math.min(taskBarHeight, taskHeight)));
+        const barYOffset = this.snapRectCoord((taskHeight - barHeight) / 2);
+        const showFinishMovement = this.settings.whatIf?.showFinishMovement?.value ?? true;
+        const ghosts: WhatIfGhost[] = [];
+
+        for (const task of tasksToShow) {
+            const impact = this.getWhatIfImpact(task);
+            const bandStart = task.yOrder !== undefined ? yScale(task.yOrder.toString()) : undefined;
+            if (!impact || bandStart === undefined) {
+                continue;
+            }
+
+            const shiftDate = (date: Date | null, days: number): Date | null =>
+                date ? new Date(date.getTime() + days * 86400000) : null;
+            const y = bandStart + barYOffset;
+            const centerY = this.snapRectCoord(y + barHeight / 2);
+            if (this.isVisualMilestoneTask(task)) {
+                const milestoneDate = shiftDate(this.getVisualMilestoneDate(task), impact.finishShiftDays);
+                if (!milestoneDate) {
+                    continue;
+                }
+                ghosts.push({
+                    task,
+                    impact,
+                    isMilestone: true,
+                    x: xScale(milestoneDate),
+                    width: milestoneSize,
+                    y,
+                    centerY,
+                    label: showFinishMovement ? formatWhatIfShift(impact.finishShiftDays) : null
+                });
+                continue;
+            }
+
+            const start = shiftDate(this.getTaskBarLabelStart(task), impact.startShiftDays);
+            const finish = shiftDate(this.getTaskBarLabelFinish(task), impact.finishShiftDays);
+            if (!start || !finish) {
+                continue;
+            }
+            const x = this.snapRectCoord(xScale(start));
+            ghosts.push({
+                task,
+                impact,
+                isMilestone: false,
+                x,
+                width: Math.max(1, this.snapRectCoord(xScale(finish)) - x),
+                y: this.snapRectCoord(y),
+                centerY,
+                label: null
+            });
+        }
+        return ghosts;
+    }
+
+    /**
+     * Dashed ghost bars at the simulated dates of tasks moved by the what-if scenario,
+     * drawn over the rows so the real bars stay visible beside them.
+     */
+    private drawWhatIfGhosts(
+        tasksToShow: Task[],
+        xScale: ScaleTime<number, number>,
+        yScale: ScaleBand<string>,
+        chartWidth: number,
+        chartHeight: number,
+        forceSvg: boolean = false
+    ): void {
+        this.taskLayer?.selectAll(".what-if-ghost-group").remove();
+        if (!this.whatIfResult || this.whatIfResult.impacts.size === 0) {
+            return;
+        }
+
+        const taskHeight = this.settings.taskBars.taskHeight.value;
+        const taskBarHeight = this.settings.taskBars.taskBarHeight.value;
+        const barHeight = Math.max(1, this.snapRectCoord(Math.min(taskBarHeight, taskHeight)));
+        const milestoneSize = this.getRenderedMilestoneSize(this.settings.taskBars.milestoneSize.value, taskHeight);
+        const ghosts = this.getWhatIfGhosts(tasksToShow, xScale, yScale, taskHeight, milestoneSize);
+        if (ghosts.length === 0) {
+            return;
+        }
+
+        const settings = this.settings.whatIf;
+        const color = this.resolveColor(settings?.ghostColor?.value?.value ?? "#8764B8", "foreground");
+        const fillOpacity = this.highContrastMode
+            ? 0
+            : Math.max(0, Math.min(1, 1 - ((settings?.ghostTransparency?.value ?? 75) / 100)));
+        const milestoneShape = (this.settings.taskBars.milestoneShape.value?.value ?? "diamond") as string;
+        const radius = Math.min(this.settings.taskBars.taskBarCornerRadius.value, barHeight / 2);
+        const labelFontSize = Math.max(7, this.settings.textAndLabels.fontSize.value * 0.72);
+        const haloColor = this.highContrastMode ? this.highContrastBackground : "#FFFFFF";
+        const labelColor = this.highContrastMode ? this.highContrastForeground : color;
+
+        if (this.useCanvasRendering && !forceSvg) {
+            if (!this.canvasContext) {
+                return;
+            }
+
+            const ctx = this.canvasContext;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(0, 0, Math.max(0, chartWidth), Math.max(0, chartHeight));
+            ctx.clip();
+            ctx.strokeStyle = color;
+            ctx.fillStyle = color;
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([4, 3]);
+            for (const ghost of ghosts) {
+                ctx.beginPath();
+                if (ghost.isMilestone) {
+                    const half = ghost.width / 2;
+                    switch (milestoneShape) {
+                        case "circle":
+                            ctx.arc(ghost.x, ghost.centerY, half, 0, Math.PI * 2);
+                            break;
+                        case "square":
+                            ctx.rect(ghost.x - half, ghost.centerY - half, ghost.width, ghost.width);
+                            break;
+                        case "diamond":
+                        default:
+                            ctx.moveTo(ghost.x, ghost.centerY - half);
+                            ctx.lineTo(ghost.x + half, ghost.centerY);
+                            ctx.lineTo(ghost.x, ghost.centerY + half);
+                            ctx.lineTo(ghost.x - half, ghost.centerY);
+                            ctx.closePath();
+                            break;
+                    }
+                } else if (typeof ctx.roundRect === "function" && radius > 0) {
+                    ctx.roundRect(ghost.x, ghost.y, ghost.width, barHeight, radius);
+                } else {
+                    ctx.rect(ghost.x, ghost.y, ghost.width, barHeight);
+                }
+                ctx.globalAlpha = fillOpacity;
+                ctx.fill();
+                ctx.globalAlpha = 1;
+                ctx.stroke();
+            }
+
+            ctx.setLineDash([]);
+            const canvasFontSize = Math.max(9, Math.round(this.pointsToCssPx(labelFontSize)));
+            ctx.font = `700 ${canvasFontSize}px ${this.getFontFamily()}`;
+            ctx.textBaseline = "middle";
+            ctx.lineJoin = "round";
+            for (const ghost of ghosts) {
+                if (!ghost.label) {
+                    continue;
+                }
+                const x = this.snapCanvasTextX(ghost.x + ghost.width / 2 + 4);
+                const y = this.snapCanvasTextY(ghost.centerY);
+                if (!this.highContrastMode) {
+                    ctx.strokeStyle = haloColor;
+                    ctx.lineWidth = 3;
+                    ctx.strokeText(ghost.label, x, y);
+                }
+                ctx.fillStyle = labelColor;
+                ctx.fillText(ghost.label, x, y);
+            }
+            ctx.restore();
+            return;
+        }
+
+        if (!this.taskLayer) {
+            return;
+        }
+
+        const getMilestonePath = (size: number): string => {
+            const half = size / 2;
+            switch (milestoneShape) {
+                case "circle":
+                    return `M ${half},0 A ${half},${half} 0 1,1 -${half},0 A ${half},${half} 0 1,1 ${half},0`;
+                case "square":
+                    return `M -${half},-${half} L ${half},-${half} L ${half},${half} L -${half},${half} Z`;
+                case "diamond":
+                default:
+                    return `M 0,-${half} L ${half},0 L 0,${half} L -${half},0 Z`;
+            }
+        };
+
+        const ghostGroup = this.taskLayer.append("g")
+            .attr("class", "what-if-ghost-group")
+            .style("pointer-events", "none");
+
+        ghostGroup.selectAll<SVGRectElement, WhatIfGhost>(".what-if-ghost-bar")
+            .data(ghosts.filter(ghost => !ghost.isMilestone), ghost => ghost.task.internalId)
+            .join("rect")
+            .attr("class", "what-if-ghost-bar")
+            .attr("x", ghost => ghost.x)
+            .attr("y", ghost => ghost.y)
+            .attr("width", ghost => ghost.width)
+            .attr("height", barHeight)
+            .attr("rx", radius)
+            .attr("ry", radius)
+            .style("fill", color)
+            .style("fill-opacity", fillOpacity)
+            .style("stroke", color)
+            .style("stroke-width", 1.5)
+            .style("stroke-dasharray", "4,3");
+
+        ghostGroup.selectAll<SVGPathElement, WhatIfGhost>(".what-if-ghost-milestone")
+            .data(ghosts.filter(ghost => ghost.isMilestone), ghost => ghost.task.internalId)
+            .join("path")
+            .attr("class", "what-if-ghost-milestone")
+            .attr("d", ghost => getMilestonePath(ghost.width))
+            .attr("transform", ghost => `translate(${ghost.x}, ${ghost.centerY})`)
+            .style("fill", color)
+            .style("fill-opacity", fillOpacity)
+            .style("stroke", color)
+            .style("stroke-width", 1.5)
+            .style("stroke-dasharray", "3,2");
+
+        ghostGroup.selectAll<SVGTextElement, WhatIfGhost>(".what-if-ghost-label")
+            .data(ghosts.filter(ghost => ghost.label !== null), ghost => ghost.task.internalId)
+            .join("text")
+            .attr("class", "what-if-ghost-label")
+            .attr("x", ghost => this.snapTextCoord(ghost.x + ghost.width / 2 + 4))
+            .attr("y", ghost => this.snapTextCoord(ghost.centerY))
+            .attr("text-anchor", "start")
+            .attr("dominant-baseline", "central")
+            .style("font-family", this.getFontFamily())
+            .style("font-size", this.fontPxFromPtSetting(labelFontSize))
+            .style("font-weight", "700")
+            .style("fill", labelColor)
+            .style("stroke", haloColor)
+            .style("stroke-width", this.highContrastMode ? "0" : "3px")
+            .style("paint-order", "stroke")
+            .text(ghost => ghost.label ?? "");
+    }
+
+    /**
+     * Slip trails: a marker at each earlier finish from the Snapshot Date history, joined
+     * to the current finish by a dotted line along the bar's centre.
+     */
+    private drawSlipTrails(
+        tasksToShow: Task[],
+        xScale: ScaleTime<number, number>,
+        yScale: ScaleBand<string>,
+        chartWidth: number,
+        chartHeight: number,
+        forceSvg: boolean = false
+    ): void {
+        this.taskLayer?.selectAll(".slip-trail-group").remove();
+        if (this.getShownSnapshots().length < 2 || !(this.settings.scheduleHistory?.showSlipTrail?.value ?? true)) {
+            return;
+        }
+
+        const taskHeight = this.settings.taskBars.taskHeight.value;
+        const barHeight = Math.max(1, this.snapRectCoord(Math.min(this.settings.taskBars.taskBarHeight.value, taskHeight)));
+        const markerRadius = Math.max(2, Math.min(4, barHeight / 3));
+        const trails: Array<{ task: Task; centerY: number; currentX: number; markers: Array<{ x: number; marker: SlipTrailMarker }> }> = [];
+        for (const task of tasksToShow) {
+            const bandStart = task.yOrder !== undefined ? yScale(task.yOrder.toString()) : undefined;
+            const currentFinish = this.isVisualMilestoneTask(task)
+                ? this.getVisualMilestoneDate(task)
+                : this.getTaskBarLabelFinish(task);
+            if (bandStart === undefined || !currentFinish) {
+                continue;
+            }
+            const markers = this.getTaskSlipTrail(task);
+            if (markers.length === 0) {
+                continue;
+            }
+            trails.push({
+                task,
+                centerY: this.snapRectCoord(bandStart + taskHeight / 2),
+                currentX: xScale(currentFinish),
+                markers: markers.map(marker => ({ x: xScale(marker.finishDate), marker }))
+            });
+        }
+        if (trails.length === 0) {
+            return;
+        }
+
+        const color = this.resolveColor(this.settings.scheduleHistory?.slipTrailColor?.value?.value ?? "#C239B3", "foreground");
+        const haloColor = this.highContrastMode ? this.highContrastBackground : "#FFFFFF";
+
+        if (this.useCanvasRendering && !forceSvg) {
+            if (!this.canvasContext) {
+                return;
+            }
+
+            const ctx = this.canvasContext;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(0, 0, Math.max(0, chartWidth), Math.max(0, chartHeight));
+            ctx.clip();
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1;
+            ctx.setLineDash([2, 2]);
+            ctx.beginPath();
+            for (const trail of trails) {
+                const xs = [trail.currentX, ...trail.markers.map(entry => entry.x)];
+                ctx.moveTo(Math.min(...xs), trail.centerY);
+                ctx.lineTo(Math.max(...xs), trail.centerY);
+            }
+            ctx.stroke();
+            ctx.setLineDash([]);
+            ctx.fillStyle = color;
+            ctx.strokeStyle = haloColor;
+            for (const trail of trails) {
+                for (const entry of trail.markers) {
+                    ctx.beginPath();
+                    ctx.arc(entry.x, trail.centerY, markerRadius, 0, Math.PI * 2);
+                    ctx.fill();
+                    ctx.stroke();
+                }
+            }
+            ctx.restore();
+            return;
+        }
+
+        if (!this.taskLayer) {
+            return;
+        }
+
+        const trailGroup = this.taskLayer.append("g")
+            .attr("class", "slip-trail-group");
+        for (const trail of trails) {
+            const xs = [trail.currentX, ...trail.markers.map(entry => entry.x)];
+            trailGroup.append("line")
+                .attr("class", "slip-trail-line")
+                .attr("x1", Math.min(...xs))
+                .attr("x2", Math.max(...xs))
+                .attr("y1", trail.centerY)
+                .attr("y2", trail.centerY)
+                .style("stroke", color)
+                .style("stroke-width", 1)
+                .style("stroke-dasharray", "2,2")
+                .style("pointer-events", "none");
+            for (const entry of trail.markers) {
+                trailGroup.append("circle")
+                    .attr("class", "slip-trail-marker")
+                    .attr("cx", entry.x)
+                    .attr("cy", trail.centerY)
+                    .attr("r", markerRadius)
+                    .style("fill", color)
+                    .style("stroke", haloColor)
+                    .style("stroke-width", 1)
+                    .append("title")
+                    .text(`${trail.task.name || trail.task.id}: finish ${this.formatSlipTrailMarker(entry.marker)}`);
+            }
+        }
+    }
+
     private drawProgressLine(
         tasksToShow: Task[],
         xScale: ScaleTime<number, number>,
@@ -12808,18 +14246,303 @@ export class Visual implements IVisual {
         this.pendingComparisonFinishSummaryEntries = [];
     }
 
-    private drawLookAheadWindow(
+    private getCurtainRenderState(): { curtains: Curtain[]; legend: CurtainLegendEntry[]; opacity: number } | null {
+        const settings = this.settings?.curtains;
+        if (!settings || !(settings.show?.value ?? true) || this.curtains.length === 0) {
+            return null;
+        }
+
+        const defaultColor = settings.defaultColor?.value?.value ?? "#F4B183";
+        const legend = buildCurtainLegend(this.curtains, [defaultColor, ...CURTAIN_PALETTE.slice(1)]);
+        const opacity = Math.max(0, Math.min(1, 1 - ((settings.transparency?.value ?? 65) / 100)));
+        return { curtains: this.curtains, legend, opacity };
+    }
+
+    /** Clipped x-extent of a curtain, or null when it is off screen or too narrow to shade. */
+    private getCurtainBandExtent(
+        curtain: Curtain,
+        xScale: ScaleTime<number, number>,
+        chartWidth: number
+    ): { x: number; width: number } | null {
+        const rawStartX = xScale(curtain.start);
+        const rawEndX = xScale(curtain.finish);
+        if (!isFinite(rawStartX) || !isFinite(rawEndX)) { return null; }
+
+        const startX = Math.max(0, Math.min(chartWidth, rawStartX));
+        const endX = Math.max(0, Math.min(chartWidth, rawEndX));
+        const width = Math.abs(endX - startX);
+        return width > 0.5 ? { x: Math.min(startX, endX), width } : null;
+    }
+
+    /**
+     * Draws curtain bands behind the bars, following drawLookAheadWindow. Header chips name
+     * each curtain and carry its tooltip; the header key lists the curtain categories.
+     */
+    private drawCurtains(
         chartWidth: number,
         xScale: ScaleTime<number, number>,
         chartHeight: number,
         mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
         headerLayer: Selection<SVGGElement, unknown, null, undefined>,
-        includeBand: boolean = true
+        includeBands: boolean = true
     ): void {
         if (!mainGridLayer?.node() || !headerLayer?.node() || !xScale) { return; }
 
-        mainGridLayer.selectAll(".look-ahead-window-band, .look-ahead-window-end-line").remove();
-        headerLayer.selectAll(".look-ahead-window-label-group").remove();
+        mainGridLayer.selectAll(".curtain-band").remove();
+        headerLayer.selectAll(".curtain-label-group, .curtain-legend-group").remove();
+
+        const state = this.getCurtainRenderState();
+        if (!state) { return; }
+
+        const effectiveHeight = chartHeight > 0 ? chartHeight : (this.mainSvg ? (parseFloat(this.mainSvg.attr("height")) || 0) : 0);
+        const visibleCurtains: Array<{ curtain: Curtain; extent: { x: number; width: number }; color: string }> = [];
+        for (const curtain of state.curtains) {
+            const extent = this.getCurtainBandExtent(curtain, xScale, chartWidth);
+            if (extent) {
+                visibleCurtains.push({ curtain, extent, color: this.resolveColor(getCurtainColor(curtain, state.legend), "foreground") });
+            }
+        }
+
+        if (includeBands && state.opacity > 0) {
+            for (const { extent, color } of visibleCurtains) {
+                mainGridLayer.append("rect")
+                    .attr("class", "curtain-band")
+                    .attr("x", this.snapRectCoord(extent.x))
+                    .attr("y", 0)
+                    .attr("width", this.snapRectCoord(extent.width))
+                    .attr("height", this.snapRectCoord(effectiveHeight))
+                    .attr("clip-path", this.getScopedUrlRef("chart-area-clip"))
+                    .style("fill", color)
+                    .style("fill-opacity", state.opacity)
+                    .style("pointer-events", "none");
+            }
+        }
+
+        const settings = this.settings.curtains;
+        if (settings.showLabels?.value ?? true) {
+            const labelY = this.getHeaderBandMetrics().topLabelY;
+            const labelBackgroundColor = this.resolveColor("#FFFFFF", "background");
+            const textColor = this.highContrastMode ? this.highContrastForeground : this.getHeaderLegendTextColor();
+            for (const { curtain, extent, color } of visibleCurtains) {
+                const labelGroup = headerLayer.append("g")
+                    .attr("class", "curtain-label-group")
+                    .attr("data-label-priority", "16")
+                    .style("cursor", "help")
+                    .on("mousemove", (event: MouseEvent) => this.showCurtainTooltip(curtain, event))
+                    .on("mouseout", () => this.hideTooltip());
+
+                const textElement = labelGroup.append("text")
+                    .attr("class", "curtain-label")
+                    .attr("x", this.snapTextCoord(extent.x + 5))
+                    .attr("y", this.snapTextCoord(labelY))
+                    .attr("text-anchor", "start")
+                    .attr("dominant-baseline", "central")
+                    .style("font-family", this.getFontFamily())
+                    .style("fill", textColor)
+                    .style("font-size", this.fontPxFromPtSetting(Math.max(8, this.settings.textAndLabels.fontSize.value * 0.8)))
+                    .style("font-weight", "600")
+                    .text(curtain.label);
+
+                const bbox = (textElement.node() as SVGTextElement)?.getBBox();
+                if (bbox) {
+                    const chipHeight = Math.max(
+                        this.HEADER_LINE_LABEL_MIN_HEIGHT,
+                        this.snapRectCoord(bbox.height + this.HEADER_LINE_LABEL_PADDING_Y * 2)
+                    );
+                    labelGroup.insert("rect", ".curtain-label")
+                        .attr("x", this.snapRectCoord(bbox.x - this.HEADER_LINE_LABEL_PADDING_X))
+                        .attr("y", this.snapRectCoord(labelY - chipHeight / 2))
+                        .attr("width", Math.max(1, this.snapRectCoord(bbox.width + this.HEADER_LINE_LABEL_PADDING_X * 2)))
+                        .attr("height", chipHeight)
+                        .attr("rx", 4)
+                        .attr("ry", 4)
+                        .style("fill", labelBackgroundColor)
+                        .style("fill-opacity", 0.86)
+                        .style("stroke", color)
+                        .style("stroke-width", "1.5");
+                }
+            }
+        }
+
+        if (settings.showLegend?.value ?? true) {
+            this.drawCurtainLegend(headerLayer, state.legend, chartWidth);
+        }
+    }
+
+    private drawCurtainLegend(
+        headerLayer: Selection<SVGGElement, unknown, null, undefined>,
+        legend: CurtainLegendEntry[],
+        chartWidth: number
+    ): void {
+        if (legend.length === 0 || chartWidth < 200) {
+            return;
+        }
+
+        const textColor = this.highContrastMode ? this.highContrastForeground : this.getHeaderLegendTextColor();
+        const backgroundColor = this.highContrastMode ? this.highContrastBackground : "#FFFFFF";
+        const borderColor = this.highContrastMode ? this.highContrastForeground : this.getHeaderLegendBorderColor();
+        const fontSize = this.fontPxFromPtSetting(Math.max(8, this.settings.textAndLabels.fontSize.value * 0.74));
+        const group = headerLayer.append("g")
+            .attr("class", "curtain-legend-group")
+            .style("pointer-events", "none");
+
+        let cursorX = 0;
+        const addText = (text: string, weight: string) => {
+            const textElement = group.append("text")
+                .attr("x", this.snapTextCoord(cursorX))
+                .attr("y", 0)
+                .attr("dominant-baseline", "central")
+                .style("font-family", this.getFontFamily())
+                .style("font-size", fontSize)
+                .style("font-weight", weight)
+                .style("fill", textColor)
+                .text(text);
+            const width = (textElement.node() as SVGTextElement)?.getBBox().width ?? text.length * 6;
+            cursorX += width + 8;
+        };
+
+        addText("Curtains:", "700");
+        for (const entry of legend) {
+            group.append("rect")
+                .attr("x", this.snapRectCoord(cursorX))
+                .attr("y", -4)
+                .attr("width", 8)
+                .attr("height", 8)
+                .attr("rx", 2)
+                .attr("ry", 2)
+                .style("fill", this.highContrastMode ? this.highContrastForeground : this.resolveColor(entry.color, "foreground"))
+                .style("stroke", borderColor)
+                .style("stroke-width", "1");
+            cursorX += 12;
+            addText(`${entry.category} ${entry.count}`, "600");
+        }
+
+        const bbox = (group.node() as SVGGElement)?.getBBox();
+        if (!bbox) {
+            return;
+        }
+
+        const paddingX = 6;
+        const paddingY = 3;
+        group.attr("transform", `translate(${this.snapRectCoord(paddingX + 4)},${this.snapTextCoord(this.getHeaderBandMetrics().bottomLabelY)})`);
+        group.insert("rect", ":first-child")
+            .attr("x", this.snapRectCoord(bbox.x - paddingX))
+            .attr("y", this.snapRectCoord(bbox.y - paddingY))
+            .attr("width", Math.max(1, this.snapRectCoord(bbox.width + paddingX * 2)))
+            .attr("height", Math.max(1, this.snapRectCoord(bbox.height + paddingY * 2)))
+            .attr("rx", 4)
+            .attr("ry", 4)
+            .style("fill", backgroundColor)
+            .style("fill-opacity", this.highContrastMode ? 1 : 0.88)
+            .style("stroke", borderColor)
+            .style("stroke-width", "1");
+    }
+
+    private drawCurtainsCanvasBands(
+        xScale: ScaleTime<number, number>,
+        chartWidth: number,
+        chartHeight: number
+    ): void {
+        if (!this.canvasContext || !xScale) { return; }
+
+        const state = this.getCurtainRenderState();
+        if (!state || state.opacity <= 0) { return; }
+
+        const ctx = this.canvasContext;
+        ctx.save();
+        ctx.globalAlpha = state.opacity;
+        for (const curtain of state.curtains) {
+            const extent = this.getCurtainBandExtent(curtain, xScale, chartWidth);
+            if (!extent) { continue; }
+            ctx.fillStyle = this.resolveColor(getCurtainColor(curtain, state.legend), "foreground");
+            ctx.fillRect(this.snapRectCoord(extent.x), 0, this.snapRectCoord(extent.width), this.snapRectCoord(chartHeight));
+        }
+        ctx.restore();
+    }
+
+    private buildCurtainTooltipDataItems(curtain: Curtain): VisualTooltipDataItem[] {
+        const items: VisualTooltipDataItem[] = [
+            { displayName: this.getLocalizedString("tooltip.curtain", "Curtain"), value: curtain.label }
+        ];
+        if (curtain.category) {
+            items.push({ displayName: this.getLocalizedString("tooltip.curtainCategory", "Category"), value: curtain.category });
+        }
+        items.push(
+            { displayName: this.getLocalizedString("tooltip.curtainStart", "Start"), value: this.formatDate(curtain.start) },
+            { displayName: this.getLocalizedString("tooltip.curtainFinish", "Finish"), value: this.formatDate(curtain.finish) },
+            {
+                displayName: this.getLocalizedString("tooltip.curtainSource", "Source"),
+                value: curtain.source === "task" ? "Curtain task type" : "Curtain fields"
+            }
+        );
+        return items;
+    }
+
+    private showCurtainTooltip(curtain: Curtain, event: MouseEvent): void {
+        const showTooltips = this.settings?.generalSettings?.showTooltips?.value;
+        if (!showTooltips) {
+            return;
+        }
+
+        const dataItems = this.buildCurtainTooltipDataItems(curtain);
+        if (this.tooltipService && this.tooltipService.enabled()) {
+            this.lastTooltipItems = dataItems;
+            this.lastTooltipIdentities = [];
+            this.tooltipService.show({
+                coordinates: [event.clientX, event.clientY],
+                isTouchEvent: false,
+                dataItems,
+                identities: []
+            });
+            if (this.tooltipDiv) {
+                this.tooltipDiv.style("visibility", "hidden");
+            }
+            return;
+        }
+
+        const tooltip = this.tooltipDiv;
+        if (!tooltip) return;
+
+        tooltip.selectAll("*").remove();
+        tooltip.style("visibility", "visible");
+        for (const item of dataItems) {
+            const row = tooltip.append("div");
+            row.append("strong").text(`${item.displayName}: `);
+            row.append("span").text(item.value || "");
+        }
+        this.positionTooltip(tooltip.node(), event);
+    }
+
+    /** Curtains overlapping a task's bar or milestone date, excluding the curtain made from the task itself. */
+    private getTaskCurtains(task: Task): Curtain[] {
+        if (!this.getCurtainRenderState()) {
+            return [];
+        }
+
+        const isMilestone = this.isVisualMilestoneTask(task);
+        const start = isMilestone ? this.getVisualMilestoneDate(task) : task.startDate;
+        const finish = isMilestone ? start : task.finishDate;
+        if (!(start instanceof Date) || !(finish instanceof Date)) {
+            return [];
+        }
+
+        return getOverlappingCurtains(this.curtains, start, finish).filter(curtain =>
+            !(curtain.source === "task" && curtain.label === task.name && curtain.start.getTime() === start.getTime())
+        );
+    }
+
+    private drawLookAheadWindow(
+        chartWidth: number,
+        xScale: ScaleTime<number, number>,
+        chartHeight: number,
+        mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
+        headerLayer: Selection<SVGGElement, unknown, null, undefined>,
+        includeBand: boolean = true
+    ): void {
+        if (!mainGridLayer?.node() || !headerLayer?.node() || !xScale) { return; }
+
+        mainGridLayer.selectAll(".look-ahead-window-band, .look-ahead-window-end-line").remove();
+        headerLayer.selectAll(".look-ahead-window-label-group").remove();
 
         const lookAheadWindow = this.getLookAheadWindow();
         if (!lookAheadWindow) { return; }
@@ -12914,6 +14637,133 @@ export class Visual implements IVisual {
         }
     }
 
+    /**
+     * Non-working spans for the visible timeline, either per task row on the task's own
+     * calendar or full height for the chosen calendar. Nothing is shaded once a day is
+     * narrower than MIN_NON_WORKING_DAY_WIDTH, where the bands would merge into noise.
+     */
+    private getNonWorkingTimeRects(
+        tasks: Task[],
+        xScale: ScaleTime<number, number>,
+        yScale: ScaleBand<string>,
+        chartWidth: number,
+        chartHeight: number
+    ): Array<{ x: number; y: number; width: number; height: number }> {
+        const rects: Array<{ x: number; y: number; width: number; height: number }> = [];
+        const mode = this.settings?.calendars?.shadingMode?.value?.value ?? "off";
+        if (mode === "off" || !xScale) {
+            return rects;
+        }
+
+        const [domainStart, domainEnd] = xScale.domain();
+        if (!(domainStart instanceof Date) || !(domainEnd instanceof Date) || domainEnd <= domainStart) {
+            return rects;
+        }
+        const dayWidth = xScale(new Date(domainStart.getTime() + 86400000)) - xScale(domainStart);
+        if (!isFinite(dayWidth) || dayWidth < this.MIN_NON_WORKING_DAY_WIDTH) {
+            return rects;
+        }
+
+        const spansByCalendar = new Map<WorkingCalendar, Array<{ x: number; width: number }>>();
+        const getSpans = (calendar: WorkingCalendar): Array<{ x: number; width: number }> => {
+            let spans = spansByCalendar.get(calendar);
+            if (!spans) {
+                spans = [];
+                for (const range of getNonWorkingRanges(calendar, domainStart, domainEnd)) {
+                    const startX = Math.max(0, xScale(range.start));
+                    const endX = Math.min(chartWidth, xScale(range.end));
+                    if (isFinite(startX) && isFinite(endX) && endX - startX > 0.5) {
+                        spans.push({ x: startX, width: endX - startX });
+                    }
+                }
+                spansByCalendar.set(calendar, spans);
+            }
+            return spans;
+        };
+
+        if (mode === "global") {
+            const calendar = this.getGlobalWorkingCalendar();
+            if (calendar) {
+                getSpans(calendar).forEach(span => rects.push({ ...span, y: 0, height: chartHeight }));
+            }
+            return rects;
+        }
+
+        const rowHeight = yScale.bandwidth();
+        const calendarsByName = new Map<string, WorkingCalendar | null>();
+        for (const task of tasks) {
+            if (!task.calendarName) continue;
+            const rowY = yScale(task.yOrder?.toString() ?? "");
+            if (rowY === undefined) continue;
+
+            if (!calendarsByName.has(task.calendarName)) {
+                calendarsByName.set(task.calendarName, this.getTaskWorkingCalendar(task));
+            }
+            const calendar = calendarsByName.get(task.calendarName);
+            if (!calendar) continue;
+
+            getSpans(calendar).forEach(span => rects.push({ ...span, y: rowY, height: rowHeight }));
+        }
+        return rects;
+    }
+
+    /** Draws all non-working spans as one path so dense schedules stay a single element. */
+    private drawNonWorkingTime(
+        rects: Array<{ x: number; y: number; width: number; height: number }>,
+        mainGridLayer: Selection<SVGGElement, unknown, null, undefined>,
+        includeBand: boolean = true
+    ): void {
+        if (!mainGridLayer?.node()) { return; }
+
+        mainGridLayer.selectAll(".non-working-time").remove();
+
+        const opacity = this.getNonWorkingTimeOpacity();
+        if (!includeBand || rects.length === 0 || opacity <= 0) { return; }
+
+        const pathData = rects.map(rect =>
+            `M${this.snapRectCoord(rect.x)},${this.snapRectCoord(rect.y)}` +
+            `h${this.snapRectCoord(rect.width)}v${this.snapRectCoord(rect.height)}h${-this.snapRectCoord(rect.width)}Z`
+        ).join("");
+
+        // Inserted first so the look-ahead band and grid lines stay on top.
+        mainGridLayer.insert("path", ":first-child")
+            .attr("class", "non-working-time")
+            .attr("d", pathData)
+            .attr("clip-path", this.getScopedUrlRef("chart-area-clip"))
+            .style("fill", this.getNonWorkingTimeColor())
+            .style("fill-opacity", opacity)
+            .style("pointer-events", "none");
+    }
+
+    private drawNonWorkingTimeCanvas(rects: Array<{ x: number; y: number; width: number; height: number }>): void {
+        if (!this.canvasContext || rects.length === 0) { return; }
+
+        const opacity = this.getNonWorkingTimeOpacity();
+        if (opacity <= 0) { return; }
+
+        const ctx = this.canvasContext;
+        ctx.save();
+        ctx.globalAlpha = opacity;
+        ctx.fillStyle = this.getNonWorkingTimeColor();
+        for (const rect of rects) {
+            ctx.fillRect(
+                this.snapRectCoord(rect.x),
+                this.snapRectCoord(rect.y),
+                this.snapRectCoord(rect.width),
+                this.snapRectCoord(rect.height)
+            );
+        }
+        ctx.restore();
+    }
+
+    private getNonWorkingTimeColor(): string {
+        return this.resolveColor(this.settings?.calendars?.nonWorkingColor?.value?.value ?? "#E6E6E6", "foreground");
+    }
+
+    private getNonWorkingTimeOpacity(): number {
+        return Math.max(0, Math.min(1, 1 - ((this.settings?.calendars?.nonWorkingTransparency?.value ?? 40) / 100)));
+    }
+
     private drawLookAheadWindowCanvasBand(
         xScale: ScaleTime<number, number>,
         chartWidth: number,
@@ -13389,102 +15239,524 @@ export class Visual implements IVisual {
             rel.hasNegativeFloat = null;
             rel.relationshipFloat = undefined;
         }
-        this.authoritativeLongestPathReady = false;
-
-        this.updatePathInfoLabel();
+        this.authoritativeLongestPathReady = false;
+
+        this.updatePathInfoLabel();
+
+        const endTime = performance.now();
+        this.debugLog(`Float-Based criticality applied in ${(endTime - startTime).toFixed(2)}ms.`);
+        this.debugLog(`Critical tasks (Total Float ≤ 0): ${criticalCount}, Near-critical tasks: ${nearCriticalCount}`);
+    }
+
+    /**
+     * Identifies the longest path using P6 scheduled dates (reflective approach)
+     */
+    private identifyLongestPathFromP6(): void {
+        this.debugLog("Starting minimum-relationship-float Longest Path identification...");
+        const startTime = performance.now();
+
+        if (!this.isCpmSafe()) {
+            this.clearCriticalPathState();
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        if (this.allTasksData.length === 0) {
+            this.debugLog("No tasks for longest path identification.");
+            return;
+        }
+
+        this.clearCriticalPresentationState();
+        const authoritativeMembership = this.calculateAuthoritativeLongestPathState();
+        if (!authoritativeMembership) {
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const pathTargetTaskId = this.getActivePathTargetTaskId();
+        if (pathTargetTaskId) {
+            this.applyPathTargetLongestPaths(pathTargetTaskId);
+            if (this.showNearCritical && this.floatThreshold > 0) {
+                this.identifyNearCriticalTasks();
+            }
+            this.updatePathInfoLabel();
+            this.debugLog(`Longest Path to target ${pathTargetTaskId} completed in ${performance.now() - startTime}ms`);
+            return;
+        }
+
+        if (this.isProjectLongestPathScope()) {
+            this.applyProjectLongestPaths();
+            if (this.showNearCritical && this.floatThreshold > 0) {
+                this.identifyNearCriticalTasks();
+            }
+            this.updatePathInfoLabel();
+            this.debugLog(`Per-project Longest Path completed in ${performance.now() - startTime}ms`);
+            return;
+        }
+
+        const projectFinishTasks = authoritativeMembership.finishTaskIds
+            .map(taskId => this.taskIdToTask.get(taskId))
+            .filter((task): task is Task => !!task);
+        if (projectFinishTasks.length === 0) {
+            console.warn("Could not identify project finish task");
+            return;
+        }
+
+        this.debugLog(`Project finish tasks: ${projectFinishTasks.map(task => `${task.name} (${task.internalId})`).join(", ")}`);
+
+        const drivingScope = authoritativeMembership.taskIds;
+        const drivingChains = this.buildBestDrivingChains(
+            drivingScope,
+            projectFinishTasks.map(task => task.internalId)
+        );
+        if (drivingChains.blockedByCycle) {
+            this.setScopedCycleWarningMessage();
+            this.allDrivingChains = [];
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const resolvedChains = drivingChains.chains.length > 0
+            ? drivingChains.chains
+            : projectFinishTasks.map(task => ({
+                tasks: new Set([task.internalId]),
+                relationships: [],
+                totalDuration: this.getTaskScheduleSpanDays(task),
+                startingTask: task,
+                endingTask: task
+            }));
+
+        this.allDrivingChains = this.sortAndStoreDrivingChains(resolvedChains);
+
+        const selectedChain = this.getSelectedDrivingChain();
+        if (selectedChain) {
+            this.applyDrivingPresentation(selectedChain.tasks, selectedChain.relationships);
+            this.debugLog(
+                `Selected Longest Path ${this.selectedPathIndex + 1}/${this.allDrivingChains.length}: ` +
+                `${selectedChain.tasks.size} tasks, ${selectedChain.totalDuration} days.`
+            );
+        }
+
+        if (this.showNearCritical && this.floatThreshold > 0) {
+            this.identifyNearCriticalTasks();
+        }
+
+        this.updatePathInfoLabel();
+
+        const endTime = performance.now();
+        this.debugLog(`Minimum-float Longest Path completed in ${endTime - startTime}ms`);
+    }
+
+    /** Ranks routes into the path target and presents the selected one, across all projects. */
+    private applyPathTargetLongestPaths(targetTaskId: string): void {
+        const chains = this.buildBestDrivingChainsToTarget(targetTaskId);
+        if (chains.blockedByCycle) {
+            this.setScopedCycleWarningMessage();
+            this.allDrivingChains = [];
+            return;
+        }
+
+        this.allDrivingChains = this.sortAndStoreDrivingChains(chains.chains);
+        const selectedChain = this.getSelectedDrivingChain();
+        if (selectedChain) {
+            this.applyDrivingPresentation(selectedChain.tasks, selectedChain.relationships);
+            this.debugLog(
+                `Selected Longest Path ${this.selectedPathIndex + 1}/${this.allDrivingChains.length} ` +
+                `to target ${targetTaskId}: ${selectedChain.tasks.size} tasks, ${selectedChain.totalDuration} days.`
+            );
+        }
+
+        const targetTask = this.taskIdToTask.get(targetTaskId);
+        if (targetTask) {
+            targetTask.isCritical = true;
+            targetTask.isCriticalByRel = true;
+        }
+    }
+
+    private isPathTargetEligible(task: Task): boolean {
+        const scope = normalizePathTargetScope(this.settings?.pathSelection?.pathTargetScope?.value?.value);
+        return scope === "any" || this.isVisualMilestoneTask(task);
+    }
+
+    /** The stored target while in Longest Path mode and still eligible; null means the latest finish. */
+    private getActivePathTargetTaskId(): string | null {
+        if (!this.isLongestPathMode()) {
+            return null;
+        }
+        return resolvePathTargetTaskId(this.pathTargetTaskId, this.taskIdToTask, task => this.isPathTargetEligible(task));
+    }
+
+    private getPathTargetOptions(): Array<{ value: string; label: string }> {
+        if (!this.isLongestPathMode()) {
+            return [];
+        }
+        return buildPathTargetOptions(this.allTasksData, task => this.isPathTargetEligible(task), this.pathTargetTaskId)
+            .map(task => {
+                const finishText = this.formatDate(task.finishDate);
+                const name = task.name || String(task.id);
+                return { value: task.internalId, label: finishText ? `${name} (${finishText})` : name };
+            });
+    }
+
+    private setPathTarget(taskId: string | null): void {
+        if (this.pathTargetTaskId === taskId) {
+            return;
+        }
+
+        this.pathTargetTaskId = taskId;
+        this.resetPathSelectionIndex();
+        if (this.settings?.persistedState?.pathTargetTaskId) {
+            this.settings.persistedState.pathTargetTaskId.value = taskId ?? "";
+        }
+        this.host.persistProperties({
+            merge: [
+                { objectName: "persistedState", properties: { pathTargetTaskId: taskId ?? "" }, selector: null },
+                { objectName: "pathSelection", properties: { selectedPathIndex: 1 }, selector: null }
+            ]
+        });
+
+        this.recomputeLongestPathForCurrentInteraction();
+        const targetTask = taskId ? this.taskIdToTask.get(taskId) : null;
+        this.announceToLiveRegion(targetTask
+            ? `Longest Path target: ${targetTask.name || targetTask.id}. ${this.allDrivingChains.length} route(s).`
+            : "Longest Path target cleared; routes run to the latest finish.");
+        this.forceCanvasRefresh();
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        } else {
+            this.updatePathInfoLabel();
+        }
+    }
+
+    private formatSnapshotLabel(snapshotDate: Date): string {
+        return `Update ${this.formatDate(snapshotDate)}`;
+    }
+
+    /** Bound Previous Update fields first, then earlier snapshots, newest first. */
+    private getComparisonSnapshotOptions(): Array<{ value: string; label: string }> {
+        const snapshots = this.getShownSnapshots();
+        if (snapshots.length < 2) {
+            return [];
+        }
+        const options = this.boundFields.previousUpdateFinishBound && !this.playbackSnapshot
+            ? [{ value: PREVIOUS_UPDATE_FIELD_REFERENCE, label: "Previous Update fields" }]
+            : [];
+        for (const snapshot of snapshots.slice(0, -1).reverse()) {
+            options.push({ value: getSnapshotKey(snapshot), label: this.formatSnapshotLabel(snapshot.snapshotDate) });
+        }
+        return options;
+    }
+
+    private setReferenceSnapshot(key: string): void {
+        if (this.referenceSnapshotKey === key) {
+            return;
+        }
+
+        this.referenceSnapshotKey = key;
+        if (this.settings?.persistedState?.referenceSnapshot) {
+            this.settings.persistedState.referenceSnapshot.value = key;
+        }
+        this.host.persistProperties({
+            merge: [{ objectName: "persistedState", properties: { referenceSnapshot: key }, selector: null }]
+        });
+
+        const snapshot = this.snapshots.find(candidate => getSnapshotKey(candidate) === key);
+        this.announceToLiveRegion(snapshot
+            ? `Comparing with ${this.formatSnapshotLabel(snapshot.snapshotDate)}.`
+            : "Comparing with the Previous Update fields.");
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
+    }
+
+    private getTaskSlipTrail(task: Task): SlipTrailMarker[] {
+        const snapshots = this.getShownSnapshots();
+        return snapshots.length > 1 ? getSlipTrail(snapshots, task.internalId) : [];
+    }
+
+    /** Snapshots up to the one shown, so playback frames ignore later updates. */
+    private getShownSnapshots(): ScheduleSnapshot[] {
+        const index = this.playbackSnapshot ? this.snapshots.indexOf(this.playbackSnapshot) : -1;
+        return index >= 0 ? this.snapshots.slice(0, index + 1) : this.snapshots;
+    }
+
+    private getPlaybackFrameIndex(): number {
+        return this.getShownSnapshots().length - 1;
+    }
+
+    private isPlaybackPlaying(): boolean {
+        return this.playbackTimer !== null;
+    }
+
+    /** Shows snapshot `index`; the last one returns to the latest update. */
+    private setPlaybackFrame(index: number): void {
+        const lastIndex = this.snapshots.length - 1;
+        if (lastIndex < 1) {
+            return;
+        }
+        const frameIndex = Math.max(0, Math.min(lastIndex, Math.round(index)));
+        const snapshot = this.snapshots[frameIndex];
+        this.playbackSnapshotKey = frameIndex < lastIndex ? getSnapshotKey(snapshot) : "";
+        if (!this.isPlaybackPlaying()) {
+            this.announceToLiveRegion(frameIndex < lastIndex
+                ? `Showing ${this.formatSnapshotLabel(snapshot.snapshotDate)}, ${frameIndex + 1} of ${lastIndex + 1}.`
+                : "Showing the latest update.");
+        }
+        this.captureScrollPosition();
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
+    }
+
+    private togglePlayback(): void {
+        if (this.isPlaybackPlaying()) {
+            this.stopPlayback();
+            this.announceToLiveRegion(`Playback paused at ${this.formatSnapshotLabel(this.getShownSnapshots()[this.getPlaybackFrameIndex()].snapshotDate)}.`);
+            this.refreshHeaderAfterPlaybackChange();
+            return;
+        }
+        if (this.snapshots.length < 2 || this.prefersReducedMotion()) {
+            return;
+        }
+
+        this.announceToLiveRegion("Playing through the schedule updates.");
+        this.schedulePlaybackFrame();
+        if (this.getPlaybackFrameIndex() >= this.snapshots.length - 1) {
+            this.setPlaybackFrame(0);
+        } else {
+            this.refreshHeaderAfterPlaybackChange();
+        }
+    }
+
+    /** Advances one update per tick and stops on the latest. */
+    private schedulePlaybackFrame(): void {
+        this.stopPlayback();
+        this.playbackTimer = window.setTimeout(() => {
+            this.playbackTimer = null;
+            const nextIndex = this.getPlaybackFrameIndex() + 1;
+            if (nextIndex < this.snapshots.length - 1) {
+                this.schedulePlaybackFrame();
+            }
+            this.setPlaybackFrame(nextIndex);
+        }, getPlaybackFrameDelay(this.playbackSpeed));
+    }
+
+    private stopPlayback(): void {
+        if (this.playbackTimer !== null) {
+            clearTimeout(this.playbackTimer);
+            this.playbackTimer = null;
+        }
+    }
+
+    private setPlaybackSpeed(speed: number): void {
+        this.playbackSpeed = speed;
+        if (this.isPlaybackPlaying()) {
+            this.schedulePlaybackFrame();
+        }
+        this.refreshHeaderAfterPlaybackChange();
+    }
+
+    private refreshHeaderAfterPlaybackChange(): void {
+        if (this.lastUpdateOptions) {
+            this.updateHeaderElements(this.lastUpdateOptions.viewport.width);
+        }
+    }
+
+    /** One PNG per update, oldest first, for building presentation animations offline. */
+    private async exportPlaybackFrames(): Promise<void> {
+        const frameCount = this.snapshots.length;
+        if (this.isExporting || frameCount < 2 || !this.lastUpdateOptions) {
+            return;
+        }
+
+        this.stopPlayback();
+        const originalKey = this.playbackSnapshotKey;
+        const timestamp = this.getExportTimestamp();
+        const digits = String(frameCount).length;
+        this.isExporting = true;
+        this.updateExportButtonState(true);
+        try {
+            for (let index = 0; index < frameCount; index++) {
+                this.playbackSnapshotKey = index < frameCount - 1 ? getSnapshotKey(this.snapshots[index]) : "";
+                this.captureScrollPosition();
+                this.forceFullUpdate = true;
+                this.update(this.lastUpdateOptions);
+                await new Promise<void>(resolve => {
+                    requestAnimationFrame(() => {
+                        requestAnimationFrame(() => resolve());
+                    });
+                });
+                const canvas = await this.renderCompositeExportCanvas(2);
+                await this.downloadExportContent(
+                    canvas.toDataURL('image/png').split(',')[1],
+                    `schedule-playback-${timestamp}-${String(index + 1).padStart(digits, "0")}.png`,
+                    'image/png',
+                    `PNG frame ${index + 1} of ${frameCount} of the schedule playback`
+                );
+            }
+            this.announceToLiveRegion(`Exported ${frameCount} playback frames.`);
+        } catch (error) {
+            console.error('[PNG Export] Frame export failed:', error);
+            this.showToast('Frame export failed. Please try again.', 4000);
+        } finally {
+            this.isExporting = false;
+            this.updateExportButtonState(false);
+            this.playbackSnapshotKey = originalKey;
+            this.captureScrollPosition();
+            this.forceFullUpdate = true;
+            if (this.lastUpdateOptions) {
+                this.update(this.lastUpdateOptions);
+            }
+        }
+    }
 
-        const endTime = performance.now();
-        this.debugLog(`Float-Based criticality applied in ${(endTime - startTime).toFixed(2)}ms.`);
-        this.debugLog(`Critical tasks (Total Float ≤ 0): ${criticalCount}, Near-critical tasks: ${nearCriticalCount}`);
+    private formatSlipTrailMarker(marker: SlipTrailMarker): string {
+        return `${this.formatDate(marker.finishDate)} (${this.formatSnapshotLabel(marker.snapshotDate)})`;
     }
 
     /**
-     * Identifies the longest path using P6 scheduled dates (reflective approach)
+     * Builds ranked routes for every project and presents each project's selected
+     * route. The header selector steps through the active project's routes only.
      */
-    private identifyLongestPathFromP6(): void {
-        this.debugLog("Starting minimum-relationship-float Longest Path identification...");
-        const startTime = performance.now();
+    private applyProjectLongestPaths(): void {
+        let truncationMessage: string | null = null;
+        for (const [projectId, membership] of this.projectLongestPathMemberships) {
+            const finishTasks = membership.finishTaskIds
+                .map(taskId => this.taskIdToTask.get(taskId))
+                .filter((task): task is Task => !!task);
+            if (finishTasks.length === 0) {
+                continue;
+            }
 
-        if (!this.isCpmSafe()) {
-            this.clearCriticalPathState();
-            this.updatePathInfoLabel();
-            return;
-        }
+            const drivingChains = this.buildBestDrivingChains(
+                membership.taskIds,
+                finishTasks.map(task => task.internalId)
+            );
+            if (drivingChains.blockedByCycle) {
+                this.setScopedCycleWarningMessage();
+                this.projectDrivingChains = new Map();
+                this.allDrivingChains = [];
+                return;
+            }
+            truncationMessage = truncationMessage ?? this.drivingPathsTruncationMessage;
 
-        if (this.allTasksData.length === 0) {
-            this.debugLog("No tasks for longest path identification.");
-            return;
+            const resolvedChains = drivingChains.chains.length > 0
+                ? drivingChains.chains
+                : finishTasks.map(task => ({
+                    tasks: new Set([task.internalId]),
+                    relationships: [],
+                    totalDuration: this.getTaskScheduleSpanDays(task),
+                    startingTask: task,
+                    endingTask: task
+                }));
+            this.projectDrivingChains.set(projectId, this.sortAndStoreDrivingChains(resolvedChains));
         }
+        this.drivingPathsTruncationMessage = truncationMessage;
 
-        this.clearCriticalPresentationState();
-        const authoritativeMembership = this.calculateAuthoritativeLongestPathState();
-        if (!authoritativeMembership) {
-            this.updatePathInfoLabel();
-            return;
+        this.activeProjectId = this.resolveActiveProjectId();
+        for (const [projectId, chains] of this.projectDrivingChains) {
+            if (projectId === this.activeProjectId) {
+                continue;
+            }
+            const chain = chains[this.getProjectPathSelectionIndex(projectId)];
+            this.applyDrivingPresentation(chain.tasks, chain.relationships);
         }
 
-        const projectFinishTasks = authoritativeMembership.finishTaskIds
-            .map(taskId => this.taskIdToTask.get(taskId))
-            .filter((task): task is Task => !!task);
-        if (projectFinishTasks.length === 0) {
-            console.warn("Could not identify project finish task");
-            return;
+        this.allDrivingChains = this.activeProjectId
+            ? this.projectDrivingChains.get(this.activeProjectId) ?? []
+            : [];
+        const selectedChain = this.getSelectedDrivingChain();
+        if (selectedChain && this.activeProjectId) {
+            this.projectPathSelections.set(this.activeProjectId, this.selectedPathIndex);
+            this.applyDrivingPresentation(selectedChain.tasks, selectedChain.relationships);
+            this.debugLog(
+                `Project ${this.activeProjectId}: selected Longest Path ` +
+                `${this.selectedPathIndex + 1}/${this.allDrivingChains.length} of ` +
+                `${this.projectDrivingChains.size} project(s).`
+            );
         }
+    }
 
-        this.debugLog(`Project finish tasks: ${projectFinishTasks.map(task => `${task.name} (${task.internalId})`).join(", ")}`);
-
-        const drivingScope = authoritativeMembership.taskIds;
-        const drivingChains = this.buildBestDrivingChains(
-            drivingScope,
-            projectFinishTasks.map(task => task.internalId)
-        );
-        if (drivingChains.blockedByCycle) {
-            this.setScopedCycleWarningMessage();
-            this.allDrivingChains = [];
-            this.updatePathInfoLabel();
-            return;
+    /** Keeps the persisted active project when it still has routes, else the project finishing last. */
+    private resolveActiveProjectId(): string | null {
+        if (this.activeProjectId && this.projectDrivingChains.has(this.activeProjectId)) {
+            return this.activeProjectId;
         }
 
-        const resolvedChains = drivingChains.chains.length > 0
-            ? drivingChains.chains
-            : projectFinishTasks.map(task => ({
-                tasks: new Set([task.internalId]),
-                relationships: [],
-                totalDuration: this.getTaskScheduleSpanDays(task),
-                startingTask: task,
-                endingTask: task
-            }));
+        let activeProjectId: string | null = null;
+        let latestFinish = -Infinity;
+        for (const [projectId, chains] of this.projectDrivingChains) {
+            const finishTime = chains[0]?.endingTask?.finishDate?.getTime() ?? -Infinity;
+            if (finishTime > latestFinish) {
+                latestFinish = finishTime;
+                activeProjectId = projectId;
+            }
+        }
+        return activeProjectId;
+    }
 
-        this.allDrivingChains = this.sortAndStoreDrivingChains(resolvedChains);
+    private getProjectPathSelectionIndex(projectId: string): number {
+        const chainCount = this.projectDrivingChains.get(projectId)?.length ?? 0;
+        const storedIndex = this.projectPathSelections.get(projectId) ?? 0;
+        return Math.max(0, Math.min(storedIndex, chainCount - 1));
+    }
 
-        const selectedChain = this.getSelectedDrivingChain();
-        if (selectedChain) {
-            this.applyDrivingPresentation(selectedChain.tasks, selectedChain.relationships);
-            this.debugLog(
-                `Selected Longest Path ${this.selectedPathIndex + 1}/${this.allDrivingChains.length}: ` +
-                `${selectedChain.tasks.size} tasks, ${selectedChain.totalDuration} days.`
-            );
+    /** Makes a project's routes the ones the header selector steps through. */
+    private activateProject(projectId: string): void {
+        if (!this.projectDrivingChains.has(projectId) || projectId === this.activeProjectId) {
+            return;
         }
 
-        if (this.showNearCritical && this.floatThreshold > 0) {
-            this.identifyNearCriticalTasks();
+        this.activeProjectId = projectId;
+        this.selectedPathIndex = this.getProjectPathSelectionIndex(projectId);
+        this.pendingSelectedPathIndex = this.selectedPathIndex;
+        this.persistPathSelection();
+        this.recomputeLongestPathForCurrentInteraction();
+        this.announceToLiveRegion(
+            `Project ${projectId} selected. Longest Path ${this.selectedPathIndex + 1} of ` +
+            `${this.projectDrivingChains.get(projectId)?.length ?? 0}.`
+        );
+        this.captureScrollPosition();
+        this.forceCanvasRefresh();
+        this.forceFullUpdate = true;
+
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        } else {
+            this.updatePathInfoLabel();
         }
+    }
 
-        this.updatePathInfoLabel();
+    private getRelationshipFloatMethod(): RelationshipFloatMethod {
+        return this.settings?.criticalPath?.deriveRelationshipFloat?.value ? "derived" : "supplied";
+    }
 
-        const endTime = performance.now();
-        this.debugLog(`Minimum-float Longest Path completed in ${endTime - startTime}ms`);
+    /** Names the relationship float source in selector hover text, help and exports. */
+    private getRelationshipFloatMethodLabel(): string {
+        return this.getRelationshipFloatMethod() === "derived"
+            ? "relationship float derived from dates (opt-in)"
+            : "Relationship Free Float field";
     }
 
     /**
-     * Identifies which relationships are driving based on minimum float
+     * Identifies which relationships are driving based on minimum float. With Derive
+     * Relationship Float From Dates on, each relationship's float is calculated from the
+     * linked dates on the predecessor's calendar instead of the Relationship Free Float field.
      */
     private identifyDrivingRelationships(): void {
+        const derived = this.getRelationshipFloatMethod() === "derived";
         for (const rel of this.relationships) {
             const pred = this.taskIdToTask.get(rel.predecessorId);
             const succ = this.taskIdToTask.get(rel.successorId);
+            rel.derivedFloat = derived && pred && succ
+                ? deriveRelationshipFloat(pred, succ, rel, this.getTaskWorkingCalendar(pred))
+                : undefined;
+            const sourceFloat = derived ? rel.derivedFloat : rel.freeFloat;
 
-            if (!pred || !succ || typeof rel.freeFloat !== "number" || !Number.isFinite(rel.freeFloat)) {
+            if (!pred || !succ || typeof sourceFloat !== "number" || !Number.isFinite(sourceFloat)) {
                 rel.relationshipFloat = undefined;
                 rel.isDriving = null;
                 rel.hasNegativeFloat = null;
@@ -13492,7 +15764,7 @@ export class Visual implements IVisual {
                 continue;
             }
 
-            rel.relationshipFloat = rel.freeFloat;
+            rel.relationshipFloat = sourceFloat;
             rel.isDriving = null;
             rel.hasNegativeFloat = null;
             rel.isCritical = false;
@@ -13510,7 +15782,7 @@ export class Visual implements IVisual {
 
         this.debugLog(
             `Identified ${drivingCount} minimum-float driving relationships and ` +
-            `${negativeFloatCount} negative-float relationships.`
+            `${negativeFloatCount} negative-float relationships from ${this.getRelationshipFloatMethodLabel()}.`
         );
     }
 
@@ -13521,7 +15793,9 @@ export class Visual implements IVisual {
         }
 
         this.identifyDrivingRelationships();
-        const membership = calculateLongestPathMembership(this.allTasksData, this.relationships);
+        const membership = this.isProjectLongestPathScope()
+            ? this.calculateProjectScopedLongestPathMembership()
+            : calculateLongestPathMembership(this.allTasksData, this.relationships);
         if (membership.finishTaskIds.length === 0) {
             return null;
         }
@@ -13533,11 +15807,33 @@ export class Visual implements IVisual {
         for (const task of this.allTasksData) {
             task.isLongestPath = membership.taskIds.has(task.internalId);
         }
+        if (this.dataQuality) {
+            this.dataQuality.drivingPathHardConstraintTaskIds = collectDrivingPathHardConstraintTaskIds(this.allTasksData);
+        }
 
         this.authoritativeLongestPathReady = true;
         return membership;
     }
 
+    /**
+     * Stores each project's membership and returns their union, so task and
+     * relationship flags cover every project's Longest Path at once.
+     */
+    private calculateProjectScopedLongestPathMembership(): LongestPathMembership<Relationship> {
+        this.projectLongestPathMemberships = calculateProjectLongestPathMemberships(this.allTasksData, this.relationships);
+        const combined: LongestPathMembership<Relationship> = {
+            finishTaskIds: [],
+            taskIds: new Set<string>(),
+            relationships: new Set<Relationship>()
+        };
+        this.projectLongestPathMemberships.forEach(membership => {
+            combined.finishTaskIds.push(...membership.finishTaskIds);
+            membership.taskIds.forEach(taskId => combined.taskIds.add(taskId));
+            membership.relationships.forEach(relationship => combined.relationships.add(relationship));
+        });
+        return combined;
+    }
+
     private ensureAuthoritativeLongestPathState(): boolean {
         if (this.authoritativeLongestPathReady) {
             return true;
@@ -13905,11 +16201,14 @@ export class Visual implements IVisual {
 
         const descendantIds = this.collectDrivingDescendants(sourceTaskId);
         const terminalTaskIds = this.getDrivingTerminalTaskIds(descendantIds);
-        const sinkTaskIds = getTiedLatestFinishTaskIds(
-            this.taskIdToTask,
-            terminalTaskIds.length > 0 ? terminalTaskIds : descendantIds,
-            DRIVING_PATH_DURATION_TOLERANCE_DAYS
-        );
+        const pathTargetTaskId = this.getActivePathTargetTaskId();
+        const sinkTaskIds = pathTargetTaskId && pathTargetTaskId !== sourceTaskId && descendantIds.has(pathTargetTaskId)
+            ? [pathTargetTaskId]
+            : getTiedLatestFinishTaskIds(
+                this.taskIdToTask,
+                terminalTaskIds.length > 0 ? terminalTaskIds : descendantIds,
+                DRIVING_PATH_DURATION_TOLERANCE_DAYS
+            );
         const result = this.buildBestDrivingChains(descendantIds, sinkTaskIds, [sourceTaskId]);
         if (result.blockedByCycle || result.chains.length > 0) {
             return result;
@@ -14013,14 +16312,16 @@ export class Visual implements IVisual {
         const totalPaths = this.allDrivingChains.length;
         const activityCount = selectedChain.tasks.size;
         const relationshipCount = selectedChain.relationships.length;
-        const span = formatPathSpanDays(selectedChain.totalDuration);
+        const spanUnit = this.isHourResolution() ? "hour" : "day";
+        const span = formatPathSpanDays(selectedChain.totalDuration, spanUnit);
         const startText = this.formatDate(selectedChain.startingTask?.startDate) || "Unavailable";
         const finishText = this.formatDate(selectedChain.endingTask?.finishDate) || "Unavailable";
         const visibleLabel = getPathSelectorVisibleLabel(layoutMode, {
             pathNumber,
             totalPaths,
             spanDays: selectedChain.totalDuration,
-            activityCount
+            activityCount,
+            spanUnit
         });
         const navButtonSize = isTight ? 18 : 20;
         const navIconSize = isTight ? 10 : 12;
@@ -14034,9 +16335,14 @@ export class Visual implements IVisual {
         const hoverBackground = this.getHeaderLegendMenuHoverColor();
         const calculationDescription =
             "Longest Path criteria: latest Finish Date; lowest signed finite incoming " +
-            "Relationship Free Float per successor, including exact ties; greatest elapsed " +
-            "start-to-finish route span; then earliest start and stable task and relationship identity.";
+            "relationship float per successor, including exact ties; greatest elapsed " +
+            "start-to-finish route span; then earliest start and stable task and relationship identity. " +
+            `Relationship float source: ${this.getRelationshipFloatMethodLabel()}.`;
+        const pathTargetTask = this.selectedTaskId ? null : this.taskIdToTask.get(this.getActivePathTargetTaskId() ?? "");
+        const traceEndTask = this.taskIdToTask.get(this.getTraceEndTaskId() ?? "");
         const metricDescription =
+            (pathTargetTask ? `Target ${pathTargetTask.name || pathTargetTask.id}. ` : "") +
+            (traceEndTask ? `Route from ${this.selectedTaskName} to ${traceEndTask.name || traceEndTask.id}. ` : "") +
             `Path ${pathNumber} of ${totalPaths}. Calendar span ${span.spoken}. ` +
             `${activityCount} ${activityCount === 1 ? "activity" : "activities"}. ` +
             `${relationshipCount} ${relationshipCount === 1 ? "relationship" : "relationships"}. ` +
@@ -14182,14 +16488,25 @@ export class Visual implements IVisual {
             this.settings.pathSelection.selectedPathIndex.value = pathIndex1Based;
         }
 
-        try {
-            this.host.persistProperties({
-                merge: [{
-                    objectName: "pathSelection",
-                    properties: { selectedPathIndex: pathIndex1Based },
-                    selector: null
-                }]
+        const merge: powerbi.VisualObjectInstance[] = [{
+            objectName: "pathSelection",
+            properties: { selectedPathIndex: pathIndex1Based },
+            selector: null
+        }];
+        if (this.isProjectLongestPathScope() && this.activeProjectId && !this.getActivePathTargetTaskId()) {
+            this.projectPathSelections.set(this.activeProjectId, pathIndex1Based - 1);
+            merge.push({
+                objectName: "persistedState",
+                properties: {
+                    activeProjectId: this.activeProjectId,
+                    projectPathSelections: serializeProjectPathSelections(this.projectPathSelections)
+                },
+                selector: null
             });
+        }
+
+        try {
+            this.host.persistProperties({ merge });
         } catch (error) {
             console.error("Error persisting Longest Path selection:", error);
         }
@@ -14207,17 +16524,7 @@ export class Visual implements IVisual {
         }
 
         if (this.selectedTaskId) {
-            const configuredTraceMode = this.normalizeTraceMode(
-                this.settings.pathSelection.traceMode.value.value
-            );
-            const effectiveTraceMode = this.normalizeTraceMode(
-                this.traceMode || configuredTraceMode
-            );
-            if (effectiveTraceMode === "forward") {
-                this.calculateCPMFromTask(this.selectedTaskId);
-            } else {
-                this.calculateCPMToTask(this.selectedTaskId);
-            }
+            this.traceDrivingPathFromSelectedTask(this.selectedTaskId, this.getEffectiveTraceMode());
             return;
         }
 
@@ -14420,6 +16727,135 @@ export class Visual implements IVisual {
         this.updatePathInfoLabel();
     }
 
+    private traceDrivingPathFromSelectedTask(taskId: string, traceMode: DrivingTraceMode): void {
+        if (traceMode === "forward") {
+            this.calculateCPMFromTask(taskId);
+        } else if (traceMode === "between") {
+            this.calculateCPMBetweenTasks(taskId, this.getTraceEndTaskId());
+        } else {
+            this.calculateCPMToTask(taskId);
+        }
+    }
+
+    /**
+     * Ranks the driving routes from the selected task (A) to the trace end task (B).
+     * Every route between two fixed events has the same elapsed span, so the
+     * maximum-duration expansion returns all of them for the usual ranking. When no
+     * driving route exists the path is left empty and the reason is kept for the header.
+     */
+    private calculateCPMBetweenTasks(startTaskId: string, endTaskId: string | null): void {
+        this.debugLog(`Calculating driving routes from ${startTaskId} to ${endTaskId || "None"}`);
+
+        if (!this.isCpmSafe()) {
+            this.clearCriticalPathState();
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const startTask = this.taskIdToTask.get(startTaskId);
+        if (!startTask) {
+            console.warn(`Start task ${startTaskId} not found.`);
+            this.identifyLongestPathFromP6();
+            return;
+        }
+
+        this.clearCriticalPresentationState();
+        if (!this.ensureAuthoritativeLongestPathState()) {
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const endTask = endTaskId ? this.taskIdToTask.get(endTaskId) : undefined;
+        if (!endTaskId || !endTask) {
+            startTask.isCritical = true;
+            startTask.isCriticalByRel = true;
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const traceMembership = collectDrivingTraceMembership(
+            startTaskId,
+            "between",
+            this.allTasksData,
+            this.relationships,
+            endTaskId
+        );
+        if (traceMembership.taskIds.size === 0) {
+            this.traceConnectionMessage = this.getDrivingConnectionGapMessage(startTask, endTask);
+            this.debugLog(this.traceConnectionMessage);
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        const chains = this.buildBestDrivingChains(traceMembership.taskIds, [endTaskId], [startTaskId]);
+        if (chains.blockedByCycle) {
+            this.setScopedCycleWarningMessage();
+            this.allDrivingChains = [];
+            this.updatePathInfoLabel();
+            return;
+        }
+
+        this.allDrivingChains = this.sortAndStoreDrivingChains(chains.chains);
+        const selectedChain = this.getSelectedDrivingChain();
+        if (selectedChain) {
+            this.applyDrivingPresentation(selectedChain.tasks, selectedChain.relationships);
+            this.debugLog(
+                `Selected route ${this.selectedPathIndex + 1}/${this.allDrivingChains.length} ` +
+                `from ${startTaskId} to ${endTaskId}: ${selectedChain.tasks.size} tasks ` +
+                `from ${traceMembership.taskIds.size} tasks on any driving route between them`
+            );
+        }
+
+        startTask.isCritical = true;
+        startTask.isCriticalByRel = true;
+        endTask.isCritical = true;
+        endTask.isCriticalByRel = true;
+
+        this.updatePathInfoLabel();
+    }
+
+    private getDrivingConnectionGapMessage(startTask: Task, endTask: Task): string {
+        const startName = startTask.name || startTask.id;
+        const endName = endTask.name || endTask.id;
+        const prefix = `No driving route from ${startName} to ${endName}.`;
+        switch (getDrivingConnectionGap(startTask.internalId, endTask.internalId, this.allTasksData, this.relationships)) {
+            case "reversed":
+                return `${prefix} ${endName} drives ${startName}; select them the other way round.`;
+            case "nonDriving":
+                return `${prefix} Logic links them, but not through driving relationships.`;
+            case "disconnected":
+                return `${prefix} No chain of relationships links them.`;
+            default:
+                return prefix;
+        }
+    }
+
+    /**
+     * Structural trace for the selected task: its predecessors, its successors, or for
+     * A to B every task downstream of A and upstream of B, plus both ends.
+     */
+    private identifyTraceTasksFloatBased(taskId: string, traceMode: DrivingTraceMode): Set<string> {
+        if (traceMode === "forward") {
+            return this.identifySuccessorTasksFloatBased(taskId);
+        }
+        if (traceMode === "backward") {
+            return this.identifyPredecessorTasksFloatBased(taskId);
+        }
+
+        const endTaskId = this.getTraceEndTaskId();
+        if (!endTaskId) {
+            return new Set([taskId]);
+        }
+
+        const upstreamOfEnd = this.identifyPredecessorTasksFloatBased(endTaskId);
+        const tasksInPath = new Set(
+            Array.from(this.identifySuccessorTasksFloatBased(taskId)).filter(id => upstreamOfEnd.has(id))
+        );
+        tasksInPath.add(taskId);
+        tasksInPath.add(endTaskId);
+        return tasksInPath;
+    }
+
     /**
      * Traces backward from a target task to find all predecessor tasks (Float-Based mode)
      */
@@ -15344,7 +17780,7 @@ export class Visual implements IVisual {
             rootGroups: this.wbsRootGroups,
             visibleTasks: tasks,
             hideEmptyGroups,
-            sortTasks: values => this.sortTasksByBarStart(values),
+            sortTasks: values => this.sortTasksForDisplay(values),
             fallbackGroup
         });
         this.wbsDisplayTaskIndentLevels = this.currentWbsDisplayProjection.taskIndentLevels;
@@ -15411,7 +17847,7 @@ export class Visual implements IVisual {
     private syncUnassignedWbsGroup(filteredTasks: Task[]): void {
         this.removeUnassignedWbsGroup();
 
-        const unassignedTasks = this.sortTasksByBarStart(filteredTasks.filter(task => !task.wbsGroupId));
+        const unassignedTasks = this.sortTasksForDisplay(filteredTasks.filter(task => !task.wbsGroupId));
         if (unassignedTasks.length === 0) {
             return;
         }
@@ -15466,7 +17902,7 @@ export class Visual implements IVisual {
             return;
         }
 
-        const fallbackTasks = this.sortTasksByBarStart(filteredTasks.filter(task =>
+        const fallbackTasks = this.sortTasksForDisplay(filteredTasks.filter(task =>
             (task.wbsLevels?.length ?? 0) < targetLevel
         ));
         if (fallbackTasks.length === 0) {
@@ -15515,16 +17951,12 @@ export class Visual implements IVisual {
         this.wbsExpandedState.set(group.id, group.isExpanded);
     }
 
-    private sortTasksByBarStart(tasks: Task[]): Task[] {
-        return [...tasks].sort((a, b) => {
-            const aStart = this.getTaskBarSortDate(a)?.getTime() ?? 0;
-            const bStart = this.getTaskBarSortDate(b)?.getTime() ?? 0;
-            return aStart - bStart;
-        });
+    private sortTasksForDisplay(tasks: Task[]): Task[] {
+        return [...tasks].sort((a, b) => this.compareTasksForDisplay(a, b));
     }
 
     private getSortedVisibleWbsGroupTasks(group: WBSGroup, taskSet: Set<string>): Task[] {
-        return this.sortTasksByBarStart(group.tasks.filter(task => taskSet.has(task.internalId)));
+        return this.sortTasksForDisplay(group.tasks.filter(task => taskSet.has(task.internalId)));
     }
 
     private updateSyntheticWbsGroupSummary(group: WBSGroup): void {
@@ -15940,7 +18372,7 @@ export class Visual implements IVisual {
             rootGroups: this.wbsRootGroups,
             visibleTasks: tasksToShow,
             hideEmptyGroups: this.settings?.wbsGrouping?.hideEmptyGroups?.value ?? true,
-            sortTasks: values => this.sortTasksByBarStart(values),
+            sortTasks: values => this.sortTasksForDisplay(values),
             fallbackGroup: this.getWbsOnlyLevelFallbackGroup()
         });
         this.currentWbsDisplayProjection = projection;
@@ -16079,6 +18511,9 @@ export class Visual implements IVisual {
         const badgeStrokeColor = self.highContrastMode
             ? buttonStrokeColor
             : self.toRgba(rowBorderColor, 0.85);
+        const projectLinks = self.boundFields.projectAvailable
+            ? collectInterProjectLinks(self.taskIdToTask, self.relationships)
+            : [];
 
         groupsUpdate.each(function (group) {
             const g = d3.select(this);
@@ -16525,6 +18960,36 @@ export class Visual implements IVisual {
                 }
             });
 
+            g.selectAll('.wbs-project-path-label').remove();
+            if (group.projectId && group.summaryFinishDate) {
+                const projectId = group.projectId;
+                const projectLabel = self.getProjectHeaderLabel(projectId, group.summaryFinishDate, projectLinks);
+                const isActiveProject = self.isProjectLongestPathScope() && projectId === self.activeProjectId;
+                const projectLabelNode = g.append('text')
+                    .attr('class', 'wbs-project-path-label')
+                    .attr('clip-path', self.getScopedUrlRef("chart-area-clip"))
+                    .attr('x', Math.round(xScale(group.summaryFinishDate)) + 8)
+                    .attr('y', Math.round(bandCenter))
+                    .attr('dominant-baseline', 'central')
+                    .style('font-size', `${dateFontSize}px`)
+                    .style('font-family', self.getFontFamily())
+                    .style('font-weight', isActiveProject ? '700' : '500')
+                    .style('fill', isActiveProject ? criticalPathColor : textColor)
+                    .style('opacity', textOpacity)
+                    .text(projectLabel.text);
+                projectLabelNode.append('title').text(projectLabel.description);
+
+                if (self.isProjectLongestPathScope() && self.projectDrivingChains.has(projectId)) {
+                    projectLabelNode
+                        .style('cursor', 'pointer')
+                        .on('click', (event: MouseEvent) => {
+                            event.stopPropagation();
+                            self.hideTooltip();
+                            self.activateProject(projectId);
+                        });
+                }
+            }
+
             const countText = self.getWbsCountLabel(group);
             const badgeGroup = g.select<SVGGElement>('.wbs-count-badge');
             const badgeFontSize = Math.max(8, Math.round(groupNameFontSizePx * 0.74 * 100) / 100);
@@ -16727,6 +19192,52 @@ export class Visual implements IVisual {
 
 
 
+    /**
+     * Project header text: finish, the project's selected Longest Path and its span
+     * (per-project scope only), then upstream (<-) and downstream (->) projects.
+     */
+    private getProjectHeaderLabel(
+        projectId: string,
+        finishDate: Date,
+        projectLinks: ProjectLink[]
+    ): { text: string; description: string } {
+        const finishText = this.formatColumnDate(finishDate);
+        const parts = [`Finish ${finishText}`];
+        const descriptions = [`Project ${projectId} finishes ${finishText}.`];
+
+        const chains = this.isProjectLongestPathScope() ? this.projectDrivingChains.get(projectId) : undefined;
+        if (chains && chains.length > 0) {
+            const pathIndex = projectId === this.activeProjectId
+                ? this.selectedPathIndex
+                : this.getProjectPathSelectionIndex(projectId);
+            const chain = chains[Math.min(pathIndex, chains.length - 1)];
+            const span = formatPathSpanDays(chain.totalDuration, this.isHourResolution() ? "hour" : "day");
+            parts.push(`LP ${pathIndex + 1}/${chains.length} ${span.compact}`);
+            descriptions.push(
+                `Longest Path ${pathIndex + 1} of ${chains.length} spans ${span.spoken}.` +
+                (projectId === this.activeProjectId ? " The header selector steps through this project." : " Click to step through this project's paths.")
+            );
+        }
+
+        for (const link of projectLinks) {
+            if (link.toProjectId === projectId) {
+                parts.push(`\u2190 ${link.fromProjectId}`);
+                descriptions.push(
+                    `Receives logic from ${link.fromProjectId} through ${link.relationshipCount} ` +
+                    `relationship${link.relationshipCount === 1 ? "" : "s"} (${link.drivingCount} driving).`
+                );
+            } else if (link.fromProjectId === projectId) {
+                parts.push(`\u2192 ${link.toProjectId}`);
+                descriptions.push(
+                    `Passes logic to ${link.toProjectId} through ${link.relationshipCount} ` +
+                    `relationship${link.relationshipCount === 1 ? "" : "s"} (${link.drivingCount} driving).`
+                );
+            }
+        }
+
+        return { text: parts.join(" \u00b7 "), description: descriptions.join(" ") };
+    }
+
     private refreshDateFormatters(): void {
         const locale = this.host?.locale || undefined;
         if (this.lastLocale === locale &&
@@ -16753,6 +19264,46 @@ export class Visual implements IVisual {
         });
     }
 
+    private isHourResolution(): boolean {
+        return normalizeTimeResolution(this.settings?.gridLines?.timeResolution?.value?.value) === "hour";
+    }
+
+    private getShiftPattern(): ShiftPattern {
+        return normalizeShiftPattern(
+            this.settings?.gridLines?.shiftLengthHours?.value,
+            this.settings?.gridLines?.shiftStartHour?.value
+        );
+    }
+
+    private getTimeOfDaySuffix(date: Date): string {
+        return this.isHourResolution() ? ` ${formatTimeOfDay(date)}` : "";
+    }
+
+    private getExportDateFormatter(): (date: Date) => string {
+        return d3.timeFormat(this.isHourResolution() ? "%d-%b-%y %H:%M" : "%d-%b-%y");
+    }
+
+    /**
+     * Duration text for columns, bar labels and tooltips. Hour resolution converts the
+     * day-based duration back to hours with the Calendars card's Hours Per Day.
+     */
+    private formatTaskDuration(days: number, style: "value" | "label" | "tooltip"): string {
+        if (this.isHourResolution()) {
+            const hoursPerDay = resolveDurationUnitOptions(this.settings?.calendars?.hoursPerDay?.value, undefined).hoursPerDay;
+            const hoursText = formatHours(days * hoursPerDay);
+            return style === "tooltip" ? `${hoursText} hours` : `${hoursText}h`;
+        }
+
+        switch (style) {
+            case "label":
+                return `${Math.round(days)}d`;
+            case "tooltip":
+                return `${formatDurationDays(days)} days`;
+            default:
+                return formatDurationDays(days);
+        }
+    }
+
     private formatColumnDate(date: Date): string {
         if (!date || isNaN(date.getTime())) return "";
         // Format as DD-Mon-YY (e.g., "16-Jun-26") for consistent display
@@ -16761,7 +19312,7 @@ export class Visual implements IVisual {
             'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
         const month = monthNames[date.getMonth()];
         const year = date.getFullYear().toString().slice(-2);
-        return `${day}-${month}-${year}`;
+        return `${day}-${month}-${year}${this.getTimeOfDaySuffix(date)}`;
     }
 
     private formatDate(date: Date | null | undefined): string {
@@ -16773,7 +19324,7 @@ export class Visual implements IVisual {
                 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
             const month = monthNames[date.getMonth()];
             const year = String(date.getFullYear()).slice(-2);
-            return `${day}-${month}-${year}`;
+            return `${day}-${month}-${year}${this.getTimeOfDaySuffix(date)}`;
         } catch (e) {
             console.error("Error formatting date:", e);
             return "Invalid Date";
@@ -16789,7 +19340,7 @@ export class Visual implements IVisual {
                 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
             const month = monthNames[date.getMonth()];
             const year = String(date.getFullYear()).slice(-2);
-            return `${day}-${month}-${year}`;
+            return `${day}-${month}-${year}${this.getTimeOfDaySuffix(date)}`;
         } catch (e) {
             console.error("Error formatting line date:", e);
             return this.formatDate(date);
@@ -17146,19 +19697,80 @@ export class Visual implements IVisual {
                 }
             });
 
-        if (this.selectedTaskId && this.selectedTaskName) {
-            this.dropdownInput.property("value", this.selectedTaskName);
+        if (this.selectedTaskId && this.selectedTaskName) {
+            this.dropdownInput.property("value", this.selectedTaskName);
+        }
+
+        this.updateSelectedTaskStatusLabel(viewportWidth);
+    }
+
+    private normalizeTraceMode(value: unknown): DrivingTraceMode {
+        return value === "forward" || value === "between" ? value : "backward";
+    }
+
+    private getEffectiveTraceMode(): DrivingTraceMode {
+        const configuredMode = this.normalizeTraceMode(this.settings?.pathSelection?.traceMode?.value?.value);
+        return this.normalizeTraceMode(this.traceMode || configuredMode);
+    }
+
+    private isTraceBetweenActive(): boolean {
+        return !!this.settings?.pathSelection?.enableTaskSelection?.value &&
+            !!this.selectedTaskId &&
+            this.getEffectiveTraceMode() === "between";
+    }
+
+    /** Task B of an A to B trace; A is the selected task. */
+    private getTraceEndTaskId(): string | null {
+        if (!this.isTraceBetweenActive() ||
+            !this.traceEndTaskId ||
+            this.traceEndTaskId === this.selectedTaskId ||
+            !this.taskIdToTask.has(this.traceEndTaskId)) {
+            return null;
+        }
+        return this.traceEndTaskId;
+    }
+
+    private setTraceEndTask(taskId: string | null): void {
+        if (this.traceEndTaskId === taskId) {
+            return;
+        }
+
+        this.traceEndTaskId = taskId;
+        this.resetPathSelectionIndex();
+        this.host.persistProperties({
+            merge: [{
+                objectName: "persistedState",
+                properties: { traceEndTaskId: taskId ?? "" },
+                selector: null
+            }, {
+                objectName: "pathSelection",
+                properties: { selectedPathIndex: 1 },
+                selector: null
+            }]
+        });
+
+        if (this.dropdownInput) {
+            this.dropdownInput.property("value", this.selectedTaskName || "");
         }
 
-        this.updateSelectedTaskStatusLabel(viewportWidth);
-    }
+        const endTask = taskId ? this.taskIdToTask.get(taskId) : null;
+        this.announceToLiveRegion(endTask
+            ? `Trace to: ${endTask.name || endTask.id}`
+            : "Trace end cleared");
+        this.captureScrollPosition();
+        this.forceCanvasRefresh();
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
 
-    private normalizeTraceMode(value: unknown): "backward" | "forward" {
-        return value === "forward" ? "forward" : "backward";
+        if (endTask && this.traceConnectionMessage) {
+            this.showToast(this.traceConnectionMessage, 6000);
+        }
     }
 
     /**
-     * Creates the trace mode toggle (Backward/Forward) positioned on the second header row.
+     * Creates the trace mode toggle (Backward/Forward/A to B) positioned on the second header row.
      */
     private createTraceModeToggle(): void {
         if (!this.stickyHeaderContainer || !this.settings?.pathSelection) return;
@@ -17184,8 +19796,8 @@ export class Visual implements IVisual {
 
         const labelBackward = isCompact ? "Back" : "Backward";
         const labelForward = isCompact ? "Fwd" : "Forward";
-        const configuredMode = this.normalizeTraceMode(this.settings.pathSelection.traceMode.value.value);
-        const currentMode = this.normalizeTraceMode(this.traceMode || configuredMode);
+        const labelBetween = "A to B";
+        const currentMode = this.getEffectiveTraceMode();
         const secondRowControlTop = this.getSecondRowControlTop(UI_TOKENS.height.compact);
         const controlBackground = this.getHeaderLegendControlBackgroundColor();
         const textColor = this.getHeaderLegendTextColor();
@@ -17206,7 +19818,7 @@ export class Visual implements IVisual {
         container
             .attr("role", "radiogroup")
             .attr("aria-label", this.getLocalizedString("ui.traceModeLabel", "Trace Mode"))
-            .attr("title", this.getLocalizedString("ui.traceModeTooltip", "Select direction to trace dependencies from the selected task"))
+            .attr("title", this.getLocalizedString("ui.traceModeTooltip", "Select direction to trace dependencies from the selected task, or trace A to B to a second task"))
             .style("position", "absolute")
             .style("top", `${secondRowControlTop}px`)
             .style("left", `${secondRowLayout.traceModeToggle.left}px`)
@@ -17251,24 +19863,31 @@ export class Visual implements IVisual {
         const options = [
             {
                 value: "backward",
+                label: labelBackward,
                 title: "Trace backward from the selected task",
                 path: "M 9.5 4 L 5.5 8 L 9.5 12 M 5.75 8 H 12"
             },
             {
                 value: "forward",
+                label: labelForward,
                 title: "Trace forward from the selected task",
                 path: "M 6.5 4 L 10.5 8 L 6.5 12 M 4 8 H 10.25"
+            },
+            {
+                value: "between",
+                label: labelBetween,
+                title: "Trace driving routes from the selected task (A) to a second task (B); select B on the chart or in the search",
+                path: "M 3 4 V 12 M 13 4 V 12 M 3 8 H 12.5 M 9.5 5.5 L 12 8 L 9.5 10.5"
             }
         ];
 
-        for (const option of options) {
+        options.forEach((option, optionIndex) => {
             const isActive = option.value === currentMode;
-            const optionLabel = option.value === "backward" ? labelBackward : labelForward;
-            const buttonWidth = Math.floor((secondRowLayout.traceModeToggle.width - 4) / 2);
+            const buttonWidth = Math.floor((secondRowLayout.traceModeToggle.width - 4) / options.length);
             const buttonHeight = UI_TOKENS.height.compact - 4;
-            const borderRadius = option.value === "backward"
+            const borderRadius = optionIndex === 0
                 ? `${UI_TOKENS.radius.small}px 0 0 ${UI_TOKENS.radius.small}px`
-                : `0 ${UI_TOKENS.radius.small}px ${UI_TOKENS.radius.small}px 0`;
+                : (optionIndex === options.length - 1 ? `0 ${UI_TOKENS.radius.small}px ${UI_TOKENS.radius.small}px 0` : "0");
 
             const button = container.append("div")
                 .attr("class", `trace-mode-option ${option.value}`)
@@ -17285,7 +19904,7 @@ export class Visual implements IVisual {
                 .style("border-radius", borderRadius)
                 .style("background-color", isActive ? activeBackground : "transparent")
                 .style("border", "none")
-                .style("border-left", option.value === "forward" ? `1px solid ${borderColor}` : "none")
+                .style("border-left", optionIndex > 0 ? `1px solid ${borderColor}` : "none")
                 .style("box-sizing", "border-box")
                 .style("color", isActive ? activeColor : textColor)
                 .style("cursor", "pointer")
@@ -17314,7 +19933,7 @@ export class Visual implements IVisual {
                     .style("pointer-events", "none")
                     .style("white-space", "nowrap")
                     .style("line-height", "1")
-                    .text(optionLabel);
+                    .text(option.label);
             }
 
             button.append("title").text(option.title);
@@ -17347,7 +19966,7 @@ export class Visual implements IVisual {
                         setMode(option.value);
                     }
                 });
-        }
+        });
 
     }
     /**
@@ -17577,7 +20196,9 @@ export class Visual implements IVisual {
 
         if (item.type === "task" && item.task) {
             this.selectTask(item.task.internalId, item.task.name);
-            this.dropdownInput.property("value", item.label);
+            this.dropdownInput.property("value", this.selectedTaskId === item.task.internalId
+                ? item.label
+                : this.selectedTaskName || "");
             this.closeDropdown(false);
             this.stickyHeaderContainer?.selectAll(".trace-mode-toggle")
                 .style("pointer-events", "auto");
@@ -17619,6 +20240,11 @@ export class Visual implements IVisual {
 
     private selectTask(taskId: string | null, taskName: string | null): void {
 
+        if (taskId && this.selectedTaskId && taskId !== this.selectedTaskId && this.isTraceBetweenActive()) {
+            this.setTraceEndTask(taskId === this.traceEndTaskId ? null : taskId);
+            return;
+        }
+
         const wasFilterActive = this.filterKeyword !== null && this.filterKeyword.trim().length > 0;
         this.filterKeyword = null;
 
@@ -17635,6 +20261,8 @@ export class Visual implements IVisual {
 
         if (taskChanged) {
             this.resetPathSelectionIndex();
+            this.clearWhatIfScenario();
+            this.traceEndTaskId = null;
         }
 
         this.selectedTaskId = taskId;
@@ -17669,6 +20297,7 @@ export class Visual implements IVisual {
             }];
 
         if (taskChanged) {
+            mergeProperties[0].properties.traceEndTaskId = "";
             mergeProperties.push({
                 objectName: "pathSelection",
                 properties: { selectedPathIndex: 1 },
@@ -17698,7 +20327,9 @@ export class Visual implements IVisual {
         // Manually clear selection to avoid triggering selectTask's filter clean-up
         this.selectedTaskId = null;
         this.selectedTaskName = null;
+        this.traceEndTaskId = null;
         this.resetPathSelectionIndex();
+        this.clearWhatIfScenario();
 
         if (this.allowInteractions && this.selectionManager) {
             this.selectionManager.clear();
@@ -17709,7 +20340,7 @@ export class Visual implements IVisual {
         this.host.persistProperties({
             merge: [{
                 objectName: "persistedState",
-                properties: { selectedTaskId: "" },
+                properties: { selectedTaskId: "", traceEndTaskId: "" },
                 selector: null
             }, {
                 objectName: "pathSelection",
@@ -17896,7 +20527,7 @@ export class Visual implements IVisual {
 
         this.legendColorMap = nextColorMap;
         for (const task of this.allTasksData) {
-            const category = normalizeLegendCategory(task.legendValue);
+            const category = normalizeLegendCategory(this.getTaskLegendValue(task));
             task.legendColor = category ? this.legendColorMap.get(category) : undefined;
         }
 
@@ -17932,7 +20563,7 @@ export class Visual implements IVisual {
 
         const scopedValues = new Set<string>();
         for (const task of tasks) {
-            const category = normalizeLegendCategory(task.legendValue);
+            const category = normalizeLegendCategory(this.getTaskLegendValue(task));
             if (category) {
                 scopedValues.add(category);
             }
@@ -18464,109 +21095,627 @@ export class Visual implements IVisual {
                     .style("opacity", "1");
             });
 
-            item.on("mouseleave", function () {
-                d3.select(this)
-                    .style("opacity", isSelected ? "1" : "0.7");
-            });
+            item.on("mouseleave", function () {
+                d3.select(this)
+                    .style("opacity", isSelected ? "1" : "0.7");
+            });
+        });
+
+        let scrollPosition = this.legendScrollPosition;
+        const getMaxScroll = (): number => {
+            const contentWidth = (scrollableContent.node() as HTMLElement).scrollWidth;
+            const wrapperWidth = (scrollWrapper.node() as HTMLElement).clientWidth;
+            return Math.max(0, contentWidth - wrapperWidth);
+        };
+
+        const updateArrowStates = () => {
+            const maxScroll = getMaxScroll();
+            const hasOverflow = maxScroll > 0;
+            const leftDisabled = scrollPosition <= 0;
+            const rightDisabled = scrollPosition >= maxScroll || !hasOverflow;
+
+            scrollButtons.style("display", hasOverflow ? "flex" : "none");
+
+            [leftArrow, rightArrow].forEach((button, index) => {
+                const disabled = index === 0 ? leftDisabled : rightDisabled;
+                button
+                    .classed("is-disabled", disabled)
+                    .attr("aria-disabled", disabled ? "true" : "false")
+                    .style("opacity", disabled ? "0.38" : "1")
+                    .style("cursor", disabled ? "default" : "pointer")
+                    .style("color", disabled ? buttonDisabledColor : buttonTextColor);
+            });
+        };
+
+        const setScrollPosition = (nextPosition: number) => {
+            scrollPosition = Math.round(Math.max(0, Math.min(getMaxScroll(), nextPosition)));
+            this.legendScrollPosition = scrollPosition;
+            scrollableContent.style("transform", `translateX(-${scrollPosition}px)`);
+            updateArrowStates();
+        };
+
+        const getScrollAmount = (): number => {
+            const wrapperWidth = (scrollWrapper.node() as HTMLElement).clientWidth;
+            return Math.max(140, Math.round(wrapperWidth * 0.55));
+        };
+
+        const handleScrollLeft = () => {
+            if (scrollPosition <= 0) return;
+            setScrollPosition(scrollPosition - getScrollAmount());
+        };
+
+        const handleScrollRight = () => {
+            const maxScroll = getMaxScroll();
+            if (scrollPosition >= maxScroll) return;
+            setScrollPosition(scrollPosition + getScrollAmount());
+        };
+
+        leftArrow.on("click", handleScrollLeft);
+        rightArrow.on("click", handleScrollRight);
+
+        leftArrow.on("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                handleScrollLeft();
+            }
+        });
+
+        rightArrow.on("keydown", (event: KeyboardEvent) => {
+            if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                handleScrollRight();
+            }
+        });
+
+        scrollWrapper.on("wheel", (event: WheelEvent) => {
+            const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+            if (delta === 0 || getMaxScroll() === 0) return;
+            event.preventDefault();
+            setScrollPosition(scrollPosition + delta);
+        });
+
+        if (resetButton) {
+            resetButton.style("margin-right", `${UI_TOKENS.spacing.xs}px`);
+        }
+
+        setScrollPosition(this.legendScrollPosition);
+        requestAnimationFrame(() => {
+            setScrollPosition(this.legendScrollPosition);
+        });
+
+        this.lastLegendRenderSignature = legendRenderSignature;
+    }
+
+    /**
+     * Convert hex color to RGB object
+     */
+    /**
+     * Normalizes a Date to midnight (start of day) UTC for consistent day-level comparisons.
+     * This prevents time-component mismatches between task dates and the data date
+     * when comparing whether a task falls before/after the data date boundary.
+     */
+    private normalizeToStartOfDay(date: Date): number {
+        const d = new Date(date.getTime());
+        d.setUTCHours(0, 0, 0, 0);
+        return d.getTime();
+    }
+
+    /** Day-resolution comparisons ignore the time of day; hour resolution keeps it. */
+    private normalizeToTimeResolution(date: Date): number {
+        return this.isHourResolution() ? date.getTime() : this.normalizeToStartOfDay(date);
+    }
+
+    /**
+     * Rebuilds the working calendars from the calendar rows in the data, with the format
+     * pane Calendar Definitions layered on top. Definitions that fail to parse are logged
+     * and skipped.
+     */
+    private refreshWorkingCalendars(): void {
+        const definitions = parseCalendarDefinitions(this.settings?.calendars?.calendarDefinitions?.value);
+        definitions.errors.forEach(error => this.debugLog(`Calendar definitions: ${error}`));
+        this.workingCalendars = mergeWorkingCalendars(this.rowCalendars, definitions.calendars);
+    }
+
+    private getTaskWorkingCalendar(task: Task): WorkingCalendar | null {
+        return resolveWorkingCalendar(this.workingCalendars, task.calendarName);
+    }
+
+    /** The format-pane chosen calendar, or the only defined calendar when none is named. */
+    private getGlobalWorkingCalendar(): WorkingCalendar | null {
+        const chosen = this.settings?.calendars?.globalCalendar?.value?.trim();
+        if (chosen) {
+            return resolveWorkingCalendar(this.workingCalendars, chosen);
+        }
+        return this.workingCalendars.size === 1
+            ? this.workingCalendars.values().next().value ?? null
+            : null;
+    }
+
+    /**
+     * Working days between the displayed Start and Finish on the task's calendar, or
+     * null when the option is off or the task has no resolvable calendar.
+     */
+    private getTaskWorkingDayDuration(task: Task): number | null {
+        if (!this.settings?.calendars?.showWorkingDayDuration?.value) {
+            return null;
+        }
+
+        const calendar = this.getTaskWorkingCalendar(task);
+        const start = this.getTaskBarLabelStart(task);
+        const finish = this.getTaskBarLabelFinish(task);
+        if (!calendar || !start || !finish) {
+            return null;
+        }
+        return countWorkingDays(calendar, start, finish);
+    }
+
+    private getCpmVerificationTolerance(): number {
+        const tolerance = this.settings?.criticalPath?.verificationTolerance?.value;
+        return typeof tolerance === "number" && isFinite(tolerance) ? Math.max(0, tolerance) : 1;
+    }
+
+    /**
+     * Forces the CPM check, what-if, Monte Carlo, DCMA, critical path change and redundant
+     * logic results to be recalculated. The transform calls it because the comparison
+     * update and the playback frame rewrite the task dates and floats without changing the
+     * data signature.
+     */
+    private invalidateDerivedResults(): void {
+        this.cpmVerificationSignature = null;
+        this.whatIfSignature = null;
+        this.monteCarloSignature = null;
+        this.scheduleAssessmentSignature = null;
+        this.criticalChangeSignature = null;
+        this.redundantLogicSignature = null;
+    }
+
+    /**
+     * Re-runs the independent CPM pass when the data, tolerance or calendars change. Tasks
+     * without a resolvable calendar use the global calendar, then a seven-day week.
+     */
+    private refreshCpmVerification(): void {
+        if (!this.settings?.criticalPath?.verifyImportedSchedule?.value || this.allTasksData.length === 0) {
+            this.cpmVerification = null;
+            this.cpmVerificationSignature = null;
+            return;
+        }
+
+        const tolerance = this.getCpmVerificationTolerance();
+        const signature = [
+            this.lastDataSignature ?? "",
+            tolerance,
+            this.settings?.calendars?.calendarDefinitions?.value ?? "",
+            this.settings?.calendars?.globalCalendar?.value ?? ""
+        ].join("|");
+        if (this.cpmVerification && signature === this.cpmVerificationSignature) {
+            return;
+        }
+
+        const globalCalendar = this.getGlobalWorkingCalendar();
+        this.cpmVerification = verifyScheduleCpm(this.allTasksData, this.relationships, {
+            dataDate: this.dataDate,
+            toleranceDays: tolerance,
+            getCalendar: task => resolveWorkingCalendar(this.workingCalendars, task.calendarName) ?? globalCalendar
+        });
+        this.cpmVerificationSignature = signature;
+        this.debugLog(`CPM verification flagged ${this.cpmVerification.discrepancyTaskIds.length} task(s)`);
+    }
+
+    private getTaskCpmCheck(task: Task): CpmTaskCheck | null {
+        return this.cpmVerification?.checks.get(task.internalId) ?? null;
+    }
+
+    /** "Imported 19-Jan-26, calculated 14-Jan-26 (-3d)"; float values print in days. */
+    private formatCpmDiscrepancy(discrepancy: CpmDiscrepancy): string {
+        const formatValue = (value: Date | number): string =>
+            value instanceof Date ? this.formatLineDate(value) : `${formatDurationDays(value)}d`;
+        const sign = discrepancy.differenceDays > 0 ? "+" : "";
+        return `Imported ${formatValue(discrepancy.imported)}, calculated ${formatValue(discrepancy.calculated)} (${sign}${formatDurationDays(discrepancy.differenceDays)}d)`;
+    }
+
+    /**
+     * Re-runs the what-if simulation when the scenario or data changes. The scenario only
+     * applies to the selected task and is dropped when that task leaves the data.
+     */
+    private refreshWhatIf(): void {
+        const scenario = this.whatIfScenario;
+        if (!scenario || scenario.taskId !== this.selectedTaskId || !this.taskIdToTask.has(scenario.taskId)) {
+            this.clearWhatIfScenario();
+            return;
+        }
+
+        const signature = [
+            this.lastDataSignature ?? "",
+            scenario.taskId,
+            scenario.delayDays,
+            scenario.durationChangeDays
+        ].join("|");
+        if (this.whatIfResult && signature === this.whatIfSignature) {
+            return;
+        }
+
+        this.whatIfResult = simulateWhatIf(this.taskIdToTask, this.relationships, scenario);
+        this.whatIfSignature = signature;
+        this.debugLog(`What-if moved ${this.whatIfResult.impacts.size} task(s)`);
+    }
+
+    private clearWhatIfScenario(): void {
+        this.whatIfScenario = null;
+        this.whatIfResult = null;
+        this.whatIfSignature = null;
+    }
+
+    private setWhatIfScenario(delayDays: number, durationChangeDays: number): void {
+        const scenario: WhatIfScenario | null = this.selectedTaskId
+            ? { taskId: this.selectedTaskId, delayDays, durationChangeDays }
+            : null;
+        if (!isWhatIfScenarioActive(scenario)) {
+            this.clearWhatIfScenario();
+            this.announceToLiveRegion(this.getLocalizedString("ui.whatIfCleared", "What-if scenario cleared"));
+        } else {
+            this.whatIfScenario = scenario;
+            this.whatIfResult = null;
+            this.refreshWhatIf();
+            const finishShift = this.getWhatIfFinishShiftDays();
+            this.announceToLiveRegion(this.whatIfResult?.blockedByCycle
+                ? this.getLocalizedString("ui.whatIfBlockedByCycle", "What-if stopped: the successors of the selected task form a loop")
+                : `${this.getLocalizedString("ui.whatIfFinishMovement", "What-if finish movement")}: ${formatWhatIfShift(finishShift ?? 0)}`);
+        }
+
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
+    }
+
+    /**
+     * Re-runs the Monte Carlo simulation when the data, iteration count or seed change.
+     * Results convert to dates on the global calendar, or a seven-day week without one.
+     */
+    private refreshMonteCarlo(): void {
+        const riskSettings = this.settings?.scheduleRisk;
+        if (!riskSettings?.enableMonteCarlo?.value || this.allTasksData.length === 0) {
+            this.monteCarloResult = null;
+            this.monteCarloAnchor = null;
+            this.monteCarloSignature = null;
+            return;
+        }
+
+        const iterations = normalizeMonteCarloIterations(riskSettings.iterations?.value);
+        const seed = Math.max(1, Math.round(riskSettings.randomSeed?.value ?? 1));
+        const signature = [this.lastDataSignature ?? "", iterations, seed].join("|");
+        if (this.monteCarloResult && signature === this.monteCarloSignature) {
+            return;
+        }
+
+        const startTime = performance.now();
+        this.monteCarloAnchor = getScheduleAnchor(this.allTasksData, this.dataDate).anchor;
+        this.monteCarloResult = runMonteCarloSimulation(this.allTasksData, this.relationships, {
+            iterations,
+            seed,
+            anchor: this.monteCarloAnchor,
+            calendar: this.getGlobalWorkingCalendar()
+        });
+        this.monteCarloSignature = signature;
+        this.debugLog(`Monte Carlo ran ${iterations} iteration(s) in ${performance.now() - startTime}ms`);
+    }
+
+    private getMonteCarloFinishDate(days: number): Date | null {
+        return this.monteCarloAnchor
+            ? getWorkingDayFinishDate(this.monteCarloAnchor, days, this.getGlobalWorkingCalendar())
+            : null;
+    }
+
+    /** Header status such as "P80 12-Mar-27"; null while the simulation is off. */
+    private getScheduleRiskStatus(): string | null {
+        const result = this.monteCarloResult;
+        if (!result) {
+            return null;
+        }
+        if (result.blockedByCycle) {
+            return "Loop";
+        }
+        const p80 = this.getMonteCarloFinishDate(result.percentileFinishDays[80]);
+        return p80 ? `P80 ${this.formatLineDate(p80)}` : "No anchor";
+    }
+
+    private getTaskCriticalityIndex(task: Task): number | null {
+        return this.monteCarloResult?.criticalityIndex.get(task.internalId) ?? null;
+    }
+
+    /** Activities with an open start or finish, or dangling start or finish logic. */
+    private getOpenEndTaskIds(): Set<string> {
+        const quality = this.dataQuality;
+        return new Set(quality ? [
+            ...quality.openStartTaskIds,
+            ...quality.openFinishTaskIds,
+            ...quality.danglingStartTaskIds,
+            ...quality.danglingFinishTaskIds
+        ] : []);
+    }
+
+    /**
+     * Runs the transitive reduction only while redundant connectors are dimmed or hidden or
+     * Redundant logic has been opened, since it is the costliest pass on large networks.
+     */
+    private refreshRedundantLogic(): void {
+        if (this.getRedundantConnectorStyle() === "show" && !this.redundantLogicRequested) {
+            return;
+        }
+
+        const signature = this.lastDataSignature ?? "";
+        if (signature === this.redundantLogicSignature) {
+            return;
+        }
+
+        const startTime = performance.now();
+        const redundant = findRedundantRelationships(
+            this.allTasksData.filter(task => task.type !== "Synthetic"),
+            this.relationshipByPredecessor
+        );
+        for (const relationship of this.relationships) {
+            relationship.isRedundant = redundant?.has(relationship) ?? false;
+        }
+        this.redundantLogicComplete = redundant !== null;
+        this.redundantLogicSignature = signature;
+        this.debugLog(redundant
+            ? `Redundant logic found ${redundant.size} relationship(s) in ${performance.now() - startTime}ms`
+            : "Redundant logic not checked: network exceeds the search budget");
+    }
+
+    /** Null while redundant logic has not been checked or the network was too large. */
+    private getRedundantRelationshipCount(): number | null {
+        return this.redundantLogicSignature !== null && this.redundantLogicComplete
+            ? this.getRedundantRelationships().length
+            : null;
+    }
+
+    private getRedundantRelationships(): Relationship[] {
+        return this.relationships.filter(relationship => relationship.isRedundant === true);
+    }
+
+    private setShowOnlyOpenEnds(showOnly: boolean): void {
+        this.showOnlyOpenEnds = showOnly;
+        this.announceToLiveRegion(showOnly
+            ? this.getLocalizedString("ui.openEndsFilterOn", "Showing only open ends")
+            : this.getLocalizedString("ui.openEndsFilterOff", "Showing all tasks"));
+        this.forceFullUpdate = true;
+        if (this.lastUpdateOptions) {
+            this.update(this.lastUpdateOptions);
+        }
+    }
+
+    private getScheduleAssessmentThresholds(): DcmaThresholds {
+        const card = this.settings.scheduleAssessment;
+        return {
+            logicMaxPercent: card.logicMaxPercent.value,
+            leadsMaxPercent: card.leadsMaxPercent.value,
+            lagsMaxPercent: card.lagsMaxPercent.value,
+            finishToStartMinPercent: card.finishToStartMinPercent.value,
+            hardConstraintsMaxPercent: card.hardConstraintsMaxPercent.value,
+            highFloatDays: card.highFloatDays.value,
+            highFloatMaxPercent: card.highFloatMaxPercent.value,
+            negativeFloatMaxPercent: card.negativeFloatMaxPercent.value,
+            highDurationDays: card.highDurationDays.value,
+            highDurationMaxPercent: card.highDurationMaxPercent.value,
+            invalidDatesMaxPercent: card.invalidDatesMaxPercent.value,
+            missedTasksMaxPercent: card.missedTasksMaxPercent.value,
+            cpliMin: card.cpliMin.value,
+            beiMin: card.beiMin.value
+        };
+    }
+
+    /** Re-scores the DCMA 14 points when the data, Data Date, calendar or thresholds change. */
+    private refreshScheduleAssessment(): void {
+        if (!this.settings?.scheduleAssessment?.enableAssessment?.value || this.allTasksData.length === 0) {
+            this.scheduleAssessment = null;
+            this.scheduleAssessmentSignature = null;
+            return;
+        }
+
+        const thresholds = this.getScheduleAssessmentThresholds();
+        const calendar = this.getGlobalWorkingCalendar();
+        const signature = [
+            this.lastDataSignature ?? "",
+            this.dataDate?.getTime() ?? "",
+            calendar?.name ?? "",
+            JSON.stringify(thresholds)
+        ].join("|");
+        if (this.scheduleAssessment && signature === this.scheduleAssessmentSignature) {
+            return;
+        }
+
+        this.scheduleAssessment = assessSchedule(this.allTasksData, this.relationships, {
+            dataDate: this.dataDate,
+            thresholds,
+            calendar
         });
+        this.scheduleAssessmentSignature = signature;
+    }
 
-        let scrollPosition = this.legendScrollPosition;
-        const getMaxScroll = (): number => {
-            const contentWidth = (scrollableContent.node() as HTMLElement).scrollWidth;
-            const wrapperWidth = (scrollWrapper.node() as HTMLElement).clientWidth;
-            return Math.max(0, contentWidth - wrapperWidth);
-        };
+    /** Header status such as "9/13 pass"; null when the assessment is off. */
+    private getScheduleAssessmentStatus(): string | null {
+        const result = this.scheduleAssessment;
+        if (!result) {
+            return null;
+        }
+        const assessed = result.passCount + result.failCount;
+        return assessed > 0 ? `${result.passCount}/${assessed} pass` : "No data";
+    }
 
-        const updateArrowStates = () => {
-            const maxScroll = getMaxScroll();
-            const hasOverflow = maxScroll > 0;
-            const leftDisabled = scrollPosition <= 0;
-            const rightDisabled = scrollPosition >= maxScroll || !hasOverflow;
+    private getFloatPathSignature(): string {
+        const floatPaths = this.settings?.floatPaths;
+        if (!floatPaths?.enableFloatPaths?.value) {
+            return "";
+        }
+        return [
+            normalizeFloatPathCount(floatPaths.pathCount?.value),
+            this.isLongestPathMode() ? this.pathTargetTaskId ?? "" : ""
+        ].join("|");
+    }
 
-            scrollButtons.style("display", hasOverflow ? "flex" : "none");
+    /**
+     * Numbers activities into float paths back from the path target or latest finish
+     * and swaps the Legend field for them, so bar colours, legend chips and the legend
+     * filter all work by float path. The labels go in `derivedLegendValue`, so the bound
+     * Legend values come back when float paths are turned off.
+     */
+    private applyFloatPaths(): void {
+        for (const task of this.allTasksData) {
+            task.derivedLegendValue = undefined;
+        }
+        this.floatPathSignature = this.getFloatPathSignature();
+        if (!this.floatPathSignature) {
+            this.floatPathResult = null;
+            return;
+        }
 
-            [leftArrow, rightArrow].forEach((button, index) => {
-                const disabled = index === 0 ? leftDisabled : rightDisabled;
-                button
-                    .classed("is-disabled", disabled)
-                    .attr("aria-disabled", disabled ? "true" : "false")
-                    .style("opacity", disabled ? "0.38" : "1")
-                    .style("cursor", disabled ? "default" : "pointer")
-                    .style("color", disabled ? buttonDisabledColor : buttonTextColor);
-            });
-        };
+        const result = calculateFloatPaths(
+            this.allTasksData,
+            this.relationships,
+            normalizeFloatPathCount(this.settings.floatPaths.pathCount.value),
+            this.getActivePathTargetTaskId()
+        );
+        let hasUnassignedTask = false;
+        for (const task of this.allTasksData) {
+            const pathNumber = result.pathByTaskId.get(task.internalId);
+            hasUnassignedTask = hasUnassignedTask || pathNumber === undefined;
+            task.derivedLegendValue = getFloatPathLabel(pathNumber);
+        }
 
-        const setScrollPosition = (nextPosition: number) => {
-            scrollPosition = Math.round(Math.max(0, Math.min(getMaxScroll(), nextPosition)));
-            this.legendScrollPosition = scrollPosition;
-            scrollableContent.style("transform", `translateX(-${scrollPosition}px)`);
-            updateArrowStates();
-        };
+        this.floatPathResult = result;
+        this.legendCategories = result.paths.map(path => getFloatPathLabel(path.pathNumber));
+        if (hasUnassignedTask) {
+            this.legendCategories.push(NO_FLOAT_PATH_LABEL);
+        }
+        this.legendFieldName = this.getLocalizedString("legend.floatPath", "Float Path");
+        this.legendDataExists = this.legendCategories.length > 0;
+        this.debugLog(`Float paths numbered ${result.pathByTaskId.size} task(s) into ${result.paths.length} path(s)`);
+    }
 
-        const getScrollAmount = (): number => {
-            const wrapperWidth = (scrollWrapper.node() as HTMLElement).clientWidth;
-            return Math.max(140, Math.round(wrapperWidth * 0.55));
+    private getCriticalChangeOptions(): CriticalChangeOptions {
+        const erosionThreshold = this.settings?.criticalPathChange?.erosionThresholdDays?.value;
+        return {
+            nearCriticalDays: this.showNearCritical ? this.floatThreshold : 0,
+            erosionThresholdDays: typeof erosionThreshold === "number" && isFinite(erosionThreshold)
+                ? Math.max(0, erosionThreshold)
+                : DEFAULT_EROSION_THRESHOLD_DAYS
         };
+    }
 
-        const handleScrollLeft = () => {
-            if (scrollPosition <= 0) return;
-            setScrollPosition(scrollPosition - getScrollAmount());
-        };
+    /** Re-classifies total float against the previous update when the data or thresholds change. */
+    private refreshCriticalPathChanges(): void {
+        const options = this.getCriticalChangeOptions();
+        const signature = [this.lastDataSignature ?? "", options.nearCriticalDays, options.erosionThresholdDays].join("|");
+        if (signature === this.criticalChangeSignature) {
+            return;
+        }
 
-        const handleScrollRight = () => {
-            const maxScroll = getMaxScroll();
-            if (scrollPosition >= maxScroll) return;
-            setScrollPosition(scrollPosition + getScrollAmount());
-        };
+        this.criticalChanges = new Map();
+        for (const task of this.allTasksData) {
+            const change = classifyCriticalChange(task.userProvidedTotalFloat, task.previousUpdateTotalFloat, options);
+            if (change) {
+                this.criticalChanges.set(task.internalId, change);
+            }
+        }
+        this.criticalChangeSignature = signature;
+    }
 
-        leftArrow.on("click", handleScrollLeft);
-        rightArrow.on("click", handleScrollRight);
+    private getCriticalChangeLegendSignature(): string {
+        if (!this.settings?.criticalPathChange?.colourByChange?.value || this.getFloatPathSignature()) {
+            return "";
+        }
+        const options = this.getCriticalChangeOptions();
+        return `${options.nearCriticalDays}|${options.erosionThresholdDays}`;
+    }
 
-        leftArrow.on("keydown", (event: KeyboardEvent) => {
-            if (event.key === "Enter" || event.key === " ") {
-                event.preventDefault();
-                handleScrollLeft();
-            }
-        });
+    /**
+     * Swaps the Legend field for each activity's critical path change, the same way float
+     * paths do (through `derivedLegendValue`), so bars, legend chips and the legend filter
+     * work by change. Float paths win when both are on, and the Legend field stays when no
+     * activity has both floats.
+     */
+    private applyCriticalChangeLegend(): void {
+        this.criticalChangeLegendSignature = this.getCriticalChangeLegendSignature();
+        if (!this.criticalChangeLegendSignature) {
+            return;
+        }
 
-        rightArrow.on("keydown", (event: KeyboardEvent) => {
-            if (event.key === "Enter" || event.key === " ") {
-                event.preventDefault();
-                handleScrollRight();
-            }
-        });
+        // The transform has replaced the tasks, so classify them again.
+        this.criticalChangeSignature = null;
+        this.refreshCriticalPathChanges();
+        if (this.criticalChanges.size === 0) {
+            return;
+        }
 
-        scrollWrapper.on("wheel", (event: WheelEvent) => {
-            const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
-            if (delta === 0 || getMaxScroll() === 0) return;
-            event.preventDefault();
-            setScrollPosition(scrollPosition + delta);
-        });
+        const usedLabels = new Set<string>();
+        for (const task of this.allTasksData) {
+            task.derivedLegendValue = getCriticalChangeStatusLabel(this.criticalChanges.get(task.internalId)?.status);
+            usedLabels.add(task.derivedLegendValue);
+        }
+        this.legendCategories = [...CRITICAL_CHANGE_STATUSES.map(status => getCriticalChangeStatusLabel(status)), NO_PREVIOUS_FLOAT_LABEL]
+            .filter(label => usedLabels.has(label));
+        this.legendFieldName = this.getLocalizedString("legend.criticalPathChange", "CP Change");
+        this.legendDataExists = this.legendCategories.length > 0;
+    }
 
-        if (resetButton) {
-            resetButton.style("margin-right", `${UI_TOKENS.spacing.xs}px`);
+    /** Legend category the task is coloured and filtered by. */
+    private getTaskLegendValue(task: Task): string | undefined {
+        return task.derivedLegendValue ?? task.legendValue;
+    }
+
+    private getTaskCriticalChange(task: Task): CriticalChange | null {
+        return this.criticalChanges.get(task.internalId) ?? null;
+    }
+
+    /** Header status such as "4 changed"; null without Previous Update Total Float. */
+    private getCriticalPathChangeStatus(): string | null {
+        if (!this.boundFields.previousUpdateFloatAvailable || this.criticalChanges.size === 0) {
+            return null;
         }
+        const changedCount = rankCriticalChanges(this.criticalChanges).length;
+        return changedCount > 0 ? `${changedCount} changed` : "No change";
+    }
 
-        setScrollPosition(this.legendScrollPosition);
-        requestAnimationFrame(() => {
-            setScrollPosition(this.legendScrollPosition);
-        });
+    /** Live-region summary such as "2 Newly Critical, 1 No Longer Critical since the previous update". */
+    private getCriticalPathChangeSummary(): string | null {
+        if (!this.boundFields.previousUpdateFloatAvailable || this.criticalChanges.size === 0) {
+            return null;
+        }
+        const counts = countCriticalChanges(this.criticalChanges);
+        const parts = CRITICAL_CHANGE_STATUSES
+            .filter(status => status !== "unchanged" && counts[status] > 0)
+            .map(status => `${counts[status]} ${getCriticalChangeStatusLabel(status)}`);
+        return parts.length > 0
+            ? `${parts.join(", ")} since the previous update`
+            : "No critical path change since the previous update";
+    }
 
-        this.lastLegendRenderSignature = legendRenderSignature;
+    private getTaskFloatPathNumber(task: Task): number | null {
+        return this.floatPathResult?.pathByTaskId.get(task.internalId) ?? null;
     }
 
-    /**
-     * Convert hex color to RGB object
-     */
-    /**
-     * Normalizes a Date to midnight (start of day) UTC for consistent day-level comparisons.
-     * This prevents time-component mismatches between task dates and the data date
-     * when comparing whether a task falls before/after the data date boundary.
-     */
-    private normalizeToStartOfDay(date: Date): number {
-        const d = new Date(date.getTime());
-        d.setUTCHours(0, 0, 0, 0);
-        return d.getTime();
+    private getWhatIfImpact(task: Task): WhatIfTaskImpact | null {
+        return this.whatIfResult?.impacts.get(task.internalId) ?? null;
+    }
+
+    /** Movement of the latest finish in the data; null without an active scenario. */
+    private getWhatIfFinishShiftDays(): number | null {
+        const result = this.whatIfResult;
+        if (!result || result.blockedByCycle) {
+            return null;
+        }
+
+        let originalFinish = -Infinity;
+        let simulatedFinish = -Infinity;
+        for (const task of this.allTasksData) {
+            if (!(task.finishDate instanceof Date) || isNaN(task.finishDate.getTime())) {
+                continue;
+            }
+            originalFinish = Math.max(originalFinish, task.finishDate.getTime());
+            simulatedFinish = Math.max(simulatedFinish, (result.impacts.get(task.internalId)?.simulatedFinish ?? task.finishDate).getTime());
+        }
+        return isFinite(originalFinish) ? (simulatedFinish - originalFinish) / 86400000 : null;
     }
 
     private hexToRgb(hex: string): { r: number; g: number; b: number } {
@@ -18640,6 +21789,65 @@ export class Visual implements IVisual {
         );
     }
 
+    /** Constraint glyphs for one task row; edges are the pixel bounds of the plotted bar or milestone. */
+    private getTaskConstraintGlyphs(
+        task: Task,
+        startX: number,
+        finishX: number,
+        top: number,
+        height: number
+    ): Array<{ glyph: ConstraintGlyph; isHard: boolean }> {
+        if (!this.settings.taskBars.showConstraintGlyphs.value) {
+            return [];
+        }
+
+        const size = Math.max(3, Math.round(Math.min(6, height * 0.45)));
+        const glyphs: Array<{ glyph: ConstraintGlyph; isHard: boolean }> = [];
+        for (const constraint of getTaskConstraints(task)) {
+            const edge = getConstraintEdge(constraint.type);
+            const edgeX = edge === "start" ? startX : finishX;
+            if (!edge || !isFinite(edgeX)) {
+                continue;
+            }
+            glyphs.push({
+                glyph: getConstraintGlyph(edgeX, top, height, edge, size),
+                isHard: isHardConstraint(constraint.type)
+            });
+        }
+        return glyphs;
+    }
+
+    private getActualBarColor(): string {
+        return this.resolveColor(this.settings.taskBars.actualBarColor.value.value, "foreground");
+    }
+
+    /** Thin band centred in the bar; the caller supplies the bar's top offset so SVG and canvas can share it. */
+    private getPercentCompleteBand(
+        geometry: TaskBarGeometry,
+        xScale: ScaleTime<number, number>,
+        barTop: number,
+        barHeight: number
+    ): { x: number; y: number; w: number; h: number } | null {
+        const segment = geometry.percentCompleteSegment;
+        if (!segment || !this.settings.taskBars.showPercentComplete.value) {
+            return null;
+        }
+
+        const startX = this.snapRectCoord(xScale(segment.start));
+        const finishX = this.snapRectCoord(xScale(segment.finish));
+        if (!isFinite(startX) || !isFinite(finishX) || finishX - startX < 1) {
+            return null;
+        }
+
+        const h = Math.max(2, Math.round(barHeight * 0.3));
+        return {
+            x: startX,
+            y: this.snapRectCoord(barTop + (barHeight - h) / 2),
+            w: finishX - startX,
+            h
+        };
+    }
+
     private shouldApplyCriticalFormatToSegment(segment: TaskBarSegment): boolean {
         return shouldApplyCriticalFormatToTaskBarSegment(segment);
     }
@@ -18732,7 +21940,7 @@ export class Visual implements IVisual {
             return null;
         }
 
-        const startTime = this.normalizeToStartOfDay(dataDate);
+        const startTime = this.normalizeToTimeResolution(dataDate);
         const start = new Date(startTime);
         const end = new Date(startTime);
         end.setUTCDate(end.getUTCDate() + days);
@@ -18772,6 +21980,24 @@ export class Visual implements IVisual {
         return this.getLookAheadDisplayMode() === "filter" && this.getLookAheadWindow() !== null;
     }
 
+    /**
+     * Settings the data transform reads while building tasks: predecessor parsing, duration
+     * units, hour timescale durations, project grouping, curtain task type and the
+     * calculation mode. A change re-runs the transform like a data change.
+     */
+    private getProcessingSettingsSignature(): string {
+        const settings = this.settings;
+        return [
+            settings?.relationshipData?.predecessorFormat?.value?.value ?? "",
+            settings?.calendars?.hoursPerDay?.value ?? "",
+            settings?.calendars?.daysPerWeek?.value ?? "",
+            settings?.gridLines?.timeResolution?.value?.value ?? "",
+            settings?.wbsGrouping?.groupByProject?.value ?? "",
+            settings?.curtains?.curtainTaskType?.value ?? "",
+            settings?.criticalPath?.calculationMode?.value?.value ?? ""
+        ].join("|");
+    }
+
     private getLookAheadFilterSignature(): string {
         return JSON.stringify({
             displayMode: this.getLookAheadDisplayMode(),
@@ -18798,14 +22024,14 @@ export class Visual implements IVisual {
             if (!(milestoneDate instanceof Date) || isNaN(milestoneDate.getTime())) {
                 return false;
             }
-            const milestoneTime = this.normalizeToStartOfDay(milestoneDate);
+            const milestoneTime = this.normalizeToTimeResolution(milestoneDate);
             return milestoneTime >= lookAheadWindow.startTime && milestoneTime <= lookAheadWindow.endTime;
         }
 
         const geometry = this.getTaskBarGeometry(task);
         return geometry.segments.some(segment => {
-            const startTime = this.normalizeToStartOfDay(segment.start);
-            const finishTime = this.normalizeToStartOfDay(segment.finish);
+            const startTime = this.normalizeToTimeResolution(segment.start);
+            const finishTime = this.normalizeToTimeResolution(segment.finish);
             return finishTime >= lookAheadWindow.startTime && startTime <= lookAheadWindow.endTime;
         });
     }
@@ -18823,9 +22049,9 @@ export class Visual implements IVisual {
             return null;
         }
 
-        const ddTime = this.normalizeToStartOfDay(dataDate);
-        const startTime = this.normalizeToStartOfDay(start);
-        const finishTime = this.normalizeToStartOfDay(finish);
+        const ddTime = this.normalizeToTimeResolution(dataDate);
+        const startTime = this.normalizeToTimeResolution(start);
+        const finishTime = this.normalizeToTimeResolution(finish);
 
         if (startTime >= ddTime) {
             return null;
@@ -19370,6 +22596,22 @@ export class Visual implements IVisual {
         const longestPathLabel = this.getLocalizedString("tooltip.activityIsLongestPath", "Activity Is Longest Path");
         const nearCriticalLabel = this.getLocalizedString("tooltip.nearCriticalThreshold", "Near Critical Threshold");
         const lookAheadLabel = this.getLocalizedString("tooltip.lookAhead", "Look-Ahead Window");
+        const curtainLabel = this.getLocalizedString("tooltip.curtain", "Curtain");
+        const cpmCheckLabel = this.getLocalizedString("tooltip.cpmCheck", "CPM Check");
+        const whatIfLabel = this.getLocalizedString("tooltip.whatIf", "What-if");
+        const floatPathLabel = this.getLocalizedString("tooltip.floatPath", "Float Path");
+        const previousTotalFloatLabel = this.getLocalizedString("tooltip.previousTotalFloat", "Previous Total Float");
+        const criticalChangeLabel = this.getLocalizedString("tooltip.criticalPathChange", "CP Change");
+        const criticalityIndexLabel = this.getLocalizedString("tooltip.criticalityIndex", "Criticality Index");
+        const actualStartLabel = this.getLocalizedString("tooltip.actualStart", "Actual Start");
+        const actualFinishLabel = this.getLocalizedString("tooltip.actualFinish", "Actual Finish");
+        const percentCompleteLabel = this.getLocalizedString("tooltip.percentComplete", "% Complete");
+        const constraintLabel = this.getLocalizedString("tooltip.constraint", "Constraint");
+        const secondaryConstraintLabel = this.getLocalizedString("tooltip.secondaryConstraint", "Secondary Constraint");
+        const drivingHardConstraintLabel = this.getLocalizedString("tooltip.hardConstraintOnDrivingPath", "Hard Constraint On Driving Path");
+        const calendarLabel = this.getLocalizedString("tooltip.calendar", "Calendar");
+        const workingDaysLabel = this.getLocalizedString("tooltip.workingDays", "Working Days");
+        const projectLabel = this.getLocalizedString("tooltip.project", "Project");
 
         const isNoCalculationMode = mode === "none";
         const modeValue = isNoCalculationMode
@@ -19421,6 +22663,45 @@ export class Visual implements IVisual {
 
         const finishText = this.formatDate(this.getTaskBarLabelFinish(task));
         if (finishText) items.push({ displayName: finishLabel, value: finishText });
+        const slipTrail = this.getTaskSlipTrail(task);
+        if (slipTrail.length > 0) {
+            items.push({
+                displayName: this.getLocalizedString("tooltip.finishHistory", "Finish History"),
+                value: slipTrail.map(marker => this.formatSlipTrailMarker(marker)).join(", ")
+            });
+        }
+
+        const actualStartText = this.formatDate(task.actualStartDate);
+        if (actualStartText) items.push({ displayName: actualStartLabel, value: actualStartText });
+
+        const actualFinishText = this.formatDate(task.actualFinishDate);
+        if (actualFinishText) items.push({ displayName: actualFinishLabel, value: actualFinishText });
+
+        const percentCompleteText = this.formatPercentComplete(task.percentComplete);
+        if (percentCompleteText) items.push({ displayName: percentCompleteLabel, value: percentCompleteText });
+
+        for (const constraint of getTaskConstraints(task)) {
+            const hardSuffix = isHardConstraint(constraint.type) ? ` (${this.getLocalizedString("tooltip.constraint.hard", "hard")})` : "";
+            items.push({
+                displayName: constraint.isPrimary ? constraintLabel : secondaryConstraintLabel,
+                value: `${this.formatTaskConstraint(constraint)}${hardSuffix}`
+            });
+        }
+        if (mode === "longestPath" && task.isLongestPath === true && hasHardConstraint(task)) {
+            items.push({ displayName: drivingHardConstraintLabel, value: this.getLocalizedString("tooltip.status.yes", "Yes") });
+        }
+
+        if (task.projectId) {
+            items.push({ displayName: projectLabel, value: task.projectId });
+        }
+
+        if (task.calendarName) {
+            items.push({ displayName: calendarLabel, value: task.calendarName });
+            const workingDays = this.getTaskWorkingDayDuration(task);
+            if (workingDays !== null) {
+                items.push({ displayName: workingDaysLabel, value: workingDays.toFixed(0) });
+            }
+        }
 
         const lookAheadWindow = this.getLookAheadWindow();
         if (this.isTaskInLookAheadWindow(task, lookAheadWindow) && lookAheadWindow) {
@@ -19430,6 +22711,53 @@ export class Visual implements IVisual {
             });
         }
 
+        for (const curtain of this.getTaskCurtains(task)) {
+            items.push({
+                displayName: curtainLabel,
+                value: `${curtain.label}: ${this.formatLineDate(curtain.start)} - ${this.formatLineDate(curtain.finish)}`
+            });
+        }
+
+        const cpmCheck = this.getTaskCpmCheck(task);
+        if (cpmCheck && !cpmCheck.isComplete) {
+            if (cpmCheck.discrepancies.length === 0) {
+                items.push({ displayName: cpmCheckLabel, value: this.getLocalizedString("tooltip.cpmCheck.matches", "Matches imported dates and float") });
+            }
+            for (const discrepancy of cpmCheck.discrepancies) {
+                items.push({
+                    displayName: `${cpmCheckLabel} ${getCpmCheckFieldLabel(discrepancy.field)}`,
+                    value: this.formatCpmDiscrepancy(discrepancy)
+                });
+            }
+        }
+
+        const criticalityIndex = this.getTaskCriticalityIndex(task);
+        if (criticalityIndex !== null) {
+            items.push({ displayName: criticalityIndexLabel, value: formatCriticalityIndex(criticalityIndex) });
+        }
+
+        if (this.floatPathResult) {
+            items.push({ displayName: floatPathLabel, value: getFloatPathLabel(this.getTaskFloatPathNumber(task)) });
+        }
+
+        const criticalChange = this.getTaskCriticalChange(task);
+        if (criticalChange) {
+            items.push({ displayName: previousTotalFloatLabel, value: formatFloatDays(criticalChange.previousFloat) });
+            items.push({ displayName: criticalChangeLabel, value: formatCriticalChangeSummary(criticalChange) });
+        }
+
+        const whatIfImpact = this.getWhatIfImpact(task);
+        if (whatIfImpact) {
+            items.push({
+                displayName: `${whatIfLabel} ${startLabel}`,
+                value: `${this.formatLineDate(whatIfImpact.simulatedStart)} (${formatWhatIfShift(whatIfImpact.startShiftDays)})`
+            });
+            items.push({
+                displayName: `${whatIfLabel} ${finishLabel}`,
+                value: `${this.formatLineDate(whatIfImpact.simulatedFinish)} (${formatWhatIfShift(whatIfImpact.finishShiftDays)})`
+            });
+        }
+
         items.push({ displayName: modeLabel, value: modeValue });
         if (statusValue) {
             items.push({ displayName: statusLabel, value: statusValue });
@@ -19453,7 +22781,7 @@ export class Visual implements IVisual {
                 items.push({ displayName: taskFreeFloatLabel, value: `${task.taskFreeFloat.toFixed(2)} days` });
             }
         } else if (mode === "longestPath" || isNoCalculationMode) {
-            items.push({ displayName: durationLabel, value: `${task.duration} days` });
+            items.push({ displayName: durationLabel, value: this.formatTaskDuration(task.duration, "tooltip") });
         }
 
         if (task.tooltipData && task.tooltipData.length > 0) {
@@ -19610,6 +22938,8 @@ export class Visual implements IVisual {
                 return this.getLocalizedString("role.finishDate", "Finish Date");
             case "predecessorId":
                 return this.getLocalizedString("role.predecessorId", "Predecessor ID");
+            case "successorId":
+                return this.getLocalizedString("role.successorId", "Successor ID");
             case "relationshipType":
                 return this.getLocalizedString("role.relationshipType", "Relationship Type");
             case "relationshipLag":
@@ -19620,6 +22950,8 @@ export class Visual implements IVisual {
                 return this.getLocalizedString("role.legend", "Legend");
             case "tooltip":
                 return this.getLocalizedString("role.tooltip", "Tooltip");
+            case "projectId":
+                return this.getLocalizedString("role.projectId", "Project ID");
             case "wbsLevels":
                 return this.getLocalizedString("role.wbsLevels", "WBS Levels");
             case "baselineStartDate":
@@ -19630,6 +22962,34 @@ export class Visual implements IVisual {
                 return this.getLocalizedString("role.previousUpdateStartDate", "Previous Update Start Date");
             case "previousUpdateFinishDate":
                 return this.getLocalizedString("role.previousUpdateFinishDate", "Previous Update Finish Date");
+            case "actualStartDate":
+                return this.getLocalizedString("role.actualStartDate", "Actual Start");
+            case "actualFinishDate":
+                return this.getLocalizedString("role.actualFinishDate", "Actual Finish");
+            case "percentComplete":
+                return this.getLocalizedString("role.percentComplete", "Percent Complete");
+            case "constraintType":
+                return this.getLocalizedString("role.constraintType", "Constraint Type");
+            case "constraintDate":
+                return this.getLocalizedString("role.constraintDate", "Constraint Date");
+            case "secondaryConstraintType":
+                return this.getLocalizedString("role.secondaryConstraintType", "Secondary Constraint Type");
+            case "secondaryConstraintDate":
+                return this.getLocalizedString("role.secondaryConstraintDate", "Secondary Constraint Date");
+            case "calendar":
+                return this.getLocalizedString("role.calendar", "Calendar");
+            case "calendarWorkWeek":
+                return this.getLocalizedString("role.calendarWorkWeek", "Calendar Work Week");
+            case "calendarExceptionDate":
+                return this.getLocalizedString("role.calendarExceptionDate", "Calendar Non-Working Date");
+            case "curtainLabel":
+                return this.getLocalizedString("role.curtainLabel", "Curtain Label");
+            case "curtainStart":
+                return this.getLocalizedString("role.curtainStart", "Curtain Start");
+            case "curtainFinish":
+                return this.getLocalizedString("role.curtainFinish", "Curtain Finish");
+            case "curtainCategory":
+                return this.getLocalizedString("role.curtainCategory", "Curtain Category / Color");
             case "dataDate":
                 return this.getLocalizedString("role.dataDate", "Data Date");
             default:
@@ -19677,16 +23037,24 @@ export class Visual implements IVisual {
             "taskName",
             "taskType",
             "predecessorId",
+            "successorId",
             "relationshipType",
             "relationshipLag",
             "relationshipFreeFloat",
             "legend",
             "tooltip",
+            "projectId",
             "wbsLevels",
             "baselineStartDate",
             "baselineFinishDate",
             "previousUpdateStartDate",
             "previousUpdateFinishDate",
+            "actualStartDate",
+            "actualFinishDate",
+            "percentComplete",
+            "constraintType",
+            "constraintDate",
+            "calendar",
             "dataDate",
             "taskFreeFloat"
         ];
@@ -19752,33 +23120,168 @@ export class Visual implements IVisual {
                 .text(isMissing ? `${displayName} ${missingSuffix}` : displayName);
         }
 
-        const optionalSection = card.append("div");
-        optionalSection.append("div")
-            .style("font-size", "12px")
-            .style("font-weight", "600")
-            .style("margin-bottom", "6px")
-            .text(optionalTitle);
+        const optionalSection = card.append("div");
+        optionalSection.append("div")
+            .style("font-size", "12px")
+            .style("font-weight", "600")
+            .style("margin-bottom", "6px")
+            .text(optionalTitle);
+
+        const optionalList = optionalSection.append("ul")
+            .style("margin", "0")
+            .style("padding-left", "18px")
+            .style("font-size", "12px");
+
+        for (const role of optionalRoles) {
+            optionalList.append("li")
+                .style("margin-bottom", "4px")
+                .text(this.getRoleDisplayName(role));
+        }
+    }
+
+    // ============================================================================
+    // Help Overlay Functionality
+    // ============================================================================
+
+    /**
+     * Shows the help overlay with user guide content
+     */
+    private showHelpOverlay(): void {
+        this.showOverlayDialog({
+            idPrefix: "help",
+            iconText: "?",
+            title: this.getLocalizedString("ui.helpDialogTitle", "User Guide"),
+            description: this.getLocalizedString(
+                "ui.helpDialogDescription",
+                "Usage guidance for controls, tracing, filtering, exports, and accessibility in the current visual."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeHelp", "Close help"),
+            buildContent: content => this.buildHelpContent(content)
+        });
+    }
+
+    /**
+     * Shows the schedule check: tasks whose imported dates or float differ from the
+     * independent CPM pass. Rows select the task and scroll it into view.
+     */
+    private showScheduleCheckOverlay(): void {
+        this.showOverlayDialog({
+            idPrefix: "schedule-check",
+            iconText: "!",
+            title: this.getLocalizedString("ui.scheduleCheckTitle", "Schedule Check"),
+            description: this.getLocalizedString(
+                "ui.scheduleCheckDescription",
+                "Compares imported Start, Finish and Total Float with a full-network forward and backward pass so stale or partial exports can be caught before a path is presented."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeScheduleCheck", "Close schedule check"),
+            buildContent: content => this.buildScheduleCheckContent(content)
+        });
+    }
+
+    /**
+     * Shows the Monte Carlo results: P50/P80/P90 finishes, the finish histogram with its
+     * S-curve, and the tasks most often critical. Rows select the task.
+     */
+    private showScheduleRiskOverlay(): void {
+        this.showOverlayDialog({
+            idPrefix: "schedule-risk",
+            iconText: "%",
+            title: this.getLocalizedString("ui.scheduleRiskTitle", "Schedule Risk"),
+            description: this.getLocalizedString(
+                "ui.scheduleRiskDescription",
+                "Monte Carlo simulation of the remaining work: durations are sampled between the minimum, most likely and maximum values and the network is re-run for every iteration."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeScheduleRisk", "Close schedule risk"),
+            buildContent: content => this.buildScheduleRiskContent(content)
+        });
+    }
+
+    /**
+     * Lists open ends and dangling logic by kind, with the "Show only open ends" filter
+     * toggle. Rows select the task and scroll it into view.
+     */
+    private showOpenEndsOverlay(): void {
+        this.showOverlayDialog({
+            idPrefix: "open-ends",
+            iconText: "!",
+            title: this.getLocalizedString("ui.openEndsTitle", "Open Ends"),
+            description: this.getLocalizedString(
+                "ui.openEndsDescription",
+                "Activities whose start or finish is not tied into the network. The project start may have no predecessor and the project finish no successor."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeOpenEnds", "Close open ends"),
+            buildContent: content => this.buildOpenEndsContent(content)
+        });
+    }
 
-        const optionalList = optionalSection.append("ul")
-            .style("margin", "0")
-            .style("padding-left", "18px")
-            .style("font-size", "12px");
+    /**
+     * Ranks activities whose total float moved them into or out of the critical and
+     * near-critical set, or eroded it, since the previous update. Rows select the task.
+     */
+    private showFloatErosionOverlay(): void {
+        this.refreshCriticalPathChanges();
+        this.showOverlayDialog({
+            idPrefix: "float-erosion",
+            iconText: "\u0394",
+            title: this.getLocalizedString("ui.floatErosionTitle", "Float Erosion"),
+            description: this.getLocalizedString(
+                "ui.floatErosionDescription",
+                "Task Total Float compared with Previous Update Total Float. Activities that joined or left the critical or near-critical set, or lost at least the erosion threshold, are ranked by lost float."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeFloatErosion", "Close float erosion"),
+            buildContent: content => this.buildFloatErosionContent(content)
+        });
+    }
 
-        for (const role of optionalRoles) {
-            optionalList.append("li")
-                .style("margin-bottom", "4px")
-                .text(this.getRoleDisplayName(role));
+    /**
+     * Lists relationships implied by other logic, with a Copy table export. Rows select
+     * the predecessor.
+     */
+    private showRedundantLogicOverlay(): void {
+        if (!this.redundantLogicRequested) {
+            this.redundantLogicRequested = true;
+            this.refreshRedundantLogic();
+            if (this.lastUpdateOptions) {
+                this.updateHeaderElements(this.lastUpdateOptions.viewport.width);
+            }
         }
+        this.showOverlayDialog({
+            idPrefix: "redundant-logic",
+            iconText: "\u2192",
+            title: this.getLocalizedString("ui.redundantLogicTitle", "Redundant Logic"),
+            description: this.getLocalizedString(
+                "ui.redundantLogicDescription",
+                "Relationships already implied by another route between the same activities, allowing for relationship type, lag and duration. Removing them does not change the dates."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeRedundantLogic", "Close redundant logic"),
+            buildContent: content => this.buildRedundantLogicContent(content)
+        });
     }
 
-    // ============================================================================
-    // Help Overlay Functionality
-    // ============================================================================
+    /**
+     * Shows the DCMA 14-point assessment: one row per check with its value and threshold,
+     * and the offending activities under each failing check. Activity rows select the task.
+     */
+    private showScheduleAssessmentOverlay(): void {
+        this.refreshScheduleAssessment();
+        this.showOverlayDialog({
+            idPrefix: "schedule-assessment",
+            iconText: "14",
+            title: this.getLocalizedString("ui.scheduleAssessmentTitle", "DCMA 14-Point Assessment"),
+            description: this.getLocalizedString(
+                "ui.scheduleAssessmentDescription",
+                "Scores the bound schedule against the DCMA 14-point checks. Thresholds are set in the Schedule Assessment format card."
+            ),
+            closeLabel: this.getLocalizedString("ui.closeScheduleAssessment", "Close schedule assessment"),
+            buildContent: content => this.buildScheduleAssessmentContent(content)
+        });
+    }
 
     /**
-     * Shows the help overlay with user guide content
+     * Builds the modal card shared by the help, schedule check and schedule risk dialogs.
+     * Only one can be open at a time; all use the help overlay's focus trap and Escape handling.
      */
-    private showHelpOverlay(): void {
+    private showOverlayDialog(options: OverlayDialogOptions): void {
         if (this.isHelpOverlayVisible) return;
 
         this.isHelpOverlayVisible = true;
@@ -19787,14 +23290,8 @@ export class Visual implements IVisual {
             ? document.activeElement
             : null;
 
-        const dialogTitleId = this.getScopedId("help-dialog-title");
-        const dialogDescriptionId = this.getScopedId("help-dialog-description");
-        const helpTitle = this.getLocalizedString("ui.helpDialogTitle", "User Guide");
-        const helpDescription = this.getLocalizedString(
-            "ui.helpDialogDescription",
-            "Usage guidance for controls, tracing, filtering, exports, and accessibility in the current visual."
-        );
-        const closeHelpLabel = this.getLocalizedString("ui.closeHelp", "Close help");
+        const dialogTitleId = this.getScopedId(`${options.idPrefix}-dialog-title`);
+        const dialogDescriptionId = this.getScopedId(`${options.idPrefix}-dialog-description`);
         const closeGuideLabel = this.getLocalizedString("ui.helpDialogClose", "Close");
 
         // Create overlay container that covers the entire visual
@@ -19871,18 +23368,18 @@ export class Visual implements IVisual {
             .attr('font-size', 14)
             .attr('font-weight', 600)
             .attr('fill', UI_TOKENS.color.primary.default)
-            .text('?');
+            .text(options.iconText);
 
         headerTitle.append('span')
             .attr('id', dialogTitleId)
             .style('font-size', '20px')
             .style('font-weight', '600')
-            .text(helpTitle);
+            .text(options.title);
 
         // Close button with X icon - using safe DOM manipulation
         const closeBtn = header.append('button')
             .attr('type', 'button')
-            .attr('aria-label', closeHelpLabel)
+            .attr('aria-label', options.closeLabel)
             .style('background', 'none')
             .style('border', 'none')
             .style('cursor', 'pointer')
@@ -19921,10 +23418,9 @@ export class Visual implements IVisual {
             .style('margin', '0 0 16px 0')
             .style('font-size', '13px')
             .style('color', this.getForegroundColor())
-            .text(helpDescription);
+            .text(options.description);
 
-        // Build help content
-        this.buildHelpContent(content);
+        options.buildContent(content);
 
         // Footer with close button
         const footer = card.append('div')
@@ -20084,7 +23580,8 @@ export class Visual implements IVisual {
         const cpmPara = modeSection.append('p')
             .style('font-size', '13px')
             .style('margin-bottom', '8px');
-        cpmPara.text('Calculates driving relationships from the lowest signed Relationship Free Float entering each successor, including negative values and tied minima, then traces every driving relationship back from the latest-finish activities.');
+        cpmPara.text('Calculates driving relationships from the lowest signed Relationship Free Float entering each successor, including negative values and tied minima, then traces every driving relationship back from the latest-finish activities. ' +
+            `Relationship float source in use: ${this.getRelationshipFloatMethodLabel()}.`);
 
         addSubtitle(modeSection, 'Float-Based');
         const floatPara = modeSection.append('p')
@@ -20102,8 +23599,26 @@ export class Visual implements IVisual {
 
         const modeList = createList(modeSection);
         addListItem(modeList, 'Show All / Critical', 'Switch between the full filtered schedule and a focused critical view. In Float mode, near-critical tasks can remain highlighted while the visible set follows the active Show All or Critical choice.');
-        addListItem(modeList, 'Relationship Free Float', 'Every relationship in the calculation scope requires a finite Relationship Free Float. The lowest signed incoming value per successor and all ties are driving.');
+        addListItem(modeList, 'Relationship Free Float', 'Every relationship in the calculation scope requires a finite Relationship Free Float unless Derive Relationship Float From Dates is on. The lowest signed incoming value per successor and all ties are driving.');
+        addListItem(modeList, 'Playback', 'With a Snapshot Date history, Playback in the controls menu steps through the updates oldest first, redrawing bars, progress, the critical path and the Data Date line as they stood in each one. Play advances one update per tick at the chosen speed and stops on the latest; it is unavailable when the system asks for reduced motion, but stepping still works. PNG frames downloads one image per update for building an animation offline.');
+        addListItem(modeList, 'Schedule History', 'Bind Snapshot Date to load several schedule updates of the same Task IDs at once. The latest update is drawn; rows without a Snapshot Date count as part of it. Each earlier finish an activity has moved away from is marked on its row as a slip trail, listed under Finish History in the tooltip and coloured under Schedule History. Comparison update in the controls menu chooses the update the Previous Update bars, progress line and critical path change compare against; by default it is the update before the latest, or the Previous Update fields when they are bound.');
+        addListItem(modeList, 'Milestone Trend', 'Milestone trend in the controls menu replaces the Gantt with a Milestone Trend Analysis chart. Each milestone in the current filter is a line across its Baseline, Previous Update and current Finish, or across every update when Snapshot Date is bound, with the report dates under the columns, higher meaning later. A rising line is a slipping milestone; the label at the end shows the total slip. Lines use the legend colours, up to 40 milestones are drawn with the earliest forecast first, and Export PNG or the PDF export saves the chart. Show Gantt or the menu item switches back.');
+        addListItem(modeList, 'Float Erosion', 'Bind Previous Update Total Float alongside Task Total Float to compare float with the previous update. An activity is Newly Critical when its float falls to zero or less, Newly Near-Critical when it falls within the near-critical threshold, and No Longer Critical or No Longer Near-Critical when it leaves that band. Activities that stay in the same band but lose at least Critical Path Change > Float Erosion Threshold are Float Eroded. Float erosion in the controls menu ranks the changed activities by lost float, clicking a row selects the activity, and Copy table exports the ranking. The CP Change column and tooltip show each activity\'s status, and Colour By Change colours bars and legend chips by status so the legend can filter to them. Showing the previous update also announces the counts.');
+        addListItem(modeList, 'Derived Relationship Float', 'When the data has no Relationship Free Float, turn on Critical Path > Derive Relationship Float From Dates to let Longest Path run on float calculated from the linked dates instead. Each relationship\'s float is the working days on the predecessor\'s calendar from its start or finish to the successor\'s start or finish, as the relationship type links them, less the lag. While on, the derived value replaces any supplied float for every relationship, the path selector hover text, this help and copied exports name the method, and connector tooltips show the derived float and how far it differs from the supplied value when both exist.');
+        addListItem(modeList, 'Predecessor / Successor Rows', 'Relationships can come from Predecessor ID rows, Successor ID rows, or both. Identical links are merged. If the two disagree on type, lag or float for the same pair, the Predecessor ID row is used and the difference is reported as a data warning.');
+        addListItem(modeList, 'MS Project Predecessors', 'Set Relationship Data > Predecessor Format to MS Project Expression to read lists such as A1010FS+5d;A1020SS-2d from the Predecessor ID field. Lags accept d, ed, w, h and % of the predecessor duration. Tokens that cannot be read are listed in the data warnings with their row.');
+        addListItem(modeList, 'Duration and Lag Units', 'Duration and Relationship Lag accept text such as 16h, 3w, 5ed or 2.5 days. Hours and weeks are converted with Calendars > Hours Per Day and Days Per Week; elapsed hours and weeks use 24 and 7. Unreadable values are ignored and counted in the data warnings.');
         addListItem(modeList, 'Negative Relationship Float', 'Every value below zero is retained and flagged as schedule pressure. Only a minimum incoming value or tie is driving; negative status alone does not add a relationship to Longest Path.');
+        addListItem(modeList, 'Schedule Check', 'Turn on Critical Path > Verify Imported Dates and Float to run an independent forward and backward pass over the whole network from the Data Date, using durations, relationship types, lags and task calendars. Tasks whose imported Start, Finish or Total Float differ by more than the tolerance are listed under Schedule check in the controls menu, in the CPM Check column and in the task tooltip. Completed tasks are not compared; started tasks run their remaining work from the Data Date to their imported Finish, or Duration less % Complete without one. Click a listed task to select it.');
+        addListItem(modeList, 'What-If Delay', 'Select a task, open What-if delay in the controls menu and enter a delay or duration change in days. The change is pushed through successors using relationship types and lags; relationship free float, or the gap between linked dates when none is imported, absorbs it first. Impacted tasks show dashed ghost bars at their simulated dates, milestones are labelled with their finish movement, and the menu shows how far the project finish moves. Shorter durations do not pull successors earlier. The scenario is cleared when the selection changes and never alters the data.');
+        addListItem(modeList, 'Path Target', 'In Longest Path mode, pick a task under Path target in the controls menu to rank up to 10 driving routes into it instead of the latest finish, for example a contractual interim milestone. Path Selection > Path Target Tasks limits the list to milestones or allows any activity. The selector, span and activity count work as usual; Trace Forward from a selected task also stops at the target when it is downstream. The target is saved with the report and bookmarks.');
+        addListItem(modeList, 'Schedule Risk', 'Bind Minimum, Most Likely and Maximum Duration (any of them; Duration fills the gaps, cut to the remaining work on started tasks) and turn on Schedule Risk > Run Monte Carlo. Each iteration samples every open task\'s remaining duration from a triangular distribution and re-runs the network from the Data Date with relationship types and lags. Schedule risk in the controls menu shows the P50, P80 and P90 finishes on the global calendar, a finish histogram with its S-curve, and the tasks most often critical. The Crit % column and tooltip show each task\'s criticality index: the share of iterations in which it had no float. Results run locally and repeat for the same Random Seed; constraints are not applied.');
+        addListItem(modeList, 'Logic Level', 'An activity\'s logic level is the number of relationships in its longest predecessor chain, so activities without predecessors are level 0. Set Layout > Task Order to Logic Level to list activities by level and then by start date, so chains read top to bottom in logical order. Logic Level Within WBS counts only predecessors in the same WBS group, which keeps each group in its own logical order when WBS grouping is on. Relationships that close a circular loop are ignored when counting levels. Turn on Show Logic Level in the Columns settings to show the level used for ordering.');
+        addListItem(modeList, 'Redundant Logic', 'A relationship is redundant when another route between the same activities already holds the successor at least as late, such as A to C alongside A to B to C. Relationship type, lag and duration are taken into account; calendars are not. Redundant logic in the controls menu lists them, clicking a row selects the predecessor, and Copy table exports the list. Connector Lines > Redundant Relationships shows, dims or hides their connectors. The check runs only while their connectors are dimmed or hidden or once the list has been opened, and a network too large to search is reported as not checked.');
+        addListItem(modeList, 'Open Ends', 'Open ends in the controls menu lists activities with no predecessor or no successor, leaving out the project start (earliest Start) and finish (latest Finish), and activities with dangling logic: only FF or SF predecessors, so nothing drives the start, or only SS or SF successors, so the finish drives nothing. Click an activity to select it and scroll to it. Show only open ends filters the chart to these activities until you switch it off.');
+        addListItem(modeList, 'DCMA 14-Point', 'Turn on Schedule Assessment > Assess Schedule, then DCMA 14-point in the controls menu scores logic, leads, lags, relationship types, hard constraints, high and negative float, high duration, invalid dates, missed tasks, the critical path test, CPLI and BEI against the thresholds in the Schedule Assessment format card. Resources are not assessed. Float uses the bound Task Total Float, and date checks need the Data Date and Baseline Finish Date. Each failing check lists its offending activities; click one to select it. Copy table puts the results on the clipboard for Excel.');
+        addListItem(modeList, 'Float Paths', 'Turn on Calculate Float Paths in the Float Paths settings to number activities into float paths the way P6 Multiple Float Paths does with free float. Path 1 follows the driving relationships back from the Longest Path target, or the latest finish when none is set. Each later path starts from the predecessor with the least float relative to a path already found and follows its own driving relationships back. While on, bars and legend chips are coloured by float path instead of the Legend field, selecting legend chips filters to those paths, and the Float Path column and tooltip show each activity\'s path number. Activities that never reach the end activity through relationships with free float are listed as No Float Path.');
+        addListItem(modeList, 'Trace A to B', 'Select a task (A), choose A to B in the trace toggle, then select a second task (B) on the chart or in the search box. Longest Path ranks up to 10 driving routes from A to B with the usual selector, span and activity count; other modes show every task downstream of A and upstream of B. Selecting B again clears it, and clearing A clears both. When no driving route exists the header explains why, for example when B drives A or the tasks are only linked by non-driving logic.');
         addListItem(modeList, 'Longest Path', 'The visual ranks up to 10 maximum-duration routes using the latest Finish Date, minimum signed incoming Relationship Free Float and ties, greatest elapsed route span, earliest start, then stable task and relationship identity.');
 
         // ========== Header Controls ==========
@@ -20130,6 +23645,7 @@ export class Visual implements IVisual {
         addListItem(lookAheadList, 'Task Matching', 'Normal tasks match when their visual date range overlaps the window. Milestones match when their plotted milestone date falls inside the window.');
         addListItem(lookAheadList, 'Persistence', 'The user-selected LA value is persisted with the visual state so the chosen window survives refresh and reopen.');
         addListItem(lookAheadList, 'Data Date Required', 'If no valid Data Date is available, the look-ahead selector is disabled.');
+        addListItem(lookAheadList, 'Curtains', 'Possessions, outages and reporting windows are shaded behind the bars from the Curtain Label, Start, Finish and Category / Color fields, or from tasks whose Task Type matches Curtains > Curtain Task Type. A category cell holding a hex colour sets that curtain\'s colour. Hover a curtain label in the header for its dates; task tooltips list the curtains a task overlaps.');
 
         // ========== Task Selection & Tracing ==========
         const selectionSection = createSection('🎯', 'Task Selection & Path Tracing');
@@ -20153,6 +23669,7 @@ export class Visual implements IVisual {
         addParagraph(wbsSection, 'When WBS fields are available, the visual can switch from a flat task list to grouped hierarchical rows.');
         const wbsList = createList(wbsSection);
         addListItem(wbsList, 'Group Headers', 'Each group row shows the WBS name, visible task count, optional summary bar, and summary values based on the currently filtered task set.');
+        addListItem(wbsList, 'Project Swimlanes', 'When Project ID is bound, each project becomes a top-level group above WBS. Its header shows the project finish, links to upstream (\u2190) and downstream (\u2192) projects and, with Longest Path Scope set to Each Project, the selected path and its span. Click that label to make the project the one the Longest Path selector steps through.');
         addListItem(wbsList, 'Enable / Disable', 'Use the WBS button in the header to switch between grouped and flat task views.');
         addListItem(wbsList, 'Expand / Collapse Level', 'Use the + and − WBS buttons to cycle through grouping depth, from collapsed to fully expanded and back again.');
         addListItem(wbsList, 'Manual Open / Close', 'Click a group chevron to expand or collapse a single branch without changing the whole view.');
@@ -20173,6 +23690,11 @@ export class Visual implements IVisual {
         const timelineList = createList(timelineSection);
         addListItem(timelineList, 'Current Task Bars', 'Show each task using the visual start and visual finish dates. Manual Start/Finish fields affect plotting only and do not change CPM logic.');
         addListItem(timelineList, 'Milestones', 'Milestones appear as diamonds at a single scheduled date.');
+        addListItem(timelineList, 'Timescale Tiers', 'Set Grid Lines > Timescale Tiers to Two or Three Tiers for a P6-style Year / Quarter / Month / Week / Day header. Zooming picks the finest tier whose labels fit. Fiscal Year Start Month renames years and quarters (FY27 ends in 2027), and Week Numbering switches between ISO and US week numbers. Exports use the same header.');
+        addListItem(timelineList, 'Hours and Shifts', 'Set Grid Lines > Time Resolution to Hours and Shifts for outage work. The timescale adds day, shift and hour tiers as you zoom in, dates show the time of day, and durations and path spans are shown in hours. Shift length and the first shift hour are set in the same card.');
+        addListItem(timelineList, 'Constraint Glyphs', 'When Constraint Type is bound, a bracket marks the constrained start or finish edge of the bar. Hard constraints (Start On, Finish On, Mandatory Start/Finish) are filled; tooltips call out hard constraints on the Longest Path and on driving relationships.');
+        addListItem(timelineList, 'Actual / Remaining Bars', 'When Actual Start is bound, started tasks draw an actual segment to the Data Date and a remaining segment to the finish. Completed tasks with an Actual Finish draw as a single actual bar, and Percent Complete adds a thin progress band inside the bar.');
+        addListItem(timelineList, 'Non-Working Time', 'When Calendar is bound and shading is enabled in Calendars settings, non-working days are shaded behind each task row on that task\'s calendar, or across the whole chart for a chosen calendar. Work weeks and holidays come from the Calendar Work Week and Non-Working Date fields or from the Calendar Definitions text.');
         addListItem(timelineList, 'Baseline / Previous Bars', 'When enabled, lighter comparison bars appear beneath the current task bar so you can compare baseline, previous update, and current dates.');
         addListItem(timelineList, 'Finish & Reference Lines', 'Project Finish, Baseline Finish, Previous Finish, and Data Date can each draw a vertical line and label.');
         addListItem(timelineList, 'Progress Line', 'When enabled, draws Start, Finish, or Start + Finish variance from the Data Date against Baseline or Previous Update. In Start + Finish mode, green shading means finish variance improved after start, red means it slipped further after start, and the optional analysis legend, labels, and tooltips explain the visible rows.');
@@ -20248,6 +23770,786 @@ export class Visual implements IVisual {
         addListItem(keyboardList, 'Shift + F10', 'Open WBS group header actions when a WBS group header is focused.');
     }
 
+    private buildScheduleCheckContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedTasks = 200;
+        const addParagraph = (text: string): void => {
+            container.append('p')
+                .style('font-size', '13px')
+                .style('margin', '0 0 12px 0')
+                .text(text);
+        };
+
+        const verification = this.cpmVerification;
+        if (!verification) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleCheckOff",
+                "Turn on Critical Path > Verify Imported Dates and Float to run the CPM verification pass."
+            ));
+            return;
+        }
+        if (verification.blockedByCycle) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleCheckCycle",
+                "The relationships form a loop, so no forward or backward pass could be run. Remove the circular logic and check again."
+            ));
+            return;
+        }
+        if (!verification.anchor) {
+            addParagraph(this.getLocalizedString("ui.scheduleCheckNoAnchor", "No Data Date or task start was found to anchor the pass."));
+            return;
+        }
+
+        const openTaskCount = Array.from(verification.checks.values()).filter(check => !check.isComplete).length;
+        const flaggedCount = verification.discrepancyTaskIds.length;
+        const tolerance = this.getCpmVerificationTolerance();
+        const anchorText = verification.anchorSource === "dataDate"
+            ? `the Data Date (${this.formatLineDate(verification.anchor)})`
+            : `the earliest start (${this.formatLineDate(verification.anchor)}) because no Data Date is bound`;
+        addParagraph(`Anchored at ${anchorText}. ${flaggedCount} of ${openTaskCount} open tasks differ from the imported values by more than ${formatDurationDays(tolerance)} working day${tolerance === 1 ? "" : "s"}.`);
+        if (flaggedCount === 0) {
+            return;
+        }
+
+        const list = container.append('div')
+            .attr('role', 'list')
+            .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        for (const taskId of verification.discrepancyTaskIds.slice(0, maxListedTasks)) {
+            const task = this.taskIdToTask.get(taskId);
+            const check = verification.checks.get(taskId);
+            if (!task || !check) {
+                continue;
+            }
+
+            const row = list.append('button')
+                .attr('type', 'button')
+                .attr('role', 'listitem')
+                .attr('title', check.discrepancies.map(d => `${getCpmCheckFieldLabel(d.field)}: ${this.formatCpmDiscrepancy(d)}`).join("\n"))
+                .style('display', 'flex')
+                .style('gap', '12px')
+                .style('width', '100%')
+                .style('padding', '8px 4px')
+                .style('border', 'none')
+                .style('border-bottom', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+                .style('background', 'none')
+                .style('color', this.getForegroundColor())
+                .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+                .style('font-size', '13px')
+                .style('text-align', 'left')
+                .style('cursor', 'pointer')
+                .on('mouseover', function () {
+                    d3.select(this).style('background', UI_TOKENS.color.neutral.grey20);
+                })
+                .on('mouseout', function () {
+                    d3.select(this).style('background', 'none');
+                })
+                .on('click', () => {
+                    this.hideHelpOverlay();
+                    if (this.selectedTaskId === taskId) {
+                        this.ensureTaskVisible(taskId);
+                    } else {
+                        this.selectTask(taskId, task.name || null);
+                    }
+                });
+            row.append('span')
+                .style('flex', '0 0 90px')
+                .style('overflow', 'hidden')
+                .style('text-overflow', 'ellipsis')
+                .style('white-space', 'nowrap')
+                .text(String(task.id));
+            row.append('span')
+                .style('flex', '1 1 auto')
+                .style('overflow', 'hidden')
+                .style('text-overflow', 'ellipsis')
+                .style('white-space', 'nowrap')
+                .text(task.name || "");
+            row.append('span')
+                .style('flex', '0 0 auto')
+                .style('font-weight', '600')
+                .style('color', this.resolveColor(UI_TOKENS.color.warning.pressed, "foreground"))
+                .text(formatCpmCheckSummary(check));
+        }
+        if (flaggedCount > maxListedTasks) {
+            container.append('p')
+                .style('font-size', '12px')
+                .style('margin', '12px 0 0 0')
+                .text(`Showing the ${maxListedTasks} largest differences of ${flaggedCount}.`);
+        }
+    }
+
+    private buildScheduleRiskContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedTasks = 25;
+        const addParagraph = (text: string): void => {
+            container.append('p')
+                .style('font-size', '13px')
+                .style('margin', '0 0 12px 0')
+                .text(text);
+        };
+
+        const result = this.monteCarloResult;
+        if (!result) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleRiskOff",
+                "Turn on Schedule Risk > Run Monte Carlo and bind Minimum, Most Likely or Maximum Duration to run the simulation."
+            ));
+            return;
+        }
+        if (result.blockedByCycle) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleRiskCycle",
+                "The relationships form a loop, so the network could not be simulated. Remove the circular logic and try again."
+            ));
+            return;
+        }
+        const anchor = this.monteCarloAnchor;
+        if (!anchor) {
+            addParagraph(this.getLocalizedString("ui.scheduleCheckNoAnchor", "No Data Date or task start was found to anchor the pass."));
+            return;
+        }
+
+        const toDateText = (days: number): string => {
+            const date = this.getMonteCarloFinishDate(days);
+            return date ? this.formatLineDate(date) : "";
+        };
+        addParagraph(`${result.iterations} iterations from ${this.formatLineDate(anchor)}. ${result.rangedTaskCount} open task${result.rangedTaskCount === 1 ? " has" : "s have"} a duration range; the rest use their most likely duration. Constraints are not applied.`);
+        if (result.rangedTaskCount === 0 && !this.boundFields.threePointDurationsAvailable) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleRiskNoRanges",
+                "Bind Minimum Duration and Maximum Duration to give tasks a range; without them every iteration finishes on the same day."
+            ));
+        }
+
+        const foreground = this.getForegroundColor();
+        const summary = container.append('div')
+            .attr('role', 'list')
+            .style('display', 'flex')
+            .style('flex-wrap', 'wrap')
+            .style('gap', '12px')
+            .style('margin', '0 0 16px 0');
+        const summaryItems = [
+            { label: "Most likely", days: result.deterministicFinishDays },
+            ...MONTE_CARLO_PERCENTILES.map(percentile => ({ label: `P${percentile}`, days: result.percentileFinishDays[percentile] }))
+        ];
+        for (const item of summaryItems) {
+            const cell = summary.append('div')
+                .attr('role', 'listitem')
+                .style('flex', '1 1 110px')
+                .style('padding', '8px 12px')
+                .style('border', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+                .style('border-radius', '8px');
+            cell.append('div').style('font-size', '12px').text(item.label);
+            cell.append('div').style('font-size', '16px').style('font-weight', '600').text(toDateText(item.days));
+        }
+
+        const bins = buildFinishHistogram(result.finishDays, 24);
+        const chartWidth = 640;
+        const chartHeight = 200;
+        const plot = { left: 36, right: 36, top: 12, bottom: 40 };
+        const innerWidth = chartWidth - plot.left - plot.right;
+        const innerHeight = chartHeight - plot.top - plot.bottom;
+        const low = bins[0].fromDays;
+        const high = bins[bins.length - 1].toDays;
+        const x = (days: number): number => plot.left + (high > low ? (days - low) / (high - low) : 0.5) * innerWidth;
+        const maxCount = Math.max(1, ...bins.map(bin => bin.count));
+        const primary = this.resolveColor(UI_TOKENS.color.primary.default, "foreground");
+        const accent = this.resolveColor(UI_TOKENS.color.warning.pressed, "foreground");
+
+        const svg = container.append('svg')
+            .attr('viewBox', `0 0 ${chartWidth} ${chartHeight}`)
+            .attr('width', '100%')
+            .attr('role', 'img')
+            .attr('aria-label', `Finish date histogram and S-curve. P50 ${toDateText(result.percentileFinishDays[50])}, P80 ${toDateText(result.percentileFinishDays[80])}, P90 ${toDateText(result.percentileFinishDays[90])}.`)
+            .style('display', 'block')
+            .style('margin-bottom', '16px');
+        const barWidth = bins.length > 0 ? innerWidth / bins.length : innerWidth;
+        svg.selectAll('rect.risk-histogram-bar')
+            .data(bins)
+            .enter()
+            .append('rect')
+            .attr('class', 'risk-histogram-bar')
+            .attr('x', (_, index) => plot.left + index * barWidth + 1)
+            .attr('width', Math.max(1, barWidth - 2))
+            .attr('y', bin => plot.top + innerHeight - bin.count / maxCount * innerHeight)
+            .attr('height', bin => bin.count / maxCount * innerHeight)
+            .attr('fill', primary)
+            .attr('fill-opacity', 0.35);
+        const curvePoints: Array<[number, number]> = [[plot.left, plot.top + innerHeight]];
+        bins.forEach((bin, index) => curvePoints.push([plot.left + (index + 1) * barWidth, plot.top + innerHeight - bin.cumulative * innerHeight]));
+        svg.append('path')
+            .attr('d', d3.line()(curvePoints) ?? "")
+            .attr('fill', 'none')
+            .attr('stroke', primary)
+            .attr('stroke-width', 2);
+        svg.append('line')
+            .attr('x1', plot.left).attr('x2', plot.left + innerWidth)
+            .attr('y1', plot.top + innerHeight).attr('y2', plot.top + innerHeight)
+            .attr('stroke', UI_TOKENS.color.neutral.grey90);
+        for (const percentile of MONTE_CARLO_PERCENTILES) {
+            const px = x(result.percentileFinishDays[percentile]);
+            svg.append('line')
+                .attr('x1', px).attr('x2', px)
+                .attr('y1', plot.top).attr('y2', plot.top + innerHeight)
+                .attr('stroke', accent)
+                .attr('stroke-dasharray', '4,3');
+            svg.append('text')
+                .attr('x', px)
+                .attr('y', plot.top + innerHeight + 14)
+                .attr('text-anchor', 'middle')
+                .attr('font-size', 11)
+                .attr('fill', foreground)
+                .text(`P${percentile}`);
+        }
+        svg.append('text')
+            .attr('x', plot.left)
+            .attr('y', chartHeight - 6)
+            .attr('font-size', 11)
+            .attr('fill', foreground)
+            .text(toDateText(low));
+        svg.append('text')
+            .attr('x', plot.left + innerWidth)
+            .attr('y', chartHeight - 6)
+            .attr('text-anchor', 'end')
+            .attr('font-size', 11)
+            .attr('fill', foreground)
+            .text(toDateText(high));
+        svg.append('text')
+            .attr('x', chartWidth - 4)
+            .attr('y', plot.top + 8)
+            .attr('text-anchor', 'end')
+            .attr('font-size', 11)
+            .attr('fill', foreground)
+            .text("100%");
+
+        const rankedTasks = Array.from(result.criticalityIndex.entries())
+            .filter(([, index]) => index > 0)
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        if (rankedTasks.length === 0) {
+            return;
+        }
+        container.append('div')
+            .style('font-size', '12px')
+            .style('font-weight', '600')
+            .style('margin-bottom', '6px')
+            .text("Most often critical");
+        const list = container.append('div')
+            .attr('role', 'list')
+            .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        for (const [taskId, index] of rankedTasks.slice(0, maxListedTasks)) {
+            const task = this.taskIdToTask.get(taskId);
+            if (!task) {
+                continue;
+            }
+            const row = list.append('button')
+                .attr('type', 'button')
+                .attr('role', 'listitem')
+                .style('display', 'flex')
+                .style('gap', '12px')
+                .style('width', '100%')
+                .style('padding', '8px 4px')
+                .style('border', 'none')
+                .style('border-bottom', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+                .style('background', 'none')
+                .style('color', foreground)
+                .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+                .style('font-size', '13px')
+                .style('text-align', 'left')
+                .style('cursor', 'pointer')
+                .on('mouseover', function () {
+                    d3.select(this).style('background', UI_TOKENS.color.neutral.grey20);
+                })
+                .on('mouseout', function () {
+                    d3.select(this).style('background', 'none');
+                })
+                .on('click', () => {
+                    this.hideHelpOverlay();
+                    if (this.selectedTaskId === taskId) {
+                        this.ensureTaskVisible(taskId);
+                    } else {
+                        this.selectTask(taskId, task.name || null);
+                    }
+                });
+            row.append('span')
+                .style('flex', '0 0 90px')
+                .style('overflow', 'hidden')
+                .style('text-overflow', 'ellipsis')
+                .style('white-space', 'nowrap')
+                .text(String(task.id));
+            row.append('span')
+                .style('flex', '1 1 auto')
+                .style('overflow', 'hidden')
+                .style('text-overflow', 'ellipsis')
+                .style('white-space', 'nowrap')
+                .text(task.name || "");
+            row.append('span')
+                .style('flex', '0 0 auto')
+                .style('font-weight', '600')
+                .text(formatCriticalityIndex(index));
+        }
+        if (rankedTasks.length > maxListedTasks) {
+            container.append('p')
+                .style('font-size', '12px')
+                .style('margin', '12px 0 0 0')
+                .text(`Showing the ${maxListedTasks} most critical of ${rankedTasks.length} tasks. The Crit % column lists every task.`);
+        }
+    }
+
+    /**
+     * Compact ID and name row for overlay task lists; clicking selects the task and scrolls to it.
+     * Returns the row so callers can append further cells.
+     */
+    private appendOverlayTaskRow(
+        list: Selection<HTMLDivElement, unknown, null, undefined>,
+        taskId: string
+    ): Selection<HTMLButtonElement, unknown, null, undefined> | null {
+        const task = this.taskIdToTask.get(taskId);
+        if (!task) {
+            return null;
+        }
+        const row = list.append('button')
+            .attr('type', 'button')
+            .attr('role', 'listitem')
+            .style('display', 'flex')
+            .style('gap', '12px')
+            .style('width', '100%')
+            .style('padding', '4px')
+            .style('border', 'none')
+            .style('background', 'none')
+            .style('color', this.getForegroundColor())
+            .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+            .style('font-size', '12px')
+            .style('text-align', 'left')
+            .style('cursor', 'pointer')
+            .on('mouseover', function () {
+                d3.select(this).style('background', UI_TOKENS.color.neutral.grey20);
+            })
+            .on('mouseout', function () {
+                d3.select(this).style('background', 'none');
+            })
+            .on('click', () => {
+                this.hideHelpOverlay();
+                if (this.selectedTaskId === taskId) {
+                    this.ensureTaskVisible(taskId);
+                } else {
+                    this.selectTask(taskId, task.name || null);
+                }
+            });
+        row.append('span')
+            .style('flex', '0 0 90px')
+            .style('overflow', 'hidden')
+            .style('text-overflow', 'ellipsis')
+            .style('white-space', 'nowrap')
+            .text(String(task.id));
+        row.append('span')
+            .style('flex', '1 1 auto')
+            .style('overflow', 'hidden')
+            .style('text-overflow', 'ellipsis')
+            .style('white-space', 'nowrap')
+            .text(task.name || "");
+        return row;
+    }
+
+    private buildOpenEndsContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedTasks = 100;
+        const quality = this.dataQuality;
+        const openEndCount = this.getOpenEndTaskIds().size;
+        container.append('p')
+            .style('font-size', '13px')
+            .style('margin', '0 0 12px 0')
+            .text(openEndCount > 0
+                ? `${openEndCount} activit${openEndCount === 1 ? "y has" : "ies have"} open ends or dangling logic. Click an activity to select it.`
+                : this.getLocalizedString("ui.openEndsNone", "No open ends or dangling logic found."));
+
+        container.append('button')
+            .attr('type', 'button')
+            .attr('aria-pressed', String(this.showOnlyOpenEnds))
+            .style('margin', '0 0 12px 0')
+            .style('padding', '6px 14px')
+            .style('border', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+            .style('border-radius', '8px')
+            .style('background', this.showOnlyOpenEnds ? UI_TOKENS.color.primary.light : 'none')
+            .style('color', this.getForegroundColor())
+            .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+            .style('font-size', '13px')
+            .style('cursor', 'pointer')
+            .text(this.showOnlyOpenEnds
+                ? this.getLocalizedString("ui.openEndsShowAll", "Show all tasks")
+                : this.getLocalizedString("ui.openEndsShowOnly", "Show only open ends"))
+            .on('click', () => {
+                this.hideHelpOverlay();
+                this.setShowOnlyOpenEnds(!this.showOnlyOpenEnds);
+            });
+
+        if (!quality || openEndCount === 0) {
+            return;
+        }
+        const sections = [
+            { label: "No predecessor", taskIds: quality.openStartTaskIds },
+            { label: "No successor", taskIds: quality.openFinishTaskIds },
+            { label: "Dangling start (only FF or SF predecessors)", taskIds: quality.danglingStartTaskIds },
+            { label: "Dangling finish (only SS or SF successors)", taskIds: quality.danglingFinishTaskIds }
+        ];
+        for (const section of sections) {
+            if (section.taskIds.length === 0) {
+                continue;
+            }
+            container.append('div')
+                .style('font-size', '12px')
+                .style('font-weight', '600')
+                .style('margin', '8px 0 4px 0')
+                .text(`${section.label}: ${section.taskIds.length}`);
+            const list = container.append('div')
+                .attr('role', 'list')
+                .attr('aria-label', section.label)
+                .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+            for (const taskId of section.taskIds.slice(0, maxListedTasks)) {
+                this.appendOverlayTaskRow(list, taskId);
+            }
+            if (section.taskIds.length > maxListedTasks) {
+                container.append('div')
+                    .style('font-size', '12px')
+                    .text(`and ${section.taskIds.length - maxListedTasks} more; Show only open ends lists every one.`);
+            }
+        }
+    }
+
+    private buildRedundantLogicContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedRelationships = 200;
+        const redundant = this.getRedundantRelationships();
+        if (!this.redundantLogicComplete) {
+            container.append('p')
+                .style('font-size', '13px')
+                .style('margin', '0')
+                .text(this.getLocalizedString(
+                    "ui.redundantLogicNotChecked",
+                    "Not checked: the network is too large to search for redundant relationships."
+                ));
+            return;
+        }
+        container.append('p')
+            .style('font-size', '13px')
+            .style('margin', '0 0 12px 0')
+            .text(redundant.length > 0
+                ? `${redundant.length} of ${this.relationships.length} relationships are redundant. Connector Lines > Redundant Relationships can dim or hide them.`
+                : this.getLocalizedString("ui.redundantLogicNone", "No redundant relationships found."));
+        if (redundant.length === 0) {
+            return;
+        }
+
+        const foreground = this.getForegroundColor();
+        container.append('button')
+            .attr('type', 'button')
+            .style('margin', '0 0 12px 0')
+            .style('padding', '6px 14px')
+            .style('border', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+            .style('border-radius', '8px')
+            .style('background', 'none')
+            .style('color', foreground)
+            .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+            .style('font-size', '13px')
+            .style('cursor', 'pointer')
+            .text(this.getLocalizedString("ui.redundantLogicCopy", "Copy table"))
+            .on('click', () => {
+                void this.copyRedundantLogicToClipboard();
+            });
+
+        const list = container.append('div')
+            .attr('role', 'list')
+            .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        for (const relationship of redundant.slice(0, maxListedRelationships)) {
+            const predecessor = this.taskIdToTask.get(relationship.predecessorId);
+            const successor = this.taskIdToTask.get(relationship.successorId);
+            if (!predecessor || !successor) {
+                continue;
+            }
+            const row = list.append('button')
+                .attr('type', 'button')
+                .attr('role', 'listitem')
+                .style('display', 'flex')
+                .style('gap', '12px')
+                .style('width', '100%')
+                .style('padding', '6px 4px')
+                .style('border', 'none')
+                .style('border-bottom', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+                .style('background', 'none')
+                .style('color', foreground)
+                .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+                .style('font-size', '12px')
+                .style('text-align', 'left')
+                .style('cursor', 'pointer')
+                .on('mouseover', function () {
+                    d3.select(this).style('background', UI_TOKENS.color.neutral.grey20);
+                })
+                .on('mouseout', function () {
+                    d3.select(this).style('background', 'none');
+                })
+                .on('click', () => {
+                    this.hideHelpOverlay();
+                    if (this.selectedTaskId === predecessor.internalId) {
+                        this.ensureTaskVisible(predecessor.internalId);
+                    } else {
+                        this.selectTask(predecessor.internalId, predecessor.name || null);
+                    }
+                });
+            for (const task of [predecessor, successor]) {
+                row.append('span')
+                    .style('flex', '1 1 0')
+                    .style('overflow', 'hidden')
+                    .style('text-overflow', 'ellipsis')
+                    .style('white-space', 'nowrap')
+                    .text(`${task.id} ${task.name || ""}`);
+            }
+            row.append('span')
+                .style('flex', '0 0 70px')
+                .style('text-align', 'right')
+                .text(`${relationship.type} ${relationship.lag ?? 0}`);
+        }
+        if (redundant.length > maxListedRelationships) {
+            container.append('p')
+                .style('font-size', '12px')
+                .style('margin', '12px 0 0 0')
+                .text(`Showing ${maxListedRelationships} of ${redundant.length}. Copy table includes every one.`);
+        }
+    }
+
+    private buildFloatErosionContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedTasks = 200;
+        if (!this.boundFields.previousUpdateFloatAvailable) {
+            container.append('p')
+                .style('font-size', '13px')
+                .style('margin', '0')
+                .text(this.getLocalizedString(
+                    "ui.floatErosionUnavailable",
+                    "Bind Task Total Float and Previous Update Total Float to compare float with the previous update."
+                ));
+            return;
+        }
+
+        const ranked = rankCriticalChanges(this.criticalChanges);
+        container.append('p')
+            .style('font-size', '13px')
+            .style('margin', '0 0 12px 0')
+            .text(this.getCriticalPathChangeSummary() ?? "");
+        if (ranked.length === 0) {
+            return;
+        }
+
+        const foreground = this.getForegroundColor();
+        container.append('button')
+            .attr('type', 'button')
+            .style('margin', '0 0 12px 0')
+            .style('padding', '6px 14px')
+            .style('border', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+            .style('border-radius', '8px')
+            .style('background', 'none')
+            .style('color', foreground)
+            .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+            .style('font-size', '13px')
+            .style('cursor', 'pointer')
+            .text(this.getLocalizedString("ui.floatErosionCopy", "Copy table"))
+            .on('click', () => {
+                void this.copyFloatErosionToClipboard();
+            });
+
+        const list = container.append('div')
+            .attr('role', 'list')
+            .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        for (const [taskId, change] of ranked.slice(0, maxListedTasks)) {
+            const row = this.appendOverlayTaskRow(list, taskId);
+            row?.append('span')
+                .style('flex', '0 0 120px')
+                .style('text-align', 'right')
+                .style('white-space', 'nowrap')
+                .text(`${formatFloatDays(change.previousFloat)} \u2192 ${formatFloatDays(change.currentFloat)}`);
+            row?.append('span')
+                .style('flex', '0 0 150px')
+                .style('white-space', 'nowrap')
+                .text(formatCriticalChangeSummary(change));
+        }
+        if (ranked.length > maxListedTasks) {
+            container.append('p')
+                .style('font-size', '12px')
+                .style('margin', '12px 0 0 0')
+                .text(`Showing ${maxListedTasks} of ${ranked.length}. Copy table includes every one.`);
+        }
+    }
+
+    private async copyFloatErosionToClipboard(): Promise<void> {
+        const headers = ["Activity ID", "Activity", "Previous Total Float", "Total Float", "Change", "Status"];
+        const rows = rankCriticalChanges(this.criticalChanges).map(([taskId, change]) => {
+            const task = this.taskIdToTask.get(taskId);
+            return [
+                String(task?.id ?? taskId),
+                task?.name ?? "",
+                String(change.previousFloat),
+                String(change.currentFloat),
+                formatFloatChange(change),
+                getCriticalChangeStatusLabel(change.status)
+            ];
+        });
+        await this.copyDiagnosticsTableToClipboard(headers, rows,
+            this.getLocalizedString("ui.floatErosionCopied", "Copied the float erosion ranking. You can now paste it into Excel."));
+    }
+
+    private async copyRedundantLogicToClipboard(): Promise<void> {
+        const headers = ["Predecessor ID", "Predecessor", "Successor ID", "Successor", "Type", "Lag"];
+        const rows = this.getRedundantRelationships().map(relationship => {
+            const predecessor = this.taskIdToTask.get(relationship.predecessorId);
+            const successor = this.taskIdToTask.get(relationship.successorId);
+            return [
+                String(predecessor?.id ?? relationship.predecessorId),
+                predecessor?.name ?? "",
+                String(successor?.id ?? relationship.successorId),
+                successor?.name ?? "",
+                relationship.type,
+                String(relationship.lag ?? 0)
+            ];
+        });
+        await this.copyDiagnosticsTableToClipboard(headers, rows,
+            this.getLocalizedString("ui.redundantLogicCopied", "Copied the redundant relationships. You can now paste them into Excel."));
+    }
+
+    /** Copies a diagnostics table as HTML with a tab-separated fallback, then confirms with a toast. */
+    private async copyDiagnosticsTableToClipboard(headers: string[], rows: string[][], successMessage: string): Promise<void> {
+        const cellStyle = "padding: 4px; border: 1px solid #d0d0d0; vertical-align: top;";
+        const tableHtml = `<table style="border-collapse: collapse; font-size: 12px;">
+<tr style="font-weight: bold; background-color: #f0f0f0;">${headers.map(header => `<th style="padding: 4px; white-space: nowrap;">${this.escapeHtml(header)}</th>`).join("")}</tr>
+${rows.map(row => `<tr>${row.map(value => this.getExportCellHtml(value, cellStyle)).join("")}</tr>`).join("\n")}
+</table>`;
+        const plainText = [headers, ...rows]
+            .map(row => row.map(value => this.sanitizeExportCell(value)).join("\t"))
+            .join("\n");
+
+        try {
+            await this.copyHtmlExportToClipboard(this.generateClipboardTableExportFragment(tableHtml), plainText);
+            this.showToast(successMessage);
+        } catch (error) {
+            console.error('Copy failed:', error);
+            this.showToast('Copy failed. Please try again.', 4000);
+        }
+    }
+
+    private buildScheduleAssessmentContent(container: Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const maxListedTasks = 50;
+        const addParagraph = (text: string): void => {
+            container.append('p')
+                .style('font-size', '13px')
+                .style('margin', '0 0 12px 0')
+                .text(text);
+        };
+
+        const result = this.scheduleAssessment;
+        if (!result) {
+            addParagraph(this.getLocalizedString(
+                "ui.scheduleAssessmentOff",
+                "Turn on Schedule Assessment > Assess Schedule and bind Task ID, Start Date and Finish Date to assess the schedule."
+            ));
+            return;
+        }
+
+        const assessedCount = result.passCount + result.failCount;
+        addParagraph(`${result.passCount} of ${assessedCount} assessed checks pass${this.dataDate ? ` at the Data Date (${this.formatLineDate(this.dataDate)})` : ""}. Level-of-effort, WBS summary and completed activities are left out of the activity counts.`);
+        if (result.missingBaselineTaskIds.length > 0) {
+            addParagraph(`${result.missingBaselineTaskIds.length} activit${result.missingBaselineTaskIds.length === 1 ? "y has" : "ies have"} no Baseline Finish Date and ${result.missingBaselineTaskIds.length === 1 ? "is" : "are"} not counted by Missed Tasks or BEI.`);
+        }
+
+        const foreground = this.getForegroundColor();
+        container.append('button')
+            .attr('type', 'button')
+            .style('margin', '0 0 12px 0')
+            .style('padding', '6px 14px')
+            .style('border', `1px solid ${UI_TOKENS.color.neutral.grey30}`)
+            .style('border-radius', '8px')
+            .style('background', 'none')
+            .style('color', foreground)
+            .style('font-family', DEFAULT_SYSTEM_FONT_STACK)
+            .style('font-size', '13px')
+            .style('cursor', 'pointer')
+            .text(this.getLocalizedString("ui.scheduleAssessmentCopy", "Copy table"))
+            .on('click', () => {
+                void this.copyScheduleAssessmentToClipboard();
+            });
+
+        const statusColors: Record<DcmaCheckResult["status"], string> = {
+            pass: this.resolveColor(UI_TOKENS.color.success.default, "foreground"),
+            fail: this.resolveColor(UI_TOKENS.color.danger.default, "foreground"),
+            notAssessed: foreground
+        };
+        const list = container.append('div')
+            .attr('role', 'list')
+            .style('border-top', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+        for (const check of result.checks) {
+            const item = list.append('div')
+                .attr('role', 'listitem')
+                .style('padding', '8px 4px')
+                .style('border-bottom', `1px solid ${UI_TOKENS.color.neutral.grey30}`);
+            const heading = item.append('div')
+                .style('display', 'flex')
+                .style('gap', '12px')
+                .style('font-size', '13px');
+            heading.append('span')
+                .style('flex', '1 1 auto')
+                .style('font-weight', '600')
+                .text(`${check.number}. ${check.label}`);
+            heading.append('span')
+                .style('flex', '0 0 auto')
+                .text(formatDcmaValue(check));
+            heading.append('span')
+                .style('flex', '0 0 90px')
+                .style('opacity', '0.75')
+                .text(check.thresholdText);
+            heading.append('span')
+                .style('flex', '0 0 90px')
+                .style('font-weight', '600')
+                .style('text-align', 'right')
+                .style('color', statusColors[check.status])
+                .text(getDcmaStatusLabel(check.status));
+            if (check.note) {
+                item.append('div')
+                    .style('font-size', '12px')
+                    .style('opacity', '0.75')
+                    .text(check.note);
+            }
+            if (check.status !== "fail" || check.offendingTaskIds.length === 0) {
+                continue;
+            }
+
+            const taskList = item.append('div')
+                .attr('role', 'list')
+                .attr('aria-label', `${check.label}: ${check.offendingTaskIds.length} activities`)
+                .style('margin', '4px 0 0 16px');
+            for (const taskId of check.offendingTaskIds.slice(0, maxListedTasks)) {
+                this.appendOverlayTaskRow(taskList, taskId);
+            }
+            if (check.offendingTaskIds.length > maxListedTasks) {
+                item.append('div')
+                    .style('font-size', '12px')
+                    .style('margin', '4px 0 0 16px')
+                    .text(`and ${check.offendingTaskIds.length - maxListedTasks} more`);
+            }
+        }
+    }
+
+    /** Copies the assessment as a table: one row per check, offending task IDs in the last column. */
+    private async copyScheduleAssessmentToClipboard(): Promise<void> {
+        const result = this.scheduleAssessment;
+        if (!result) {
+            return;
+        }
+
+        const headers = ["#", "Check", "Value", "Threshold", "Result", "Population", "Offending Activities", "Notes"];
+        const rows = result.checks.map(check => [
+            String(check.number),
+            check.label,
+            formatDcmaValue(check),
+            check.thresholdText,
+            getDcmaStatusLabel(check.status),
+            String(check.population),
+            check.offendingTaskIds.map(taskId => String(this.taskIdToTask.get(taskId)?.id ?? taskId)).join(", "),
+            check.note
+        ]);
+        await this.copyDiagnosticsTableToClipboard(headers, rows,
+            this.getLocalizedString("ui.scheduleAssessmentCopied", "Copied the DCMA assessment. You can now paste it into Excel."));
+    }
+
     /**
      * Hides the help overlay
      */
@@ -20426,8 +24728,13 @@ export class Visual implements IVisual {
                 const date = this.getTaskBarLabelFinish(task);
                 return date ? exportDateFormatter(date) : "";
             }
-            case "duration":
-                return typeof task.duration === "number" && isFinite(task.duration) ? task.duration.toFixed(0) : "";
+            case "duration": {
+                const workingDays = this.getTaskWorkingDayDuration(task);
+                if (workingDays !== null) {
+                    return this.formatTaskDuration(workingDays, "value");
+                }
+                return typeof task.duration === "number" && isFinite(task.duration) ? this.formatTaskDuration(task.duration, "value") : "";
+            }
             case "totalFloat": {
                 const val = task.userProvidedTotalFloat ?? task.totalFloat;
                 return typeof val === "number" && isFinite(val) ? val.toFixed(0) : "-";
@@ -20440,11 +24747,31 @@ export class Visual implements IVisual {
                 return task.baselineFinishDate ? exportDateFormatter(task.baselineFinishDate) : "";
             case "baselineStart":
                 return task.baselineStartDate ? exportDateFormatter(task.baselineStartDate) : "";
+            case "actualStart":
+                return task.actualStartDate ? exportDateFormatter(task.actualStartDate) : "";
+            case "actualFinish":
+                return task.actualFinishDate ? exportDateFormatter(task.actualFinishDate) : "";
+            case "percentComplete":
+                return this.formatPercentComplete(task.percentComplete);
+            case "cpmCheck":
+                return formatCpmCheckSummary(this.getTaskCpmCheck(task));
+            case "floatPath":
+                return String(this.getTaskFloatPathNumber(task) ?? "");
+            case "criticalityIndex":
+                return formatCriticalityIndex(this.getTaskCriticalityIndex(task));
+            case "logicLevel":
+                return String(this.getTaskLogicLevel(task) ?? "");
+            case "criticalChange":
+                return formatCriticalChangeSummary(this.getTaskCriticalChange(task));
         }
 
         return "";
     }
 
+    private formatPercentComplete(value: number | null | undefined): string {
+        return typeof value === "number" && isFinite(value) ? `${Math.round(value)}%` : "";
+    }
+
     private getWbsSummaryDurationLabel(group: WBSGroup): string {
         if (!group.summaryEarlyStartDate || !group.summaryEarlyFinishDate || group.summaryEarlyFinishDate < group.summaryEarlyStartDate) {
             return "";
@@ -20683,7 +25010,7 @@ export class Visual implements IVisual {
     }
 
     private generateVisibleExportTableHtml(): string {
-        const exportDateFormatter = d3.timeFormat("%d-%b-%y");
+        const exportDateFormatter = this.getExportDateFormatter();
         const showWbs = this.settings?.wbsGrouping?.enableWbsGrouping?.value ?? false;
         const tasks = this.getExportTableTasks();
         const visibleWbsGroups = this.getVisibleExportWbsGroups();
@@ -20696,7 +25023,7 @@ export class Visual implements IVisual {
     }
 
     private generateVisibleExportTableText(): string {
-        const exportDateFormatter = d3.timeFormat("%d-%b-%y");
+        const exportDateFormatter = this.getExportDateFormatter();
         const showWbs = this.settings?.wbsGrouping?.enableWbsGrouping?.value ?? false;
         const tasks = this.getExportTableTasks();
         const visibleWbsGroups = this.getVisibleExportWbsGroups();
@@ -20721,9 +25048,14 @@ export class Visual implements IVisual {
             ? `<div style="margin-top: 4px;"><strong>Selected task:</strong> ${this.escapeHtml(this.selectedTaskName)}</div>`
             : "";
 
+        const relationshipFloatBlock = this.isLongestPathMode()
+            ? `<div style="margin-top: 4px;"><strong>Relationship float:</strong> ${this.escapeHtml(this.getRelationshipFloatMethodLabel())}</div>`
+            : "";
+
         return `<div style="margin-bottom: 12px; font-size: 13px; color: #555;">
 <div><strong>Exported:</strong> ${this.escapeHtml(timestamp)}</div>
 ${selectedTaskBlock}
+${relationshipFloatBlock}
 </div>`;
     }
 
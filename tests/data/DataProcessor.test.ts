@@ -6,6 +6,8 @@
  */
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DataProcessor } from '../../src/data/DataProcessor';
+import type { Task } from '../../src/data/Interfaces';
+import { classifyCriticalChange } from '../../src/utils/CriticalPathChange';
 import powerbi from 'powerbi-visuals-api';
 import DataView = powerbi.DataView;
 
@@ -66,6 +68,7 @@ interface ColumnDef {
     queryName: string;
     roles: { [role: string]: boolean };
     type?: any;
+    format?: string;
     index?: number;
 }
 
@@ -77,6 +80,7 @@ function buildDataView(columns: ColumnDef[], rows: any[][]): DataView {
                 queryName: col.queryName,
                 roles: col.roles,
                 type: col.type || {},
+                format: col.format,
                 index: col.index ?? idx,
             })),
         },
@@ -86,6 +90,7 @@ function buildDataView(columns: ColumnDef[], rows: any[][]): DataView {
                 queryName: col.queryName,
                 roles: col.roles,
                 type: col.type || {},
+                format: col.format,
                 index: col.index ?? idx,
             })),
             rows: rows,
@@ -101,6 +106,7 @@ function buildDataViewWithSeparateColumns(metadataColumns: ColumnDef[], tableCol
                 queryName: col.queryName,
                 roles: col.roles,
                 type: col.type || {},
+                format: col.format,
                 index: col.index ?? idx,
             })),
         },
@@ -110,6 +116,7 @@ function buildDataViewWithSeparateColumns(metadataColumns: ColumnDef[], tableCol
                 queryName: col.queryName,
                 roles: col.roles,
                 type: col.type || {},
+                format: col.format,
                 index: col.index ?? idx,
             })),
             rows: rows,
@@ -294,6 +301,31 @@ describe('DataProcessor', () => {
             expect(result.allTasksData[0].type).toBe('TT_Task');
         });
 
+        it('keeps same-day spans in hours and multi-day spans in working days at hour resolution', () => {
+            const hourlySettings = {
+                ...settings,
+                criticalPath: { calculationMode: { value: { value: 'none' } } },
+                gridLines: { timeResolution: { value: { value: 'hour' } } },
+                calendars: { hoursPerDay: { value: 12 } },
+            };
+            const columns: ColumnDef[] = [
+                { displayName: 'Task ID', queryName: 'Table[TaskID]', roles: { taskId: true } },
+                { displayName: 'Start Date', queryName: 'Table[StartDate]', roles: { startDate: true } },
+                { displayName: 'Finish Date', queryName: 'Table[FinishDate]', roles: { finishDate: true } },
+            ];
+            const dv = buildDataView(columns, [
+                ['T1', new Date('2025-01-01T06:00:00'), new Date('2025-01-01T09:00:00')],
+                ['T2', new Date('2025-01-01T06:00:00'), new Date('2025-01-01T06:30:00')],
+                ['T3', new Date('2025-01-01T00:00:00'), new Date('2025-01-03T00:00:00')],
+            ]);
+
+            const result = processor.processData(dv, hourlySettings, new Map(), new Set(), null, false, '#000');
+            const daily = processor.processData(dv, { ...hourlySettings, gridLines: { timeResolution: { value: { value: 'day' } } } }, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.duration * 12)).toEqual([3, 0.5, 24]);
+            expect(result.allTasksData[2].duration).toBe(daily.allTasksData[2].duration);
+        });
+
         it('parses finish-only visualiser rows as zero-duration milestones', () => {
             const visualiserSettings = {
                 ...settings,
@@ -347,6 +379,243 @@ describe('DataProcessor', () => {
             expect(result.legendCategories).toEqual(['Ahead']);
             expect(result.allTasksData.map(task => task.legendValue)).toEqual(['Ahead', 'Ahead']);
         });
+
+        it('parses actual dates and normalises percent complete to 0-100', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Actual Start', queryName: 'Table[ActualStart]', roles: { actualStartDate: true } },
+                { displayName: 'Actual Finish', queryName: 'Table[ActualFinish]', roles: { actualFinishDate: true } },
+                { displayName: 'Pct', queryName: 'Table[Pct]', roles: { percentComplete: true } },
+            ];
+            const rows = [
+                ['T1', 'Done', 5, new Date('2025-01-01'), new Date('2025-01-06'), new Date('2025-01-02'), new Date('2025-01-07'), 100],
+                ['T2', 'Started', 5, new Date('2025-01-07'), new Date('2025-01-12'), new Date('2025-01-07'), null, '40%'],
+                ['T3', 'Overrun', 5, new Date('2025-01-13'), new Date('2025-01-18'), null, null, 140],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            const [done, started, overrun] = result.allTasksData;
+            expect(done.actualStartDate?.toISOString()).toBe(new Date('2025-01-02').toISOString());
+            expect(done.actualFinishDate?.toISOString()).toBe(new Date('2025-01-07').toISOString());
+            expect(done.percentComplete).toBe(100);
+            expect(started.actualFinishDate).toBeNull();
+            expect(started.percentComplete).toBe(40);
+            expect(overrun.actualStartDate).toBeNull();
+            expect(overrun.percentComplete).toBe(100);
+
+            const boundFields = processor.detectBoundFields(dv, result.allTasksData, settings);
+            expect(boundFields.actualDatesAvailable).toBe(true);
+            expect(boundFields.percentCompleteAvailable).toBe(true);
+        });
+
+        it('parses three-point durations with the Duration units', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Min', queryName: 'Table[Min]', roles: { minDuration: true } },
+                { displayName: 'Most Likely', queryName: 'Table[ML]', roles: { mostLikelyDuration: true } },
+                { displayName: 'Max', queryName: 'Table[Max]', roles: { maxDuration: true } },
+            ];
+            const rows = [
+                ['T1', 'Ranged', 5, new Date('2025-01-01'), new Date('2025-01-06'), 4, '6d', '2w'],
+                ['T2', 'Fixed', 3, new Date('2025-01-07'), new Date('2025-01-10'), null, null, 'soon'],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            const [ranged, fixed] = result.allTasksData;
+            expect([ranged.minDuration, ranged.mostLikelyDuration, ranged.maxDuration]).toEqual([4, 6, 10]);
+            expect([fixed.minDuration, fixed.mostLikelyDuration, fixed.maxDuration]).toEqual([null, null, null]);
+            expect(processor.detectBoundFields(dv, result.allTasksData, settings).threePointDurationsAvailable).toBe(true);
+        });
+
+        it('parses previous update total float alongside task total float', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'TF', queryName: 'Table[TF]', roles: { taskTotalFloat: true } },
+                { displayName: 'Prev TF', queryName: 'Table[PrevTF]', roles: { previousUpdateTotalFloat: true } },
+            ];
+            const rows = [
+                ['T1', 'Eroded', 5, new Date('2025-01-01'), new Date('2025-01-06'), 0, 4],
+                ['T2', 'New', 3, new Date('2025-01-07'), new Date('2025-01-10'), 2, 'n/a'],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.previousUpdateTotalFloat)).toEqual([4, null]);
+            expect(processor.detectBoundFields(dv, result.allTasksData, settings).previousUpdateFloatAvailable).toBe(true);
+        });
+
+        it('splits snapshot rows into per-update task states and compares with the previous update', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'TF', queryName: 'Table[TF]', roles: { taskTotalFloat: true } },
+                { displayName: 'Snapshot', queryName: 'Table[Snapshot]', roles: { snapshotDate: true } },
+            ];
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), 3, new Date('2025-01-01')],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-10'), 0, new Date('2025-02-01')],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-12'), 1, new Date('2025-02-01')],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-08'), 1, new Date('2025-01-15')],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.finishDate)).toEqual([new Date('2025-01-10'), new Date('2025-01-12')]);
+            expect(result.dataQuality.conflictingTaskRows).toEqual([]);
+            expect(result.snapshots.map(snapshot => snapshot.snapshotDate)).toEqual(
+                [new Date('2025-01-01'), new Date('2025-01-15'), new Date('2025-02-01')]
+            );
+            expect(result.snapshots[0].tasks.get('T1')).toEqual({
+                startDate: new Date('2025-01-01'),
+                finishDate: new Date('2025-01-06'),
+                totalFloat: 3,
+                actualStartDate: null,
+                actualFinishDate: null,
+                percentComplete: null
+            });
+            expect(result.referenceSnapshot).toBe(result.snapshots[1]);
+            expect(result.taskIdToTask.get('T1')?.previousUpdateFinishDate).toEqual(new Date('2025-01-08'));
+            expect(result.taskIdToTask.get('T1')?.previousUpdateTotalFloat).toBe(1);
+            expect(result.taskIdToTask.get('T2')?.previousUpdateFinishDate).toBeNull();
+
+            const boundFields = processor.detectBoundFields(dv, result.allTasksData, settings, true);
+            expect(boundFields.previousUpdateAvailable).toBe(true);
+            expect(boundFields.previousUpdateFloatAvailable).toBe(true);
+
+            const earliest = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000', false, new Date('2025-01-01').toISOString());
+            expect(earliest.taskIdToTask.get('T1')?.previousUpdateFinishDate).toEqual(new Date('2025-01-06'));
+
+            const playback = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000', false, '', new Date('2025-01-15').toISOString());
+            expect(playback.playbackSnapshot).toBe(playback.snapshots[1]);
+            expect(playback.dataDate).toEqual(new Date('2025-01-15'));
+            expect(playback.taskIdToTask.get('T1')?.finishDate).toEqual(new Date('2025-01-08'));
+            expect(playback.taskIdToTask.get('T2')?.finishDate).toBeNull();
+            expect(playback.referenceSnapshot).toBe(playback.snapshots[0]);
+        });
+
+        it('shows a playback frame with its own progress and critical path changes', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'TF', queryName: 'Table[TF]', roles: { taskTotalFloat: true } },
+                { displayName: 'Pct', queryName: 'Table[Pct]', roles: { percentComplete: true } },
+                { displayName: 'Actual Start', queryName: 'Table[ActualStart]', roles: { actualStartDate: true } },
+                { displayName: 'Snapshot', queryName: 'Table[Snapshot]', roles: { snapshotDate: true } },
+            ];
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), 3, 0, null, new Date('2025-01-01')],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-08'), 1, 20, new Date('2025-01-02'), new Date('2025-01-15')],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-10'), 0, 60, new Date('2025-01-02'), new Date('2025-02-01')],
+            ];
+            const dv = buildDataView(columns, rows);
+            const options = { nearCriticalDays: 10, erosionThresholdDays: 5 };
+            const changeStatus = (task: Task | undefined) =>
+                classifyCriticalChange(task?.userProvidedTotalFloat, task?.previousUpdateTotalFloat, options)?.status;
+
+            const latest = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000').taskIdToTask.get('T1');
+            expect(latest?.percentComplete).toBe(60);
+            expect(changeStatus(latest)).toBe('newlyCritical');
+
+            const frame = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000', false, '', new Date('2025-01-15').toISOString())
+                .taskIdToTask.get('T1');
+            expect(frame?.percentComplete).toBe(20);
+            expect(frame?.actualStartDate).toEqual(new Date('2025-01-02'));
+            expect(changeStatus(frame)).toBe('unchanged');
+
+            const first = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000', false, '', new Date('2025-01-01').toISOString())
+                .taskIdToTask.get('T1');
+            expect([first?.percentComplete, first?.actualStartDate]).toEqual([0, null]);
+        });
+
+        it('scales fractional percent complete from percentage-formatted columns', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Pct', queryName: 'Table[Pct]', roles: { percentComplete: true }, format: '0.00%' },
+            ];
+            const rows = [['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), 0.45]];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData[0].percentComplete).toBeCloseTo(45, 9);
+            expect(processor.detectBoundFields(dv, result.allTasksData, settings).actualDatesAvailable).toBe(false);
+        });
+
+        it('normalises constraint roles, lists hard constraints, and counts unrecognised types', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Constraint', queryName: 'Table[Constraint]', roles: { constraintType: true } },
+                { displayName: 'Constraint Date', queryName: 'Table[ConstraintDate]', roles: { constraintDate: true } },
+            ];
+            const rows = [
+                ['T1', 'Held', 5, new Date('2025-01-01'), new Date('2025-01-06'), 'CS_MEO', new Date('2025-01-06')],
+                ['T2', 'Soft', 5, new Date('2025-01-07'), new Date('2025-01-12'), 'Start On or After', new Date('2025-01-07')],
+                ['T3', 'None', 5, new Date('2025-01-13'), new Date('2025-01-18'), 'CS_ASAP', null],
+                ['T4', 'Typo', 5, new Date('2025-01-13'), new Date('2025-01-18'), 'Must Finsh On', new Date('2025-01-18')],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.constraintType)).toEqual(['finishOn', 'startOnOrAfter', null, null]);
+            expect(result.allTasksData[0].constraintDate?.toISOString()).toBe(new Date('2025-01-06').toISOString());
+            expect(result.allTasksData[3].constraintDate).toBeNull();
+            expect(result.dataQuality.hardConstraintTaskIds).toEqual(['T1']);
+            expect(result.dataQuality.drivingPathHardConstraintTaskIds).toEqual([]);
+            expect(result.dataQuality.invalidConstraintTypeCount).toBe(1);
+            expect(result.dataQuality.longestPathAdvisories).toContain('1 unrecognised constraint type value(s) were ignored');
+        });
+
+        it('accumulates calendar work weeks and exception dates from every row', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Calendar', queryName: 'Table[Calendar]', roles: { calendar: true } },
+                { displayName: 'Work Week', queryName: 'Table[WorkWeek]', roles: { calendarWorkWeek: true } },
+                { displayName: 'Holiday', queryName: 'Table[Holiday]', roles: { calendarExceptionDate: true } },
+            ];
+            const rows = [
+                ['T1', 'Site', 5, new Date(2025, 11, 22), new Date(2025, 11, 29), 'Site 6-Day', 'Mon-Sat', new Date(2025, 11, 25)],
+                ['T1', 'Site', 5, new Date(2025, 11, 22), new Date(2025, 11, 29), 'Site 6-Day', 'Mon-Sat', new Date(2025, 11, 26)],
+                ['T2', 'Office', 5, new Date(2025, 11, 22), new Date(2025, 11, 29), '7-Day', null, null],
+                ['T3', 'Typo', 5, new Date(2025, 11, 22), new Date(2025, 11, 29), 'Odd', 'Weekdays', null],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.calendarName)).toEqual(['Site 6-Day', '7-Day', 'Odd']);
+            const site = result.calendars.get('site 6-day');
+            expect(site?.workDays).toEqual([false, true, true, true, true, true, true]);
+            expect([...(site?.holidays ?? [])]).toEqual(['2025-12-25', '2025-12-26']);
+            expect(result.calendars.get('7-day')?.workDays.every(Boolean)).toBe(true);
+            expect(result.dataQuality.invalidCalendarValueCount).toBe(1);
+            expect(result.dataQuality.longestPathAdvisories).toContain('1 unrecognised calendar work-week or exception value(s) were ignored');
+        });
+
+        it('collects curtains from curtain rows and curtain-type tasks', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Task Type', queryName: 'Table[TaskType]', roles: { taskType: true } },
+                { displayName: 'Curtain', queryName: 'Curtains[Label]', roles: { curtainLabel: true } },
+                { displayName: 'Curtain Start', queryName: 'Curtains[Start]', roles: { curtainStart: true } },
+                { displayName: 'Curtain Finish', queryName: 'Curtains[Finish]', roles: { curtainFinish: true } },
+                { displayName: 'Curtain Category', queryName: 'Curtains[Category]', roles: { curtainCategory: true } },
+            ];
+            const rows = [
+                ['T1', 'Track work', 5, new Date(2025, 2, 3), new Date(2025, 2, 8), 'TT_Task', 'P12', new Date(2025, 2, 8), new Date(2025, 2, 10), 'Possession'],
+                ['T2', 'Outage 4', 2, new Date(2025, 2, 4), new Date(2025, 2, 6), 'Outage', null, null, null, null],
+                [null, null, null, null, null, null, 'P12', new Date(2025, 2, 8), new Date(2025, 2, 10), 'Possession'],
+                [null, null, null, null, null, null, 'Month end', new Date(2025, 2, 31), null, '#c00000'],
+            ];
+            settings.curtains = { curtainTaskType: { value: 'outage' } };
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.internalId)).toEqual(['T1', 'T2']);
+            expect(result.curtains.map(curtain => [curtain.label, curtain.category, curtain.color, curtain.source])).toEqual([
+                ['Outage 4', 'Outage', null, 'task'],
+                ['P12', 'Possession', null, 'row'],
+                ['Month end', null, '#C00000', 'row'],
+            ]);
+            expect(result.curtains[2].finish).toEqual(new Date(2025, 3, 1));
+        });
     });
 
     // -----------------------------------------------------------------------
@@ -536,6 +805,19 @@ describe('DataProcessor', () => {
             }
         );
 
+        it('lifts the Relationship Free Float blocker when float is derived from dates', () => {
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, null, null],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', 'FS', 0],
+            ];
+            settings.criticalPath.deriveRelationshipFloat = { value: true };
+            const result = processor.processData(buildDataView(COLUMNS_WITH_PRED, rows), settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.dataQuality.relationshipFloatMethod).toBe('derived');
+            expect(result.dataQuality.longestPathSafe).toBe(true);
+            expect(result.dataQuality.longestPathAdvisories.some(advisory => advisory.includes('derived from the linked dates'))).toBe(true);
+        });
+
         it('calculates with an advisory when relationship float is mixed blank and nonblank', () => {
             const columns: ColumnDef[] = [
                 ...COLUMNS_WITH_PRED,
@@ -616,6 +898,24 @@ describe('DataProcessor', () => {
             expect(result.dataQuality.longestPathAdvisories.some(advisory => advisory.includes('lag value(s) were ignored'))).toBe(true);
         });
 
+        it('reports open ends and dangling logic outside the project start and finish', () => {
+            const rows = [
+                ['T1', 'Start', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, null, null],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', 'FS', 0],
+                ['T3', 'Task C', 4, new Date('2025-01-03'), new Date('2025-01-08'), null, null, null],
+                ['T4', 'Finish', 9, new Date('2025-01-08'), new Date('2025-01-20'), 'T2', 'SS', 0],
+                ['T4', 'Finish', 9, new Date('2025-01-08'), new Date('2025-01-20'), 'T3', 'FF', 0],
+                ['T5', 'Task E', 3, new Date('2025-01-09'), new Date('2025-01-12'), 'T3', 'FF', 0],
+            ];
+            const dv = buildDataView(COLUMNS_WITH_PRED, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.dataQuality.openStartTaskIds).toEqual(['T3']);
+            expect(result.dataQuality.openFinishTaskIds).toEqual(['T5']);
+            expect(result.dataQuality.danglingStartTaskIds).toEqual(['T5']);
+            expect(result.dataQuality.danglingFinishTaskIds).toEqual(['T2']);
+        });
+
         it('excludes self-relationships with an advisory', () => {
             const columns: ColumnDef[] = [
                 ...COLUMNS_WITH_PRED,
@@ -666,6 +966,117 @@ describe('DataProcessor', () => {
         });
     });
 
+    describe('predecessor expressions', () => {
+        it('creates one relationship per MS Project predecessor token and reports unparseable tokens', () => {
+            const expressionSettings = {
+                ...settings,
+                relationshipData: { predecessorFormat: { value: { value: 'expression' } } },
+            };
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Predecessors', queryName: 'Table[Predecessors]', roles: { predecessorId: true } },
+                { displayName: 'Relationship Free Float', queryName: 'Table[RelFreeFloat]', roles: { relationshipFreeFloat: true } },
+            ];
+            const rows = [
+                ['A1010', 'Task A', 10, new Date('2025-01-01'), new Date('2025-01-11'), null, null],
+                ['A1020', 'Task B', 4, new Date('2025-01-01'), new Date('2025-01-05'), null, null],
+                ['A1030', 'Task C', 3, new Date('2025-01-20'), new Date('2025-01-23'), 'A1010FS+5d;A1020SS-2d, A1020FF+50%;A1040XX+5q', 0],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, expressionSettings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.relationshipIndex.get('A1030')?.map(rel => [rel.predecessorId, rel.type, rel.lag])).toEqual([
+                ['A1010', 'FS', 5],
+                ['A1020', 'SS', -2],
+                ['A1020', 'FF', 2],
+            ]);
+            expect(result.dataQuality.invalidRelationshipTypeCount).toBe(0);
+            expect(result.dataQuality.invalidPredecessorTokens).toEqual([{ row: 3, taskId: 'A1030', token: 'A1040XX+5q' }]);
+            expect(result.dataQuality.longestPathAdvisories).toContain('1 unparseable predecessor token(s) were ignored (row 3 "A1040XX+5q")');
+        });
+    });
+
+    describe('duration and lag units', () => {
+        it('converts unit text with the Calendars hours-per-day and days-per-week settings', () => {
+            const unitSettings = {
+                ...settings,
+                calendars: { hoursPerDay: { value: 10 }, daysPerWeek: { value: 6 } },
+            };
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Predecessor', queryName: 'Table[PredID]', roles: { predecessorId: true } },
+                { displayName: 'Lag', queryName: 'Table[Lag]', roles: { relationshipLag: true } },
+            ];
+            const rows = [
+                ['T1', 'Task A', '20h', new Date('2025-01-01'), new Date('2025-01-03'), null, null],
+                ['T2', 'Task B', '3w', new Date('2025-01-03'), new Date('2025-01-21'), 'T1', '-15h'],
+                ['T3', 'Task C', '5ed', new Date('2025-01-21'), new Date('2025-01-26'), 'T1', '1w'],
+                ['T4', 'Task D', '2.5 days', new Date('2025-01-26'), new Date('2025-01-29'), 'T1', '50%'],
+                ['T5', 'Task E', '4 fortnights', new Date('2025-01-29'), new Date('2025-02-01'), 'T1', '3q'],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, unitSettings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.duration)).toEqual([2, 18, 5, 2.5, 0]);
+            expect(result.relationships.map(rel => [rel.successorId, rel.lag])).toEqual([
+                ['T2', -1.5],
+                ['T3', 6],
+                ['T4', 1],
+                ['T5', null],
+            ]);
+            expect(result.dataQuality.invalidRelationshipLagCount).toBe(1);
+            expect(result.dataQuality.invalidDurationValueCount).toBe(1);
+            expect(result.dataQuality.longestPathAdvisories).toContain('1 unrecognised duration value(s) were ignored');
+        });
+    });
+
+    describe('successor-oriented relationships', () => {
+        const COLUMNS_WITH_BOTH: ColumnDef[] = [
+            ...STANDARD_COLUMNS,
+            { displayName: 'Predecessor', queryName: 'Table[PredID]', roles: { predecessorId: true } },
+            { displayName: 'Successor', queryName: 'Table[SuccID]', roles: { successorId: true } },
+            { displayName: 'Rel Type', queryName: 'Table[RelType]', roles: { relationshipType: true } },
+            { displayName: 'Lag', queryName: 'Table[Lag]', roles: { relationshipLag: true } },
+            { displayName: 'Relationship Free Float', queryName: 'Table[RelFreeFloat]', roles: { relationshipFreeFloat: true } },
+        ];
+
+        it('builds the same indexes from successor rows and merges identical links from both orientations', () => {
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'T2', 'FS', 0, 0],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'T3', 'SS', 2, 1],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', null, 'FS', 0, 0],
+                ['T3', 'Task C', 3, new Date('2025-01-03'), new Date('2025-01-06'), null, null, null, null, null],
+            ];
+            const dv = buildDataView(COLUMNS_WITH_BOTH, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.relationships.map(rel => `${rel.predecessorId}->${rel.successorId}:${rel.type}`).sort())
+                .toEqual(['T1->T2:FS', 'T1->T3:SS']);
+            expect(result.relationshipIndex.get('T3')?.[0].lag).toBe(2);
+            expect(result.relationshipByPredecessor.get('T1')?.length).toBe(2);
+            expect([...result.predecessorIndex.get('T1')!].sort()).toEqual(['T2', 'T3']);
+            expect(result.taskIdToTask.get('T3')!.predecessorIds).toEqual(['T1']);
+            expect(result.dataQuality.relationshipOrientationConflicts).toEqual([]);
+        });
+
+        it('keeps the predecessor row when orientations disagree and links unknown successors to synthetic tasks', () => {
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'T2', 'SS', 1, 0],
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'EXTERNAL_SUCC', 'FS', 0, 3],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', null, 'FS', 0, 0],
+            ];
+            const dv = buildDataView(COLUMNS_WITH_BOTH, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.relationshipIndex.get('T2')?.map(rel => rel.type)).toEqual(['FS']);
+            expect(result.dataQuality.relationshipOrientationConflicts).toEqual(['T1 -> T2: type FS/SS, lag 0/1']);
+            expect(result.taskIdToTask.get('EXTERNAL_SUCC')?.type).toBe('Synthetic');
+            expect(result.relationshipIndex.get('EXTERNAL_SUCC')?.[0].predecessorId).toBe('T1');
+            expect(result.dataQuality.missingSuccessorIds).toEqual(['EXTERNAL_SUCC']);
+            expect(result.dataQuality.longestPathAdvisories).toContain('missing successor activities (1)');
+        });
+    });
+
     // -----------------------------------------------------------------------
     // WBS data
     // -----------------------------------------------------------------------
@@ -744,6 +1155,31 @@ describe('DataProcessor', () => {
             expect(result.wbsGroups.length).toBeGreaterThan(0);
         });
 
+        it('groups by project above WBS and flags inter-project relationships', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Predecessor', queryName: 'Table[PredID]', roles: { predecessorId: true } },
+                { displayName: 'Project', queryName: 'Table[Project]', roles: { projectId: true } },
+                { displayName: 'WBS L1', queryName: 'Table[WBS1]', roles: { wbsLevels: true } },
+            ];
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'P1', 'Design'],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', 'P1', 'Build'],
+                ['T3', 'Task C', 4, new Date('2025-01-11'), new Date('2025-01-15'), 'T2', 'P2', 'Design'],
+                ['T4', 'Task D', 2, new Date('2025-01-01'), new Date('2025-01-03'), null, null, null],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+
+            expect(result.allTasksData.map(task => task.projectId ?? null)).toEqual(['P1', 'P1', 'P2', null]);
+            expect(result.allTasksData[0].wbsLevels).toEqual(['Design']);
+            expect(result.wbsGroupMap.get('L1:P1')?.projectId).toBe('P1');
+            expect(result.wbsGroupMap.get('L1:P1|L2:Build')?.level).toBe(2);
+            expect(result.wbsGroupMap.get('L1:P2|L2:Design')?.taskCount).toBe(1);
+            expect(result.relationships.find(rel => rel.successorId === 'T2')?.isInterProject).toBe(false);
+            expect(result.relationships.find(rel => rel.successorId === 'T3')?.isInterProject).toBe(true);
+        });
+
         it('builds WBS summary ranges from finish-only visualiser milestones', () => {
             const visualiserSettings = {
                 ...settings,
@@ -1082,6 +1518,33 @@ describe('DataProcessor', () => {
             );
             expect(cycles.length).toBe(0);
         });
+
+        it('assigns logic levels, skipping loop-closing links and counting WBS-local depth', () => {
+            const columns: ColumnDef[] = [
+                ...STANDARD_COLUMNS,
+                { displayName: 'Predecessor', queryName: 'Table[PredID]', roles: { predecessorId: true } },
+                { displayName: 'WBS L1', queryName: 'Table[WBS1]', roles: { wbsLevels: true } },
+            ];
+            const rows = [
+                ['T1', 'Task A', 5, new Date('2025-01-01'), new Date('2025-01-06'), null, 'Phase 1'],
+                ['T2', 'Task B', 3, new Date('2025-01-07'), new Date('2025-01-10'), 'T1', 'Phase 2'],
+                ['T3', 'Task C', 2, new Date('2025-01-11'), new Date('2025-01-13'), 'T2', 'Phase 2'],
+                ['T4', 'Task D', 2, new Date('2025-01-01'), new Date('2025-01-03'), 'T5', 'Phase 1'],
+                ['T5', 'Task E', 2, new Date('2025-01-04'), new Date('2025-01-06'), 'T4', 'Phase 1'],
+            ];
+            const dv = buildDataView(columns, rows);
+            const result = processor.processData(dv, settings, new Map(), new Set(), null, false, '#000');
+            const levelOf = (id: string) => {
+                const task = result.taskIdToTask.get(id)!;
+                return [task.logicLevel, task.wbsLogicLevel];
+            };
+
+            expect(levelOf('T1')).toEqual([0, 0]);
+            expect(levelOf('T2')).toEqual([1, 0]);
+            expect(levelOf('T3')).toEqual([2, 1]);
+            expect(result.dataQuality.circularPaths.length).toBe(1);
+            expect([levelOf('T4')[0], levelOf('T5')[0]].sort()).toEqual([0, 1]);
+        });
     });
 
     // -----------------------------------------------------------------------
@@ -92,6 +92,34 @@ describe("VisualSettings", () => {
         ]);
     });
 
+    it("binds actual dates and percent complete with matching bar and column settings", () => {
+        const settingsSource = readFileSync("src/settings.ts", "utf8");
+        const capabilities = JSON.parse(readFileSync("capabilities.json", "utf8"));
+        const roleNames = capabilities.dataRoles.map((role: { name: string }) => role.name);
+        const selectedRoles = capabilities.dataViewMappings[0].table.rows.select.map((entry: { for: { in: string } }) => entry.for.in);
+
+        for (const role of ["actualStartDate", "actualFinishDate", "percentComplete"]) {
+            expect(roleNames).toContain(role);
+            expect(selectedRoles).toContain(role);
+            expect(capabilities.dataViewMappings[0].conditions[0][role]).toEqual({ max: 1 });
+        }
+        expect(Object.keys(capabilities.objects.taskBars.properties)).toEqual(expect.arrayContaining([
+            "actualBarColor",
+            "showPercentComplete",
+            "percentCompleteColor"
+        ]));
+        expect(Object.keys(capabilities.objects.columns.properties)).toEqual(expect.arrayContaining([
+            "showActualDateColumns",
+            "actualStartDateHeader",
+            "actualFinishDateWidth",
+            "showPercentComplete",
+            "percentCompleteWidth"
+        ]));
+        expect(settingsSource).toContain('name: "actualBarColor"');
+        expect(settingsSource).toContain('name: "showActualDateColumns"');
+        expect(settingsSource).toContain('name: "percentCompleteHeader"');
+    });
+
     it("persists stable legend category order for data colour slots", () => {
         const settingsSource = readFileSync("src/settings.ts", "utf8");
         const capabilities = JSON.parse(readFileSync("capabilities.json", "utf8"));
@@ -140,8 +168,9 @@ describe("VisualSettings", () => {
         expect(visualSource).toContain("private isNoCalculationMode(): boolean");
         expect(visualSource).toContain("const noCalculationMode = mode === 'none';");
         expect(visualSource).toContain("this.clearCriticalPathState();");
-        expect(visualSource).toContain("successorTaskSet = this.identifySuccessorTasksFloatBased(this.selectedTaskId);");
-        expect(visualSource).toContain("predecessorTaskSet = this.identifyPredecessorTasksFloatBased(this.selectedTaskId);");
+        expect(visualSource).toContain("traceTaskSet = this.identifyTraceTasksFloatBased(this.selectedTaskId, this.getEffectiveTraceMode());");
+        expect(visualSource).toContain("return this.identifySuccessorTasksFloatBased(taskId);");
+        expect(visualSource).toContain("return this.identifyPredecessorTasksFloatBased(taskId);");
         expect(visualSource).toContain("if (noCalculationMode || longestPathUnavailable || this.showAllTasksInternal)");
         expect(visualSource).toContain("tasksToConsider = relevantPlottableTasks.length > 0 ? relevantPlottableTasks : [];");
         expect(visualSource).toContain('this.getLocalizedString("tooltip.mode.visualiser", "Visualiser")');
@@ -409,7 +438,7 @@ describe("VisualSettings", () => {
         expect(traceModeSource).toContain('.style("box-shadow", "none")');
         expect(traceModeSource).toContain('.style("background-color", isActive ? activeBackground : "transparent")');
         expect(traceModeSource).toContain('.style("border", "none")');
-        expect(traceModeSource).toContain('.style("border-left", option.value === "forward" ? `1px solid ${borderColor}` : "none")');
+        expect(traceModeSource).toContain('.style("border-left", optionIndex > 0 ? `1px solid ${borderColor}` : "none")');
         expect(traceModeSource).not.toContain("HEADER_DOCK_TOKENS.primaryBg");
         expect(traceModeSource).not.toContain("HEADER_DOCK_TOKENS.shadow");
         expect(taskDropdownSource).toContain("const activeColor = this.getHeaderLegendActiveColor();");
@@ -1263,7 +1292,7 @@ describe("VisualSettings", () => {
         expect(visualSource).toContain("private shouldShowPreviousUpdateStartDateColumn(): boolean");
         expect(visualSource).toContain("if (this.shouldShowBaselineStartDateColumn())");
         expect(visualSource).toContain("if (this.shouldShowPreviousUpdateStartDateColumn())");
-        expect(visualSource).toContain("this.dataProcessor.detectBoundFields(dataView, this.allTasksData || [], this.settings)");
+        expect(visualSource).toContain("this.dataProcessor.detectBoundFields(dataView, this.allTasksData || [], this.settings, this.referenceSnapshot !== null)");
     });
 
     it("places copy-to-clipboard export metadata after the copied table", () => {
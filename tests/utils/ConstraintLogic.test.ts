@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    collectDrivingPathHardConstraintTaskIds,
+    getConstraintEdge,
+    getConstraintGlyph,
+    getTaskConstraints,
+    isHardConstraint,
+    isNoConstraintValue,
+    tryNormalizeConstraintType
+} from "../../src/utils/ConstraintLogic";
+
+describe("ConstraintLogic", () => {
+    it("normalises P6 codes, P6 names, and MS Project names", () => {
+        expect(tryNormalizeConstraintType("CS_MEO")).toBe("finishOn");
+        expect(tryNormalizeConstraintType("Finish On or Before")).toBe("finishOnOrBefore");
+        expect(tryNormalizeConstraintType("Start No Earlier Than")).toBe("startOnOrAfter");
+        expect(tryNormalizeConstraintType("CS_MANDFIN")).toBe("mandatoryFinish");
+        expect(tryNormalizeConstraintType("Must Start On")).toBe("startOn");
+        expect(tryNormalizeConstraintType("unknown")).toBeNull();
+        expect(isNoConstraintValue("CS_ASAP")).toBe(true);
+        expect(isNoConstraintValue(" ")).toBe(true);
+        expect(isNoConstraintValue("unknown")).toBe(false);
+    });
+
+    it("classifies hard constraints and their constrained edge", () => {
+        expect(isHardConstraint("finishOn")).toBe(true);
+        expect(isHardConstraint("mandatoryStart")).toBe(true);
+        expect(isHardConstraint("startOnOrAfter")).toBe(false);
+        expect(getConstraintEdge("startOnOrBefore")).toBe("start");
+        expect(getConstraintEdge("mandatoryFinish")).toBe("finish");
+        expect(getConstraintEdge("asLateAsPossible")).toBeNull();
+    });
+
+    it("returns primary and secondary constraints and flags hard constraints on the driving path", () => {
+        const constraintDate = new Date(Date.UTC(2026, 4, 20));
+        const constrained = {
+            internalId: "A1010",
+            isLongestPath: true,
+            constraintType: "startOnOrAfter",
+            constraintDate,
+            secondaryConstraintType: "finishOn",
+            secondaryConstraintDate: null
+        };
+
+        expect(getTaskConstraints(constrained)).toEqual([
+            { type: "startOnOrAfter", date: constraintDate, isPrimary: true },
+            { type: "finishOn", date: null, isPrimary: false }
+        ]);
+        expect(collectDrivingPathHardConstraintTaskIds([
+            constrained,
+            { ...constrained, internalId: "A1020", isLongestPath: false },
+            { internalId: "A1030", isLongestPath: true, constraintType: "startOnOrAfter" }
+        ])).toEqual(["A1010"]);
+    });
+
+    it("points start and finish glyph flags into the bar", () => {
+        const startGlyph = getConstraintGlyph(100, 10, 8, "start", 4);
+        const finishGlyph = getConstraintGlyph(200, 10, 8, "finish", 4);
+
+        expect(startGlyph.stem.points).toEqual([{ x: 100, y: 8 }, { x: 100, y: 20 }]);
+        expect(startGlyph.flag.points[1]).toEqual({ x: 104, y: 8 });
+        expect(finishGlyph.flag.points[1]).toEqual({ x: 196, y: 8 });
+        expect(finishGlyph.flag.closed).toBe(true);
+    });
+});
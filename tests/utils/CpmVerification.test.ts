@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import { deriveRelationshipFloat, formatCpmCheckSummary, verifyScheduleCpm } from "../../src/utils/CpmVerification";
+import type { CpmVerificationRelationship, CpmVerificationTask } from "../../src/utils/CpmVerification";
+import { createWorkingCalendar } from "../../src/utils/WorkingCalendar";
+
+const fiveDay = createWorkingCalendar("5-Day");
+const options = { dataDate: new Date(2026, 0, 5), toleranceDays: 1, getCalendar: () => fiveDay };
+
+function task(internalId: string, duration: number, fields: Partial<CpmVerificationTask> = {}): CpmVerificationTask {
+    return { internalId, duration, ...fields };
+}
+
+function link(predecessorId: string, successorId: string, type: string, lag: number | null = null): CpmVerificationRelationship {
+    return { predecessorId, successorId, type, lag };
+}
+
+describe("CpmVerification", () => {
+    it("schedules FS and SS logic with lags on working days from the data date", () => {
+        const result = verifyScheduleCpm(
+            [task("A", 5), task("B", 3), task("C", 2)],
+            [link("A", "B", "FS", 2), link("A", "C", "SS", 1)],
+            options
+        );
+
+        const a = result.checks.get("A")!;
+        const b = result.checks.get("B")!;
+        const c = result.checks.get("C")!;
+        expect(result.anchorSource).toBe("dataDate");
+        expect(a.earlyStart).toEqual(new Date(2026, 0, 5));
+        expect(a.earlyFinish).toEqual(new Date(2026, 0, 10));
+        expect(b.earlyStart).toEqual(new Date(2026, 0, 14));
+        expect(b.earlyFinish).toEqual(new Date(2026, 0, 17));
+        expect(c.earlyStart).toEqual(new Date(2026, 0, 6));
+        expect(result.projectFinish).toEqual(new Date(2026, 0, 17));
+        expect([a.totalFloat, b.totalFloat, c.totalFloat]).toEqual([0, 0, 7]);
+    });
+
+    it("reports imported dates and floats outside the tolerance", () => {
+        const result = verifyScheduleCpm(
+            [
+                task("A", 5, { startDate: new Date(2026, 0, 5), finishDate: new Date(2026, 0, 9, 17), userProvidedTotalFloat: 0 }),
+                task("B", 3, { startDate: new Date(2026, 0, 19), finishDate: new Date(2026, 0, 16, 17), userProvidedTotalFloat: 1 }),
+                task("C", 2, { startDate: new Date(2026, 0, 6), userProvidedTotalFloat: 3 })
+            ],
+            [link("A", "B", "FS", 2), link("A", "C", "SS", 1)],
+            options
+        );
+
+        expect(result.checks.get("A")!.discrepancies).toEqual([]);
+        expect(result.checks.get("B")!.discrepancies).toEqual([
+            { field: "start", imported: new Date(2026, 0, 19), calculated: new Date(2026, 0, 14), differenceDays: -3 }
+        ]);
+        expect(result.checks.get("C")!.discrepancies.map(d => [d.field, d.differenceDays])).toEqual([["totalFloat", 4]]);
+        expect(result.discrepancyTaskIds).toEqual(["C", "B"]);
+        expect(formatCpmCheckSummary(result.checks.get("C"))).toBe("TF +4d");
+    });
+
+    it("reads a date-only finish as the end of that day", () => {
+        const result = verifyScheduleCpm(
+            [
+                task("A", 5, { startDate: new Date(2026, 0, 5), finishDate: new Date(2026, 0, 9) }),
+                task("B", 5, { startDate: new Date(2026, 0, 5), finishDate: new Date(2026, 0, 8) })
+            ],
+            [],
+            { ...options, toleranceDays: 0 }
+        );
+
+        expect(result.checks.get("A")!.discrepancies).toEqual([]);
+        expect(result.checks.get("B")!.discrepancies).toEqual([
+            { field: "finish", imported: new Date(2026, 0, 8), calculated: new Date(2026, 0, 9), differenceDays: 1 }
+        ]);
+    });
+
+    it("runs in-progress tasks for their remaining duration from the data date", () => {
+        const result = verifyScheduleCpm(
+            [
+                task("Started", 10, { actualStartDate: new Date(2025, 11, 22), startDate: new Date(2025, 11, 22), finishDate: new Date(2026, 0, 7, 17) }),
+                task("Half", 10, { actualStartDate: new Date(2025, 11, 22), percentComplete: 50 }),
+                task("Next", 2, { startDate: new Date(2026, 0, 8), finishDate: new Date(2026, 0, 9), userProvidedTotalFloat: 0 })
+            ],
+            [link("Started", "Next", "FS")],
+            { ...options, toleranceDays: 0 }
+        );
+
+        expect(result.checks.get("Started")).toMatchObject({ earlyFinish: new Date(2026, 0, 8), discrepancies: [] });
+        expect(result.checks.get("Half")!.earlyFinish).toEqual(new Date(2026, 0, 10));
+        expect(result.checks.get("Next")!.discrepancies).toEqual([]);
+    });
+
+    it("keeps actual dates, schedules remaining work from the data date and honours constraints", () => {
+        const result = verifyScheduleCpm(
+            [
+                task("Done", 2, { actualStartDate: new Date(2025, 11, 1), actualFinishDate: new Date(2025, 11, 2, 17), startDate: new Date(2020, 0, 1) }),
+                task("Going", 2, { actualStartDate: new Date(2025, 11, 29) }),
+                task("Held", 1, { constraintType: "startOnOrAfter", constraintDate: new Date(2026, 0, 12) })
+            ],
+            [link("Done", "Going", "FS"), link("Going", "Held", "FF")],
+            options
+        );
+
+        expect(result.checks.get("Done")).toMatchObject({ isComplete: true, discrepancies: [], earlyFinish: new Date(2025, 11, 3) });
+        expect(result.checks.get("Going")).toMatchObject({ earlyStart: new Date(2025, 11, 29), earlyFinish: new Date(2026, 0, 7) });
+        expect(result.checks.get("Held")!.earlyStart).toEqual(new Date(2026, 0, 12));
+    });
+
+    it("anchors at the earliest start without a data date and stops on loops", () => {
+        const unanchored = verifyScheduleCpm(
+            [task("A", 1, { startDate: new Date(2026, 0, 7) }), task("B", 1, { startDate: new Date(2026, 0, 6) })],
+            [],
+            { ...options, dataDate: null }
+        );
+        expect(unanchored.anchorSource).toBe("earliestStart");
+        expect(unanchored.checks.get("A")!.earlyStart).toEqual(new Date(2026, 0, 6));
+
+        const looped = verifyScheduleCpm([task("A", 1), task("B", 1)], [link("A", "B", "FS"), link("B", "A", "FS")], options);
+        expect(looped.blockedByCycle).toBe(true);
+        expect(looped.checks.size).toBe(0);
+    });
+
+    it("derives relationship float from the linked dates, type and lag", () => {
+        const a = { startDate: new Date(2026, 0, 5), finishDate: new Date(2026, 0, 9, 17) };
+        const b = { startDate: new Date(2026, 0, 13), finishDate: new Date(2026, 0, 14, 17) };
+        const early = { startDate: new Date(2026, 0, 8), finishDate: new Date(2026, 0, 8, 17) };
+
+        expect(deriveRelationshipFloat(a, b, { type: "FS", lag: 0 }, fiveDay)).toBe(1);
+        expect(deriveRelationshipFloat(a, b, { type: "FS", lag: 1 }, fiveDay)).toBe(0);
+        expect(deriveRelationshipFloat(a, b, { type: "SS", lag: 2 }, fiveDay)).toBe(4);
+        expect(deriveRelationshipFloat(a, b, { type: "FF", lag: null }, fiveDay)).toBe(3);
+        expect(deriveRelationshipFloat(a, early, { type: "FS", lag: 0 }, fiveDay)).toBe(-2);
+        expect(deriveRelationshipFloat(a, b, { type: "FS", lag: 0 }, null)).toBe(3);
+        expect(deriveRelationshipFloat({ startDate: null, finishDate: null }, b, { type: "FS", lag: 0 }, null)).toBeNull();
+    });
+});
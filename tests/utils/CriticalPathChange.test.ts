@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    classifyCriticalChange,
+    countCriticalChanges,
+    formatCriticalChangeSummary,
+    formatFloatChange,
+    getCriticalChangeStatusLabel,
+    rankCriticalChanges
+} from "../../src/utils/CriticalPathChange";
+import type { CriticalChange } from "../../src/utils/CriticalPathChange";
+
+const options = { nearCriticalDays: 10, erosionThresholdDays: 5 };
+const statusOf = (current: number | null, previous: number | null, opts = options) =>
+    classifyCriticalChange(current, previous, opts)?.status ?? null;
+
+describe("CriticalPathChange", () => {
+    it("classifies moves into and out of the critical and near-critical bands", () => {
+        expect(statusOf(0, 3)).toBe("newlyCritical");
+        expect(statusOf(-2, 20)).toBe("newlyCritical");
+        expect(statusOf(8, 20)).toBe("newlyNearCritical");
+        expect(statusOf(4, 0)).toBe("noLongerCritical");
+        expect(statusOf(15, 9)).toBe("noLongerNearCritical");
+        expect(statusOf(30, 40)).toBe("floatEroded");
+        expect(statusOf(32, 35)).toBe("unchanged");
+        expect(statusOf(-3, 0)).toBe("unchanged");
+        expect(statusOf(-5, 0)).toBe("floatEroded");
+        expect(statusOf(8, 20, { nearCriticalDays: 0, erosionThresholdDays: 5 })).toBe("floatEroded");
+        expect(statusOf(5, null)).toBeNull();
+        expect(getCriticalChangeStatusLabel(null)).toBe("No Previous Float");
+    });
+
+    it("ranks changed activities by lost float and counts each status", () => {
+        const changes = new Map<string, CriticalChange>([
+            ["A", classifyCriticalChange(0, 3, options)!],
+            ["B", classifyCriticalChange(30, 40, options)!],
+            ["C", classifyCriticalChange(32, 35, options)!],
+            ["D", classifyCriticalChange(4, 0, options)!]
+        ]);
+
+        expect(rankCriticalChanges(changes).map(([taskId]) => taskId)).toEqual(["B", "A", "D"]);
+        expect(formatFloatChange(changes.get("B")!)).toBe("-10d");
+        expect(formatFloatChange(changes.get("D")!)).toBe("+4d");
+        expect(formatCriticalChangeSummary(changes.get("A"))).toBe("Newly Critical (-3d)");
+        expect(formatCriticalChangeSummary(changes.get("C"))).toBe("No Change");
+        expect(formatCriticalChangeSummary(undefined)).toBe("");
+        expect(countCriticalChanges(changes)).toMatchObject({ newlyCritical: 1, floatEroded: 1, noLongerCritical: 1, unchanged: 1 });
+    });
+});
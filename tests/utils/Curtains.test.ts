@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    buildCurtainLegend,
+    createCurtain,
+    getCurtainColor,
+    getOverlappingCurtains,
+    parseCurtainColor
+} from "../../src/utils/Curtains";
+
+describe("Curtains", () => {
+    it("reads hex colours from the category cell", () => {
+        expect(parseCurtainColor(" #abc ")).toBe("#ABC");
+        expect(parseCurtainColor("#A1B2C3")).toBe("#A1B2C3");
+        expect(parseCurtainColor("Possession")).toBeNull();
+    });
+
+    it("swaps reversed dates and rejects curtains without a start", () => {
+        const curtain = createCurtain("Outage", new Date(2026, 3, 10), new Date(2026, 3, 2), "Plant", "row");
+
+        expect(curtain?.start).toEqual(new Date(2026, 3, 2));
+        expect(curtain?.finish).toEqual(new Date(2026, 3, 10));
+        expect(createCurtain("Outage", null, new Date(2026, 3, 2), null, "row")).toBeNull();
+        expect(createCurtain(null, new Date(2026, 3, 2), null, "Plant", "row")?.label).toBe("Plant");
+    });
+
+    it("assigns one colour per category and keeps explicit colours", () => {
+        const curtains = [
+            createCurtain("P1", new Date(2026, 0, 5), new Date(2026, 0, 6), "Possession", "row")!,
+            createCurtain("O1", new Date(2026, 0, 7), new Date(2026, 0, 9), "Outage", "row")!,
+            createCurtain("P2", new Date(2026, 0, 12), new Date(2026, 0, 13), "Possession", "row")!,
+            createCurtain("Close", new Date(2026, 0, 30), null, "#112233", "row")!
+        ];
+        const legend = buildCurtainLegend(curtains, ["#AAAAAA", "#BBBBBB"]);
+
+        expect(legend).toEqual([
+            { category: "Possession", color: "#AAAAAA", count: 2 },
+            { category: "Outage", color: "#BBBBBB", count: 1 },
+            { category: "Curtain", color: "#112233", count: 1 }
+        ]);
+        expect(getCurtainColor(curtains[2], legend)).toBe("#AAAAAA");
+        expect(getCurtainColor(curtains[3], legend)).toBe("#112233");
+        expect(getOverlappingCurtains(curtains, new Date(2026, 0, 6), new Date(2026, 0, 8)).map(curtain => curtain.label))
+            .toEqual(["P1", "O1"]);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    formatDurationDays,
+    parseDurationText,
+    parseDurationValue,
+    resolveDurationUnitOptions
+} from "../../src/utils/DurationUnits";
+
+describe("DurationUnits", () => {
+    it("converts working and elapsed units to days", () => {
+        const options = { hoursPerDay: 8, daysPerWeek: 5 };
+
+        expect(parseDurationText("16h", options)).toEqual({ days: 2, percent: null });
+        expect(parseDurationText("3w", options)).toEqual({ days: 15, percent: null });
+        expect(parseDurationText("5ed", options)).toEqual({ days: 5, percent: null });
+        expect(parseDurationText("2.5 days", options)).toEqual({ days: 2.5, percent: null });
+        expect(parseDurationText("2ew", options)).toEqual({ days: 14, percent: null });
+        expect(parseDurationText("36eh", options)).toEqual({ days: 1.5, percent: null });
+        expect(parseDurationText("-4 hrs", options)).toEqual({ days: -0.5, percent: null });
+        expect(parseDurationText("3q", options)).toBeNull();
+    });
+
+    it("only reads percentages when allowed", () => {
+        expect(parseDurationText("50%")).toBeNull();
+        expect(parseDurationText("50%", undefined, true)).toEqual({ days: null, percent: 50 });
+    });
+
+    it("separates blank cells from unreadable ones", () => {
+        expect(parseDurationValue(null)).toBeUndefined();
+        expect(parseDurationValue("  ")).toBeUndefined();
+        expect(parseDurationValue(7)).toBe(7);
+        expect(parseDurationValue(Infinity)).toBeNull();
+        expect(parseDurationValue("24h", { hoursPerDay: 12, daysPerWeek: 5 })).toBe(2);
+        expect(parseDurationValue("soon")).toBeNull();
+    });
+
+    it("falls back to default conversion factors and formats fractional days", () => {
+        expect(resolveDurationUnitOptions(0, undefined)).toEqual({ hoursPerDay: 8, daysPerWeek: 5 });
+        expect(resolveDurationUnitOptions(10, 6)).toEqual({ hoursPerDay: 10, daysPerWeek: 6 });
+        expect(formatDurationDays(5)).toBe("5");
+        expect(formatDurationDays(2.5)).toBe("2.5");
+        expect(formatDurationDays(1 / 3)).toBe("0.33");
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateFloatPaths, getFloatPathLabel, normalizeFloatPathCount } from "../../src/utils/FloatPaths";
+
+const day = (d: number): Date => new Date(2026, 0, d);
+
+const tasks = [
+    { internalId: "A", finishDate: day(5) },
+    { internalId: "B", finishDate: day(10) },
+    { internalId: "C", finishDate: day(8) },
+    { internalId: "D", finishDate: day(6) },
+    { internalId: "E", finishDate: day(20) },
+    { internalId: "X", finishDate: day(3) }
+];
+const relationships = [
+    { predecessorId: "A", successorId: "B", freeFloat: 0 },
+    { predecessorId: "B", successorId: "E", freeFloat: 0 },
+    { predecessorId: "C", successorId: "E", freeFloat: 2 },
+    { predecessorId: "D", successorId: "C", freeFloat: 0 },
+    { predecessorId: "A", successorId: "C", freeFloat: 1 },
+    { predecessorId: "X", successorId: "E", freeFloat: null }
+];
+
+describe("FloatPaths", () => {
+    it("groups activities into float paths by relative free float from the end activity", () => {
+        const result = calculateFloatPaths(tasks, relationships, 10);
+
+        expect(result.endTaskIds).toEqual(["E"]);
+        expect(result.paths).toEqual([
+            { pathNumber: 1, taskIds: ["E", "B", "A"], relativeFloatDays: 0 },
+            { pathNumber: 2, taskIds: ["C", "D"], relativeFloatDays: 2 }
+        ]);
+        expect(result.pathByTaskId.has("X")).toBe(false);
+    });
+
+    it("honours the path count and an explicit end activity", () => {
+        expect(calculateFloatPaths(tasks, relationships, 1).paths.map(path => path.pathNumber)).toEqual([1]);
+
+        const toC = calculateFloatPaths(tasks, relationships, 10, "C");
+        expect(toC.paths.map(path => path.taskIds)).toEqual([["C", "D"], ["A"]]);
+        expect(toC.paths[1].relativeFloatDays).toBe(1);
+        expect(normalizeFloatPathCount(0)).toBe(1);
+        expect(normalizeFloatPathCount(99)).toBe(50);
+        expect(getFloatPathLabel(3)).toBe("Float Path 3");
+        expect(getFloatPathLabel(null)).toBe("No Float Path");
+    });
+});
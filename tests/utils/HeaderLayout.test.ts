@@ -19,6 +19,17 @@ const allDesiredControls: HeaderDesiredControls = {
     wbsEnable: true,
     wbsExpand: true,
     wbsCollapse: true,
+    scheduleCheck: true,
+    scheduleRisk: true,
+    scheduleAssessment: true,
+    openEnds: true,
+    redundantLogic: true,
+    floatErosion: true,
+    milestoneTrend: true,
+    whatIf: true,
+    pathTarget: true,
+    comparisonSnapshot: true,
+    playback: true,
     copyButton: true,
     htmlExportButton: true,
     exportButton: true,
@@ -129,7 +140,7 @@ describe("HeaderLayout", () => {
 
     it("counts active hidden controls for the overflow badge", () => {
         const count = getActiveHiddenHeaderControlCount(
-            ["lookAhead", "floatThreshold", "baseline", "previousUpdate", "progressLine", "connectorLines", "columns", "wbsEnable"],
+            ["lookAhead", "floatThreshold", "baseline", "previousUpdate", "progressLine", "connectorLines", "columns", "wbsEnable", "whatIf", "pathTarget"],
             {
                 lookAheadWindowDays: 84,
                 showBaseline: true,
@@ -137,11 +148,13 @@ describe("HeaderLayout", () => {
                 showProgressLine: true,
                 showConnectorLines: true,
                 showExtraColumns: true,
-                wbsEnabled: false
+                wbsEnabled: false,
+                whatIfActive: true,
+                pathTargetActive: true
             }
         );
 
-        expect(count).toBe(6);
+        expect(count).toBe(8);
     });
 
     it("keeps custom look-ahead options available without duplicating the standard list", () => {
@@ -165,6 +178,22 @@ describe("HeaderLayout", () => {
         expect(layout.traceModeToggle.left).toBeGreaterThan(layout.dropdown.left + layout.dropdown.width);
     });
 
+    it("widens the trace toggle for the A to B option and keeps the search box clear of it", () => {
+        const input = {
+            viewportWidth: 900,
+            mode: "wide" as const,
+            configuredDropdownWidth: 350,
+            dropdownPosition: "left",
+            traceVisible: true
+        };
+        const twoOptions = computeSecondRowLayout(input);
+        const threeOptions = computeSecondRowLayout({ ...input, traceOptionCount: 3 });
+
+        expect(threeOptions.traceModeToggle.width).toBe(twoOptions.traceModeToggle.width + 92);
+        expect(threeOptions.statusLabel.left).toBe(twoOptions.statusLabel.left + 92);
+        expect(threeOptions.traceModeToggle.left).toBeGreaterThan(threeOptions.dropdown.left + threeOptions.dropdown.width);
+    });
+
     it("allows a wider search box when trace controls are not visible", () => {
         const withoutTrace = computeSecondRowLayout({
             viewportWidth: 320,
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    formatHours,
+    formatTimeOfDay,
+    getShiftBoundaries,
+    getShiftNumber,
+    isShiftBoundary,
+    normalizeShiftPattern,
+    normalizeTimeResolution
+} from "../../src/utils/HourTimescale";
+
+describe("HourTimescale", () => {
+    it("normalises resolution and shift settings", () => {
+        expect(normalizeTimeResolution("hour")).toBe("hour");
+        expect(normalizeTimeResolution(undefined)).toBe("day");
+        expect(normalizeShiftPattern(undefined, undefined)).toEqual({ lengthHours: 8, startHour: 6 });
+        expect(normalizeShiftPattern(40, -2)).toEqual({ lengthHours: 24, startHour: 22 });
+    });
+
+    it("restarts shifts at the first shift hour each day", () => {
+        const pattern = { lengthHours: 10, startHour: 6 };
+        const boundaries = getShiftBoundaries(new Date(2026, 2, 2, 0), new Date(2026, 2, 3, 7), pattern);
+
+        expect(boundaries.map(date => `${date.getDate()} ${formatTimeOfDay(date)}`)).toEqual([
+            "2 02:00",
+            "2 06:00",
+            "2 16:00",
+            "3 02:00",
+            "3 06:00"
+        ]);
+        expect(getShiftNumber(new Date(2026, 2, 3, 3), pattern)).toBe(3);
+        expect(getShiftNumber(new Date(2026, 2, 3, 6), pattern)).toBe(1);
+        expect(isShiftBoundary(new Date(2026, 2, 3, 16), pattern)).toBe(true);
+        expect(isShiftBoundary(new Date(2026, 2, 3, 17), pattern)).toBe(false);
+    });
+
+    it("formats hours without false precision", () => {
+        expect(formatHours(16)).toBe("16");
+        expect(formatHours(2.25)).toBe("2.3");
+    });
+});
@@ -2,7 +2,9 @@ import { describe, expect, it } from "vitest";
 
 import {
     calculateLongestPathMembership,
-    collectDrivingTraceMembership
+    calculateProjectLongestPathMemberships,
+    collectDrivingTraceMembership,
+    getDrivingConnectionGap
 } from "../../src/utils/LongestPathLogic";
 
 const task = (internalId: string, finish: string) => ({
@@ -90,6 +92,38 @@ describe("LongestPathLogic", () => {
         expect(relationships.map(item => item.isDriving)).toEqual([true, true, true, true]);
     });
 
+    it("keeps only driving routes from A to B and explains missing connections", () => {
+        const tasks = [
+            task("A", "2025-01-01"),
+            task("X", "2025-01-02"),
+            task("Y", "2025-01-02"),
+            task("B", "2025-01-03"),
+            task("SIDE", "2025-01-04"),
+            task("UP", "2025-01-01"),
+            task("LOOSE", "2025-01-05")
+        ];
+        const aToX = relationship("A", "X", true);
+        const aToY = relationship("A", "Y", true);
+        const xToB = relationship("X", "B", true);
+        const yToB = relationship("Y", "B", true);
+        const xToSide = relationship("X", "SIDE", true);
+        const upToB = relationship("UP", "B", true);
+        const softLink = relationship("B", "LOOSE", false);
+        const relationships = [aToX, aToY, xToB, yToB, xToSide, upToB, softLink];
+
+        const between = collectDrivingTraceMembership("A", "between", tasks, relationships, "B");
+
+        expect([...between.taskIds].sort()).toEqual(["A", "B", "X", "Y"]);
+        expect(between.relationships).toEqual(new Set([aToX, aToY, xToB, yToB]));
+        expect(collectDrivingTraceMembership("B", "between", tasks, relationships, "A").taskIds.size).toBe(0);
+        expect(getDrivingConnectionGap("A", "B", tasks, relationships)).toBeNull();
+        expect(getDrivingConnectionGap("B", "A", tasks, relationships)).toBe("reversed");
+        expect(getDrivingConnectionGap("A", "LOOSE", tasks, relationships)).toBe("nonDriving");
+        expect(getDrivingConnectionGap("SIDE", "LOOSE", tasks, relationships)).toBe("disconnected");
+        expect(getDrivingConnectionGap("A", "A", tasks, relationships)).toBe("sameTask");
+        expect(getDrivingConnectionGap("A", "GONE", tasks, relationships)).toBe("missingTask");
+    });
+
     it("does not traverse a negative relationship unless it is driving", () => {
         const tasks = [
             task("A", "2025-01-01"),
@@ -109,4 +143,29 @@ describe("LongestPathLogic", () => {
         expect([...backward.taskIds].sort()).toEqual(["A", "B"]);
         expect(backward.relationships).toEqual(new Set([driving]));
     });
+
+    it("finds each project's own latest finish and traces driving logic across projects", () => {
+        const tasks = [
+            { ...task("P1_A", "2025-01-05"), projectId: "P1" },
+            { ...task("P1_B", "2025-01-08"), projectId: "P1" },
+            { ...task("P2_A", "2025-01-12"), projectId: "P2" },
+            { ...task("P2_B", "2025-01-20"), projectId: "P2" },
+            task("UNASSIGNED", "2025-02-01")
+        ];
+        const p1Internal = relationship("P1_A", "P1_B", true);
+        const interProject = relationship("P1_A", "P2_A", true);
+        const p2Internal = relationship("P2_A", "P2_B", true);
+
+        const result = calculateProjectLongestPathMemberships(
+            tasks,
+            [p1Internal, interProject, p2Internal]
+        );
+
+        expect([...result.keys()]).toEqual(["P1", "P2"]);
+        expect(result.get("P1")!.finishTaskIds).toEqual(["P1_B"]);
+        expect([...result.get("P1")!.taskIds].sort()).toEqual(["P1_A", "P1_B"]);
+        expect(result.get("P2")!.finishTaskIds).toEqual(["P2_B"]);
+        expect([...result.get("P2")!.taskIds].sort()).toEqual(["P1_A", "P2_A", "P2_B"]);
+        expect(result.get("P2")!.relationships).toEqual(new Set([interProject, p2Internal]));
+    });
 });
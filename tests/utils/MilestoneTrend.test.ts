@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMilestoneTrend, formatMilestoneSlip } from "../../src/utils/MilestoneTrend";
+
+const day = (d: number): Date => new Date(2026, 0, d);
+
+const tasks = [
+    { internalId: "M2", type: "TT_FinMile", duration: 0, baselineFinishDate: day(10), previousUpdateFinishDate: day(12), finishDate: day(15) },
+    { internalId: "M1", type: "TT_Mile", duration: 0, baselineFinishDate: day(8), previousUpdateFinishDate: null, finishDate: day(6) },
+    { internalId: "T1", type: "TT_Task", duration: 5, baselineFinishDate: day(1), finishDate: day(30) },
+    { internalId: "Z", type: "", duration: 0, finishDate: day(20) }
+];
+
+describe("MilestoneTrend", () => {
+    it("builds one series per milestone across baseline, previous and current finishes", () => {
+        const trend = buildMilestoneTrend(tasks, { currentReportDate: day(5), treatZeroDurationAsMilestone: false });
+
+        expect(trend.reports.map(report => report.label)).toEqual(["Baseline", "Previous Update", "Current"]);
+        expect(trend.reports[2].reportDate).toEqual(day(5));
+        expect(trend.series.map(series => series.taskId)).toEqual(["M1", "M2"]);
+        expect(trend.series[0].finishes).toEqual([day(8), null, day(6)]);
+        expect(trend.series.map(series => formatMilestoneSlip(series.slipDays))).toEqual(["-2d", "+5d"]);
+        expect([trend.minFinish, trend.maxFinish]).toEqual([day(6), day(15)]);
+    });
+
+    it("drops reports without dates and can count zero-duration activities", () => {
+        const trend = buildMilestoneTrend(tasks.slice(2), { currentReportDate: null, treatZeroDurationAsMilestone: true });
+
+        expect(trend.reports.map(report => report.label)).toEqual(["Current"]);
+        expect(trend.series).toEqual([{ taskId: "Z", finishes: [day(20)], slipDays: null }]);
+        expect(buildMilestoneTrend([], { currentReportDate: null, treatZeroDurationAsMilestone: false }).minFinish).toBeNull();
+    });
+
+    it("uses one report per snapshot when there is a snapshot history", () => {
+        const snapshot = (date: number, finishes: Record<string, Date>) => ({
+            snapshotDate: day(date),
+            dataDate: null,
+            tasks: new Map(Object.entries(finishes).map(([taskId, finishDate]) => [taskId, {
+                startDate: null,
+                finishDate,
+                totalFloat: null,
+                actualStartDate: null,
+                actualFinishDate: null,
+                percentComplete: null
+            }]))
+        });
+        const trend = buildMilestoneTrend(tasks, {
+            currentReportDate: day(5),
+            treatZeroDurationAsMilestone: false,
+            snapshots: [snapshot(1, { M2: day(11) }), snapshot(3, { M2: day(13), M1: day(7) }), snapshot(5, { M2: day(15), M1: day(6) })]
+        });
+
+        expect(trend.reports.map(report => report.label)).toEqual(["Baseline", "Update 1", "Update 2", "Current"]);
+        expect(trend.reports.map(report => report.reportDate)).toEqual([null, day(1), day(3), day(5)]);
+        expect(trend.series.find(series => series.taskId === "M2")?.finishes).toEqual([day(10), day(11), day(13), day(15)]);
+        expect(trend.series.find(series => series.taskId === "M1")?.finishes).toEqual([day(8), null, day(7), day(6)]);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    buildFinishHistogram,
+    createSeededRandom,
+    getPercentileValue,
+    getWorkingDayFinishDate,
+    runMonteCarloSimulation,
+    sampleTriangular
+} from "../../src/utils/MonteCarloSimulation";
+import { createWorkingCalendar } from "../../src/utils/WorkingCalendar";
+
+const tasks = [
+    { internalId: "A", duration: 5, minDuration: 4, maxDuration: 20 },
+    { internalId: "B", duration: 10 },
+    { internalId: "C", duration: 6, minDuration: 6, maxDuration: 6 },
+    { internalId: "Done", duration: 3, actualFinishDate: new Date(2026, 0, 2) }
+];
+const relationships = [
+    { predecessorId: "Done", successorId: "A", type: "FS", lag: 0 },
+    { predecessorId: "A", successorId: "C", type: "FS", lag: 0 },
+    { predecessorId: "B", successorId: "C", type: "FS", lag: 0 }
+];
+
+describe("MonteCarloSimulation", () => {
+    it("repeats results for a seed and ranks criticality by how often a task drives the finish", () => {
+        const first = runMonteCarloSimulation(tasks, relationships, { iterations: 500, seed: 7 });
+        const second = runMonteCarloSimulation(tasks, relationships, { iterations: 500, seed: 7 });
+
+        expect(first.finishDays).toEqual(second.finishDays);
+        expect(first.deterministicFinishDays).toBe(16);
+        expect(first.rangedTaskCount).toBe(1);
+        expect(first.percentileFinishDays[50]).toBeLessThanOrEqual(first.percentileFinishDays[80]);
+        expect(first.percentileFinishDays[80]).toBeLessThanOrEqual(first.percentileFinishDays[90]);
+        expect(first.finishDays[0]).toBeGreaterThanOrEqual(16);
+        expect(first.criticalityIndex.get("C")).toBe(1);
+        expect(first.criticalityIndex.get("A")! + first.criticalityIndex.get("B")!).toBeGreaterThanOrEqual(1);
+        expect(first.criticalityIndex.get("A")!).toBeGreaterThan(0.3);
+        expect(first.criticalityIndex.get("A")!).toBeLessThan(0.55);
+        expect(first.criticalityIndex.has("Done")).toBe(false);
+    });
+
+    it("runs started tasks for their remaining duration from the data date", () => {
+        const started = [
+            { internalId: "Half", duration: 10, actualStartDate: new Date(2026, 0, 1), percentComplete: 50 },
+            { internalId: "Span", duration: 10, actualStartDate: new Date(2026, 0, 1), finishDate: new Date(2026, 0, 12) },
+            { internalId: "Ranged", duration: 10, actualStartDate: new Date(2026, 0, 1), percentComplete: 50, mostLikelyDuration: 2 }
+        ];
+        const options = { iterations: 10, seed: 1, anchor: new Date(2026, 0, 10), calendar: null };
+
+        const [half, span, ranged] = started.map(task => runMonteCarloSimulation([task], [], options).deterministicFinishDays);
+        expect(half).toBe(5);
+        expect(span).toBe(3);
+        expect(ranged).toBe(2);
+    });
+
+    it("stops on loops and provides sampling, percentile, histogram and date helpers", () => {
+        const looped = runMonteCarloSimulation(tasks, [...relationships, { predecessorId: "C", successorId: "A", type: "FS", lag: 0 }], { iterations: 100, seed: 1 });
+        expect(looped.blockedByCycle).toBe(true);
+
+        const random = createSeededRandom(3);
+        const values = Array.from({ length: 5 }, () => random());
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+        expect(createSeededRandom(3)()).toBe(values[0]);
+        expect(sampleTriangular(2, 5, 10, 0)).toBe(2);
+        expect(sampleTriangular(2, 5, 10, 1)).toBe(10);
+        expect(getPercentileValue([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 80)).toBe(8);
+
+        const bins = buildFinishHistogram([10, 11, 12, 20], 2);
+        expect(bins.map(bin => bin.count)).toEqual([3, 1]);
+        expect(bins[1].cumulative).toBe(1);
+
+        const weekdays = createWorkingCalendar("Standard", [false, true, true, true, true, true, false]);
+        expect(getWorkingDayFinishDate(new Date(2026, 0, 2), 2, weekdays)).toEqual(new Date(2026, 0, 5));
+        expect(getWorkingDayFinishDate(new Date(2026, 0, 2), 2, null)).toEqual(new Date(2026, 0, 3));
+    });
+});
@@ -41,4 +41,18 @@ describe("PathSelectorPresentation", () => {
         expect(formatPathSpanDays(Number.NaN).compact).toBe("0d");
         expect(formatPathSpanDays(-4).compact).toBe("0d");
     });
+
+    it("reports spans in calendar hours at hour resolution", () => {
+        expect(formatPathSpanDays(1.5, "hour")).toEqual({
+            compact: "36h",
+            spoken: "36 calendar hours"
+        });
+        expect(getPathSelectorVisibleLabel("medium", {
+            pathNumber: 1,
+            totalPaths: 2,
+            spanDays: 0.25,
+            activityCount: 4,
+            spanUnit: "hour"
+        })).toBe("LP 1/2 · 6h span");
+    });
 });
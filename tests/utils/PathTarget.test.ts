@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { buildPathTargetOptions, normalizePathTargetScope, resolvePathTargetTaskId } from "../../src/utils/PathTarget";
+
+interface TestTask {
+    internalId: string;
+    name: string;
+    finishDate: Date | null;
+    milestone: boolean;
+}
+
+const tasks: TestTask[] = [
+    { internalId: "M3", name: "Handover", finishDate: new Date(2026, 5, 1), milestone: true },
+    { internalId: "A1", name: "Design", finishDate: new Date(2026, 0, 20), milestone: false },
+    { internalId: "M1", name: "Sectional completion", finishDate: new Date(2026, 2, 1), milestone: true },
+    { internalId: "M2", name: "Access date", finishDate: null, milestone: true }
+];
+const isMilestone = (task: TestTask): boolean => task.milestone;
+
+describe("PathTarget", () => {
+    it("orders eligible targets by finish and keeps the current target beyond the cap", () => {
+        expect(buildPathTargetOptions(tasks, isMilestone, null).map(task => task.internalId)).toEqual(["M1", "M3", "M2"]);
+        expect(buildPathTargetOptions(tasks, () => true, null).map(task => task.internalId)).toEqual(["A1", "M1", "M3", "M2"]);
+        expect(buildPathTargetOptions(tasks, isMilestone, "M2", 1).map(task => task.internalId)).toEqual(["M1", "M2"]);
+    });
+
+    it("falls back to the latest finish when the stored target is missing or ineligible", () => {
+        const byId = new Map(tasks.map(task => [task.internalId, task]));
+
+        expect(resolvePathTargetTaskId("M1", byId, isMilestone)).toBe("M1");
+        expect(resolvePathTargetTaskId("A1", byId, isMilestone)).toBeNull();
+        expect(resolvePathTargetTaskId("gone", byId, () => true)).toBeNull();
+        expect(normalizePathTargetScope("any")).toBe("any");
+        expect(normalizePathTargetScope(undefined)).toBe("milestones");
+    });
+});
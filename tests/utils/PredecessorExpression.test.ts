@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    parseLagWithUnit,
+    parsePredecessorExpression,
+    parsePredecessorToken
+} from "../../src/utils/PredecessorExpression";
+
+describe("PredecessorExpression", () => {
+    it("converts lag units to days", () => {
+        expect(parseLagWithUnit("+5d")).toEqual({ days: 5, percent: null });
+        expect(parseLagWithUnit("-2w")).toEqual({ days: -10, percent: null });
+        expect(parseLagWithUnit("+4h")).toEqual({ days: 0.5, percent: null });
+        expect(parseLagWithUnit("+3ed")).toEqual({ days: 3, percent: null });
+        expect(parseLagWithUnit("+50%")).toEqual({ days: null, percent: 50 });
+        expect(parseLagWithUnit("+1w", { hoursPerDay: 10, daysPerWeek: 6 })).toEqual({ days: 6, percent: null });
+        expect(parseLagWithUnit("+5q")).toBeNull();
+    });
+
+    it("parses type suffixes and keeps IDs that only look like lags", () => {
+        expect(parsePredecessorToken("A1010")).toEqual({ text: "A1010", predecessorId: "A1010", type: null, lag: null });
+        expect(parsePredecessorToken("A1020ss")?.type).toBe("SS");
+        expect(parsePredecessorToken("EL-100")?.predecessorId).toBe("EL-100");
+        expect(parsePredecessorToken("EL-100FF+2d")).toMatchObject({ predecessorId: "EL-100", type: "FF", lag: { days: 2 } });
+    });
+
+    it("keeps IDs that end in type letters whole unless a lag follows", () => {
+        expect(parsePredecessorToken("ACCESS")).toEqual({ text: "ACCESS", predecessorId: "ACCESS", type: null, lag: null });
+        expect(parsePredecessorToken("PROOFS")).toEqual({ text: "PROOFS", predecessorId: "PROOFS", type: null, lag: null });
+        expect(parsePredecessorToken("PROOFSFS+1d")).toMatchObject({ predecessorId: "PROOFS", type: "FS", lag: { days: 1 } });
+    });
+
+    it("splits a delimited list and reports unparseable tokens", () => {
+        const result = parsePredecessorExpression("A1010FS+5d; A1020SS-2d,A1030;;FS+1d;A1040FF+5q;A 1050");
+
+        expect(result.tokens.map(token => [token.predecessorId, token.type, token.lag?.days ?? null])).toEqual([
+            ["A1010", "FS", 5],
+            ["A1020", "SS", -2],
+            ["A1030", null, null]
+        ]);
+        expect(result.invalidTokens).toEqual(["FS+1d", "A1040FF+5q", "A 1050"]);
+    });
+});
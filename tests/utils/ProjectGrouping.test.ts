@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    collectInterProjectLinks,
+    isInterProjectRelationship,
+    parsePersistedProjectPathSelections,
+    serializeProjectPathSelections
+} from "../../src/utils/ProjectGrouping";
+
+describe("ProjectGrouping", () => {
+    it("only treats relationships between two different projects as inter-project", () => {
+        expect(isInterProjectRelationship({ projectId: "P1" }, { projectId: "P2" })).toBe(true);
+        expect(isInterProjectRelationship({ projectId: "P1" }, { projectId: "P1" })).toBe(false);
+        expect(isInterProjectRelationship({ projectId: "P1" }, { projectId: null })).toBe(false);
+        expect(isInterProjectRelationship(undefined, { projectId: "P2" })).toBe(false);
+    });
+
+    it("aggregates inter-project relationships per project pair", () => {
+        const tasksById = new Map([
+            ["A", { projectId: "P1" }],
+            ["B", { projectId: "P1" }],
+            ["C", { projectId: "P2" }],
+            ["D", { projectId: "P3" }]
+        ]);
+
+        const links = collectInterProjectLinks(tasksById, [
+            { predecessorId: "C", successorId: "D", isDriving: false },
+            { predecessorId: "A", successorId: "C", isDriving: true },
+            { predecessorId: "B", successorId: "C", isDriving: false },
+            { predecessorId: "A", successorId: "B", isDriving: true },
+            { predecessorId: "A", successorId: "MISSING", isDriving: true }
+        ]);
+
+        expect(links).toEqual([
+            { fromProjectId: "P1", toProjectId: "P2", relationshipCount: 2, drivingCount: 1 },
+            { fromProjectId: "P2", toProjectId: "P3", relationshipCount: 1, drivingCount: 0 }
+        ]);
+    });
+
+    it("round-trips per-project selections as one-based indices and ignores malformed state", () => {
+        const selections = new Map([["P2", 3], ["P1", 0]]);
+        const serialized = serializeProjectPathSelections(selections);
+
+        expect(serialized).toBe('{"P1":1,"P2":4}');
+        expect(parsePersistedProjectPathSelections(serialized)).toEqual(selections);
+        expect(parsePersistedProjectPathSelections('{"P1":0,"P2":"3","P3":2}')).toEqual(new Map([["P3", 1]]));
+        expect(parsePersistedProjectPathSelections("not json").size).toBe(0);
+        expect(parsePersistedProjectPathSelections("").size).toBe(0);
+    });
+});
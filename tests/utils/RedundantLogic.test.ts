@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { findRedundantRelationships } from "../../src/utils/RedundantLogic";
+
+interface TestRelationship {
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number | null;
+}
+
+function byPredecessor(relationships: TestRelationship[]): Map<string, TestRelationship[]> {
+    const map = new Map<string, TestRelationship[]>();
+    for (const relationship of relationships) {
+        map.set(relationship.predecessorId, [...(map.get(relationship.predecessorId) ?? []), relationship]);
+    }
+    return map;
+}
+
+const tasks = ["A", "B", "C", "D"].map(internalId => ({ internalId, duration: 5 }));
+
+describe("RedundantLogic", () => {
+    it("flags links implied by a longer route and keeps links with more lag", () => {
+        const ab = { predecessorId: "A", successorId: "B", type: "FS", lag: 0 };
+        const bc = { predecessorId: "B", successorId: "C", type: "FS", lag: 0 };
+        const ac = { predecessorId: "A", successorId: "C", type: "FS", lag: 0 };
+        const ad = { predecessorId: "A", successorId: "D", type: "FS", lag: 20 };
+        const cd = { predecessorId: "C", successorId: "D", type: "FS", lag: 0 };
+
+        const redundant = findRedundantRelationships(tasks, byPredecessor([ab, bc, ac, ad, cd]));
+        expect(Array.from(redundant!)).toEqual([ac]);
+        expect(findRedundantRelationships(tasks, byPredecessor([ab, bc, ac, ad, cd]), { searchBudget: 2 })).toBeNull();
+
+        const shortLag = { ...ad, lag: 10 };
+        expect(findRedundantRelationships(tasks, byPredecessor([ab, bc, shortLag, cd]))!.has(shortLag)).toBe(true);
+
+        const bd = { predecessorId: "B", successorId: "D", type: "FS", lag: 0 };
+        const fanIn = [ab, { ...ad, lag: 0 }, bd, { ...cd }];
+        expect(Array.from(findRedundantRelationships(tasks, byPredecessor(fanIn))!)).toEqual([fanIn[1]]);
+    });
+
+    it("accounts for relationship types, durations, duplicates and loops", () => {
+        const ssWithFs = [
+            { predecessorId: "A", successorId: "B", type: "FS", lag: 0 },
+            { predecessorId: "A", successorId: "B", type: "SS", lag: 3 }
+        ];
+        expect(Array.from(findRedundantRelationships(tasks, byPredecessor(ssWithFs))!)).toEqual([ssWithFs[1]]);
+
+        const ssBeyondDuration = [ssWithFs[0], { ...ssWithFs[1], lag: 8 }];
+        expect(findRedundantRelationships(tasks, byPredecessor(ssBeyondDuration))!.size).toBe(0);
+
+        const duplicates = [
+            { predecessorId: "A", successorId: "B", type: "FS", lag: 0 },
+            { predecessorId: "A", successorId: "B", type: "FS", lag: 2 }
+        ];
+        expect(Array.from(findRedundantRelationships(tasks, byPredecessor(duplicates))!)).toEqual([duplicates[0]]);
+
+        const looped = [
+            { predecessorId: "A", successorId: "B", type: "FS", lag: 0 },
+            { predecessorId: "B", successorId: "C", type: "FS", lag: 0 },
+            { predecessorId: "A", successorId: "C", type: "FS", lag: 0 },
+            { predecessorId: "C", successorId: "A", type: "FS", lag: 0 }
+        ];
+        expect(findRedundantRelationships(tasks, byPredecessor(looped))!.size).toBe(0);
+    });
+
+    it("routes through the stronger of two links joining the same events", () => {
+        const milestoneB = tasks.map(task => task.internalId === "B" ? { ...task, duration: 0 } : task);
+        const weak = { predecessorId: "A", successorId: "B", type: "FS", lag: 0 };
+        const strong = { predecessorId: "A", successorId: "B", type: "FS", lag: 5 };
+        const bc = { predecessorId: "B", successorId: "C", type: "FS", lag: 0 };
+        const ac = { predecessorId: "A", successorId: "C", type: "FS", lag: 3 };
+
+        const redundant = findRedundantRelationships(milestoneB, byPredecessor([weak, strong, bc, ac]));
+        expect(Array.from(redundant!)).toEqual([weak, ac]);
+    });
+});
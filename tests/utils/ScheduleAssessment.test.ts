@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    assessSchedule,
+    DEFAULT_DCMA_THRESHOLDS,
+    formatDcmaValue
+} from "../../src/utils/ScheduleAssessment";
+import type { DcmaCheckId, ScheduleAssessmentTask } from "../../src/utils/ScheduleAssessment";
+
+const dataDate = new Date(2026, 1, 1);
+const tasks: ScheduleAssessmentTask[] = [
+    {
+        internalId: "Done", type: "TT_Task", duration: 5, userProvidedTotalFloat: 0,
+        startDate: new Date(2026, 0, 5), finishDate: new Date(2026, 0, 10),
+        actualStartDate: new Date(2026, 0, 5), actualFinishDate: new Date(2026, 0, 10),
+        baselineFinishDate: new Date(2026, 0, 9)
+    },
+    {
+        internalId: "A", type: "TT_Task", duration: 6, userProvidedTotalFloat: 0,
+        startDate: new Date(2026, 1, 2), finishDate: new Date(2026, 3, 30),
+        baselineFinishDate: new Date(2026, 0, 30)
+    },
+    {
+        internalId: "B", type: "TT_Task", duration: 60, userProvidedTotalFloat: 50,
+        startDate: new Date(2026, 0, 20), finishDate: new Date(2026, 3, 20)
+    },
+    {
+        internalId: "C", type: "TT_FinMile", duration: 0, userProvidedTotalFloat: 0,
+        startDate: new Date(2026, 3, 30), finishDate: new Date(2026, 3, 30)
+    },
+    {
+        internalId: "LOE", type: "TT_LOE", duration: 80,
+        startDate: new Date(2026, 0, 1), finishDate: new Date(2026, 3, 30)
+    }
+];
+const relationships = [
+    { predecessorId: "Done", successorId: "A", type: "FS", lag: -1 },
+    { predecessorId: "A", successorId: "C", type: "FS", lag: 0 },
+    { predecessorId: "B", successorId: "C", type: "FS", lag: 3 },
+    { predecessorId: "LOE", successorId: "C", type: "SS", lag: 0 }
+];
+
+function byId(result: ReturnType<typeof assessSchedule>, id: DcmaCheckId) {
+    return result.checks.find(check => check.id === id)!;
+}
+
+describe("ScheduleAssessment", () => {
+    it("scores the fourteen points and lists the offending activities", () => {
+        const result = assessSchedule(tasks, relationships, { dataDate, thresholds: DEFAULT_DCMA_THRESHOLDS, calendar: null });
+
+        expect(result.checks.map(check => check.number)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+        expect(byId(result, "logic")).toMatchObject({ status: "fail", population: 3, offendingTaskIds: ["B", "C"] });
+        expect(byId(result, "leads")).toMatchObject({ status: "fail", population: 3, offendingTaskIds: ["A"] });
+        expect(byId(result, "lags")).toMatchObject({ status: "fail", offendingTaskIds: ["C"] });
+        expect(byId(result, "relationshipTypes")).toMatchObject({ status: "pass", value: 100 });
+        expect(byId(result, "hardConstraints").status).toBe("pass");
+        expect(byId(result, "highFloat")).toMatchObject({ status: "fail", offendingTaskIds: ["B"] });
+        expect(byId(result, "negativeFloat").status).toBe("pass");
+        expect(byId(result, "highDuration")).toMatchObject({ status: "fail", population: 2, offendingTaskIds: ["B"] });
+        expect(byId(result, "invalidDates")).toMatchObject({ status: "fail", offendingTaskIds: ["B"] });
+        expect(byId(result, "resources").status).toBe("notAssessed");
+        expect(byId(result, "missedTasks")).toMatchObject({ status: "fail", value: 100, offendingTaskIds: ["Done", "A"] });
+        expect(byId(result, "criticalPathTest").status).toBe("pass");
+        expect(byId(result, "cpli")).toMatchObject({ status: "pass", value: 1 });
+        expect(byId(result, "bei")).toMatchObject({ status: "fail", value: 0.5, offendingTaskIds: ["A"] });
+        expect(result.passCount + result.failCount).toBe(13);
+        expect(result.missingBaselineTaskIds).toEqual(["B", "C"]);
+        expect(formatDcmaValue(byId(result, "logic"))).toBe("66.7%");
+        expect(formatDcmaValue(byId(result, "bei"))).toBe("0.50");
+    });
+
+    it("honours thresholds and skips date checks without a Data Date", () => {
+        const relaxed = { ...DEFAULT_DCMA_THRESHOLDS, logicMaxPercent: 70, highFloatDays: 60 };
+        const result = assessSchedule(tasks, relationships, { dataDate: null, thresholds: relaxed, calendar: null });
+
+        expect(byId(result, "logic").status).toBe("pass");
+        expect(byId(result, "highFloat").status).toBe("pass");
+        expect(byId(result, "invalidDates").status).toBe("notAssessed");
+        expect(byId(result, "missedTasks").status).toBe("notAssessed");
+        expect(byId(result, "cpli").status).toBe("notAssessed");
+        expect(byId(result, "bei").status).toBe("notAssessed");
+
+        const offPath = assessSchedule(
+            tasks.map(task => task.internalId === "B" ? { ...task, userProvidedTotalFloat: -2 } : task),
+            relationships,
+            { dataDate, thresholds: DEFAULT_DCMA_THRESHOLDS, calendar: null }
+        );
+        expect(byId(offPath, "negativeFloat")).toMatchObject({ status: "fail", offendingTaskIds: ["B"] });
+        expect(byId(offPath, "criticalPathTest")).toMatchObject({ status: "fail", offendingTaskIds: ["B"] });
+    });
+});
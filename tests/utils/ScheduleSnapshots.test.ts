@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    PREVIOUS_UPDATE_FIELD_REFERENCE,
+    applyReferenceSnapshot,
+    applySnapshotState,
+    getPlaybackFrameDelay,
+    getSlipTrail,
+    getSnapshotKey,
+    resolveReferenceSnapshot
+} from "../../src/utils/ScheduleSnapshots";
+import type { ScheduleSnapshot } from "../../src/data/Interfaces";
+
+const day = (d: number): Date => new Date(2026, 0, d);
+
+const snapshot = (date: number, finishes: Record<string, number>): ScheduleSnapshot => ({
+    snapshotDate: day(date),
+    dataDate: null,
+    tasks: new Map(Object.entries(finishes).map(([taskId, finish]) => [taskId, {
+        startDate: day(1),
+        finishDate: day(finish),
+        totalFloat: finish,
+        actualStartDate: day(1),
+        actualFinishDate: null,
+        percentComplete: date
+    }]))
+});
+
+const history = [
+    snapshot(1, { A: 10, B: 20 }),
+    snapshot(8, { A: 12, B: 20 }),
+    snapshot(15, { A: 12, B: 18 }),
+    snapshot(22, { A: 14, B: 20 })
+];
+
+describe("ScheduleSnapshots", () => {
+    it("lists each earlier finish a task has moved away from", () => {
+        expect(getSlipTrail(history, "A")).toEqual([
+            { snapshotDate: day(1), finishDate: day(10) },
+            { snapshotDate: day(8), finishDate: day(12) }
+        ]);
+        expect(getSlipTrail(history, "B")).toEqual([
+            { snapshotDate: day(1), finishDate: day(20) },
+            { snapshotDate: day(15), finishDate: day(18) }
+        ]);
+        expect(getSlipTrail(history.slice(0, 2), "B")).toEqual([]);
+        expect(getSlipTrail(history, "missing")).toEqual([]);
+    });
+
+    it("resolves the comparison update and applies it as the previous update", () => {
+        expect(resolveReferenceSnapshot(history, "", false)).toBe(history[2]);
+        expect(resolveReferenceSnapshot(history, "", true)).toBeNull();
+        expect(resolveReferenceSnapshot(history, PREVIOUS_UPDATE_FIELD_REFERENCE, true)).toBeNull();
+        expect(resolveReferenceSnapshot(history, getSnapshotKey(history[0]), true)).toBe(history[0]);
+        expect(resolveReferenceSnapshot(history, getSnapshotKey(history[3]), false)).toBe(history[2]);
+        expect(resolveReferenceSnapshot(history.slice(0, 1), "", false)).toBeNull();
+
+        const tasks = [
+            { internalId: "A", previousUpdateFinishDate: day(99) as Date | null },
+            { internalId: "C", previousUpdateFinishDate: day(99) as Date | null }
+        ];
+        applyReferenceSnapshot(tasks, history[1]);
+        expect(tasks).toEqual([
+            { internalId: "A", previousUpdateStartDate: day(1), previousUpdateFinishDate: day(12), previousUpdateTotalFloat: 12 },
+            { internalId: "C", previousUpdateStartDate: null, previousUpdateFinishDate: null, previousUpdateTotalFloat: null }
+        ]);
+    });
+
+    it("replaces task dates, float and progress with a playback frame's state", () => {
+        const current = () => ({
+            startDate: day(2) as Date | null,
+            finishDate: day(30) as Date | null,
+            userProvidedTotalFloat: 0 as number | undefined,
+            actualStartDate: day(2) as Date | null,
+            actualFinishDate: day(30) as Date | null,
+            percentComplete: 100 as number | null
+        });
+        const tasks = [{ internalId: "B", ...current() }, { internalId: "C", ...current() }];
+        applySnapshotState(tasks, history[2]);
+        expect(tasks).toEqual([
+            {
+                internalId: "B",
+                startDate: day(1),
+                finishDate: day(18),
+                userProvidedTotalFloat: 18,
+                actualStartDate: day(1),
+                actualFinishDate: null,
+                percentComplete: 15
+            },
+            {
+                internalId: "C",
+                startDate: null,
+                finishDate: null,
+                userProvidedTotalFloat: undefined,
+                actualStartDate: null,
+                actualFinishDate: null,
+                percentComplete: null
+            }
+        ]);
+        expect([0.5, 1, 4, 0].map(getPlaybackFrameDelay)).toEqual([3000, 1500, 375, 1500]);
+    });
+});
@@ -154,4 +154,71 @@ describe("TaskBarGeometry", () => {
         expect(geometry.extentStart?.toISOString()).toBe("2026-05-18T00:00:00.000Z");
         expect(geometry.extentFinish?.toISOString()).toBe("2026-05-18T00:00:00.000Z");
     });
+
+    it("draws completed activities as a single actual segment regardless of bar date mode", () => {
+        const completedTask = task({
+            actualStartDate: utcDate(2),
+            actualFinishDate: utcDate(9)
+        });
+
+        const geometry = getCurrentTaskBarGeometry(completedTask, "hybridActualEarly", utcDate(20));
+
+        expect(geometry.segments.map(segment => segment.kind)).toEqual(["actual"]);
+        expect(geometry.hasSplit).toBe(false);
+        expect(geometry.labelStartDate?.toISOString()).toBe("2026-05-02T00:00:00.000Z");
+        expect(geometry.labelFinishDate?.toISOString()).toBe("2026-05-09T00:00:00.000Z");
+    });
+
+    it("splits in-progress activities into actual and remaining segments at the data date", () => {
+        const inProgressTask = task({
+            startDate: utcDate(4),
+            finishDate: utcDate(15),
+            manualStartDate: null,
+            manualFinishDate: null,
+            actualStartDate: utcDate(4),
+            percentComplete: 50
+        });
+
+        const geometry = getCurrentTaskBarGeometry(inProgressTask, "startFinishOverride", utcDate(9));
+
+        expect(geometry.segments.map(segment => segment.kind)).toEqual(["actual", "remaining"]);
+        expect(geometry.segments[0].finish.toISOString()).toBe("2026-05-09T00:00:00.000Z");
+        expect(geometry.segments[1].start.toISOString()).toBe("2026-05-09T00:00:00.000Z");
+        expect(geometry.segments[1].finish.toISOString()).toBe("2026-05-15T00:00:00.000Z");
+        expect(geometry.sortDate?.toISOString()).toBe("2026-05-04T00:00:00.000Z");
+        expect(geometry.percentCompleteSegment?.start.toISOString()).toBe("2026-05-04T00:00:00.000Z");
+        expect(geometry.percentCompleteSegment?.finish.toISOString()).toBe("2026-05-09T12:00:00.000Z");
+    });
+
+    it("leaves a gap before remaining work that resumes after the data date", () => {
+        const suspendedTask = task({
+            startDate: utcDate(12),
+            finishDate: utcDate(16),
+            manualStartDate: null,
+            manualFinishDate: null,
+            actualStartDate: utcDate(3)
+        });
+
+        const geometry = getCurrentTaskBarGeometry(suspendedTask, "startFinishOverride", utcDate(7));
+
+        expect(geometry.hasSplit).toBe(true);
+        expect(geometry.segments.map(segment => [segment.kind, segment.start.toISOString(), segment.finish.toISOString()])).toEqual([
+            ["actual", "2026-05-03T00:00:00.000Z", "2026-05-07T00:00:00.000Z"],
+            ["remaining", "2026-05-12T00:00:00.000Z", "2026-05-16T00:00:00.000Z"]
+        ]);
+        expect(geometry.percentCompleteSegment).toBeNull();
+    });
+
+    it("plots milestones with actual dates on the actual date", () => {
+        const finishMilestone = task({
+            type: "TT_FinMile",
+            duration: 0,
+            actualStartDate: utcDate(3),
+            actualFinishDate: utcDate(6)
+        });
+
+        const geometry = getCurrentTaskBarGeometry(finishMilestone, "startFinishOverride", utcDate(20));
+
+        expect(geometry.milestoneDate?.toISOString()).toBe("2026-05-06T00:00:00.000Z");
+    });
 });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    buildTimescaleCells,
+    chooseTimescaleTiers,
+    getFiscalQuarter,
+    getFiscalYear,
+    getWeekNumber,
+    normalizeTimescaleOptions
+} from "../../src/utils/Timescale";
+
+describe("Timescale", () => {
+    it("normalises fiscal year and week numbering settings", () => {
+        expect(normalizeTimescaleOptions("7", "us")).toEqual({ fiscalYearStartMonth: 7, weekNumbering: "us" });
+        expect(normalizeTimescaleOptions("13", "other")).toEqual({ fiscalYearStartMonth: 1, weekNumbering: "iso" });
+    });
+
+    it("numbers weeks using ISO and US rules", () => {
+        expect(getWeekNumber(new Date(2026, 0, 1), "iso")).toEqual({ year: 2026, week: 1 });
+        expect(getWeekNumber(new Date(2027, 0, 1), "iso")).toEqual({ year: 2026, week: 53 });
+        expect(getWeekNumber(new Date(2027, 0, 1), "us")).toEqual({ year: 2027, week: 1 });
+        expect(getWeekNumber(new Date(2026, 11, 27), "us")).toEqual({ year: 2026, week: 53 });
+    });
+
+    it("names fiscal years after the year in which they end", () => {
+        const options = normalizeTimescaleOptions(7, "iso");
+
+        expect(getFiscalYear(new Date(2026, 6, 1), options)).toBe(2027);
+        expect(getFiscalYear(new Date(2026, 5, 30), options)).toBe(2026);
+        expect(getFiscalQuarter(new Date(2026, 9, 15), options)).toBe(2);
+
+        const quarters = buildTimescaleCells(new Date(2026, 5, 15), new Date(2026, 11, 1), "quarter", options);
+        expect(quarters.map(cell => cell.labels[0])).toEqual(["Q4 FY26", "Q1 FY27", "Q2 FY27"]);
+        expect(quarters[1].start).toEqual(new Date(2026, 6, 1));
+
+        const years = buildTimescaleCells(new Date(2026, 5, 15), new Date(2026, 7, 1), "year", options);
+        expect(years.map(cell => cell.labels[0])).toEqual(["FY2026", "FY2027"]);
+    });
+
+    it("chooses finer tiers as the zoom level increases", () => {
+        expect(chooseTimescaleTiers(30, 6, 2)).toEqual(["month", "day"]);
+        expect(chooseTimescaleTiers(30, 6, 3)).toEqual(["month", "week", "day"]);
+        expect(chooseTimescaleTiers(5, 6, 3)).toEqual(["year", "month", "week"]);
+        expect(chooseTimescaleTiers(0.5, 6, 3)).toEqual(["year", "quarter"]);
+        expect(chooseTimescaleTiers(0.05, 6, 2)).toEqual(["year"]);
+    });
+
+    it("starts week cells on Monday for ISO and Sunday for US numbering", () => {
+        const start = new Date(2026, 4, 6);
+        const end = new Date(2026, 4, 12);
+
+        const isoWeeks = buildTimescaleCells(start, end, "week", normalizeTimescaleOptions(1, "iso"));
+        expect(isoWeeks[0].start).toEqual(new Date(2026, 4, 4));
+        expect(isoWeeks[0].labels).toEqual(["W19 (04-May)", "W19", "19"]);
+
+        const usWeeks = buildTimescaleCells(start, end, "week", normalizeTimescaleOptions(1, "us"));
+        expect(usWeeks[0].start).toEqual(new Date(2026, 4, 3));
+        expect(usWeeks.map(cell => cell.labels[1])).toEqual(["W19", "W20"]);
+    });
+});
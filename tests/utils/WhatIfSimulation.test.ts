@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import { isWhatIfScenarioActive, simulateWhatIf } from "../../src/utils/WhatIfSimulation";
+import type { WhatIfRelationshipLike } from "../../src/utils/WhatIfSimulation";
+
+interface TestTask {
+    internalId: string;
+    startDate: Date;
+    finishDate: Date;
+}
+
+function task(internalId: string, startDay: number, finishDay: number): TestTask {
+    return { internalId, startDate: new Date(2026, 0, startDay), finishDate: new Date(2026, 0, finishDay) };
+}
+
+function link(predecessorId: string, successorId: string, type: string, lag: number | null = null, freeFloat?: number | null): WhatIfRelationshipLike {
+    return { predecessorId, successorId, type, lag, freeFloat };
+}
+
+function byId(tasks: TestTask[]): Map<string, TestTask> {
+    return new Map(tasks.map(item => [item.internalId, item]));
+}
+
+describe("WhatIfSimulation", () => {
+    it("pushes a delay through FS, SS and FF links and absorbs it in available slack", () => {
+        const tasks = byId([
+            task("A", 1, 6),
+            task("B", 6, 10),
+            task("C", 3, 8),
+            task("D", 14, 16),
+            task("E", 8, 12)
+        ]);
+        const relationships = [
+            link("A", "B", "FS"),
+            link("A", "C", "SS", 2),
+            link("B", "D", "FS"),
+            link("C", "E", "FF", 4)
+        ];
+
+        const result = simulateWhatIf(tasks, relationships, { taskId: "A", delayDays: 10, durationChangeDays: 0 });
+
+        expect(result.blockedByCycle).toBe(false);
+        expect(result.impacts.get("A")).toMatchObject({ startShiftDays: 10, finishShiftDays: 10, simulatedStart: new Date(2026, 0, 11) });
+        expect(result.impacts.get("B")!.finishShiftDays).toBe(10);
+        expect(result.impacts.get("C")!.startShiftDays).toBe(10);
+        expect(result.impacts.get("D")).toMatchObject({ startShiftDays: 6, simulatedFinish: new Date(2026, 0, 22) });
+        expect(result.impacts.get("E")!.finishShiftDays).toBe(10);
+    });
+
+    it("uses imported relationship free float before the observed gap", () => {
+        const tasks = byId([task("A", 1, 5), task("B", 10, 12)]);
+
+        const observed = simulateWhatIf(tasks, [link("A", "B", "FS")], { taskId: "A", delayDays: 7, durationChangeDays: 0 });
+        const imported = simulateWhatIf(tasks, [link("A", "B", "FS", null, 1)], { taskId: "A", delayDays: 7, durationChangeDays: 0 });
+
+        expect(observed.impacts.get("B")!.startShiftDays).toBe(2);
+        expect(imported.impacts.get("B")!.startShiftDays).toBe(6);
+    });
+
+    it("changes the selected duration without pulling successors in or touching the inputs", () => {
+        const a = task("A", 1, 5);
+        const tasks = byId([a, task("B", 5, 8)]);
+        const relationships = [link("A", "B", "FS")];
+
+        const longer = simulateWhatIf(tasks, relationships, { taskId: "A", delayDays: 0, durationChangeDays: 3 });
+        const shorter = simulateWhatIf(tasks, relationships, { taskId: "A", delayDays: 0, durationChangeDays: -10 });
+
+        expect(longer.impacts.get("A")).toMatchObject({ startShiftDays: 0, finishShiftDays: 3 });
+        expect(longer.impacts.get("B")!.startShiftDays).toBe(3);
+        expect(shorter.impacts.get("A")!.simulatedFinish).toEqual(a.startDate);
+        expect(shorter.impacts.has("B")).toBe(false);
+        expect(a.finishDate).toEqual(new Date(2026, 0, 5));
+    });
+
+    it("ignores empty scenarios and stops on loops downstream of the selected task", () => {
+        const tasks = byId([task("A", 1, 2), task("B", 2, 3), task("C", 3, 4)]);
+
+        expect(isWhatIfScenarioActive({ taskId: "A", delayDays: 0, durationChangeDays: 0 })).toBe(false);
+        expect(simulateWhatIf(tasks, [], { taskId: "A", delayDays: 0, durationChangeDays: 0 }).impacts.size).toBe(0);
+
+        const looped = simulateWhatIf(
+            tasks,
+            [link("A", "B", "FS"), link("B", "C", "FS"), link("C", "B", "FS")],
+            { taskId: "A", delayDays: 2, durationChangeDays: 0 }
+        );
+        expect(looped.blockedByCycle).toBe(true);
+        expect(looped.impacts.size).toBe(0);
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    countWorkingDays,
+    createWorkingCalendar,
+    getNonWorkingRanges,
+    mergeWorkingCalendars,
+    parseCalendarDefinitions,
+    parseWorkDaysSpec,
+    resolveWorkingCalendar
+} from "../../src/utils/WorkingCalendar";
+
+describe("WorkingCalendar", () => {
+    it("parses day ranges, day lists, wrap-around weeks, and Monday-first masks", () => {
+        expect(parseWorkDaysSpec("Mon-Fri")).toEqual([false, true, true, true, true, true, false]);
+        expect(parseWorkDaysSpec("Sun-Thu")).toEqual([true, true, true, true, true, false, false]);
+        expect(parseWorkDaysSpec("Fri-Mon")).toEqual([true, true, false, false, false, true, true]);
+        expect(parseWorkDaysSpec("Mon, Wed, Fri")).toEqual([false, true, false, true, false, true, false]);
+        expect(parseWorkDaysSpec("1111110")).toEqual([false, true, true, true, true, true, true]);
+        expect(parseWorkDaysSpec("Weekdays")).toBeNull();
+        expect(parseWorkDaysSpec("")).toBeNull();
+    });
+
+    it("parses format-pane definitions with holiday ranges and reports bad entries", () => {
+        const result = parseCalendarDefinitions(
+            "5-Day: Mon-Fri except 2026-12-25, 2026-12-31..2027-01-01; 6-Day\nBad: Someday; Site: Mon-Fri except 2026-13-01"
+        );
+
+        const fiveDay = result.calendars.get("5-day");
+        expect([...(fiveDay?.holidays ?? [])]).toEqual(["2026-12-25", "2026-12-31", "2027-01-01"]);
+        expect(result.calendars.get("6-day")?.workDays).toEqual([false, true, true, true, true, true, true]);
+        expect(result.calendars.has("bad")).toBe(false);
+        expect(result.errors).toEqual([
+            'Calendar "Bad" has an unrecognised work week "Someday"',
+            'Calendar "Site" has an unrecognised exception "2026-13-01"'
+        ]);
+    });
+
+    it("layers definitions over row calendars and infers undefined calendars from their name", () => {
+        const rowCalendar = createWorkingCalendar("Site");
+        rowCalendar.holidays.add("2026-12-25");
+        const merged = mergeWorkingCalendars(
+            new Map([["site", rowCalendar]]),
+            parseCalendarDefinitions("SITE: Mon-Sat except 2026-12-26").calendars
+        );
+
+        expect(merged.get("site")?.workDays[6]).toBe(true);
+        expect([...(merged.get("site")?.holidays ?? [])]).toEqual(["2026-12-25", "2026-12-26"]);
+        expect(rowCalendar.holidays.size).toBe(1);
+        expect(resolveWorkingCalendar(merged, "7 Day")?.workDays.every(Boolean)).toBe(true);
+        expect(resolveWorkingCalendar(merged, "Standard")).toBeNull();
+    });
+
+    it("counts working days up to the finish and merges non-working ranges", () => {
+        const calendar = parseCalendarDefinitions("5-Day: Mon-Fri except 2026-12-25").calendars.get("5-day")!;
+
+        // Mon 21 Dec to Mon 28 Dec 2026 skips the weekend and Christmas Day.
+        expect(countWorkingDays(calendar, new Date(2026, 11, 21), new Date(2026, 11, 28))).toBe(4);
+        expect(countWorkingDays(calendar, new Date(2026, 11, 21, 8), new Date(2026, 11, 21, 17))).toBe(1);
+        expect(countWorkingDays(calendar, new Date(2026, 11, 28), new Date(2026, 11, 21))).toBe(0);
+
+        const ranges = getNonWorkingRanges(calendar, new Date(2026, 11, 21), new Date(2026, 11, 28));
+        expect(ranges.map(range => [range.start.getDate(), range.end.getDate()])).toEqual([[25, 28]]);
+    });
+});